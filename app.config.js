@@ -0,0 +1,15 @@
+// Settings that differ per build are read from the environment on top of app.json,
+// so keys are never committed. GOOGLE_MAPS_ANDROID_API_KEY is needed for the event map on Android.
+module.exports = ({ config }) => {
+  const googleMapsApiKey = process.env.GOOGLE_MAPS_ANDROID_API_KEY;
+
+  return {
+    ...config,
+    android: {
+      ...config.android,
+      ...(googleMapsApiKey
+        ? { config: { ...config.android?.config, googleMaps: { apiKey: googleMapsApiKey } } }
+        : {}),
+    },
+  };
+};
@@ -2,55 +2,51 @@ import React, { useState } from 'react';
 import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert, KeyboardAvoidingView, Platform, ScrollView } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useRouter } from 'expo-router';
-import { Phone, User, ArrowRight, Loader } from 'lucide-react-native';
+import { Phone, Lock, ArrowRight, Loader } from 'lucide-react-native';
 import { useAuth } from '@/context/AuthContext';
+import { AuthError } from '@/services/accounts';
 import { useI18n } from '@/context/I18nContext';
 
 export default function Login() {
   const [phone, setPhone] = useState('');
-  const [name, setName] = useState('');
-  const [otp, setOtp] = useState('');
+  const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [showOtpField, setShowOtpField] = useState(false);
   const router = useRouter();
   const { login } = useAuth();
   const { t } = useI18n();
 
-  const handleSendOtp = async () => {
-    if (!name.trim()) {
-      Alert.alert('Error', 'Please enter your name');
-      return;
+  const getErrorMessage = (error: unknown): string => {
+    if (error instanceof AuthError) {
+      switch (error.code) {
+        case 'unknown_phone':
+          return 'No account is registered with this phone number';
+        case 'wrong_password':
+          return 'The password you entered is incorrect';
+        case 'session_expired':
+          return 'Your session has expired, please sign in again';
+      }
     }
+    return 'Sign in failed, please try again';
+  };
 
+  const handleLogin = async () => {
     if (!phone.trim() || phone.length < 10) {
       Alert.alert('Error', 'Please enter a valid phone number');
       return;
     }
 
-    setIsLoading(true);
-    
-    // Simulate API call to send OTP
-    setTimeout(() => {
-      setIsLoading(false);
-      setShowOtpField(true);
-      Alert.alert('OTP Sent', `Verification code sent to ${phone}`);
-    }, 1500);
-  };
-
-  const handleVerifyOtp = async () => {
-    if (!otp || otp.length !== 5) {
-      Alert.alert('Error', 'Please enter the 5-digit verification code');
+    if (!password) {
+      Alert.alert('Error', 'Please enter your password');
       return;
     }
 
     setIsLoading(true);
     
     try {
-      // Simulate OTP verification
-      await login(phone, name);
+      await login(phone, password);
       router.replace('/(tabs)');
     } catch (error) {
-      Alert.alert('Error', 'Invalid verification code');
+      Alert.alert('Error', getErrorMessage(error));
     } finally {
       setIsLoading(false);
     }
@@ -73,99 +69,52 @@ export default function Login() {
             </View>
 
             <View style={styles.form}>
-              {!showOtpField ? (
-                <>
-                  <View style={styles.inputContainer}>
-                    <User size={20} color="#6B7280" style={styles.icon} />
-                    <TextInput
-                      style={styles.input}
-                      placeholder="Full Name"
-                      placeholderTextColor="#9CA3AF"
-                      value={name}
-                      onChangeText={setName}
-                      autoCapitalize="words"
-                    />
-                  </View>
-
-                  <View style={styles.inputContainer}>
-                    <Phone size={20} color="#6B7280" style={styles.icon} />
-                    <TextInput
-                      style={styles.input}
-                      placeholder="Phone Number"
-                      placeholderTextColor="#9CA3AF"
-                      value={phone}
-                      onChangeText={setPhone}
-                      keyboardType="phone-pad"
-                      maxLength={15}
-                    />
-                  </View>
-
-                  <TouchableOpacity
-                    style={styles.button}
-                    onPress={handleSendOtp}
-                    disabled={isLoading}
-                  >
-                    {isLoading ? (
-                      <Loader size={20} color="white" />
-                    ) : (
-                      <>
-                        <Text style={styles.buttonText}>Send Verification Code</Text>
-                        <ArrowRight size={20} color="white" />
-                      </>
-                    )}
-                  </TouchableOpacity>
-                </>
-              ) : (
-                <>
-                  <Text style={styles.otpText}>
-                    Enter the 5-digit code sent to {phone}
-                  </Text>
+              <View style={styles.inputContainer}>
+                <Phone size={20} color="#6B7280" style={styles.icon} />
+                <TextInput
+                  style={styles.input}
+                  placeholder="Phone Number"
+                  placeholderTextColor="#9CA3AF"
+                  value={phone}
+                  onChangeText={setPhone}
+                  keyboardType="phone-pad"
+                  maxLength={15}
+                />
+              </View>
 
-                  <View style={styles.otpContainer}>
-                    {[0, 1, 2, 3, 4].map((index) => (
-                      <TextInput
-                        key={index}
-                        style={styles.otpInput}
-                        keyboardType="number-pad"
-                        maxLength={1}
-                        value={otp[index] || ''}
-                        onChangeText={(text) => {
-                          const newOtp = [...otp];
-                          newOtp[index] = text;
-                          setOtp(newOtp.join(''));
-                          
-                          // Auto focus next input
-                          if (text && index < 4) {
-                            // Focus next input
-                          }
-                        }}
-                      />
-                    ))}
-                  </View>
+              <View style={styles.inputContainer}>
+                <Lock size={20} color="#6B7280" style={styles.icon} />
+                <TextInput
+                  style={styles.input}
+                  placeholder="Password"
+                  placeholderTextColor="#9CA3AF"
+                  value={password}
+                  onChangeText={setPassword}
+                  secureTextEntry
+                />
+              </View>
 
-                  <TouchableOpacity
-                    style={styles.button}
-                    onPress={handleVerifyOtp}
-                    disabled={isLoading}
-                  >
-                    {isLoading ? (
-                      <Loader size={20} color="white" />
-                    ) : (
-                      <>
-                        <Text style={styles.buttonText}>Verify & Sign In</Text>
-                        <ArrowRight size={20} color="white" />
-                      </>
-                    )}
-                  </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.button}
+                onPress={handleLogin}
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <Loader size={20} color="white" />
+                ) : (
+                  <>
+                    <Text style={styles.buttonText}>Sign In</Text>
+                    <ArrowRight size={20} color="white" />
+                  </>
+                )}
+              </TouchableOpacity>
 
-                  <TouchableOpacity
-                    style={styles.resendLink}
-                    onPress={handleSendOtp}
-                  >
-                    <Text style={styles.resendText}>Resend Code</Text>
-                  </TouchableOpacity>
-                </>
-              )}
+              <TouchableOpacity
+                style={styles.registerLink}
+                onPress={() => router.push('/(auth)/register')}
+              >
+                <Text style={styles.registerText}>Create a new account</Text>
+              </TouchableOpacity>
             </View>
           </View>
         </LinearGradient>
@@ -246,33 +195,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginRight: 8,
   },
-  otpText: {
-    fontSize: 16,
-    color: '#6B7280',
-    textAlign: 'center',
-    marginBottom: 24,
-  },
-  otpContainer: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    marginBottom: 24,
-  },
-  otpInput: {
-    width: 48,
-    height: 48,
-    borderWidth: 2,
-    borderColor: '#E5E7EB',
-    borderRadius: 8,
-    textAlign: 'center',
-    fontSize: 18,
-    fontWeight: '600',
-    color: '#1F2937',
-  },
-  resendLink: {
+  registerLink: {
     alignItems: 'center',
     marginTop: 16,
   },
-  resendText: {
+  registerText: {
     color: '#7C3AED',
     fontSize: 16,
     fontWeight: '500',
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert, ScrollView, Image } from 'react-native';
 import { router } from 'expo-router';
 import { useAuth } from '@/context/AuthContext';
+import { AuthError } from '@/services/accounts';
 import { useI18n } from '@/context/I18nContext';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -35,7 +36,13 @@ export default function Register() {
       await register({ name, email, phone, password, accountType });
       router.replace('/(tabs)');
     } catch (error) {
-      Alert.alert(t('error'), 'Registration failed');
+      if (error instanceof AuthError && error.code === 'phone_taken') {
+        Alert.alert(t('error'), 'يوجد حساب مسجل بهذا الرقم بالفعل');
+      } else if (error instanceof AuthError && error.code === 'invalid_input') {
+        Alert.alert(t('error'), 'يجب أن تتكون كلمة المرور من 6 أحرف على الأقل');
+      } else {
+        Alert.alert(t('error'), 'Registration failed');
+      }
     } finally {
       setIsLoading(false);
     }
@@ -5,20 +5,33 @@ import { useI18n } from '@/context/I18nContext';
 import { useTheme } from '@/context/ThemeContext';
 import { useEvents, Booking } from '@/context/EventContext';
 import { useAuth } from '@/context/AuthContext';
+import { getRefundQuote } from '@/utils/cancellationPolicy';
+import { PaymentError } from '@/services/paymentProvider';
+import { getHeldTickets, isBookingVisibleTo } from '@/utils/attendees';
+import { getBookingEvent } from '@/utils/eventSessions';
+import {
+  addBookingToCalendar,
+  getBookingsFeedUrl,
+  isBookingInCalendar,
+  removeBookingFromCalendar,
+  subscribeToBookingsCalendar,
+} from '@/utils/calendarExport';
 import { router } from 'expo-router';
-import { Calendar, MapPin, Users, QrCode, Download, X, Ticket } from 'lucide-react-native';
+import { Calendar, CalendarPlus, MapPin, Users, QrCode, Download, X, Ticket, Rss } from 'lucide-react-native';
 import { useSharedValue, useAnimatedScrollHandler, runOnJS } from 'react-native-reanimated';
 import Animated from 'react-native-reanimated';
 
 const { height } = Dimensions.get('window');
 
 const statusColors = {
+  pending: '#F59E0B',
   confirmed: '#10B981',
   cancelled: '#EF4444',
   used: '#6B7280',
 };
 
 const statusLabels = {
+  pending: 'بانتظار الدفع',
   confirmed: 'مؤكد',
   cancelled: 'ملغي',
   used: 'مستخدم',
@@ -33,10 +46,17 @@ export default function BookingsScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const scrollY = useSharedValue(0);
 
-  const userBookings = bookings.filter(booking => booking.userId === user?.id);
+  // Bookings of events with sessions show the date and time of the booked session
+  const getEventOfBooking = (booking: Booking) => {
+    const event = getEventById(booking.eventId);
+    return event && getBookingEvent(event, booking);
+  };
+
+  // Includes bookings with tickets other people transferred to the user
+  const userBookings = bookings.filter(booking => !!user && isBookingVisibleTo(booking, user.id));
 
   const filteredBookings = userBookings.filter(booking => {
-    const event = getEventById(booking.eventId);
+    const event = getEventOfBooking(booking);
     if (!event) return false;
 
     const eventDate = new Date(event.date);
@@ -86,10 +106,25 @@ export default function BookingsScreen() {
     }, 1000);
   }, []);
 
-  const handleCancelBooking = (bookingId: string) => {
+  const handleCancelBooking = (booking: Booking) => {
+    const event = getEventOfBooking(booking);
+    if (!event) return;
+
+    const quote = getRefundQuote(booking, event);
+    if (!quote.allowed) {
+      Alert.alert('لا يمكن الإلغاء', 'لا يمكن إلغاء الحجز بعد بدء الفعالية');
+      return;
+    }
+
+    const refundMessage = quote.paidAmount === 0
+      ? 'لم يتم دفع أي مبلغ لهذا الحجز.'
+      : quote.refundAmount > 0
+        ? `سيتم استرداد ${quote.refundAmount} د.ل (${quote.refundPercent}% من المبلغ المدفوع) حسب سياسة الإلغاء.`
+        : 'لا يحق لك استرداد أي مبلغ حسب سياسة الإلغاء لهذه الفعالية.';
+
     Alert.alert(
       'إلغاء الحجز',
-      'هل أنت متأكد من رغبتك في إلغاء هذا الحجز؟',
+      `هل أنت متأكد من رغبتك في إلغاء هذا الحجز؟\n${refundMessage}`,
       [
         { text: 'لا', style: 'cancel' },
         {
@@ -97,10 +132,30 @@ export default function BookingsScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              await cancelBooking(bookingId);
-              Alert.alert('تم الإلغاء', 'تم إلغاء الحجز بنجاح');
+              await cancelBooking(booking.id);
+              const cancelledMessage = quote.refundAmount > 0
+                ? `تم إلغاء الحجز وسيتم استرداد ${quote.refundAmount} د.ل`
+                : 'تم إلغاء الحجز بنجاح';
+
+              // An entry added to the calendar is removed by opening its cancellation
+              if (await isBookingInCalendar(booking.id)) {
+                Alert.alert('تم الإلغاء', `${cancelledMessage}\nهل تريد إزالة الفعالية من تقويمك؟`, [
+                  { text: 'لاحقاً', style: 'cancel' },
+                  {
+                    text: 'إزالة من التقويم',
+                    onPress: () => removeBookingFromCalendar({ ...booking, status: 'cancelled' }, event),
+                  },
+                ]);
+              } else {
+                Alert.alert('تم الإلغاء', cancelledMessage);
+              }
             } catch (error) {
-              Alert.alert('خطأ', 'فشل في إلغاء الحجز');
+              Alert.alert(
+                'خطأ',
+                error instanceof PaymentError
+                  ? 'تعذر استرداد المبلغ، ولم يتم إلغاء الحجز. يرجى المحاولة لاحقاً'
+                  : 'فشل في إلغاء الحجز'
+              );
             }
           },
         },
@@ -108,13 +163,48 @@ export default function BookingsScreen() {
     );
   };
 
-  const renderBookingCard = (booking: Booking) => {
+  const handleAddToCalendar = async (booking: Booking) => {
     const event = getEventById(booking.eventId);
+    if (!event) return;
+
+    const added = await addBookingToCalendar(booking, event);
+    if (!added) {
+      Alert.alert('خطأ', 'تعذر إضافة الحجز إلى التقويم');
+    }
+  };
+
+  // The feed link is signed by the events API, so it is fetched for each account
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setFeedUrl(null);
+    if (!user) return;
+    let isCurrent = true;
+    getBookingsFeedUrl(user.id).then(url => {
+      if (isCurrent) setFeedUrl(url);
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [user?.id]);
+
+  const handleSubscribe = async () => {
+    if (!user) return;
+
+    const subscribed = await subscribeToBookingsCalendar(user.id);
+    if (!subscribed) {
+      Alert.alert('خطأ', 'تعذر فتح تطبيق التقويم');
+    }
+  };
+
+  const renderBookingCard = (booking: Booking) => {
+    const event = getEventOfBooking(booking);
     if (!event) return null;
 
     const title = locale === 'ar' ? event.titleAr : event.title;
     const location = locale === 'ar' ? event.locationAr : event.location;
     const isUpcoming = new Date(event.date) >= new Date() && booking.status === 'confirmed';
+    const isBuyer = booking.userId === user?.id;
 
     return (
       <View key={booking.id} style={[styles.bookingCard, { backgroundColor: theme.colors.surface }]}>
@@ -136,10 +226,10 @@ export default function BookingsScreen() {
               </View>
             </View>
 
-            {booking.status === 'confirmed' && isUpcoming && (
+            {booking.status === 'confirmed' && isUpcoming && isBuyer && (
               <TouchableOpacity
                 style={styles.cancelButton}
-                onPress={() => handleCancelBooking(booking.id)}
+                onPress={() => handleCancelBooking(booking)}
                 activeOpacity={0.7}
               >
                 <X size={16} color="#EF4444" />
@@ -165,7 +255,9 @@ export default function BookingsScreen() {
             <View style={styles.bookingDetail}>
               <Ticket size={16} color={theme.colors.textSecondary} />
               <Text style={[styles.bookingDetailText, { color: theme.colors.textSecondary }]}>
-                {booking.ticketCount} تذكرة - {booking.totalPrice} د.ل
+                {isBuyer
+                  ? `${booking.ticketCount} تذكرة - ${booking.totalPrice} د.ل`
+                  : `${getHeldTickets(booking, user?.id || '').length} تذكرة منقولة إليك`}
               </Text>
             </View>
           </View>
@@ -190,6 +282,16 @@ export default function BookingsScreen() {
             >
               <Download size={16} color={theme.colors.textSecondary} />
             </TouchableOpacity>
+
+            {booking.status === 'confirmed' && isUpcoming && (
+              <TouchableOpacity
+                style={[styles.actionButton, { backgroundColor: theme.colors.background }]}
+                onPress={() => handleAddToCalendar(booking)}
+                activeOpacity={0.7}
+              >
+                <CalendarPlus size={16} color={theme.colors.textSecondary} />
+              </TouchableOpacity>
+            )}
           </View>
 
           <Text style={[styles.bookingDate, { color: theme.colors.textSecondary }]}>
@@ -224,6 +326,22 @@ export default function BookingsScreen() {
       fontFamily: 'Cairo-Bold',
       color: theme.colors.text,
     },
+    subscribeButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      paddingVertical: 8,
+      marginBottom: 12,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.colors.primary,
+    },
+    subscribeButtonText: {
+      fontSize: 14,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.primary,
+    },
     filterTabs: {
       flexDirection: 'row',
       backgroundColor: theme.colors.background,
@@ -395,6 +513,13 @@ export default function BookingsScreen() {
         <View style={styles.headerTop}>
           <Text style={styles.headerTitle}>{t('bookings')}</Text>
         </View>
+
+        {feedUrl && (
+          <TouchableOpacity style={styles.subscribeButton} onPress={handleSubscribe} activeOpacity={0.7}>
+            <Rss size={16} color={theme.colors.primary} />
+            <Text style={styles.subscribeButtonText}>الاشتراك في تقويم حجوزاتي</Text>
+          </TouchableOpacity>
+        )}
         
         {/* Filter Tabs */}
         <View style={styles.filterTabs}>
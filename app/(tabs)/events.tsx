@@ -1,17 +1,44 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Image, TextInput, Platform, Dimensions } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, Image, TextInput, Platform, Dimensions, Share, Alert, ScrollView } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useI18n } from '@/context/I18nContext';
 import { useTheme } from '@/context/ThemeContext';
 import { useEvents, Event } from '@/context/EventContext';
+import { useLocation } from '@/context/LocationContext';
 import { useLocalSearchParams, router } from 'expo-router';
-import { Search, SlidersHorizontal, MapPin, Calendar, Users, Building2, GraduationCap, Heart, PartyPopper, Clapperboard, Ribbon } from 'lucide-react-native';
+import { getTotalCapacity } from '@/utils/eventSessions';
+import { Search, SlidersHorizontal, MapPin, Calendar, Users, Building2, GraduationCap, Heart, PartyPopper, Clapperboard, Ribbon, List, Map as MapIcon, Navigation, Share as ShareIcon, X } from 'lucide-react-native';
 import LanguageSwitcher from '@/components/LanguageSwitcher';
+import EventMap from '@/components/EventMap';
+import LocationPrompt from '@/components/LocationPrompt';
+import { formatDistance } from '@/utils/geo';
+import {
+  EventDateRange,
+  EventFilters,
+  DEFAULT_EVENT_FILTERS,
+  countActiveFilters,
+  filterEvents,
+  getCityOptions,
+  getEventFiltersUrl,
+  getOrganizerOptions,
+  isEventSoldOut,
+  parseEventFilters,
+  toEventFilterParams,
+} from '@/utils/eventFilters';
 import { useSharedValue, useAnimatedScrollHandler, runOnJS } from 'react-native-reanimated';
 import Animated from 'react-native-reanimated';
 
 const { height } = Dimensions.get('window');
 
+const dateRangeOptions: { key: EventDateRange; label: string }[] = [
+  { key: 'any', label: 'أي وقت' },
+  { key: 'today', label: 'اليوم' },
+  { key: 'weekend', label: 'نهاية هذا الأسبوع' },
+  { key: 'week', label: 'هذا الأسبوع' },
+  { key: 'month', label: 'هذا الشهر' },
+  { key: 'custom', label: 'تاريخ مخصص' },
+];
+
 const categoryIcons = {
   government: Building2,
   schools: GraduationCap,
@@ -24,14 +51,23 @@ const categoryIcons = {
 export default function EventsScreen() {
   const { t, isRTL, locale } = useI18n();
   const { theme } = useTheme();
-  const { events, getEventsByCategory, searchEvents } = useEvents();
+  const { events, searchEvents } = useEvents();
+  const { location: userLocation, getDistanceTo, requestLocation } = useLocation();
   const params = useLocalSearchParams();
-  
+
+  // The filters live in the route's search params, so links open the same view
+  const filters = parseEventFilters(params);
+  const filtersKey = JSON.stringify(toEventFilterParams(filters));
+  const { search: searchQuery, category: selectedCategory, sort: sortBy } = filters;
+  const activeFilterCount = countActiveFilters(filters);
+  const organizerOptions = getOrganizerOptions(events);
+  const cityOptions = getCityOptions(events);
+
   const [filteredEvents, setFilteredEvents] = useState<Event[]>(events);
-  const [searchQuery, setSearchQuery] = useState(params.search as string || '');
-  const [selectedCategory, setSelectedCategory] = useState<string>(params.category as string || 'all');
-  const [sortBy, setSortBy] = useState<'date' | 'price' | 'popularity'>('date');
+  // Typed dates and prices apply once they are complete
+  const [drafts, setDrafts] = useState({ from: '', to: '', minPrice: '', maxPrice: '' });
   const [showFilters, setShowFilters] = useState(false);
+  const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
   const [showLanguageSwitcher, setShowLanguageSwitcher] = useState(true);
   const scrollY = useSharedValue(0);
 
@@ -60,7 +96,16 @@ export default function EventsScreen() {
 
   useEffect(() => {
     applyFilters();
-  }, [searchQuery, selectedCategory, sortBy, events]);
+  }, [filtersKey, events, userLocation]);
+
+  useEffect(() => {
+    setDrafts({
+      from: filters.from || '',
+      to: filters.to || '',
+      minPrice: filters.minPrice !== undefined ? String(filters.minPrice) : '',
+      maxPrice: filters.maxPrice !== undefined ? String(filters.maxPrice) : '',
+    });
+  }, [filters.from, filters.to, filters.minPrice, filters.maxPrice]);
 
   const applyFilters = () => {
     let filtered = events;
@@ -70,20 +115,24 @@ export default function EventsScreen() {
       filtered = searchEvents(searchQuery);
     }
 
-    // Apply category filter
-    if (selectedCategory !== 'all') {
-      filtered = getEventsByCategory(selectedCategory as Event['category']);
-    }
+    // Apply category, date, price, availability, organizer and city filters
+    filtered = filterEvents(filtered, filters);
 
     // Apply sorting
     filtered = [...filtered].sort((a, b) => {
       switch (sortBy) {
+        case 'relevance':
+          // Search results are already ranked; the sort keeps their order
+          return 0;
         case 'date':
           return new Date(a.date).getTime() - new Date(b.date).getTime();
         case 'price':
           return a.price - b.price;
         case 'popularity':
           return b.currentAttendees - a.currentAttendees;
+        case 'distance':
+          // Events without a place on the map go last
+          return (getDistanceTo(a) ?? Infinity) - (getDistanceTo(b) ?? Infinity);
         default:
           return 0;
       }
@@ -92,6 +141,83 @@ export default function EventsScreen() {
     setFilteredEvents(filtered);
   };
 
+  const updateFilters = (changes: Partial<EventFilters>) => {
+    // Unset params are dropped from the route; the router's typing only lists strings
+    router.setParams(toEventFilterParams({ ...filters, ...changes }) as Record<string, string>);
+  };
+
+  const handleSearch = (query: string) => {
+    // Search results come best match first until another order is picked
+    let sort = sortBy;
+    if (query.trim() && sortBy === 'date') {
+      sort = 'relevance';
+    } else if (!query.trim() && sortBy === 'relevance') {
+      sort = 'date';
+    }
+    updateFilters({ search: query, sort });
+  };
+
+  const handleSortBy = (option: typeof sortBy) => {
+    updateFilters({ sort: option });
+    // Try the device location first; the prompt below offers a city otherwise
+    if (option === 'distance' && !userLocation) {
+      requestLocation();
+    }
+  };
+
+  // Dates apply once complete and prices once they are numbers; clearing a field removes its filter
+  const handleDraftEnd = (field: keyof typeof drafts) => {
+    const value = drafts[field].trim();
+    if (field === 'from' || field === 'to') {
+      const date = parseEventFilters({ [field]: value })[field];
+      if (!value || date) {
+        updateFilters({ [field]: date });
+        return;
+      }
+    } else {
+      const price = Number(value);
+      if (!value || (isFinite(price) && price >= 0)) {
+        updateFilters({ [field]: value ? price : undefined });
+        return;
+      }
+    }
+    // Anything else goes back to the filter in use
+    const current = filters[field];
+    setDrafts(previous => ({ ...previous, [field]: current !== undefined ? String(current) : '' }));
+  };
+
+  const handleClearFilters = () => {
+    updateFilters(DEFAULT_EVENT_FILTERS);
+  };
+
+  // Clears the filters panel, keeping the search, category and sort order
+  const handleClearPanel = () => {
+    updateFilters({ ...DEFAULT_EVENT_FILTERS, search: searchQuery, category: selectedCategory, sort: sortBy });
+  };
+
+  const handleShareFilters = async () => {
+    try {
+      const url = getEventFiltersUrl(filters);
+      const message = `فعاليات على ميعاد\n${url}`;
+
+      if (Platform.OS === 'web') {
+        if (navigator.share) {
+          await navigator.share({ title: 'فعاليات على ميعاد', url });
+        } else {
+          await navigator.clipboard.writeText(url);
+          Alert.alert('تم النسخ!', 'تم نسخ رابط نتائج البحث إلى الحافظة');
+        }
+      } else {
+        await Share.share({
+          message: Platform.OS === 'ios' ? 'فعاليات على ميعاد' : message,
+          url: Platform.OS === 'ios' ? url : undefined,
+        });
+      }
+    } catch (error) {
+      console.error('Error sharing filters:', error);
+    }
+  };
+
   const handleBookNow = (eventId: string) => {
     router.push(`/booking/${eventId}`);
   };
@@ -103,6 +229,7 @@ export default function EventsScreen() {
     const description = locale === 'ar' ? event.descriptionAr : event.description;
 
     const CategoryIcon = categoryIcons[event.category];
+    const distance = getDistanceTo(event);
 
     return (
       <TouchableOpacity
@@ -141,10 +268,18 @@ export default function EventsScreen() {
               <MapPin size={16} color={theme.colors.textSecondary} />
               <Text style={[styles.eventDetailText, { color: theme.colors.textSecondary }]} numberOfLines={1}>{location}</Text>
             </View>
+            {distance !== null && (
+              <View style={styles.eventDetail}>
+                <Navigation size={16} color={theme.colors.textSecondary} />
+                <Text style={[styles.eventDetailText, { color: theme.colors.textSecondary }]}>
+                  على بعد {formatDistance(distance)}
+                </Text>
+              </View>
+            )}
             <View style={styles.eventDetail}>
               <Users size={16} color={theme.colors.textSecondary} />
               <Text style={[styles.eventDetailText, { color: theme.colors.textSecondary }]}>
-                {event.currentAttendees}/{event.maxAttendees} مشارك
+                {event.currentAttendees}/{getTotalCapacity(event)} مشارك{isEventSoldOut(event) ? ' · نفدت التذاكر' : ''}
               </Text>
             </View>
           </View>
@@ -187,6 +322,20 @@ export default function EventsScreen() {
       fontFamily: 'Cairo-Bold',
       color: theme.colors.text,
     },
+    viewModeButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 8,
+      backgroundColor: theme.colors.background,
+    },
+    viewModeButtonText: {
+      fontSize: 14,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.primary,
+    },
     searchContainer: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -245,6 +394,7 @@ export default function EventsScreen() {
       color: 'white',
     },
     sortContainer: {
+      maxHeight: height * 0.5, // the list stays in view below
       borderTopWidth: 1,
       borderTopColor: theme.colors.border,
       paddingTop: 16,
@@ -257,6 +407,7 @@ export default function EventsScreen() {
     },
     sortOptions: {
       flexDirection: 'row',
+      flexWrap: 'wrap',
       gap: 8,
     },
     sortOption: {
@@ -276,6 +427,64 @@ export default function EventsScreen() {
     sortOptionTextActive: {
       color: 'white',
     },
+    locationPrompt: {
+      marginTop: 12,
+    },
+    filterSectionLabel: {
+      marginTop: 16,
+    },
+    filterBadge: {
+      position: 'absolute',
+      top: 2,
+      right: 2,
+      minWidth: 16,
+      height: 16,
+      borderRadius: 8,
+      paddingHorizontal: 4,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: theme.colors.primary,
+    },
+    filterBadgeText: {
+      fontSize: 10,
+      fontFamily: 'Cairo-Bold',
+      color: 'white',
+    },
+    filterInputs: {
+      flexDirection: 'row',
+      gap: 8,
+      marginTop: 8,
+    },
+    filterInput: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      fontSize: 14,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.text,
+      textAlign: isRTL ? 'right' : 'left',
+    },
+    filterActions: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginTop: 16,
+    },
+    filterAction: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      paddingVertical: 6,
+    },
+    filterActionText: {
+      fontSize: 14,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.primary,
+    },
+    filterActionTextDisabled: {
+      color: theme.colors.textSecondary,
+    },
     eventsContainer: {
       padding: 20,
       paddingBottom: 100, // Add padding for tab bar
@@ -424,6 +633,18 @@ export default function EventsScreen() {
       <View style={styles.header}>
         <View style={styles.headerTop}>
           <Text style={styles.headerTitle}>{t('events')}</Text>
+          <TouchableOpacity
+            style={styles.viewModeButton}
+            onPress={() => setViewMode(viewMode === 'list' ? 'map' : 'list')}
+            activeOpacity={0.7}
+          >
+            {viewMode === 'list' ? (
+              <MapIcon size={18} color={theme.colors.primary} />
+            ) : (
+              <List size={18} color={theme.colors.primary} />
+            )}
+            <Text style={styles.viewModeButtonText}>{viewMode === 'list' ? 'الخريطة' : 'القائمة'}</Text>
+          </TouchableOpacity>
         </View>
         
         {/* Search Bar */}
@@ -434,7 +655,7 @@ export default function EventsScreen() {
             placeholder={t('searchEvents')}
             placeholderTextColor={theme.colors.textSecondary}
             value={searchQuery}
-            onChangeText={setSearchQuery}
+            onChangeText={handleSearch}
             textAlign={isRTL ? 'right' : 'left'}
           />
           <TouchableOpacity
@@ -442,7 +663,12 @@ export default function EventsScreen() {
             onPress={() => setShowFilters(!showFilters)}
             activeOpacity={0.7}
           >
-            <SlidersHorizontal size={20} color={theme.colors.textSecondary} />
+            <SlidersHorizontal size={20} color={activeFilterCount > 0 ? theme.colors.primary : theme.colors.textSecondary} />
+            {activeFilterCount > 0 && (
+              <View style={styles.filterBadge}>
+                <Text style={styles.filterBadgeText}>{activeFilterCount}</Text>
+              </View>
+            )}
           </TouchableOpacity>
         </View>
 
@@ -463,7 +689,7 @@ export default function EventsScreen() {
                   styles.categoryChip,
                   isActive && styles.categoryChipActive
                 ]}
-                onPress={() => setSelectedCategory(category.key)}
+                onPress={() => updateFilters({ category: category.key as EventFilters['category'] })}
                 activeOpacity={0.7}
               >
                 <CategoryIcon 
@@ -482,15 +708,17 @@ export default function EventsScreen() {
           })}
         </Animated.ScrollView>
 
-        {/* Sort Options */}
+        {/* Sort Options and Filters */}
         {showFilters && (
-          <View style={styles.sortContainer}>
+          <ScrollView style={styles.sortContainer} showsVerticalScrollIndicator={false}>
             <Text style={styles.sortLabel}>ترتيب حسب:</Text>
             <View style={styles.sortOptions}>
               {[
+                ...(searchQuery.trim() ? [{ key: 'relevance', label: 'الأكثر صلة' }] : []),
                 { key: 'date', label: 'التاريخ' },
                 { key: 'price', label: 'السعر' },
                 { key: 'popularity', label: 'الشعبية' },
+                { key: 'distance', label: 'المسافة' },
               ].map((option) => (
                 <TouchableOpacity
                   key={option.key}
@@ -498,7 +726,7 @@ export default function EventsScreen() {
                     styles.sortOption,
                     sortBy === option.key && styles.sortOptionActive
                   ]}
-                  onPress={() => setSortBy(option.key as any)}
+                  onPress={() => handleSortBy(option.key as typeof sortBy)}
                   activeOpacity={0.7}
                 >
                   <Text style={[
@@ -510,41 +738,194 @@ export default function EventsScreen() {
                 </TouchableOpacity>
               ))}
             </View>
-          </View>
+            {sortBy === 'distance' && !userLocation && (
+              <View style={styles.locationPrompt}>
+                <LocationPrompt />
+              </View>
+            )}
+
+            <Text style={[styles.sortLabel, styles.filterSectionLabel]}>التاريخ:</Text>
+            <View style={styles.sortOptions}>
+              {dateRangeOptions.map((option) => (
+                <TouchableOpacity
+                  key={option.key}
+                  style={[
+                    styles.sortOption,
+                    filters.dateRange === option.key && styles.sortOptionActive
+                  ]}
+                  onPress={() => updateFilters({ dateRange: option.key })}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[
+                    styles.sortOptionText,
+                    filters.dateRange === option.key && styles.sortOptionTextActive
+                  ]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {filters.dateRange === 'custom' && (
+              <View style={styles.filterInputs}>
+                <TextInput
+                  style={styles.filterInput}
+                  placeholder="من (YYYY-MM-DD)"
+                  placeholderTextColor={theme.colors.textSecondary}
+                  value={drafts.from}
+                  onChangeText={(from) => setDrafts({ ...drafts, from })}
+                  onBlur={() => handleDraftEnd('from')}
+                />
+                <TextInput
+                  style={styles.filterInput}
+                  placeholder="إلى (YYYY-MM-DD)"
+                  placeholderTextColor={theme.colors.textSecondary}
+                  value={drafts.to}
+                  onChangeText={(to) => setDrafts({ ...drafts, to })}
+                  onBlur={() => handleDraftEnd('to')}
+                />
+              </View>
+            )}
+
+            <Text style={[styles.sortLabel, styles.filterSectionLabel]}>السعر (د.ل):</Text>
+            <View style={styles.sortOptions}>
+              <TouchableOpacity
+                style={[styles.sortOption, filters.freeOnly && styles.sortOptionActive]}
+                onPress={() => updateFilters({ freeOnly: !filters.freeOnly })}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.sortOptionText, filters.freeOnly && styles.sortOptionTextActive]}>
+                  مجانية فقط
+                </Text>
+              </TouchableOpacity>
+            </View>
+            {!filters.freeOnly && (
+              <View style={styles.filterInputs}>
+                <TextInput
+                  style={styles.filterInput}
+                  placeholder="من"
+                  placeholderTextColor={theme.colors.textSecondary}
+                  keyboardType="numeric"
+                  value={drafts.minPrice}
+                  onChangeText={(minPrice) => setDrafts({ ...drafts, minPrice })}
+                  onBlur={() => handleDraftEnd('minPrice')}
+                />
+                <TextInput
+                  style={styles.filterInput}
+                  placeholder="إلى"
+                  placeholderTextColor={theme.colors.textSecondary}
+                  keyboardType="numeric"
+                  value={drafts.maxPrice}
+                  onChangeText={(maxPrice) => setDrafts({ ...drafts, maxPrice })}
+                  onBlur={() => handleDraftEnd('maxPrice')}
+                />
+              </View>
+            )}
+
+            <Text style={[styles.sortLabel, styles.filterSectionLabel]}>التوفر:</Text>
+            <View style={styles.sortOptions}>
+              <TouchableOpacity
+                style={[styles.sortOption, filters.hideSoldOut && styles.sortOptionActive]}
+                onPress={() => updateFilters({ hideSoldOut: !filters.hideSoldOut })}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.sortOptionText, filters.hideSoldOut && styles.sortOptionTextActive]}>
+                  إخفاء الفعاليات المكتملة
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            {cityOptions.length > 0 && (
+              <>
+                <Text style={[styles.sortLabel, styles.filterSectionLabel]}>المدينة:</Text>
+                <View style={styles.sortOptions}>
+                  {cityOptions.map((city) => (
+                    <TouchableOpacity
+                      key={city.id}
+                      style={[styles.sortOption, filters.city === city.id && styles.sortOptionActive]}
+                      onPress={() => updateFilters({ city: filters.city === city.id ? undefined : city.id })}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={[styles.sortOptionText, filters.city === city.id && styles.sortOptionTextActive]}>
+                        {city.nameAr}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+
+            {organizerOptions.length > 0 && (
+              <>
+                <Text style={[styles.sortLabel, styles.filterSectionLabel]}>المنظم:</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.sortOptions}>
+                  {organizerOptions.map((organizer) => (
+                    <TouchableOpacity
+                      key={organizer.id}
+                      style={[styles.sortOption, filters.organizer === organizer.id && styles.sortOptionActive]}
+                      onPress={() => updateFilters({ organizer: filters.organizer === organizer.id ? undefined : organizer.id })}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={[styles.sortOptionText, filters.organizer === organizer.id && styles.sortOptionTextActive]}>
+                        {locale === 'ar' ? organizer.nameAr : organizer.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+              </>
+            )}
+
+            <View style={styles.filterActions}>
+              <TouchableOpacity
+                style={styles.filterAction}
+                onPress={handleClearPanel}
+                disabled={activeFilterCount === 0}
+                activeOpacity={0.7}
+              >
+                <X size={16} color={activeFilterCount > 0 ? theme.colors.primary : theme.colors.textSecondary} />
+                <Text style={[styles.filterActionText, activeFilterCount === 0 && styles.filterActionTextDisabled]}>
+                  مسح المرشحات
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.filterAction} onPress={handleShareFilters} activeOpacity={0.7}>
+                <ShareIcon size={16} color={theme.colors.primary} />
+                <Text style={styles.filterActionText}>مشاركة النتائج</Text>
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
         )}
       </View>
 
-      {/* Events List */}
-      <Animated.ScrollView 
-        showsVerticalScrollIndicator={false} 
-        contentContainerStyle={styles.eventsContainer}
-        onScroll={handleScroll}
-        scrollEventThrottle={16}
-      >
-        {filteredEvents.length > 0 ? (
-          <>
-            <Text style={styles.resultsCount}>
-              {filteredEvents.length} فعالية متاحة
-            </Text>
-            {filteredEvents.map(renderEventCard)}
-          </>
-        ) : (
-          <View style={styles.emptyState}>
-            <Text style={styles.emptyStateText}>لا توجد فعاليات متاحة</Text>
-            <TouchableOpacity
-              style={styles.clearFiltersButton}
-              onPress={() => {
-                setSearchQuery('');
-                setSelectedCategory('all');
-                setSortBy('date');
-              }}
-              activeOpacity={0.7}
-            >
-              <Text style={styles.clearFiltersButtonText}>مسح المرشحات</Text>
-            </TouchableOpacity>
-          </View>
-        )}
-      </Animated.ScrollView>
+      {/* Events Map or List */}
+      {viewMode === 'map' ? (
+        <EventMap events={filteredEvents} />
+      ) : (
+        <Animated.ScrollView 
+          showsVerticalScrollIndicator={false} 
+          contentContainerStyle={styles.eventsContainer}
+          onScroll={handleScroll}
+          scrollEventThrottle={16}
+        >
+          {filteredEvents.length > 0 ? (
+            <>
+              <Text style={styles.resultsCount}>
+                {filteredEvents.length} فعالية متاحة
+              </Text>
+              {filteredEvents.map(renderEventCard)}
+            </>
+          ) : (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyStateText}>لا توجد فعاليات متاحة</Text>
+              <TouchableOpacity
+                style={styles.clearFiltersButton}
+                onPress={handleClearFilters}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.clearFiltersButtonText}>مسح المرشحات</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </Animated.ScrollView>
+      )}
     </SafeAreaView>
   );
 }
@@ -1,18 +1,36 @@
-import React from 'react';
-import { View, Text, StyleSheet, ScrollView } from 'react-native';
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useI18n } from '@/context/I18nContext';
 import { useTheme } from '@/context/ThemeContext';
 import { useEvents } from '@/context/EventContext';
+import { useLocation } from '@/context/LocationContext';
 import EventCard from '@/components/EventCard';
+import LocationPrompt from '@/components/LocationPrompt';
+import { getCity } from '@/utils/geo';
+import { router } from 'expo-router';
 import { Calendar, MapPin } from 'lucide-react-native';
 
+// Events shown under "near me", within this many kilometres
+const NEAR_ME_RADIUS = 50;
+const NEAR_ME_LIMIT = 5;
+
 export default function HomeScreen() {
   const { t, locale } = useI18n();
   const { theme } = useTheme();
-  const { events, getFeaturedEvents } = useEvents();
+  const { events, getFeaturedEvents, getNearbyEvents } = useEvents();
+  const { location, getDistanceTo } = useLocation();
+  const [isChangingLocation, setIsChangingLocation] = useState(false);
   const featuredEvents = getFeaturedEvents();
 
+  // The closest events within reach, nearest first
+  const nearbyEvents = location
+    ? getNearbyEvents(location.latitude, location.longitude, NEAR_ME_RADIUS)
+        .sort((a, b) => (getDistanceTo(a) ?? 0) - (getDistanceTo(b) ?? 0))
+        .slice(0, NEAR_ME_LIMIT)
+    : [];
+  const locationName = location?.cityId ? getCity(location.cityId)?.nameAr : 'موقعك الحالي';
+
   const styles = StyleSheet.create({
     container: {
       flex: 1,
@@ -42,6 +60,27 @@ export default function HomeScreen() {
       color: theme.colors.text,
       marginBottom: 16,
     },
+    sectionHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 16,
+    },
+    sectionHeaderTitle: {
+      fontSize: 20,
+      fontFamily: 'Cairo-Bold',
+      color: theme.colors.text,
+    },
+    sectionSubtitle: {
+      fontSize: 13,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.textSecondary,
+    },
+    changeLocationText: {
+      fontSize: 14,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.primary,
+    },
     eventsContainer: {
       gap: 16,
     },
@@ -68,6 +107,39 @@ export default function HomeScreen() {
           </Text>
         </View>
 
+        {/* Near Me */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <View>
+              <Text style={styles.sectionHeaderTitle}>بالقرب منك</Text>
+              {location && <Text style={styles.sectionSubtitle}>{locationName}</Text>}
+            </View>
+            {location && (
+              <TouchableOpacity onPress={() => setIsChangingLocation(!isChangingLocation)} activeOpacity={0.7}>
+                <Text style={styles.changeLocationText}>{isChangingLocation ? 'إلغاء' : 'تغيير'}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          {!location || isChangingLocation ? (
+            <LocationPrompt onLocated={() => setIsChangingLocation(false)} />
+          ) : nearbyEvents.length > 0 ? (
+            <View style={styles.eventsContainer}>
+              {nearbyEvents.map(event => (
+                <EventCard
+                  key={event.id}
+                  event={event}
+                  distance={getDistanceTo(event)}
+                  onPress={() => router.push(`/event/${event.id}`)}
+                />
+              ))}
+            </View>
+          ) : (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyText}>لا توجد فعاليات على بعد {NEAR_ME_RADIUS} كم منك</Text>
+            </View>
+          )}
+        </View>
+
         {/* Featured Events */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>{t('featuredEvents')}</Text>
@@ -4,12 +4,13 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useI18n } from '@/context/I18nContext';
 import { useTheme } from '@/context/ThemeContext';
 import { useAuth } from '@/context/AuthContext';
-import { User, Settings, LogOut } from 'lucide-react-native';
+import { router } from 'expo-router';
+import { User, Settings, LogOut, LayoutDashboard, ShieldCheck } from 'lucide-react-native';
 
 export default function ProfileScreen() {
   const { t } = useI18n();
   const { theme } = useTheme();
-  const { user, logout } = useAuth();
+  const { user, logout, isBusinessAccount, isAdmin } = useAuth();
 
   const styles = StyleSheet.create({
     container: {
@@ -86,6 +87,22 @@ export default function ProfileScreen() {
 
       {/* Settings */}
       <View style={styles.settingsSection}>
+        {isBusinessAccount() && (
+          <View style={styles.settingItem}>
+            <LayoutDashboard size={24} color={theme.colors.primary} />
+            <Text style={styles.settingText} onPress={() => router.push('/dashboard')}>
+              لوحة المنظم
+            </Text>
+          </View>
+        )}
+        {isAdmin() && (
+          <View style={styles.settingItem}>
+            <ShieldCheck size={24} color={theme.colors.primary} />
+            <Text style={styles.settingText} onPress={() => router.push('/moderation')}>
+              مراجعة الفعاليات
+            </Text>
+          </View>
+        )}
         <View style={styles.settingItem}>
           <Settings size={24} color={theme.colors.textSecondary} />
           <Text style={styles.settingText}>{t('settings')}</Text>
@@ -1,15 +1,33 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Image, Alert, Platform, Dimensions, ScrollView } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useI18n } from '@/context/I18nContext';
 import { useTheme } from '@/context/ThemeContext';
 import { useAuth } from '@/context/AuthContext';
-import { router } from 'expo-router';
-import { Camera, Image as ImageIcon, Upload, X, Loader, CircleCheck as CheckCircle, CircleAlert as AlertCircle, FileImage, Folder, Calendar, MapPin, DollarSign, Users, Info } from 'lucide-react-native';
+import { useEvents, Event } from '@/context/EventContext';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Camera, Image as ImageIcon, Upload, X, Loader, CircleCheck as CheckCircle, CircleAlert as AlertCircle, FileImage, Folder, Calendar, MapPin, DollarSign, Users, Info, Timer } from 'lucide-react-native';
 import * as ImagePicker from 'expo-image-picker';
 import { useSharedValue, useAnimatedScrollHandler, runOnJS } from 'react-native-reanimated';
 import Animated from 'react-native-reanimated';
 import { TextInput } from 'react-native';
+import {
+  DEFAULT_EVENT_DURATION,
+  EventDetails,
+  getChangedDetails,
+  getEventDuration,
+  getFilledDetails,
+  validateEventDetails,
+  withPendingChanges,
+} from '@/utils/eventDetails';
+import { EVENT_REJECTION_REASONS, getEventStatus, isEventInProgress } from '@/utils/eventLifecycle';
+import { RecurrenceRule, getSessionId } from '@/utils/eventSessions';
+import {
+  CANCELLATION_POLICY_PRESETS,
+  CancellationPolicy,
+  DEFAULT_CANCELLATION_POLICY,
+  describeCancellationRule,
+} from '@/utils/cancellationPolicy';
 
 interface MediaItem {
   id: string;
@@ -30,37 +48,223 @@ interface EventFormData {
   category: 'government' | 'schools' | 'clinics' | 'occasions' | 'entertainment' | 'openings';
   date: string;
   time: string;
+  durationMinutes: string; // length of each session
   location: string;
   locationAr: string;
   price: string;
   maxAttendees: string;
   image: string;
+  repeat: 'once' | RecurrenceRule['frequency'];
+  repeatInterval: string; // every N days or weeks
+  repeatCount: string; // number of sessions
+  repeatWeekdays: number[]; // 0 is Sunday
+  extraSessions: string; // custom sessions after the first, one "YYYY-MM-DD HH:MM" per line
+  cancellationRules: { hoursBefore: string; refundPercent: string }[];
 }
 
+const toCancellationRules = (policy: CancellationPolicy): EventFormData['cancellationRules'] =>
+  policy.rules.map(rule => ({ hoursBefore: String(rule.hoursBefore), refundPercent: String(rule.refundPercent) }));
+
+const WEEKDAYS = ['الأحد', 'الاثنين', 'الثلاثاء', 'الأربعاء', 'الخميس', 'الجمعة', 'السبت'];
+
+const EMPTY_EVENT_FORM: EventFormData = {
+  title: '',
+  titleAr: '',
+  description: '',
+  descriptionAr: '',
+  category: 'entertainment',
+  date: '',
+  time: '',
+  durationMinutes: String(DEFAULT_EVENT_DURATION),
+  location: '',
+  locationAr: '',
+  price: '0',
+  maxAttendees: '100',
+  image: '',
+  repeat: 'once',
+  repeatInterval: '1',
+  repeatCount: '4',
+  repeatWeekdays: [],
+  extraSessions: '',
+  cancellationRules: toCancellationRules(DEFAULT_CANCELLATION_POLICY),
+};
+
+const toEventForm = (event: Event): EventFormData => ({
+  title: event.title,
+  titleAr: event.titleAr,
+  description: event.description,
+  descriptionAr: event.descriptionAr,
+  category: event.category,
+  date: event.date,
+  time: event.time,
+  durationMinutes: String(getEventDuration(event)),
+  location: event.location,
+  locationAr: event.locationAr,
+  price: String(event.price),
+  maxAttendees: String(event.maxAttendees),
+  image: event.image,
+  repeat: event.recurrence ? event.recurrence.frequency : 'once',
+  repeatInterval: event.recurrence && event.recurrence.frequency !== 'custom' ? String(event.recurrence.interval) : '1',
+  repeatCount: event.recurrence && event.recurrence.frequency !== 'custom' ? String(event.recurrence.count) : '4',
+  repeatWeekdays: event.recurrence?.frequency === 'weekly' ? event.recurrence.weekdays : [],
+  // The first custom session is the event's own date and time
+  extraSessions: event.recurrence?.frequency === 'custom'
+    ? event.recurrence.dates
+        .filter(({ date, time }) => getSessionId(date, time) !== getSessionId(event.date, event.time))
+        .map(({ date, time }) => `${date} ${time}`)
+        .join('\n')
+    : '',
+  cancellationRules: toCancellationRules(event.cancellationPolicy || DEFAULT_CANCELLATION_POLICY),
+});
+
+const toNumber = (value: string) => (value === '' ? NaN : Number(value));
+
+const toRecurrence = (form: EventFormData): RecurrenceRule | null => {
+  switch (form.repeat) {
+    case 'daily':
+      return { frequency: 'daily', interval: toNumber(form.repeatInterval), count: toNumber(form.repeatCount) };
+    case 'weekly':
+      return {
+        frequency: 'weekly',
+        interval: toNumber(form.repeatInterval),
+        weekdays: form.repeatWeekdays,
+        count: toNumber(form.repeatCount),
+      };
+    case 'custom': {
+      const extra = form.extraSessions
+        .split('\n')
+        .map(line => line.trim())
+        .filter(Boolean)
+        .map(line => {
+          const [date, time] = line.split(/\s+/);
+          return { date, time: time || form.time };
+        });
+      // Sorted, so an unchanged list compares equal to the saved rule
+      return {
+        frequency: 'custom',
+        dates: [{ date: form.date, time: form.time }, ...extra].sort((a, b) =>
+          getSessionId(a.date, a.time).localeCompare(getSessionId(b.date, b.time))
+        ),
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+const toEventDetails = (form: EventFormData): EventDetails => {
+  // The repeat fields only describe the recurrence
+  const { repeat, repeatInterval, repeatCount, repeatWeekdays, extraSessions, cancellationRules, ...details } = form;
+  return {
+    ...details,
+    price: toNumber(form.price),
+    maxAttendees: toNumber(form.maxAttendees),
+    durationMinutes: toNumber(form.durationMinutes),
+    recurrence: toRecurrence(form),
+    // Longest notice first, as the policies are stored
+    cancellationPolicy: {
+      rules: cancellationRules
+        .map(rule => ({ hoursBefore: toNumber(rule.hoursBefore), refundPercent: toNumber(rule.refundPercent) }))
+        .sort((a, b) => b.hoursBefore - a.hoursBefore),
+    },
+  };
+};
+
+// Drafts save themselves this long after the organizer stops typing
+const DRAFT_AUTOSAVE_DELAY = 1500;
+
 const { width } = Dimensions.get('window');
 
 export default function UploadScreen() {
   const { t, locale } = useI18n();
   const { theme } = useTheme();
-  const { isBusinessAccount } = useAuth();
+  const { user, isBusinessAccount } = useAuth();
+  const { getEventById, createEvent, updateEvent, setEventStatus } = useEvents();
+  const { editEventId } = useLocalSearchParams<{ editEventId?: string }>();
   const [selectedMedia, setSelectedMedia] = useState<MediaItem[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [uploadMode, setUploadMode] = useState<'media' | 'event'>('media');
-  const [eventForm, setEventForm] = useState<EventFormData>({
-    title: '',
-    titleAr: '',
-    description: '',
-    descriptionAr: '',
-    category: 'entertainment',
-    date: '',
-    time: '',
-    location: '',
-    locationAr: '',
-    price: '0',
-    maxAttendees: '100',
-    image: '',
-  });
+  const [eventForm, setEventForm] = useState<EventFormData>(EMPTY_EVENT_FORM);
+  const [savedForm, setSavedForm] = useState<EventFormData>(EMPTY_EVENT_FORM); // as last saved
+  const [draftId, setDraftId] = useState<string | undefined>(); // draft started from an empty form
+  const [draftSaveState, setDraftSaveState] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  // The autosave waiting to run and the one in flight, so submitting can settle them first
+  const autosaveTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const draftSaveRef = useRef<Promise<void>>();
+  const createdDraftRef = useRef<Event>(); // draft created by an autosave, before draftId is rendered
+
+  // Organizers edit their own events and drafts with the same form they created them with
+  const editingEvent = editEventId || draftId ? getEventById((editEventId || draftId)!) : undefined;
+  const isEditing = !!editingEvent && editingEvent.organizerId === user?.id;
+  const isDraft = !isEditing || isEventInProgress(editingEvent!);
+  const hasUnsavedChanges = JSON.stringify(eventForm) !== JSON.stringify(savedForm);
+
+  useEffect(() => {
+    if (editEventId && editingEvent?.id === editEventId && isEditing) {
+      // Changes still waiting for review are shown, so they can be corrected before a moderator sees them
+      setEventForm(toEventForm(withPendingChanges(editingEvent)));
+      setSavedForm(toEventForm(withPendingChanges(editingEvent)));
+      setDraftId(undefined);
+      setDraftSaveState('idle');
+      setUploadMode('event');
+    }
+  }, [editEventId, editingEvent?.id, isEditing]);
+
+  const stopEditing = () => {
+    router.setParams({ editEventId: '' });
+    createdDraftRef.current = undefined;
+    setDraftId(undefined);
+    setEventForm(EMPTY_EVENT_FORM);
+    setSavedForm(EMPTY_EVENT_FORM);
+    setDraftSaveState('idle');
+  };
+
+  /**
+   * Save the form as a draft. Fields that do not check out yet are left for later,
+   * so a date that is still being typed does not stop the rest from saving.
+   */
+  const saveDraft = (): Promise<void> => {
+    if (!draftSaveRef.current) {
+      draftSaveRef.current = writeDraft().finally(() => {
+        draftSaveRef.current = undefined;
+      });
+    }
+    return draftSaveRef.current;
+  };
+
+  const writeDraft = async () => {
+    setDraftSaveState('saving');
+
+    const form = eventForm;
+    const details = toEventDetails(form);
+    const changes = isEditing && editingEvent ? getChangedDetails(details, editingEvent) : details;
+    const invalidFields = validateEventDetails(getFilledDetails(changes)).map(issue => issue.field);
+    const savable = (Object.keys(changes) as (keyof EventDetails)[])
+      .filter(field => !invalidFields.includes(field))
+      .reduce<Partial<EventDetails>>((picked, field) => ({ ...picked, [field]: changes[field] }), {});
+
+    try {
+      if (isEditing && editingEvent) {
+        await updateEvent(editingEvent.id, savable);
+      } else {
+        const created = await createEvent(savable);
+        createdDraftRef.current = created;
+        setDraftId(created.id);
+      }
+      setSavedForm(form);
+      setDraftSaveState('saved');
+    } catch (error) {
+      console.error('Error saving draft:', error);
+      setDraftSaveState('error');
+    }
+  };
+
+  useEffect(() => {
+    if (uploadMode !== 'event' || !isBusinessAccount() || !isDraft || !hasUnsavedChanges || isUploading) return;
+    autosaveTimerRef.current = setTimeout(saveDraft, DRAFT_AUTOSAVE_DELAY);
+    return () => clearTimeout(autosaveTimerRef.current);
+  }, [eventForm, savedForm, uploadMode, isDraft, isUploading]);
   
   const scrollY = useSharedValue(0);
 
@@ -311,51 +515,77 @@ export default function UploadScreen() {
     }
   };
 
-  const createEvent = async () => {
-    // Validate form
-    if (!eventForm.title || !eventForm.titleAr || !eventForm.date || !eventForm.location || !eventForm.image) {
-      Alert.alert('خطأ', 'يرجى ملء جميع الحقول المطلوبة');
+  const submitForReview = async () => {
+    const details = toEventDetails(eventForm);
+    const issues = validateEventDetails(details);
+    if (issues.length > 0) {
+      Alert.alert('خطأ', issues.map(issue => issue.messageAr).join('\n'));
       return;
     }
 
     setIsUploading(true);
-    
+
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
+      // A pending autosave would create the draft a second time, so it is dropped,
+      // and one already under way is waited for so its draft is submitted
+      clearTimeout(autosaveTimerRef.current);
+      await draftSaveRef.current;
+      const draft = isEditing && editingEvent ? editingEvent : createdDraftRef.current;
+      const saved = draft
+        ? await updateEvent(draft.id, getChangedDetails(details, draft))
+        : await createEvent(details);
+      await setEventStatus(saved.id, 'submitted');
+      stopEditing();
       Alert.alert(
-        'تم إنشاء الفعالية! 🎉',
-        'تم إنشاء الفعالية بنجاح وستظهر في قائمة الفعاليات قريباً',
+        'تم إرسال الفعالية للمراجعة',
+        'ستتمكن من نشر الفعالية في قائمة الفعاليات بعد موافقة الإدارة عليها',
         [
           {
-            text: 'عرض الفعاليات',
-            onPress: () => router.push('/(tabs)/events')
+            text: 'لوحة المنظم',
+            onPress: () => router.push('/dashboard')
           },
           {
-            text: 'إنشاء فعالية أخرى',
-            onPress: () => {
-              setEventForm({
-                title: '',
-                titleAr: '',
-                description: '',
-                descriptionAr: '',
-                category: 'entertainment',
-                date: '',
-                time: '',
-                location: '',
-                locationAr: '',
-                price: '0',
-                maxAttendees: '100',
-                image: '',
-              });
-            }
+            text: 'إنشاء فعالية أخرى'
           }
         ]
       );
     } catch (error) {
-      console.error('Event creation error:', error);
-      Alert.alert('خطأ', 'فشل في إنشاء الفعالية. يرجى المحاولة مرة أخرى.');
+      console.error('Event submission error:', error);
+      Alert.alert('خطأ', 'فشل في إرسال الفعالية للمراجعة. يرجى المحاولة مرة أخرى.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const saveEvent = async () => {
+    if (!editingEvent) return;
+    // Only the fields that changed are checked, so past events can still be corrected
+    const changes = getChangedDetails(toEventDetails(eventForm), withPendingChanges(editingEvent));
+
+    const issues = validateEventDetails(changes);
+    if (issues.length > 0) {
+      Alert.alert('خطأ', issues.map(issue => issue.messageAr).join('\n'));
+      return;
+    }
+
+    setIsUploading(true);
+
+    try {
+      const updated = await updateEvent(editingEvent.id, changes);
+      stopEditing();
+      const message = updated.pendingChanges
+        ? 'تم حفظ التعديلات. تغييرات الموعد أو المكان أو السعر أو السعة ستطبق بعد موافقة الإدارة، وتبقى الفعالية متاحة للحجز حتى ذلك الحين'
+        : 'تم تحديث بيانات الفعالية بنجاح';
+      Alert.alert('تم حفظ التعديلات', message, [
+        { text: 'عرض الفعالية', onPress: () => router.push(`/event/${updated.id}`) },
+        { text: 'حسناً' },
+      ]);
+    } catch (error) {
+      console.error('Event save error:', error);
+      Alert.alert(
+        'خطأ',
+        'فشل في حفظ التعديلات. لا يمكن تغيير موعد فعالية بيعت تذاكرها أو تقليل السعة عن التذاكر المباعة.'
+      );
     } finally {
       setIsUploading(false);
     }
@@ -459,7 +689,55 @@ export default function UploadScreen() {
   const renderEventForm = () => {
     return (
       <View style={styles.eventForm}>
-        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>إنشاء فعالية جديدة</Text>
+        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+          {isDraft ? 'إنشاء فعالية جديدة' : 'تعديل الفعالية'}
+        </Text>
+        {isDraft && draftSaveState !== 'idle' && (
+          <Text
+            style={[
+              styles.draftStatusText,
+              { color: draftSaveState === 'error' ? theme.colors.error : theme.colors.textSecondary }
+            ]}
+          >
+            {draftSaveState === 'saving' && 'جاري حفظ المسودة...'}
+            {draftSaveState === 'saved' && (hasUnsavedChanges ? 'تغييرات غير محفوظة' : 'تم حفظ المسودة تلقائياً')}
+            {draftSaveState === 'error' && 'تعذر حفظ المسودة، سنحاول مرة أخرى عند التعديل'}
+          </Text>
+        )}
+
+        {isEditing && editingEvent!.pendingChanges && (
+          <View style={[styles.rejectionNotice, { backgroundColor: theme.colors.warning + '15' }]}>
+            <AlertCircle size={20} color={theme.colors.warning} />
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.rejectionText, { color: theme.colors.text }]}>
+                تعديلات الموعد أو المكان أو السعر أو السعة بانتظار موافقة الإدارة، ويرى الحاضرون البيانات السابقة حتى ذلك الحين
+              </Text>
+            </View>
+          </View>
+        )}
+
+        {isEditing && editingEvent!.review?.decision === 'rejected' && !editingEvent!.pendingChanges && (
+          <View style={[styles.rejectionNotice, { backgroundColor: theme.colors.error + '15' }]}>
+            <AlertCircle size={20} color={theme.colors.error} />
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.rejectionTitle, { color: theme.colors.error }]}>
+                {getEventStatus(editingEvent!) === 'rejected'
+                  ? 'رفضت الإدارة الفعالية للأسباب التالية:'
+                  : 'رفضت الإدارة آخر تعديلات الفعالية للأسباب التالية:'}
+              </Text>
+              {editingEvent!.review.reasons.map(reason => (
+                <Text key={reason} style={[styles.rejectionText, { color: theme.colors.text }]}>
+                  • {EVENT_REJECTION_REASONS.find(r => r.id === reason)?.labelAr || reason}
+                </Text>
+              ))}
+              {editingEvent!.review.note && (
+                <Text style={[styles.rejectionText, { color: theme.colors.textSecondary }]}>
+                  {editingEvent!.review.note}
+                </Text>
+              )}
+            </View>
+          </View>
+        )}
         
         {/* Event Image */}
         <TouchableOpacity 
@@ -571,7 +849,9 @@ export default function UploadScreen() {
         {/* Date and Time */}
         <View style={styles.formRow}>
           <View style={[styles.formGroup, { flex: 1, marginRight: 8 }]}>
-            <Text style={[styles.formLabel, { color: theme.colors.text }]}>التاريخ *</Text>
+            <Text style={[styles.formLabel, { color: theme.colors.text }]}>
+              {eventForm.repeat === 'once' ? 'التاريخ *' : 'تاريخ أول موعد *'}
+            </Text>
             <View style={[styles.formInputWithIcon, { backgroundColor: theme.colors.surface }]}>
               <Calendar size={20} color={theme.colors.textSecondary} />
               <TextInput
@@ -599,6 +879,140 @@ export default function UploadScreen() {
           </View>
         </View>
 
+        <View style={styles.formGroup}>
+          <Text style={[styles.formLabel, { color: theme.colors.text }]}>المدة بالدقائق *</Text>
+          <View style={[styles.formInputWithIcon, { backgroundColor: theme.colors.surface }]}>
+            <Timer size={20} color={theme.colors.textSecondary} />
+            <TextInput
+              style={[styles.formInputIcon, { color: theme.colors.text }]}
+              placeholder={String(DEFAULT_EVENT_DURATION)}
+              placeholderTextColor={theme.colors.textSecondary}
+              value={eventForm.durationMinutes}
+              onChangeText={(text) => setEventForm(prev => ({ ...prev, durationMinutes: text.replace(/[^0-9]/g, '') }))}
+              keyboardType="numeric"
+            />
+          </View>
+        </View>
+
+        {/* Recurrence */}
+        <View style={styles.formGroup}>
+          <Text style={[styles.formLabel, { color: theme.colors.text }]}>التكرار</Text>
+          <View style={styles.categoryButtons}>
+            {[
+              { key: 'once', label: 'مرة واحدة' },
+              { key: 'daily', label: 'يومياً' },
+              { key: 'weekly', label: 'أسبوعياً' },
+              { key: 'custom', label: 'مواعيد محددة' },
+            ].map(option => (
+              <TouchableOpacity
+                key={option.key}
+                style={[
+                  styles.categoryButton,
+                  { backgroundColor: theme.colors.surface },
+                  eventForm.repeat === option.key && {
+                    backgroundColor: theme.colors.primary + '20',
+                    borderColor: theme.colors.primary
+                  }
+                ]}
+                onPress={() => setEventForm(prev => ({ ...prev, repeat: option.key as EventFormData['repeat'] }))}
+                activeOpacity={0.7}
+              >
+                <Text style={[
+                  styles.categoryButtonText,
+                  { color: theme.colors.textSecondary },
+                  eventForm.repeat === option.key && { color: theme.colors.primary }
+                ]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {(eventForm.repeat === 'daily' || eventForm.repeat === 'weekly') && (
+          <View style={styles.formRow}>
+            <View style={[styles.formGroup, { flex: 1, marginRight: 8 }]}>
+              <Text style={[styles.formLabel, { color: theme.colors.text }]}>
+                {eventForm.repeat === 'daily' ? 'كل (أيام)' : 'كل (أسابيع)'}
+              </Text>
+              <TextInput
+                style={[styles.formInput, { backgroundColor: theme.colors.surface, color: theme.colors.text }]}
+                placeholder="1"
+                placeholderTextColor={theme.colors.textSecondary}
+                value={eventForm.repeatInterval}
+                onChangeText={(text) => setEventForm(prev => ({ ...prev, repeatInterval: text.replace(/[^0-9]/g, '') }))}
+                keyboardType="numeric"
+              />
+            </View>
+
+            <View style={[styles.formGroup, { flex: 1, marginLeft: 8 }]}>
+              <Text style={[styles.formLabel, { color: theme.colors.text }]}>عدد المواعيد</Text>
+              <TextInput
+                style={[styles.formInput, { backgroundColor: theme.colors.surface, color: theme.colors.text }]}
+                placeholder="4"
+                placeholderTextColor={theme.colors.textSecondary}
+                value={eventForm.repeatCount}
+                onChangeText={(text) => setEventForm(prev => ({ ...prev, repeatCount: text.replace(/[^0-9]/g, '') }))}
+                keyboardType="numeric"
+              />
+            </View>
+          </View>
+        )}
+
+        {eventForm.repeat === 'weekly' && (
+          <View style={styles.formGroup}>
+            <Text style={[styles.formLabel, { color: theme.colors.text }]}>أيام الأسبوع</Text>
+            <View style={styles.categoryButtons}>
+              {WEEKDAYS.map((label, day) => {
+                const isSelected = eventForm.repeatWeekdays.includes(day);
+                return (
+                  <TouchableOpacity
+                    key={day}
+                    style={[
+                      styles.categoryButton,
+                      { backgroundColor: theme.colors.surface },
+                      isSelected && {
+                        backgroundColor: theme.colors.primary + '20',
+                        borderColor: theme.colors.primary
+                      }
+                    ]}
+                    onPress={() => setEventForm(prev => ({
+                      ...prev,
+                      repeatWeekdays: isSelected
+                        ? prev.repeatWeekdays.filter(d => d !== day)
+                        : [...prev.repeatWeekdays, day].sort((a, b) => a - b),
+                    }))}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[
+                      styles.categoryButtonText,
+                      { color: theme.colors.textSecondary },
+                      isSelected && { color: theme.colors.primary }
+                    ]}>
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
+        {eventForm.repeat === 'custom' && (
+          <View style={styles.formGroup}>
+            <Text style={[styles.formLabel, { color: theme.colors.text }]}>مواعيد إضافية (موعد في كل سطر)</Text>
+            <TextInput
+              style={[styles.formTextarea, { backgroundColor: theme.colors.surface, color: theme.colors.text }]}
+              placeholder={'YYYY-MM-DD HH:MM\nYYYY-MM-DD HH:MM'}
+              placeholderTextColor={theme.colors.textSecondary}
+              value={eventForm.extraSessions}
+              onChangeText={(text) => setEventForm(prev => ({ ...prev, extraSessions: text }))}
+              multiline
+              numberOfLines={4}
+            />
+          </View>
+        )}
+
         {/* Location */}
         <View style={styles.formGroup}>
           <Text style={[styles.formLabel, { color: theme.colors.text }]}>الموقع (بالعربية) *</Text>
@@ -642,6 +1056,8 @@ export default function UploadScreen() {
                 value={eventForm.price}
                 onChangeText={(text) => setEventForm(prev => ({ ...prev, price: text.replace(/[^0-9]/g, '') }))}
                 keyboardType="numeric"
+                // Events with ticket tiers are priced per tier
+                editable={!(isEditing && editingEvent?.tiers?.length)}
               />
             </View>
           </View>
@@ -657,18 +1073,121 @@ export default function UploadScreen() {
                 value={eventForm.maxAttendees}
                 onChangeText={(text) => setEventForm(prev => ({ ...prev, maxAttendees: text.replace(/[^0-9]/g, '') }))}
                 keyboardType="numeric"
+                // The seat map sets the capacity of seated events
+                editable={!(isEditing && editingEvent?.seatMap)}
               />
             </View>
           </View>
         </View>
 
+        {/* Cancellation Policy */}
+        <View style={styles.formGroup}>
+          <Text style={[styles.formLabel, { color: theme.colors.text }]}>سياسة الإلغاء والاسترداد</Text>
+          <View style={styles.categoryButtons}>
+            {CANCELLATION_POLICY_PRESETS.map(preset => {
+              const isSelected =
+                JSON.stringify(eventForm.cancellationRules) === JSON.stringify(toCancellationRules(preset.policy));
+              return (
+                <TouchableOpacity
+                  key={preset.key}
+                  style={[
+                    styles.categoryButton,
+                    { backgroundColor: theme.colors.surface },
+                    isSelected && {
+                      backgroundColor: theme.colors.primary + '20',
+                      borderColor: theme.colors.primary
+                    }
+                  ]}
+                  onPress={() => setEventForm(prev => ({ ...prev, cancellationRules: toCancellationRules(preset.policy) }))}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[
+                    styles.categoryButtonText,
+                    { color: theme.colors.textSecondary },
+                    isSelected && { color: theme.colors.primary }
+                  ]}>
+                    {preset.labelAr}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {eventForm.cancellationRules.map((rule, index) => (
+            <View key={index} style={styles.cancellationRule}>
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.cancellationRuleLabel, { color: theme.colors.textSecondary }]}>قبل (ساعة)</Text>
+                <TextInput
+                  style={[styles.formInput, { backgroundColor: theme.colors.surface, color: theme.colors.text }]}
+                  placeholder="48"
+                  placeholderTextColor={theme.colors.textSecondary}
+                  value={rule.hoursBefore}
+                  onChangeText={(text) => setEventForm(prev => ({
+                    ...prev,
+                    cancellationRules: prev.cancellationRules.map((r, i) =>
+                      i === index ? { ...r, hoursBefore: text.replace(/[^0-9]/g, '') } : r
+                    ),
+                  }))}
+                  keyboardType="numeric"
+                />
+              </View>
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.cancellationRuleLabel, { color: theme.colors.textSecondary }]}>الاسترداد (%)</Text>
+                <TextInput
+                  style={[styles.formInput, { backgroundColor: theme.colors.surface, color: theme.colors.text }]}
+                  placeholder="100"
+                  placeholderTextColor={theme.colors.textSecondary}
+                  value={rule.refundPercent}
+                  onChangeText={(text) => setEventForm(prev => ({
+                    ...prev,
+                    cancellationRules: prev.cancellationRules.map((r, i) =>
+                      i === index ? { ...r, refundPercent: text.replace(/[^0-9]/g, '') } : r
+                    ),
+                  }))}
+                  keyboardType="numeric"
+                />
+              </View>
+              <TouchableOpacity
+                style={styles.cancellationRuleRemove}
+                onPress={() => setEventForm(prev => ({
+                  ...prev,
+                  cancellationRules: prev.cancellationRules.filter((_, i) => i !== index),
+                }))}
+                activeOpacity={0.7}
+              >
+                <X size={18} color={theme.colors.error} />
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          <TouchableOpacity
+            style={[styles.categoryButton, { backgroundColor: theme.colors.surface, alignSelf: 'flex-start', marginTop: 8 }]}
+            onPress={() => setEventForm(prev => ({
+              ...prev,
+              cancellationRules: [...prev.cancellationRules, { hoursBefore: '', refundPercent: '' }],
+            }))}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.categoryButtonText, { color: theme.colors.primary }]}>+ إضافة قاعدة</Text>
+          </TouchableOpacity>
+
+          <Text style={[styles.cancellationSummary, { color: theme.colors.textSecondary }]}>
+            {eventForm.cancellationRules.length === 0
+              ? 'لا يُسترد أي مبلغ عند إلغاء الحجز'
+              : toEventDetails(eventForm).cancellationPolicy!.rules
+                  .filter(r => !isNaN(r.hoursBefore) && !isNaN(r.refundPercent))
+                  .map(describeCancellationRule)
+                  .join('\n')}
+          </Text>
+        </View>
+
         {/* Submit Button */}
         <TouchableOpacity
           style={[
             styles.createEventButton,
             isUploading && styles.uploadButtonDisabled
           ]}
-          onPress={createEvent}
+          onPress={isDraft ? submitForReview : saveEvent}
           disabled={isUploading}
           activeOpacity={0.7}
         >
@@ -678,14 +1197,31 @@ export default function UploadScreen() {
             <Calendar size={24} color="white" />
           )}
           <Text style={styles.createEventButtonText}>
-            {isUploading ? 'جاري الإنشاء...' : 'إنشاء الفعالية'}
+            {isDraft
+              ? isUploading ? 'جاري الإرسال...' : 'إرسال للمراجعة'
+              : isUploading ? 'جاري الحفظ...' : 'حفظ التعديلات'}
           </Text>
         </TouchableOpacity>
 
+        {isEditing && (
+          <TouchableOpacity
+            style={styles.cancelEditButton}
+            onPress={stopEditing}
+            disabled={isUploading}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.cancelEditButtonText, { color: theme.colors.textSecondary }]}>
+              {isDraft ? 'إغلاق المسودة' : 'إلغاء التعديل'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
         <View style={styles.eventFormNote}>
           <Info size={16} color={theme.colors.textSecondary} />
           <Text style={[styles.eventFormNoteText, { color: theme.colors.textSecondary }]}>
-            سيتم مراجعة الفعالية من قبل الإدارة قبل نشرها
+            {isDraft
+              ? 'تُحفظ المسودة تلقائياً، ويمكنك نشر الفعالية بعد موافقة الإدارة عليها'
+              : 'تعود الفعالية للمراجعة بعد حفظ التعديلات، ولا يمكن تغيير موعدها بعد بيع تذاكرها'}
           </Text>
         </View>
       </View>
@@ -1094,6 +1630,26 @@ export default function UploadScreen() {
       fontSize: 14,
       fontFamily: 'Cairo-SemiBold',
     },
+    cancellationRule: {
+      flexDirection: 'row',
+      alignItems: 'flex-end',
+      gap: 8,
+      marginTop: 8,
+    },
+    cancellationRuleLabel: {
+      fontSize: 12,
+      fontFamily: 'Cairo-Regular',
+      marginBottom: 4,
+    },
+    cancellationRuleRemove: {
+      padding: 12,
+    },
+    cancellationSummary: {
+      fontSize: 13,
+      fontFamily: 'Cairo-Regular',
+      marginTop: 8,
+      lineHeight: 20,
+    },
     createEventButton: {
       backgroundColor: theme.colors.primary,
       flexDirection: 'row',
@@ -1114,6 +1670,38 @@ export default function UploadScreen() {
       fontFamily: 'Cairo-Bold',
       color: 'white',
     },
+    draftStatusText: {
+      fontSize: 13,
+      fontFamily: 'Cairo-Regular',
+      marginTop: -8,
+      marginBottom: 16,
+    },
+    rejectionNotice: {
+      flexDirection: 'row',
+      gap: 12,
+      padding: 16,
+      borderRadius: 12,
+      marginBottom: 20,
+    },
+    rejectionTitle: {
+      fontSize: 14,
+      fontFamily: 'Cairo-Bold',
+      marginBottom: 4,
+    },
+    rejectionText: {
+      fontSize: 14,
+      fontFamily: 'Cairo-Regular',
+      lineHeight: 22,
+    },
+    cancelEditButton: {
+      alignItems: 'center',
+      paddingVertical: 12,
+      marginBottom: 8,
+    },
+    cancelEditButtonText: {
+      fontSize: 16,
+      fontFamily: 'Cairo-SemiBold',
+    },
     eventFormNote: {
       flexDirection: 'row',
       alignItems: 'center',
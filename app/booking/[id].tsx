@@ -1,24 +1,202 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, TextInput, Dimensions } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams, router } from 'expo-router';
 import { useI18n } from '@/context/I18nContext';
 import { useTheme } from '@/context/ThemeContext';
 import { useEvents } from '@/context/EventContext';
+import { useAuth } from '@/context/AuthContext';
+import { useWaitlist } from '@/context/WaitlistContext';
+import { PaymentError } from '@/services/paymentProvider';
+import { RepositoryError } from '@/services/eventRepository';
+import { SeatHold } from '@/services/seatInventory';
+import { WAITLIST_MAX_TICKETS, WAITLIST_OFFER_DURATION } from '@/services/waitlist';
+import { TicketSelection, buildLineItems, countTickets, getEventTiers, isTierOnSale } from '@/utils/ticketTiers';
+import { Seat, SeatSection, formatSeatLabel, isTierAllowedInSection } from '@/utils/seatMap';
+import { PriceQuote, PromoCodeRejection, buildPriceBreakdown } from '@/utils/pricing';
+import { AttendeeDetails } from '@/utils/attendees';
+import { formatSession, getSessionEvent, getUpcomingSessions, hasSessions } from '@/utils/eventSessions';
+import SeatPicker from '@/components/SeatPicker';
 import { ArrowLeft, Plus, Minus, CreditCard, Calendar, MapPin, Users, Ticket } from 'lucide-react-native';
 
 const { height } = Dimensions.get('window');
 
+const PROMO_REJECTION_MESSAGES: Record<PromoCodeRejection, string> = {
+  unknown: 'رمز الخصم غير صحيح',
+  not_started: 'لم يبدأ العمل بهذا الرمز بعد',
+  expired: 'انتهت صلاحية رمز الخصم',
+  usage_limit: 'تم استنفاد عدد مرات استخدام هذا الرمز',
+  user_limit: 'لقد استخدمت هذا الرمز الحد الأقصى من المرات',
+  min_tickets: 'هذا الرمز يتطلب عدداً أكبر من التذاكر',
+  not_applicable: 'هذا الرمز لا ينطبق على هذه الفعالية',
+};
+
 export default function BookingScreen() {
-  const { id } = useLocalSearchParams<{ id: string }>();
+  const { id, sessionId: sessionParam } = useLocalSearchParams<{ id: string; sessionId?: string }>();
   const { locale, t } = useI18n();
   const { theme } = useTheme();
-  const { getEventById, bookEvent } = useEvents();
-  const [ticketCount, setTicketCount] = useState(1);
+  const { getEventById, bookEvent, holdSeats, releaseHold, quotePrice } = useEvents();
+  const { getEntryForEvent, joinWaitlist, leaveWaitlist, refreshWaitlist } = useWaitlist();
+  const { user } = useAuth();
+  // Tickets chosen per tier
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  // Seats chosen per tier, for venues with reserved seating
+  const [seatsByTier, setSeatsByTier] = useState<Record<string, string[]>>({});
   const [isLoading, setIsLoading] = useState(false);
   const [paymentMethod, setPaymentMethod] = useState<'card' | 'cash'>('card');
 
-  const event = getEventById(id);
+  const [hold, setHold] = useState<SeatHold | null>(null);
+  const [holdError, setHoldError] = useState<string | null>(null);
+  const [holdAttempt, setHoldAttempt] = useState(0);
+  // Set when the last hold failed because other checkouts hold the remaining seats
+  const [holdSoldOut, setHoldSoldOut] = useState(false);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  const [promoInput, setPromoInput] = useState('');
+  // The code the user applied; it is re-checked whenever the selection changes
+  const [promoCode, setPromoCode] = useState<string | null>(null);
+  const [quote, setQuote] = useState<PriceQuote | null>(null);
+
+  // Who uses each ticket, in the order of the selected tickets; the first one is the buyer by default
+  const [attendees, setAttendees] = useState<AttendeeDetails[]>(
+    user ? [{ name: user.name, phone: user.phone }] : []
+  );
+
+  // Events with sessions are booked one session at a time; the rest of the screen sees the chosen one
+  const [sessionId, setSessionId] = useState<string | undefined>(sessionParam);
+  const baseEvent = getEventById(id);
+  const upcomingSessions = baseEvent ? getUpcomingSessions(baseEvent) : [];
+  const needsSession = !!baseEvent && hasSessions(baseEvent);
+  const event = baseEvent && getSessionEvent(baseEvent, sessionId);
+  const isSeated = !!event?.seatMap;
+  const selection: TicketSelection[] = Object.keys(quantities)
+    .filter(tierId => quantities[tierId] > 0)
+    .map(tierId => ({
+      tierId,
+      quantity: quantities[tierId],
+      ...(isSeated ? { seatIds: seatsByTier[tierId] || [] } : {}),
+    }));
+  const ticketCount = countTickets(selection);
+  const selectedSeatIds = selection.flatMap(item => item.seatIds || []);
+  // Reserved seating needs a seat for every ticket before anything can be held
+  const seatsComplete = !isSeated || selectedSeatIds.length === ticketCount;
+  const selectionKey = JSON.stringify(selection);
+
+  const waitlistEntry = event ? getEntryForEvent(event.id, event.sessionId) : undefined;
+  const isWaiting = waitlistEntry?.status === 'waiting';
+  // Seats offered from the waitlist are already held for the user
+  const offer = waitlistEntry?.status === 'offered' ? waitlistEntry.offer : undefined;
+  const hasNoSeatsLeft = !!event && event.maxAttendees - event.currentAttendees <= 0;
+  // With nothing left to book, the screen offers the waitlist instead of a checkout
+  const showWaitlist = !offer && (hasNoSeatsLeft || holdSoldOut || isWaiting);
+
+  // Start with the first upcoming session, unless a link chose one
+  useEffect(() => {
+    if (!needsSession || upcomingSessions.some(session => session.id === sessionId)) return;
+    setSessionId(upcomingSessions[0]?.id);
+  }, [baseEvent?.id, needsSession]);
+
+  // Start with one ticket of the first tier on sale once the event is loaded,
+  // or with the tickets of a waitlist offer
+  useEffect(() => {
+    if (!event) return;
+    if (offer) {
+      setQuantities(Object.fromEntries(offer.items.map(item => [item.tierId, item.quantity])));
+      return;
+    }
+    if (Object.keys(quantities).length > 0) return;
+    const tier = getEventTiers(event).find(t => isTierOnSale(t));
+    if (tier) setQuantities({ [tier.id]: 1 });
+  }, [event?.id, offer?.id]);
+
+  // Hold the selected seats while the user is on the checkout screen
+  useEffect(() => {
+    if (!event) return;
+    if (offer) {
+      setHold(offer);
+      setHoldError(null);
+      return;
+    }
+    if (ticketCount === 0 || !seatsComplete || hasNoSeatsLeft || isWaiting || (needsSession && !event.sessionId)) {
+      setHold(null);
+      setHoldError(null);
+      return;
+    }
+
+    let active = true;
+    let heldId: string | null = null;
+    holdSeats(event.id, selection, event.sessionId)
+      .then(newHold => {
+        heldId = newHold.id;
+        if (!active) {
+          releaseHold(newHold.id);
+          return;
+        }
+        setHold(newHold);
+        setHoldError(null);
+        setHoldSoldOut(false);
+      })
+      .catch(error => {
+        if (!active) return;
+        const soldOut = error instanceof RepositoryError && error.code === 'sold_out';
+        setHold(null);
+        // Taken seats on a seat map can be swapped for others; otherwise the event is full
+        setHoldSoldOut(soldOut && !isSeated);
+        setHoldError(
+          soldOut
+            ? isSeated
+              ? 'بعض المقاعد المختارة لم تعد متاحة، يرجى اختيار مقاعد أخرى'
+              : 'لا توجد مقاعد كافية متاحة حالياً'
+            : 'تعذر حجز المقاعد مؤقتاً'
+        );
+      });
+
+    return () => {
+      active = false;
+      if (heldId) releaseHold(heldId);
+    };
+  }, [event?.id, event?.sessionId, selectionKey, holdAttempt, offer?.id, isWaiting, hasNoSeatsLeft]);
+
+  // Price the selection on the server so discounts follow the promo code rules
+  useEffect(() => {
+    if (!event || ticketCount === 0 || (needsSession && !event.sessionId)) {
+      setQuote(null);
+      return;
+    }
+
+    let active = true;
+    quotePrice(event.id, selection, promoCode || undefined, event.sessionId)
+      .then(result => {
+        if (active) setQuote(result);
+      })
+      .catch(error => {
+        console.error('Error pricing booking:', error);
+        if (active) setQuote(null);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [event?.id, event?.sessionId, selectionKey, promoCode]);
+
+  // Count down until the hold expires
+  useEffect(() => {
+    if (!hold) return;
+
+    const tick = () => {
+      const remaining = Math.max(0, Math.round((new Date(hold.expiresAt).getTime() - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+      if (remaining === 0) {
+        setHold(null);
+        setHoldError(offer ? 'انتهت مهلة عرض قائمة الانتظار' : 'انتهت مدة حجز المقاعد');
+        if (offer) refreshWaitlist();
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [hold]);
 
   if (!event) {
     return (
@@ -39,18 +217,83 @@ export default function BookingScreen() {
 
   const title = locale === 'ar' ? event.titleAr : event.title;
   const location = locale === 'ar' ? event.locationAr : event.location;
-  const totalPrice = event.price * ticketCount;
+  const tiers = getEventTiers(event);
+  const lineItems = buildLineItems(event, selection);
+  // One slot per ticket, in the same order the booking issues the attendee tickets
+  const ticketSlots = lineItems.flatMap(item =>
+    Array.from({ length: item.quantity }, (_, index) => ({ item, seatId: item.seatIds?.[index] }))
+  );
+  const attendeeDetails = ticketSlots.map((_, index) => attendees[index] || { name: '', phone: '' });
+  const breakdown = quote ? quote.breakdown : buildPriceBreakdown(lineItems);
+  const promoCheck = quote?.promoCode;
+  const totalPrice = breakdown.total;
   const availableTickets = event.maxAttendees - event.currentAttendees;
 
+  const isBookDisabled =
+    isLoading || ticketCount === 0 || isWaiting || (!showWaitlist && !seatsComplete) || (needsSession && !event.sessionId);
+
+  // Seats and waitlist places belong to a session, so switching starts the seat choice over
+  const handleSelectSession = (nextSessionId: string) => {
+    if (nextSessionId === sessionId) return;
+    setSessionId(nextSessionId);
+    setSeatsByTier({});
+    setHoldSoldOut(false);
+  };
+
+  const setTierQuantity = (tierId: string, quantity: number) => {
+    setQuantities(prev => ({ ...prev, [tierId]: quantity }));
+    // Drop the seats that no longer have a ticket
+    setSeatsByTier(prev => ({ ...prev, [tierId]: (prev[tierId] || []).slice(0, quantity) }));
+  };
+
+  // Give a tapped seat to the first selected tier that still needs one and may sit in its section
+  const handleToggleSeat = (seat: Seat, section: SeatSection) => {
+    const owner = Object.keys(seatsByTier).find(tierId => seatsByTier[tierId].includes(seat.id));
+    if (owner) {
+      setSeatsByTier(prev => ({ ...prev, [owner]: prev[owner].filter(seatId => seatId !== seat.id) }));
+      return;
+    }
+
+    const needsSeats = selection.filter(item => (item.seatIds || []).length < item.quantity);
+    if (needsSeats.length === 0) {
+      Alert.alert('تنبيه', 'تم اختيار مقعد لكل تذكرة. ألغِ اختيار مقعد أو أضف تذكرة أخرى');
+      return;
+    }
+    const item = needsSeats.find(i => isTierAllowedInSection(section, i.tierId));
+    if (!item) {
+      Alert.alert('تنبيه', 'هذا القسم غير متاح لنوع التذاكر المختارة');
+      return;
+    }
+    setSeatsByTier(prev => ({ ...prev, [item.tierId]: [...(prev[item.tierId] || []), seat.id] }));
+  };
+
   const handleBooking = async () => {
+    if (ticketCount === 0) {
+      Alert.alert('خطأ', 'يرجى اختيار تذكرة واحدة على الأقل');
+      return;
+    }
     if (ticketCount > availableTickets) {
       Alert.alert('خطأ', 'عدد التذاكر المطلوبة غير متاح');
       return;
     }
+    if (!seatsComplete) {
+      Alert.alert('خطأ', `يرجى اختيار ${ticketCount} مقعد من مخطط القاعة`);
+      return;
+    }
+    if (attendeeDetails.some(attendee => !attendee.name.trim())) {
+      Alert.alert('خطأ', 'يرجى إدخال اسم كل شخص سيحضر الفعالية');
+      return;
+    }
 
     setIsLoading(true);
     try {
-      const booking = await bookEvent(event.id, ticketCount);
+      const booking = await bookEvent(event.id, selection, paymentMethod, {
+        sessionId: event.sessionId,
+        holdId: hold?.id,
+        promoCode: promoCheck?.status === 'applied' ? promoCode || undefined : undefined,
+        attendees: attendeeDetails,
+      });
+      if (offer) refreshWaitlist();
       Alert.alert(
         'تم الحجز بنجاح! 🎉',
         `تم حجز ${ticketCount} تذكرة للفعالية`,
@@ -66,12 +309,103 @@ export default function BookingScreen() {
         ]
       );
     } catch (error) {
-      Alert.alert('خطأ', 'فشل في إتمام الحجز');
+      if (error instanceof RepositoryError && error.code === 'sold_out') {
+        Alert.alert(
+          'نفدت التذاكر',
+          isSeated
+            ? 'تم حجز بعض المقاعد المختارة أثناء إتمام الحجز. يرجى اختيار مقاعد أخرى'
+            : 'بيعت المقاعد المتبقية أثناء إتمام الحجز. يرجى اختيار عدد أقل من التذاكر أو المحاولة لاحقاً'
+        );
+        setHoldAttempt(prev => prev + 1);
+      } else if (error instanceof PaymentError) {
+        // The reserved seats are released when the payment fails
+        Alert.alert(
+          'فشل الدفع',
+          error.code === 'declined'
+            ? 'تم رفض عملية الدفع. يرجى التحقق من بطاقتك أو اختيار طريقة دفع أخرى'
+            : 'تعذر إتمام عملية الدفع حالياً. يرجى المحاولة لاحقاً'
+        );
+      } else {
+        Alert.alert('خطأ', 'فشل في إتمام الحجز');
+      }
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleAttendeeChange = (index: number, changes: Partial<AttendeeDetails>) => {
+    setAttendees(prev => {
+      const updated = [...prev];
+      updated[index] = { ...(prev[index] || { name: '', phone: '' }), ...changes };
+      return updated;
+    });
+  };
+
+  const handleApplyPromoCode = () => {
+    if (!promoInput.trim()) {
+      Alert.alert('خطأ', 'يرجى إدخال رمز الخصم');
+      return;
+    }
+    setPromoCode(promoInput.trim());
+  };
+
+  const handleRemovePromoCode = () => {
+    setPromoCode(null);
+    setPromoInput('');
+  };
+
+  const handleJoinWaitlist = async () => {
+    if (ticketCount === 0) {
+      Alert.alert('خطأ', 'يرجى اختيار تذكرة واحدة على الأقل');
+      return;
+    }
+    if (!user) {
+      Alert.alert('تسجيل الدخول مطلوب', 'يرجى تسجيل الدخول للانضمام لقائمة الانتظار', [
+        { text: 'إلغاء', style: 'cancel' },
+        { text: 'تسجيل الدخول', onPress: () => router.push('/(auth)/login') },
+      ]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await joinWaitlist(event.id, selection.map(({ tierId, quantity }) => ({ tierId, quantity })), event.sessionId);
+      Alert.alert(
+        'تمت إضافتك لقائمة الانتظار',
+        'سنرسل لك إشعاراً عندما تتوفر المقاعد حسب ترتيب الانضمام'
+      );
+    } catch (error) {
+      console.error('Error joining waitlist:', error);
+      Alert.alert('خطأ', 'تعذر الانضمام لقائمة الانتظار. قد تكون التذاكر متاحة الآن، يرجى المحاولة مرة أخرى');
+      setHoldAttempt(prev => prev + 1);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleLeaveWaitlist = () => {
+    if (!waitlistEntry) return;
+    Alert.alert(
+      'مغادرة قائمة الانتظار',
+      'ستفقد ترتيبك في القائمة. هل تريد المتابعة؟',
+      [
+        { text: 'إلغاء', style: 'cancel' },
+        {
+          text: 'مغادرة',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await leaveWaitlist(waitlistEntry.id);
+            } catch (error) {
+              console.error('Error leaving waitlist:', error);
+              Alert.alert('خطأ', 'تعذر مغادرة قائمة الانتظار');
+            }
+          }
+        }
+      ]
+    );
+  };
+
   const styles = StyleSheet.create({
     container: {
       flex: 1,
@@ -194,12 +528,156 @@ export default function BookingScreen() {
       minWidth: 30,
       textAlign: 'center',
     },
+    tierNote: {
+      fontSize: 12,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.textSecondary,
+      marginTop: 2,
+    },
+    tierUnavailable: {
+      fontSize: 12,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.error,
+      marginTop: 2,
+    },
     availableTickets: {
       fontSize: 12,
       fontFamily: 'Cairo-Regular',
       color: theme.colors.warning,
       textAlign: 'center',
     },
+    holdStatus: {
+      flexDirection: 'row',
+      justifyContent: 'center',
+      alignItems: 'center',
+      gap: 8,
+      marginTop: 12,
+    },
+    holdStatusText: {
+      fontSize: 12,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.textSecondary,
+    },
+    holdErrorText: {
+      fontSize: 12,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.error,
+    },
+    holdRetryText: {
+      fontSize: 12,
+      fontFamily: 'Cairo-Bold',
+      color: theme.colors.primary,
+    },
+    waitlistCard: {
+      backgroundColor: theme.colors.surface,
+      borderRadius: 16,
+      padding: 20,
+      gap: 8,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: theme.isDark ? 0.3 : 0.1,
+      shadowRadius: 8,
+      elevation: 4,
+    },
+    waitlistTitle: {
+      fontSize: 16,
+      fontFamily: 'Cairo-Bold',
+      color: theme.colors.text,
+    },
+    waitlistText: {
+      fontSize: 14,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.textSecondary,
+    },
+    attendeeCard: {
+      paddingBottom: 16,
+      marginBottom: 16,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+      gap: 8,
+    },
+    attendeeCardLast: {
+      paddingBottom: 0,
+      marginBottom: 0,
+      borderBottomWidth: 0,
+    },
+    attendeeLabel: {
+      fontSize: 14,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.textSecondary,
+    },
+    attendeeInput: {
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      borderRadius: 12,
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      fontSize: 16,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.text,
+      textAlign: locale === 'ar' ? 'right' : 'left',
+    },
+    promoRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    promoInput: {
+      flex: 1,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      borderRadius: 12,
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+      fontSize: 16,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.text,
+      textAlign: locale === 'ar' ? 'right' : 'left',
+    },
+    promoButton: {
+      backgroundColor: theme.colors.primary,
+      borderRadius: 12,
+      paddingHorizontal: 20,
+      paddingVertical: 12,
+    },
+    promoButtonText: {
+      fontSize: 14,
+      fontFamily: 'Cairo-Bold',
+      color: 'white',
+    },
+    promoApplied: {
+      fontSize: 14,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.success,
+      marginTop: 12,
+    },
+    promoRejected: {
+      fontSize: 14,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.error,
+      marginTop: 12,
+    },
+    discountValue: {
+      fontSize: 16,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.success,
+    },
+    seatMapSection: {
+      backgroundColor: theme.colors.surface,
+      borderRadius: 16,
+      padding: 20,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: theme.isDark ? 0.3 : 0.1,
+      shadowRadius: 8,
+      elevation: 4,
+    },
+    seatProgress: {
+      fontSize: 14,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.textSecondary,
+      marginBottom: 12,
+    },
     paymentSection: {
       backgroundColor: theme.colors.surface,
       borderRadius: 16,
@@ -362,55 +840,212 @@ export default function BookingScreen() {
               </View>
             </View>
 
+            {/* Session Selection */}
+            {needsSession && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>اختيار الموعد</Text>
+                <View style={styles.paymentSection}>
+                  {upcomingSessions.length === 0 ? (
+                    <Text style={styles.waitlistText}>لا توجد مواعيد قادمة لهذه الفعالية</Text>
+                  ) : (
+                    upcomingSessions.map(session => {
+                      const seatsLeft = Math.max(0, event.maxAttendees - session.booked);
+                      return (
+                        <TouchableOpacity
+                          key={session.id}
+                          style={[
+                            styles.paymentMethod,
+                            session.id === event.sessionId && styles.paymentMethodActive
+                          ]}
+                          onPress={() => handleSelectSession(session.id)}
+                          activeOpacity={0.7}
+                        >
+                          <Calendar size={24} color={theme.colors.primary} style={styles.paymentMethodIcon} />
+                          <Text style={styles.paymentMethodText}>
+                            {formatSession(session)} · {seatsLeft > 0 ? `${seatsLeft} متاح` : 'نفدت التذاكر'}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })
+                  )}
+                </View>
+              </View>
+            )}
+
             {/* Ticket Selection */}
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>اختيار التذاكر</Text>
               <View style={styles.ticketSelector}>
-                <View style={styles.ticketRow}>
-                  <View style={styles.ticketInfo}>
-                    <Text style={styles.ticketType}>تذكرة عامة</Text>
-                    <Text style={styles.ticketPrice}>
-                      {event.price === 0 ? 'مجاني' : `${event.price} د.ل`}
-                    </Text>
-                  </View>
-                  
-                  <View style={styles.ticketControls}>
-                    <TouchableOpacity
-                      style={[
-                        styles.controlButton,
-                        ticketCount <= 1 && styles.controlButtonDisabled
-                      ]}
-                      onPress={() => setTicketCount(Math.max(1, ticketCount - 1))}
-                      disabled={ticketCount <= 1}
-                      activeOpacity={0.7}
-                    >
-                      <Minus size={20} color="white" />
-                    </TouchableOpacity>
-                    
-                    <Text style={styles.ticketCountText}>{ticketCount}</Text>
-                    
-                    <TouchableOpacity
-                      style={[
-                        styles.controlButton,
-                        ticketCount >= availableTickets && styles.controlButtonDisabled
-                      ]}
-                      onPress={() => setTicketCount(Math.min(availableTickets, ticketCount + 1))}
-                      disabled={ticketCount >= availableTickets}
-                      activeOpacity={0.7}
-                    >
-                      <Plus size={20} color="white" />
-                    </TouchableOpacity>
-                  </View>
-                </View>
+                {tiers.map(tier => {
+                  const quantity = quantities[tier.id] || 0;
+                  const onSale = isTierOnSale(tier);
+                  const maxQuantity = showWaitlist
+                    ? WAITLIST_MAX_TICKETS - (ticketCount - quantity)
+                    : Math.min(tier.capacity - tier.sold, availableTickets - (ticketCount - quantity));
+                  // Offers and waitlist entries are for the tickets that were asked for
+                  const isLocked = !!offer || isWaiting;
+                  const eligibility = locale === 'ar' ? tier.eligibilityAr : tier.eligibility;
+
+                  return (
+                    <View key={tier.id} style={styles.ticketRow}>
+                      <View style={styles.ticketInfo}>
+                        <Text style={styles.ticketType}>{locale === 'ar' ? tier.nameAr : tier.name}</Text>
+                        <Text style={styles.ticketPrice}>
+                          {tier.price === 0 ? 'مجاني' : `${tier.price} د.ل`}
+                        </Text>
+                        {eligibility ? <Text style={styles.tierNote}>{eligibility}</Text> : null}
+                        {!onSale && (
+                          <Text style={styles.tierUnavailable}>
+                            {tier.salesStart && new Date() < new Date(tier.salesStart)
+                              ? `يبدأ البيع في ${new Date(tier.salesStart).toLocaleDateString('ar-LY')}`
+                              : 'انتهى البيع'}
+                          </Text>
+                        )}
+                        {onSale && tier.capacity - tier.sold <= 0 && (
+                          <Text style={styles.tierUnavailable}>نفدت التذاكر</Text>
+                        )}
+                      </View>
+
+                      <View style={styles.ticketControls}>
+                        <TouchableOpacity
+                          style={[
+                            styles.controlButton,
+                            (isLocked || quantity <= 0) && styles.controlButtonDisabled
+                          ]}
+                          onPress={() => setTierQuantity(tier.id, Math.max(0, quantity - 1))}
+                          disabled={isLocked || quantity <= 0}
+                          activeOpacity={0.7}
+                        >
+                          <Minus size={20} color="white" />
+                        </TouchableOpacity>
+
+                        <Text style={styles.ticketCountText}>{quantity}</Text>
+
+                        <TouchableOpacity
+                          style={[
+                            styles.controlButton,
+                            (isLocked || !onSale || quantity >= maxQuantity) && styles.controlButtonDisabled
+                          ]}
+                          onPress={() => setTierQuantity(tier.id, Math.min(maxQuantity, quantity + 1))}
+                          disabled={isLocked || !onSale || quantity >= maxQuantity}
+                          activeOpacity={0.7}
+                        >
+                          <Plus size={20} color="white" />
+                        </TouchableOpacity>
+                      </View>
+                    </View>
+                  );
+                })}
                 
                 <Text style={styles.availableTickets}>
                   متاح {availableTickets} تذكرة
                 </Text>
+
+                <View style={styles.holdStatus}>
+                  {hold ? (
+                    <Text style={styles.holdStatusText}>
+                      {offer ? 'المقاعد محجوزة لك من قائمة الانتظار لمدة' : 'المقاعد محجوزة لك لمدة'} {Math.floor(secondsLeft / 60)}:{String(secondsLeft % 60).padStart(2, '0')}
+                    </Text>
+                  ) : holdError && !showWaitlist ? (
+                    <>
+                      <Text style={styles.holdErrorText}>{holdError}</Text>
+                      <TouchableOpacity onPress={() => setHoldAttempt(prev => prev + 1)} activeOpacity={0.7}>
+                        <Text style={styles.holdRetryText}>إعادة المحاولة</Text>
+                      </TouchableOpacity>
+                    </>
+                  ) : null}
+                </View>
               </View>
             </View>
 
+            {/* Waitlist */}
+            {showWaitlist && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>قائمة الانتظار</Text>
+                <View style={styles.waitlistCard}>
+                  {isWaiting && waitlistEntry ? (
+                    <>
+                      <Text style={styles.waitlistTitle}>أنت في قائمة الانتظار</Text>
+                      <Text style={styles.waitlistText}>
+                        ترتيبك: {waitlistEntry.position} · {waitlistEntry.ticketCount} تذكرة
+                      </Text>
+                      <Text style={styles.waitlistText}>
+                        سنرسل لك إشعاراً عند توفر المقاعد، وستكون محجوزة لك لمدة {WAITLIST_OFFER_DURATION / 60000} دقيقة لإتمام الحجز
+                      </Text>
+                      <TouchableOpacity onPress={handleLeaveWaitlist} activeOpacity={0.7}>
+                        <Text style={styles.holdErrorText}>مغادرة قائمة الانتظار</Text>
+                      </TouchableOpacity>
+                    </>
+                  ) : (
+                    <>
+                      <Text style={styles.waitlistTitle}>نفدت التذاكر</Text>
+                      <Text style={styles.waitlistText}>
+                        اختر عدد التذاكر (حتى {WAITLIST_MAX_TICKETS}) وانضم إلى قائمة الانتظار. عند إلغاء أي حجز تُعرض المقاعد على المنتظرين حسب ترتيب انضمامهم
+                      </Text>
+                    </>
+                  )}
+                </View>
+              </View>
+            )}
+
+            {/* Seat Selection */}
+            {event.seatMap && ticketCount > 0 && !showWaitlist && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>اختيار المقاعد</Text>
+                <View style={styles.seatMapSection}>
+                  <Text style={styles.seatProgress}>
+                    تم اختيار {selectedSeatIds.length} من {ticketCount} مقعد
+                  </Text>
+                  <SeatPicker
+                    seatMap={event.seatMap}
+                    takenSeatIds={event.bookedSeats || []}
+                    selectedSeatIds={selectedSeatIds}
+                    isSectionAvailable={section =>
+                      selection.some(item => isTierAllowedInSection(section, item.tierId))
+                    }
+                    onToggleSeat={handleToggleSeat}
+                  />
+                </View>
+              </View>
+            )}
+
+            {/* Attendees */}
+            {ticketSlots.length > 0 && !showWaitlist && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>بيانات الحضور</Text>
+                <View style={styles.paymentSection}>
+                  {ticketSlots.map(({ item, seatId }, index) => (
+                    <View
+                      key={index}
+                      style={[styles.attendeeCard, index === ticketSlots.length - 1 && styles.attendeeCardLast]}
+                    >
+                      <Text style={styles.attendeeLabel}>
+                        التذكرة {index + 1} - {locale === 'ar' ? item.nameAr : item.name}
+                        {seatId ? ` - ${formatSeatLabel(event, seatId)}` : ''}
+                      </Text>
+                      <TextInput
+                        style={styles.attendeeInput}
+                        placeholder="الاسم الكامل"
+                        placeholderTextColor={theme.colors.textSecondary}
+                        value={attendeeDetails[index].name}
+                        onChangeText={name => handleAttendeeChange(index, { name })}
+                      />
+                      <TextInput
+                        style={styles.attendeeInput}
+                        placeholder="رقم الهاتف (اختياري)"
+                        placeholderTextColor={theme.colors.textSecondary}
+                        value={attendeeDetails[index].phone}
+                        onChangeText={phone => handleAttendeeChange(index, { phone })}
+                        keyboardType="phone-pad"
+                      />
+                    </View>
+                  ))}
+                </View>
+              </View>
+            )}
+
             {/* Payment Method */}
-            {event.price > 0 && (
+            {totalPrice > 0 && !showWaitlist && (
               <View style={styles.section}>
                 <Text style={styles.sectionTitle}>طريقة الدفع</Text>
                 <View style={styles.paymentSection}>
@@ -441,19 +1076,81 @@ export default function BookingScreen() {
               </View>
             )}
 
+            {/* Promo Code */}
+            {breakdown.subtotal > 0 && !showWaitlist && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>رمز الخصم</Text>
+                <View style={styles.paymentSection}>
+                  <View style={styles.promoRow}>
+                    <TextInput
+                      style={styles.promoInput}
+                      placeholder="أدخل رمز الخصم"
+                      placeholderTextColor={theme.colors.textSecondary}
+                      value={promoInput}
+                      onChangeText={setPromoInput}
+                      autoCapitalize="characters"
+                      autoCorrect={false}
+                      editable={!promoCode}
+                    />
+                    <TouchableOpacity
+                      style={styles.promoButton}
+                      onPress={promoCode ? handleRemovePromoCode : handleApplyPromoCode}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={styles.promoButtonText}>{promoCode ? 'إزالة' : 'تطبيق'}</Text>
+                    </TouchableOpacity>
+                  </View>
+                  {promoCode && promoCheck?.status === 'applied' && (
+                    <Text style={styles.promoApplied}>
+                      تم تطبيق الخصم: {promoCheck.discount.amount} د.ل
+                    </Text>
+                  )}
+                  {promoCode && promoCheck?.status === 'rejected' && (
+                    <Text style={styles.promoRejected}>{PROMO_REJECTION_MESSAGES[promoCheck.reason]}</Text>
+                  )}
+                </View>
+              </View>
+            )}
+
             {/* Total */}
             <View style={styles.totalSection}>
+              {lineItems.map(item => (
+                <View key={item.tierId} style={styles.totalRow}>
+                  <Text style={styles.totalLabel}>
+                    {locale === 'ar' ? item.nameAr : item.name} × {item.quantity}
+                  </Text>
+                  <Text style={styles.totalValue}>
+                    {item.subtotal === 0 ? 'مجاني' : `${item.subtotal} د.ل`}
+                  </Text>
+                </View>
+              ))}
+
+              {selectedSeatIds.map(seatId => (
+                <View key={seatId} style={styles.totalRow}>
+                  <Text style={styles.totalLabel}>{formatSeatLabel(event, seatId)}</Text>
+                </View>
+              ))}
+              
               <View style={styles.totalRow}>
                 <Text style={styles.totalLabel}>عدد التذاكر</Text>
                 <Text style={styles.totalValue}>{ticketCount}</Text>
               </View>
-              
-              <View style={styles.totalRow}>
-                <Text style={styles.totalLabel}>سعر التذكرة الواحدة</Text>
-                <Text style={styles.totalValue}>
-                  {event.price === 0 ? 'مجاني' : `${event.price} د.ل`}
-                </Text>
-              </View>
+
+              {breakdown.discounts.length > 0 && (
+                <View style={styles.totalRow}>
+                  <Text style={styles.totalLabel}>المجموع الفرعي</Text>
+                  <Text style={styles.totalValue}>{breakdown.subtotal} د.ل</Text>
+                </View>
+              )}
+
+              {breakdown.discounts.map(discount => (
+                <View key={discount.code} style={styles.totalRow}>
+                  <Text style={styles.totalLabel}>
+                    خصم ({discount.code}{discount.type === 'percentage' ? ` - ${discount.value}%` : ''})
+                  </Text>
+                  <Text style={styles.discountValue}>-{discount.amount} د.ل</Text>
+                </View>
+              ))}
               
               <View style={[styles.totalRow, styles.totalFinal]}>
                 <Text style={styles.totalFinalLabel}>المجموع</Text>
@@ -471,14 +1168,18 @@ export default function BookingScreen() {
         <TouchableOpacity
           style={[
             styles.bookButton,
-            (isLoading || availableTickets === 0) && styles.bookButtonDisabled
+            isBookDisabled && styles.bookButtonDisabled
           ]}
-          onPress={handleBooking}
-          disabled={isLoading || availableTickets === 0}
+          onPress={showWaitlist ? handleJoinWaitlist : handleBooking}
+          disabled={isBookDisabled}
           activeOpacity={0.7}
         >
           <Text style={styles.bookButtonText}>
-            {isLoading ? 'جاري الحجز...' : availableTickets === 0 ? 'نفدت التذاكر' : 'تأكيد الحجز'}
+            {isLoading
+              ? showWaitlist ? 'جاري الانضمام...' : 'جاري الحجز...'
+              : isWaiting
+                ? 'أنت في قائمة الانتظار'
+                : showWaitlist ? 'الانضمام لقائمة الانتظار' : 'تأكيد الحجز'}
           </Text>
         </TouchableOpacity>
       </View>
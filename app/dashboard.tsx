@@ -0,0 +1,562 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { useI18n } from '@/context/I18nContext';
+import { useTheme } from '@/context/ThemeContext';
+import { useEvents, Event } from '@/context/EventContext';
+import { useAuth } from '@/context/AuthContext';
+import { useCheckIns } from '@/context/CheckInContext';
+import { DailySales, EventStats, getEventStats, isEventOrganizedBy, summarizeEventStats } from '@/utils/organizerStats';
+import { EVENT_STATUS_LABELS, EventStatus, canCompleteEvent, getEventStatus, isEventEditable } from '@/utils/eventLifecycle';
+import { ArrowLeft, TrendingUp, Ticket, Users, XCircle, Calendar, ScanLine, Pencil, Trash2, Send, CircleCheck as CheckCircle, Ban, TriangleAlert as AlertTriangle } from 'lucide-react-native';
+
+// Days shown in each event's sales chart, ending today
+const SALES_CHART_DAYS = 14;
+
+const formatPercent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+/**
+ * Fill the chart window with every day, including days without sales
+ */
+const getRecentSales = (salesByDay: DailySales[], days: number, today: Date = new Date()): DailySales[] => {
+  const byDate = new Map(salesByDay.map(day => [day.date, day]));
+  return Array.from({ length: days }, (_, index) => {
+    const date = new Date(today);
+    date.setDate(today.getDate() - (days - 1 - index));
+    const key = date.toISOString().slice(0, 10);
+    return byDate.get(key) || { date: key, tickets: 0, revenue: 0 };
+  });
+};
+
+export default function DashboardScreen() {
+  const { locale } = useI18n();
+  const { theme } = useTheme();
+  const { allEvents, bookings, deleteEvent, setEventStatus } = useEvents();
+  const { user, isBusinessAccount } = useAuth();
+  const { checkIns } = useCheckIns();
+
+  // Drafts and events under review are listed too, so organizers can follow them through
+  const organizerEvents = user
+    ? allEvents
+        .filter(event => isEventOrganizedBy(event, user))
+        .sort((a, b) => b.date.localeCompare(a.date))
+    : [];
+  const stats = organizerEvents.map(event => getEventStats(event, bookings, checkIns));
+  const summary = summarizeEventStats(stats);
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    header: {
+      backgroundColor: theme.colors.surface,
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 20,
+      paddingVertical: 16,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+    },
+    backButton: {
+      padding: 8,
+      marginRight: 12,
+    },
+    headerTitle: {
+      fontSize: 20,
+      fontFamily: 'Cairo-Bold',
+      color: theme.colors.text,
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    summaryGrid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 12,
+      marginBottom: 24,
+    },
+    summaryCard: {
+      flexGrow: 1,
+      flexBasis: '45%',
+      backgroundColor: theme.colors.surface,
+      borderRadius: 16,
+      padding: 16,
+      gap: 8,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: theme.isDark ? 0.3 : 0.1,
+      shadowRadius: 8,
+      elevation: 4,
+    },
+    summaryValue: {
+      fontSize: 22,
+      fontFamily: 'Cairo-Bold',
+      color: theme.colors.text,
+    },
+    summaryLabel: {
+      fontSize: 13,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.textSecondary,
+    },
+    sectionTitle: {
+      fontSize: 18,
+      fontFamily: 'Cairo-Bold',
+      color: theme.colors.text,
+      marginBottom: 16,
+    },
+    eventCard: {
+      backgroundColor: theme.colors.surface,
+      borderRadius: 16,
+      padding: 20,
+      marginBottom: 16,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: theme.isDark ? 0.3 : 0.1,
+      shadowRadius: 8,
+      elevation: 4,
+    },
+    eventHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'flex-start',
+      marginBottom: 16,
+    },
+    eventTitle: {
+      fontSize: 16,
+      fontFamily: 'Cairo-Bold',
+      color: theme.colors.text,
+      flex: 1,
+      marginRight: 12,
+    },
+    eventDate: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+    },
+    eventDateText: {
+      fontSize: 13,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.textSecondary,
+    },
+    metricsGrid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      marginBottom: 16,
+    },
+    metric: {
+      width: '50%',
+      paddingVertical: 6,
+    },
+    metricValue: {
+      fontSize: 16,
+      fontFamily: 'Cairo-Bold',
+      color: theme.colors.text,
+    },
+    metricLabel: {
+      fontSize: 12,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.textSecondary,
+    },
+    capacityLabel: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginBottom: 6,
+    },
+    capacityText: {
+      fontSize: 13,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.textSecondary,
+    },
+    capacityTrack: {
+      height: 8,
+      borderRadius: 4,
+      backgroundColor: theme.colors.background,
+      overflow: 'hidden',
+      marginBottom: 16,
+    },
+    capacityFill: {
+      height: 8,
+      borderRadius: 4,
+      backgroundColor: theme.colors.primary,
+    },
+    chartTitle: {
+      fontSize: 13,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.textSecondary,
+      marginBottom: 8,
+    },
+    chart: {
+      flexDirection: 'row',
+      alignItems: 'flex-end',
+      height: 80,
+      gap: 4,
+    },
+    chartBar: {
+      flex: 1,
+      borderTopLeftRadius: 3,
+      borderTopRightRadius: 3,
+      backgroundColor: theme.colors.primary,
+    },
+    chartBarEmpty: {
+      backgroundColor: theme.colors.border,
+    },
+    chartAxis: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginTop: 4,
+    },
+    chartAxisText: {
+      fontSize: 11,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.textSecondary,
+    },
+    statusBadge: {
+      alignSelf: 'flex-start',
+      paddingHorizontal: 10,
+      paddingVertical: 2,
+      borderRadius: 10,
+      marginTop: 4,
+    },
+    statusBadgeText: {
+      fontSize: 12,
+      fontFamily: 'Cairo-SemiBold',
+    },
+    eventActions: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 12,
+      marginTop: 16,
+      paddingTop: 16,
+      borderTopWidth: 1,
+      borderTopColor: theme.colors.border,
+    },
+    eventAction: {
+      flexGrow: 1,
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 6,
+      paddingVertical: 10,
+      borderRadius: 10,
+      backgroundColor: theme.colors.background,
+    },
+    eventActionText: {
+      fontSize: 14,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.primary,
+    },
+    emptyState: {
+      alignItems: 'center',
+      padding: 40,
+      gap: 12,
+    },
+    emptyTitle: {
+      fontSize: 18,
+      fontFamily: 'Cairo-Bold',
+      color: theme.colors.text,
+      textAlign: 'center',
+    },
+    emptyText: {
+      fontSize: 14,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.textSecondary,
+      textAlign: 'center',
+    },
+    primaryButton: {
+      backgroundColor: theme.colors.primary,
+      paddingHorizontal: 24,
+      paddingVertical: 12,
+      borderRadius: 12,
+    },
+    primaryButtonText: {
+      fontSize: 16,
+      fontFamily: 'Cairo-Bold',
+      color: 'white',
+    },
+  });
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.7}>
+        <ArrowLeft size={24} color={theme.colors.text} />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>لوحة المنظم</Text>
+    </View>
+  );
+
+  const renderSalesChart = (eventStats: EventStats) => {
+    const days = getRecentSales(eventStats.salesByDay, SALES_CHART_DAYS);
+    const maxTickets = Math.max(1, ...days.map(day => day.tickets));
+    return (
+      <View>
+        <Text style={styles.chartTitle}>المبيعات خلال آخر {SALES_CHART_DAYS} يوماً</Text>
+        <View style={styles.chart}>
+          {days.map(day => (
+            <View
+              key={day.date}
+              style={[
+                styles.chartBar,
+                day.tickets === 0 && styles.chartBarEmpty,
+                { height: day.tickets === 0 ? 2 : Math.max(4, (day.tickets / maxTickets) * 80) },
+              ]}
+            />
+          ))}
+        </View>
+        <View style={styles.chartAxis}>
+          <Text style={styles.chartAxisText}>{new Date(days[0].date).toLocaleDateString('ar-LY')}</Text>
+          <Text style={styles.chartAxisText}>اليوم</Text>
+        </View>
+      </View>
+    );
+  };
+
+  const confirmDeleteEvent = (event: Event) => {
+    Alert.alert(
+      'حذف الفعالية',
+      `هل أنت متأكد من حذف "${event.titleAr}"؟ لا يمكن التراجع عن ذلك.`,
+      [
+        { text: 'إلغاء', style: 'cancel' },
+        {
+          text: 'حذف',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteEvent(event.id);
+            } catch (error) {
+              console.error('Error deleting event:', error);
+              Alert.alert('خطأ', 'تعذر حذف الفعالية. لا يمكن حذف فعالية لديها حجوزات.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const changeStatus = async (event: Event, status: 'published' | 'cancelled' | 'completed') => {
+    try {
+      await setEventStatus(event.id, status);
+    } catch (error) {
+      console.error('Error changing event status:', error);
+      Alert.alert('خطأ', 'تعذر تحديث حالة الفعالية. يرجى المحاولة مرة أخرى.');
+    }
+  };
+
+  const confirmCancelEvent = (event: Event) => {
+    Alert.alert(
+      'إلغاء الفعالية',
+      'سيتم إلغاء جميع الحجوزات واسترداد المبالغ المدفوعة كاملة للحاضرين. لا يمكن التراجع عن ذلك.',
+      [
+        { text: 'رجوع', style: 'cancel' },
+        { text: 'إلغاء الفعالية', style: 'destructive', onPress: () => changeStatus(event, 'cancelled') },
+      ]
+    );
+  };
+
+  const getStatusColor = (status: EventStatus) => {
+    switch (status) {
+      case 'published':
+      case 'approved':
+        return theme.colors.success;
+      case 'submitted':
+        return theme.colors.warning;
+      case 'rejected':
+      case 'cancelled':
+        return theme.colors.error;
+      default:
+        return theme.colors.textSecondary;
+    }
+  };
+
+  const renderEventActions = (event: Event) => {
+    const status = getEventStatus(event);
+    const hasBookings = bookings.some(booking => booking.eventId === event.id);
+    const canCancel = status === 'approved' || status === 'published';
+
+    return (
+      <View style={styles.eventActions}>
+        {status === 'approved' && (
+          <TouchableOpacity style={styles.eventAction} onPress={() => changeStatus(event, 'published')} activeOpacity={0.7}>
+            <Send size={16} color={theme.colors.primary} />
+            <Text style={styles.eventActionText}>نشر</Text>
+          </TouchableOpacity>
+        )}
+        {isEventEditable(event) && (
+          <TouchableOpacity
+            style={styles.eventAction}
+            onPress={() => router.push({ pathname: '/(tabs)/upload', params: { editEventId: event.id } })}
+            activeOpacity={0.7}
+          >
+            <Pencil size={16} color={theme.colors.primary} />
+            <Text style={styles.eventActionText}>
+              {status === 'draft' || status === 'rejected' ? 'متابعة التعديل' : 'تعديل'}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {status === 'published' && canCompleteEvent(event) && (
+          <TouchableOpacity style={styles.eventAction} onPress={() => changeStatus(event, 'completed')} activeOpacity={0.7}>
+            <CheckCircle size={16} color={theme.colors.success} />
+            <Text style={[styles.eventActionText, { color: theme.colors.success }]}>إنهاء</Text>
+          </TouchableOpacity>
+        )}
+        {canCancel && (
+          <TouchableOpacity style={styles.eventAction} onPress={() => confirmCancelEvent(event)} activeOpacity={0.7}>
+            <Ban size={16} color={theme.colors.error} />
+            <Text style={[styles.eventActionText, { color: theme.colors.error }]}>إلغاء الفعالية</Text>
+          </TouchableOpacity>
+        )}
+        {!hasBookings && status !== 'submitted' && (
+          <TouchableOpacity style={styles.eventAction} onPress={() => confirmDeleteEvent(event)} activeOpacity={0.7}>
+            <Trash2 size={16} color={theme.colors.error} />
+            <Text style={[styles.eventActionText, { color: theme.colors.error }]}>حذف</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderEventCard = (event: Event, eventStats: EventStats) => {
+    const title = (locale === 'ar' ? event.titleAr : event.title) || 'مسودة بدون عنوان';
+    const status = getEventStatus(event);
+    const taken = eventStats.capacity - eventStats.remainingCapacity;
+    const fill = eventStats.capacity > 0 ? Math.min(1, taken / eventStats.capacity) : 0;
+
+    return (
+      <View key={event.id} style={styles.eventCard}>
+        <View style={styles.eventHeader}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.eventTitle} numberOfLines={2}>{title}</Text>
+            <View style={[styles.statusBadge, { backgroundColor: getStatusColor(status) + '20' }]}>
+              <Text style={[styles.statusBadgeText, { color: getStatusColor(status) }]}>
+                {EVENT_STATUS_LABELS[status]}
+              </Text>
+            </View>
+            {event.pendingChanges && (
+              <View style={[styles.statusBadge, { backgroundColor: theme.colors.warning + '20' }]}>
+                <Text style={[styles.statusBadgeText, { color: theme.colors.warning }]}>تعديلات قيد المراجعة</Text>
+              </View>
+            )}
+          </View>
+          <View style={styles.eventDate}>
+            <Calendar size={14} color={theme.colors.textSecondary} />
+            <Text style={styles.eventDateText}>
+              {event.date ? new Date(event.date).toLocaleDateString('ar-LY') : 'بدون تاريخ'}
+            </Text>
+          </View>
+        </View>
+
+        <View style={styles.metricsGrid}>
+          <View style={styles.metric}>
+            <Text style={styles.metricValue}>{eventStats.ticketsSold}</Text>
+            <Text style={styles.metricLabel}>تذكرة مباعة ({eventStats.bookingCount} حجز)</Text>
+          </View>
+          <View style={styles.metric}>
+            <Text style={styles.metricValue}>{eventStats.revenue} د.ل</Text>
+            <Text style={styles.metricLabel}>الإيرادات</Text>
+          </View>
+          <View style={styles.metric}>
+            <Text style={styles.metricValue}>{formatPercent(eventStats.checkInRate)}</Text>
+            <Text style={styles.metricLabel}>نسبة الحضور ({eventStats.checkedIn} دخلوا)</Text>
+          </View>
+          <View style={styles.metric}>
+            <Text style={styles.metricValue}>{eventStats.cancellations}</Text>
+            <Text style={styles.metricLabel}>
+              حجز ملغي{eventStats.refunded > 0 ? ` (مسترد ${eventStats.refunded} د.ل)` : ''}
+            </Text>
+          </View>
+        </View>
+
+        <View style={styles.capacityLabel}>
+          <Text style={styles.capacityText}>المقاعد المتبقية: {eventStats.remainingCapacity}</Text>
+          <Text style={styles.capacityText}>{taken} / {eventStats.capacity}</Text>
+        </View>
+        <View style={styles.capacityTrack}>
+          <View style={[styles.capacityFill, { width: `${fill * 100}%` }]} />
+        </View>
+        {eventStats.pendingTickets > 0 && (
+          <Text style={[styles.chartTitle, { marginTop: -8 }]}>
+            {eventStats.pendingTickets} تذكرة بانتظار الدفع
+          </Text>
+        )}
+
+        {renderSalesChart(eventStats)}
+        {renderEventActions(event)}
+      </View>
+    );
+  };
+
+  if (!isBusinessAccount()) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        {renderHeader()}
+        <View style={styles.emptyState}>
+          <AlertTriangle size={64} color={theme.colors.warning} />
+          <Text style={styles.emptyTitle}>غير مصرح</Text>
+          <Text style={styles.emptyText}>لوحة المنظم متاحة فقط لحسابات الأعمال</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {renderHeader()}
+
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Summary */}
+        <View style={styles.summaryGrid}>
+          <View style={styles.summaryCard}>
+            <TrendingUp size={22} color={theme.colors.success} />
+            <Text style={styles.summaryValue}>{summary.revenue} د.ل</Text>
+            <Text style={styles.summaryLabel}>إجمالي الإيرادات</Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <Ticket size={22} color={theme.colors.primary} />
+            <Text style={styles.summaryValue}>{summary.ticketsSold}</Text>
+            <Text style={styles.summaryLabel}>التذاكر المباعة</Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <ScanLine size={22} color={theme.colors.primary} />
+            <Text style={styles.summaryValue}>{formatPercent(summary.checkInRate)}</Text>
+            <Text style={styles.summaryLabel}>نسبة تسجيل الدخول</Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <XCircle size={22} color={theme.colors.error} />
+            <Text style={styles.summaryValue}>{summary.cancellations}</Text>
+            <Text style={styles.summaryLabel}>الإلغاءات</Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <Users size={22} color={theme.colors.secondary} />
+            <Text style={styles.summaryValue}>{summary.remainingCapacity}</Text>
+            <Text style={styles.summaryLabel}>المقاعد المتبقية</Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <Calendar size={22} color={theme.colors.secondary} />
+            <Text style={styles.summaryValue}>{summary.eventCount}</Text>
+            <Text style={styles.summaryLabel}>الفعاليات</Text>
+          </View>
+        </View>
+
+        {/* Events */}
+        <Text style={styles.sectionTitle}>فعالياتي</Text>
+        {organizerEvents.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyTitle}>لا توجد فعاليات بعد</Text>
+            <Text style={styles.emptyText}>أنشئ فعاليتك الأولى لمتابعة المبيعات والحضور من هنا</Text>
+            <TouchableOpacity
+              style={styles.primaryButton}
+              onPress={() => router.push('/(tabs)/upload')}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.primaryButtonText}>إنشاء فعالية</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          organizerEvents.map((event, index) => renderEventCard(event, stats[index]))
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
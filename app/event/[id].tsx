@@ -7,7 +7,10 @@ import { useTheme } from '@/context/ThemeContext';
 import { useEvents } from '@/context/EventContext';
 import { useFavorites } from '@/context/FavoritesContext';
 import { ArrowLeft, Calendar, MapPin, Users, Share as ShareIcon, Heart, Bookmark, Clock, Star, Ticket } from 'lucide-react-native';
-import * as Linking from 'expo-linking';
+import { EVENT_STATUS_LABELS, getEventStatus, isEventBookable } from '@/utils/eventLifecycle';
+import { addEventToCalendar } from '@/utils/calendarExport';
+import { formatDuration, getEventDuration } from '@/utils/eventDetails';
+import { formatSession, getTotalCapacity, getUpcomingSessions, hasSessions } from '@/utils/eventSessions';
 
 export default function EventDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -86,20 +89,19 @@ export default function EventDetailScreen() {
     }
   };
 
-  const handleAddToCalendar = () => {
-    const eventDate = new Date(event.date);
-    const startDate = eventDate.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-    const endDate = new Date(eventDate.getTime() + 2 * 60 * 60 * 1000).toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-    
-    const calendarUrl = `https://calendar.google.com/calendar/render?action=TEMPLATE&text=${encodeURIComponent(title)}&dates=${startDate}/${endDate}&details=${encodeURIComponent(description)}&location=${encodeURIComponent(location)}`;
-    
-    Linking.openURL(calendarUrl);
+  const handleAddToCalendar = async () => {
+    const added = await addEventToCalendar(event);
+    if (!added) {
+      Alert.alert('خطأ', 'تعذر إضافة الفعالية إلى التقويم');
+    }
   };
 
-  const handleBookNow = () => {
-    router.push(`/booking/${event.id}`);
+  const handleBookNow = (sessionId?: string) => {
+    router.push(sessionId ? `/booking/${event.id}?sessionId=${encodeURIComponent(sessionId)}` : `/booking/${event.id}`);
   };
 
+  const upcomingSessions = getUpcomingSessions(event);
+
   const styles = StyleSheet.create({
     container: {
       flex: 1,
@@ -204,6 +206,17 @@ export default function EventDetailScreen() {
       color: theme.colors.text,
       flex: 1,
     },
+    sessionsTitle: {
+      fontSize: 18,
+      fontFamily: 'Cairo-Bold',
+      color: theme.colors.text,
+      marginBottom: 12,
+    },
+    sessionAvailability: {
+      fontSize: 14,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.primary,
+    },
     priceSection: {
       backgroundColor: theme.colors.surface,
       borderRadius: 16,
@@ -256,6 +269,9 @@ export default function EventDetailScreen() {
       fontFamily: 'Cairo-Bold',
       color: 'white',
     },
+    bookButtonDisabled: {
+      backgroundColor: theme.colors.textSecondary,
+    },
     calendarButton: {
       backgroundColor: theme.colors.background,
       paddingHorizontal: 16,
@@ -363,16 +379,45 @@ export default function EventDetailScreen() {
             <View style={styles.quickInfoItem}>
               <Users size={20} color={theme.colors.primary} />
               <Text style={styles.quickInfoText}>
-                {event.currentAttendees}/{event.maxAttendees} مشارك
+                {event.currentAttendees}/{getTotalCapacity(event)} مشارك
               </Text>
             </View>
             
             <View style={styles.quickInfoItem}>
               <Clock size={20} color={theme.colors.primary} />
-              <Text style={styles.quickInfoText}>مدة الفعالية: ساعتان</Text>
+              <Text style={styles.quickInfoText}>مدة الفعالية: {formatDuration(getEventDuration(event))}</Text>
             </View>
           </View>
 
+          {/* Sessions */}
+          {hasSessions(event) && (
+            <View style={styles.quickInfo}>
+              <Text style={styles.sessionsTitle}>المواعيد القادمة</Text>
+              {upcomingSessions.length === 0 ? (
+                <Text style={styles.quickInfoText}>انتهت جميع مواعيد هذه الفعالية</Text>
+              ) : (
+                upcomingSessions.map(session => {
+                  const seatsLeft = Math.max(0, event.maxAttendees - session.booked);
+                  return (
+                    <TouchableOpacity
+                      key={session.id}
+                      style={styles.quickInfoItem}
+                      onPress={() => handleBookNow(session.id)}
+                      disabled={!isEventBookable(event)}
+                      activeOpacity={0.7}
+                    >
+                      <Calendar size={20} color={theme.colors.primary} />
+                      <Text style={styles.quickInfoText}>{formatSession(session)}</Text>
+                      <Text style={styles.sessionAvailability}>
+                        {seatsLeft > 0 ? `${seatsLeft} متاح` : 'نفدت التذاكر'}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })
+              )}
+            </View>
+          )}
+
           {/* Price Section */}
           <View style={styles.priceSection}>
             <Text style={styles.priceTitle}>سعر التذكرة</Text>
@@ -396,14 +441,22 @@ export default function EventDetailScreen() {
           <Calendar size={24} color={theme.colors.primary} />
         </TouchableOpacity>
         
-        <TouchableOpacity
-          style={styles.bookButton}
-          onPress={handleBookNow}
-          activeOpacity={0.7}
-        >
-          <Ticket size={24} color="white" />
-          <Text style={styles.bookButtonText}>{t('bookNow')}</Text>
-        </TouchableOpacity>
+        {isEventBookable(event) ? (
+          <TouchableOpacity
+            style={styles.bookButton}
+            onPress={() => handleBookNow()}
+            activeOpacity={0.7}
+          >
+            <Ticket size={24} color="white" />
+            <Text style={styles.bookButtonText}>{t('bookNow')}</Text>
+          </TouchableOpacity>
+        ) : (
+          // Organizers preview drafts here; cancelled and completed events no longer sell tickets
+          <View style={[styles.bookButton, styles.bookButtonDisabled]}>
+            <Ticket size={24} color="white" />
+            <Text style={styles.bookButtonText}>{EVENT_STATUS_LABELS[getEventStatus(event)]}</Text>
+          </View>
+        )}
       </View>
     </SafeAreaView>
   );
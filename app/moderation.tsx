@@ -0,0 +1,437 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Image, TextInput, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { useTheme } from '@/context/ThemeContext';
+import { useEvents, Event } from '@/context/EventContext';
+import { useAuth } from '@/context/AuthContext';
+import {
+  EVENT_REJECTION_REASONS,
+  EVENT_STATUS_LABELS,
+  EventRejectionReason,
+  getEventStatus,
+} from '@/utils/eventLifecycle';
+import { hasSessions } from '@/utils/eventSessions';
+import { withPendingChanges } from '@/utils/eventDetails';
+import { ArrowLeft, Calendar, MapPin, Users, DollarSign, CircleCheck as CheckCircle, Circle as XCircle, TriangleAlert as AlertTriangle } from 'lucide-react-native';
+
+// Recent decisions listed under the queue
+const RECENT_REVIEWS_SHOWN = 10;
+
+const CATEGORY_LABELS: Record<Event['category'], string> = {
+  government: 'حكومي',
+  schools: 'مدارس',
+  clinics: 'عيادات',
+  occasions: 'مناسبات',
+  entertainment: 'ترفيه',
+  openings: 'افتتاحات',
+};
+
+export default function ModerationScreen() {
+  const { theme } = useTheme();
+  const { allEvents, reviewEvent } = useEvents();
+  const { isAdmin } = useAuth();
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [reasons, setReasons] = useState<EventRejectionReason[]>([]);
+  const [note, setNote] = useState('');
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  // Oldest submission first, so organizers are answered in the order they asked
+  const queue = allEvents
+    .filter(event => getEventStatus(event) === 'submitted' || event.pendingChanges)
+    .sort((a, b) => (a.submittedAt || '').localeCompare(b.submittedAt || ''));
+  const recentlyReviewed = allEvents
+    .filter(event => event.review)
+    .sort((a, b) => b.review!.reviewedAt.localeCompare(a.review!.reviewedAt))
+    .slice(0, RECENT_REVIEWS_SHOWN);
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    header: {
+      backgroundColor: theme.colors.surface,
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 20,
+      paddingVertical: 16,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+    },
+    backButton: {
+      padding: 8,
+      marginRight: 12,
+    },
+    headerTitle: {
+      fontSize: 20,
+      fontFamily: 'Cairo-Bold',
+      color: theme.colors.text,
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    sectionTitle: {
+      fontSize: 18,
+      fontFamily: 'Cairo-Bold',
+      color: theme.colors.text,
+      marginBottom: 16,
+    },
+    eventCard: {
+      backgroundColor: theme.colors.surface,
+      borderRadius: 16,
+      marginBottom: 16,
+      overflow: 'hidden',
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: theme.isDark ? 0.3 : 0.1,
+      shadowRadius: 8,
+      elevation: 4,
+    },
+    eventImage: {
+      width: '100%',
+      height: 160,
+      backgroundColor: theme.colors.border,
+    },
+    eventBody: {
+      padding: 20,
+    },
+    eventTitle: {
+      fontSize: 17,
+      fontFamily: 'Cairo-Bold',
+      color: theme.colors.text,
+    },
+    eventSubtitle: {
+      fontSize: 14,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.textSecondary,
+      marginBottom: 12,
+    },
+    detailRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginBottom: 6,
+    },
+    detailText: {
+      fontSize: 14,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.text,
+      flex: 1,
+    },
+    description: {
+      fontSize: 14,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.textSecondary,
+      lineHeight: 22,
+      marginTop: 8,
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: 12,
+      marginTop: 16,
+    },
+    actionButton: {
+      flex: 1,
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 6,
+      paddingVertical: 12,
+      borderRadius: 12,
+    },
+    actionButtonText: {
+      fontSize: 15,
+      fontFamily: 'Cairo-Bold',
+      color: 'white',
+    },
+    reasonsTitle: {
+      fontSize: 14,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.text,
+      marginTop: 16,
+      marginBottom: 8,
+    },
+    reasons: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    reasonChip: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+    },
+    reasonChipActive: {
+      backgroundColor: theme.colors.error + '15',
+      borderColor: theme.colors.error,
+    },
+    reasonChipText: {
+      fontSize: 13,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.textSecondary,
+    },
+    noteInput: {
+      backgroundColor: theme.colors.background,
+      borderRadius: 12,
+      padding: 12,
+      minHeight: 80,
+      marginTop: 12,
+      fontSize: 14,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.text,
+      textAlignVertical: 'top',
+    },
+    reviewedItem: {
+      backgroundColor: theme.colors.surface,
+      borderRadius: 12,
+      padding: 16,
+      marginBottom: 10,
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    reviewedTitle: {
+      fontSize: 14,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.text,
+    },
+    reviewedMeta: {
+      fontSize: 12,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.textSecondary,
+    },
+    emptyState: {
+      alignItems: 'center',
+      padding: 40,
+      gap: 12,
+    },
+    emptyTitle: {
+      fontSize: 18,
+      fontFamily: 'Cairo-Bold',
+      color: theme.colors.text,
+      textAlign: 'center',
+    },
+    emptyText: {
+      fontSize: 14,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.textSecondary,
+      textAlign: 'center',
+    },
+  });
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.7}>
+        <ArrowLeft size={24} color={theme.colors.text} />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>مراجعة الفعاليات</Text>
+    </View>
+  );
+
+  const startRejecting = (eventId: string) => {
+    setRejectingId(eventId);
+    setReasons([]);
+    setNote('');
+  };
+
+  const toggleReason = (reason: EventRejectionReason) => {
+    setReasons(prev => (prev.includes(reason) ? prev.filter(r => r !== reason) : [...prev, reason]));
+  };
+
+  const submitReview = async (event: Event, decision: 'approved' | 'rejected') => {
+    if (decision === 'rejected' && reasons.length === 0) {
+      Alert.alert('خطأ', 'يرجى اختيار سبب واحد على الأقل للرفض');
+      return;
+    }
+
+    setReviewingId(event.id);
+    try {
+      await reviewEvent(event.id, decision, decision === 'rejected' ? reasons : [], decision === 'rejected' ? note : undefined);
+      setRejectingId(null);
+    } catch (error) {
+      console.error('Error reviewing event:', error);
+      Alert.alert('خطأ', 'تعذر حفظ قرار المراجعة. يرجى المحاولة مرة أخرى.');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const renderSubmission = (event: Event) => {
+    const isRejecting = rejectingId === event.id;
+    const isBusy = reviewingId === event.id;
+    // Live events with pending changes are shown as they would be once the changes are approved
+    const details = withPendingChanges(event);
+
+    return (
+      <View key={event.id} style={styles.eventCard}>
+        {event.image ? <Image source={{ uri: event.image }} style={styles.eventImage} /> : null}
+        <View style={styles.eventBody}>
+          <Text style={styles.eventTitle}>{event.titleAr}</Text>
+          <Text style={styles.eventSubtitle}>
+            {event.title} · {CATEGORY_LABELS[event.category]} · {event.organizerAr || event.organizer}
+          </Text>
+          {event.pendingChanges && (
+            <Text style={styles.eventSubtitle}>
+              تعديلات على فعالية {EVENT_STATUS_LABELS[getEventStatus(event)]}، وتبقى متاحة بالبيانات الحالية حتى تتم الموافقة
+            </Text>
+          )}
+
+          <View style={styles.detailRow}>
+            <Calendar size={16} color={theme.colors.textSecondary} />
+            <Text style={styles.detailText}>
+              {details.date} · {details.time}
+              {hasSessions(event) ? ` · ${event.sessions!.length} مواعيد` : ''}
+            </Text>
+          </View>
+          <View style={styles.detailRow}>
+            <MapPin size={16} color={theme.colors.textSecondary} />
+            <Text style={styles.detailText}>{details.locationAr} · {details.location}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <DollarSign size={16} color={theme.colors.textSecondary} />
+            <Text style={styles.detailText}>{details.price === 0 ? 'مجاني' : `${details.price} د.ل`}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Users size={16} color={theme.colors.textSecondary} />
+            <Text style={styles.detailText}>{details.maxAttendees} شخص</Text>
+          </View>
+          {!!event.descriptionAr && <Text style={styles.description}>{event.descriptionAr}</Text>}
+
+          {isRejecting && (
+            <View>
+              <Text style={styles.reasonsTitle}>أسباب الرفض</Text>
+              <View style={styles.reasons}>
+                {EVENT_REJECTION_REASONS.map(reason => {
+                  const isSelected = reasons.includes(reason.id);
+                  return (
+                    <TouchableOpacity
+                      key={reason.id}
+                      style={[styles.reasonChip, isSelected && styles.reasonChipActive]}
+                      onPress={() => toggleReason(reason.id)}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={[styles.reasonChipText, isSelected && { color: theme.colors.error }]}>
+                        {reason.labelAr}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <TextInput
+                style={styles.noteInput}
+                placeholder="ملاحظات للمنظم (اختياري)"
+                placeholderTextColor={theme.colors.textSecondary}
+                value={note}
+                onChangeText={setNote}
+                multiline
+                textAlign="right"
+              />
+            </View>
+          )}
+
+          <View style={styles.actions}>
+            {isRejecting ? (
+              <>
+                <TouchableOpacity
+                  style={[styles.actionButton, { backgroundColor: theme.colors.error }]}
+                  onPress={() => submitReview(event, 'rejected')}
+                  disabled={isBusy}
+                  activeOpacity={0.7}
+                >
+                  <XCircle size={18} color="white" />
+                  <Text style={styles.actionButtonText}>تأكيد الرفض</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.actionButton, { backgroundColor: theme.colors.textSecondary }]}
+                  onPress={() => setRejectingId(null)}
+                  disabled={isBusy}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.actionButtonText}>رجوع</Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <>
+                <TouchableOpacity
+                  style={[styles.actionButton, { backgroundColor: theme.colors.success }]}
+                  onPress={() => submitReview(event, 'approved')}
+                  disabled={isBusy}
+                  activeOpacity={0.7}
+                >
+                  <CheckCircle size={18} color="white" />
+                  <Text style={styles.actionButtonText}>موافقة</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.actionButton, { backgroundColor: theme.colors.error }]}
+                  onPress={() => startRejecting(event.id)}
+                  disabled={isBusy}
+                  activeOpacity={0.7}
+                >
+                  <XCircle size={18} color="white" />
+                  <Text style={styles.actionButtonText}>رفض</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  if (!isAdmin()) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        {renderHeader()}
+        <View style={styles.emptyState}>
+          <AlertTriangle size={64} color={theme.colors.warning} />
+          <Text style={styles.emptyTitle}>غير مصرح</Text>
+          <Text style={styles.emptyText}>مراجعة الفعاليات متاحة فقط لمشرفي المنصة</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {renderHeader()}
+
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <Text style={styles.sectionTitle}>بانتظار المراجعة ({queue.length})</Text>
+        {queue.length === 0 ? (
+          <View style={styles.emptyState}>
+            <CheckCircle size={48} color={theme.colors.success} />
+            <Text style={styles.emptyTitle}>لا توجد فعاليات بانتظار المراجعة</Text>
+          </View>
+        ) : (
+          queue.map(renderSubmission)
+        )}
+
+        {recentlyReviewed.length > 0 && (
+          <>
+            <Text style={[styles.sectionTitle, { marginTop: 8 }]}>تمت مراجعتها مؤخراً</Text>
+            {recentlyReviewed.map(event => (
+              <View key={event.id} style={styles.reviewedItem}>
+                {event.review!.decision === 'approved' ? (
+                  <CheckCircle size={20} color={theme.colors.success} />
+                ) : (
+                  <XCircle size={20} color={theme.colors.error} />
+                )}
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.reviewedTitle}>{event.titleAr}</Text>
+                  <Text style={styles.reviewedMeta}>
+                    {EVENT_STATUS_LABELS[getEventStatus(event)]} ·{' '}
+                    {new Date(event.review!.reviewedAt).toLocaleDateString('ar-LY')}
+                  </Text>
+                </View>
+              </View>
+            ))}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
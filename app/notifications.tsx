@@ -5,7 +5,7 @@ import { useI18n } from '@/context/I18nContext';
 import { useTheme } from '@/context/ThemeContext';
 import { useNotifications, Notification } from '@/context/NotificationContext';
 import { router } from 'expo-router';
-import { ArrowLeft, Bell, Trash2, Check, CheckCheck, Settings, Filter, Calendar, MessageCircle, Heart, Bookmark, CircleAlert as AlertCircle } from 'lucide-react-native';
+import { ArrowLeft, Bell, Trash2, Check, CheckCheck, Settings, Filter, Calendar, MessageCircle, Heart, Bookmark, CircleAlert as AlertCircle, Ticket } from 'lucide-react-native';
 
 export default function NotificationsScreen() {
   const { t } = useI18n();
@@ -102,6 +102,10 @@ export default function NotificationsScreen() {
         return <MessageCircle size={20} color={theme.colors.primary} />;
       case 'booking_confirmed':
         return <Check size={20} color={theme.colors.success} />;
+      case 'check_in_conflict':
+        return <AlertCircle size={20} color={theme.colors.error} />;
+      case 'waitlist_offer':
+        return <Ticket size={20} color={theme.colors.primary} />;
       case 'system':
         return <AlertCircle size={20} color={theme.colors.textSecondary} />;
       default:
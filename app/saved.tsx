@@ -6,6 +6,7 @@ import { useTheme } from '@/context/ThemeContext';
 import { useEvents } from '@/context/EventContext';
 import { useFavorites } from '@/context/FavoritesContext';
 import { router } from 'expo-router';
+import { getTotalCapacity } from '@/utils/eventSessions';
 import { ArrowLeft, Bookmark, Calendar, MapPin, Users, Heart, Trash2, FileImage, Building2, GraduationCap, PartyPopper, Clapperboard, Ribbon } from 'lucide-react-native';
 
 const categoryIcons = {
@@ -193,7 +194,7 @@ export default function SavedScreen() {
             <View style={styles.eventDetail}>
               <Users size={14} color={theme.colors.textSecondary} />
               <Text style={[styles.eventDetailText, { color: theme.colors.textSecondary }]}>
-                {event.currentAttendees}/{event.maxAttendees} مشارك
+                {event.currentAttendees}/{getTotalCapacity(event)} مشارك
               </Text>
             </View>
           </View>
@@ -1,12 +1,18 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Alert, Platform, Dimensions } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, Platform, Dimensions, TextInput, ScrollView } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 import { useI18n } from '@/context/I18nContext';
 import { useTheme } from '@/context/ThemeContext';
 import { useEvents, Booking } from '@/context/EventContext';
 import { useAuth } from '@/context/AuthContext';
-import { ArrowLeft, Flashlight, FlashlightOff, RotateCcw, CircleCheck as CheckCircle, Circle as XCircle, TriangleAlert as AlertTriangle, Camera } from 'lucide-react-native';
+import { useCheckIns } from '@/context/CheckInContext';
+import { RepositoryError } from '@/services/eventRepository';
+import { verifyTicketCode } from '@/utils/ticketSigning';
+import { formatSeatLabel, getBookingSeatIds } from '@/utils/seatMap';
+import { findAttendee, getTransferredTickets } from '@/utils/attendees';
+import { findSession, findSessionOn, formatSession, hasSessions } from '@/utils/eventSessions';
+import { ArrowLeft, Flashlight, FlashlightOff, RotateCcw, Plus, Minus, CircleCheck as CheckCircle, Circle as XCircle, TriangleAlert as AlertTriangle, Camera } from 'lucide-react-native';
 
 // Platform-specific camera import
 let CameraView: any = null;
@@ -25,12 +31,14 @@ if (Platform.OS !== 'web') {
 const { height } = Dimensions.get('window');
 
 const statusColors = {
+  pending: '#F59E0B',
   confirmed: '#10B981',
   cancelled: '#EF4444',
   used: '#6B7280',
 };
 
 const statusLabels = {
+  pending: 'بانتظار الدفع',
   confirmed: 'مؤكد',
   cancelled: 'ملغي',
   used: 'مستخدم',
@@ -39,8 +47,14 @@ const statusLabels = {
 export default function ScannerScreen() {
   const { t } = useI18n();
   const { theme } = useTheme();
-  const { bookings, getEventById, markTicketAsUsed } = useEvents();
+  const { events, bookings, getEventById } = useEvents();
   const { isBusinessAccount } = useAuth();
+  const { recordCheckIn, getAdmittedCount, isAttendeeAdmitted, syncCheckIns, pendingCount, conflicts, isSyncing } = useCheckIns();
+  const params = useLocalSearchParams<{ eventId?: string }>();
+  const [selectedEventId, setSelectedEventId] = useState<string>(params.eventId || '');
+  // For events with sessions, the session at the door; tickets for the event's other sessions are flagged
+  const [selectedSessionId, setSelectedSessionId] = useState<string>('');
+  const selectedEvent = selectedEventId ? getEventById(selectedEventId) : undefined;
   
   // Camera permissions (only for native platforms)
   const [permission, requestPermission] = Platform.OS !== 'web' && useCameraPermissions ? 
@@ -53,6 +67,11 @@ export default function ScannerScreen() {
     title: string;
     message: string;
   } | null>(null);
+  // How many people are entering on the scanned booking, up to the entries it has left
+  const [entryCount, setEntryCount] = useState(1);
+  const [remainingEntries, setRemainingEntries] = useState(0);
+  // The booking, and the attendee for single-person tickets, that the last valid scan admits
+  const [scannedTicket, setScannedTicket] = useState<{ bookingId: string; attendeeId?: string } | null>(null);
 
   // Web-specific QR scanning state
   const [manualQRCode, setManualQRCode] = useState('');
@@ -78,6 +97,12 @@ export default function ScannerScreen() {
     }
   }, [permission, isBusinessAccount]);
 
+  // Start with today's session of the chosen event, when it has one
+  useEffect(() => {
+    const todaysSession = selectedEvent ? findSessionOn(selectedEvent, new Date()) : undefined;
+    setSelectedSessionId(todaysSession ? todaysSession.id : '');
+  }, [selectedEventId]);
+
   // Cleanup timeout on unmount
   useEffect(() => {
     return () => {
@@ -112,23 +137,84 @@ export default function ScannerScreen() {
     lastScannedCode.current = data;
     
     try {
-      // Find booking by QR code
-      const booking = bookings.find(b => b.qrCode === data);
-      
-      if (!booking) {
+      // Verify the organizer signature offline before touching any booking data
+      const verification = verifyTicketCode(data, {
+        getPublicKey: payload => getEventById(payload.eid)?.ticketKey,
+        eventId: selectedEventId || undefined,
+        sessionId: selectedSessionId || undefined,
+      });
+
+      switch (verification.status) {
+        case 'malformed':
+          setScanResult({
+            type: 'error',
+            title: 'رمز غير صالح ❌',
+            message: 'هذا الرمز ليس تذكرة Mi3AD صالحة'
+          });
+          return;
+        case 'unverifiable':
+          setScanResult({
+            type: 'error',
+            title: 'تعذر التحقق من التذكرة ⛔',
+            message: 'مفتاح التحقق لفعالية هذه التذكرة غير متوفر على هذا الجهاز. لا تسمح بالدخول، وتأكد من الاتصال بالإنترنت وحاول مرة أخرى.'
+          });
+          return;
+        case 'forged':
+          setScanResult({
+            type: 'error',
+            title: 'تذكرة مزورة ⛔',
+            message: 'توقيع التذكرة غير صحيح. لا تسمح بالدخول وأبلغ المنظم.'
+          });
+          return;
+        case 'expired':
+          setScanResult({
+            type: 'warning',
+            title: 'تذكرة منتهية الصلاحية ⏰',
+            message: `انتهت صلاحية هذه التذكرة في ${new Date(verification.payload.exp * 1000).toLocaleString('ar-LY')}`
+          });
+          return;
+        case 'wrong_event': {
+          const ticketEvent = getEventById(verification.payload.eid);
+          setScanResult({
+            type: 'warning',
+            title: 'تذكرة لفعالية أخرى ⚠️',
+            message: `هذه التذكرة صالحة لفعالية: ${ticketEvent ? ticketEvent.titleAr : verification.payload.eid}`
+          });
+          return;
+        }
+        case 'wrong_session': {
+          const ticketSession = selectedEvent ? findSession(selectedEvent, verification.payload.ses) : undefined;
+          setScanResult({
+            type: 'warning',
+            title: 'تذكرة لموعد آخر ⚠️',
+            message: ticketSession
+              ? `هذه التذكرة صالحة لموعد: ${formatSession(ticketSession)}`
+              : 'هذه التذكرة ليست لهذا الموعد من الفعالية'
+          });
+          return;
+        }
+      }
+
+      // Find the booking the signed ticket refers to
+      const booking = bookings.find(b => b.id === verification.payload.bid);
+      const attendeeId = verification.payload.a;
+      const attendee = booking && attendeeId ? findAttendee(booking, attendeeId) : undefined;
+
+      // Transferred tickets get a new id, so the previous holder's code no longer matches
+      if (booking && attendeeId && (!attendee || attendee.qrCode !== data)) {
         setScanResult({
           type: 'error',
           title: 'تذكرة غير صالحة ❌',
-          message: 'رمز QR غير صحيح أو التذكرة غير موجودة في النظام'
+          message: 'هذه التذكرة لم تعد صالحة، ربما تم نقلها إلى شخص آخر'
         });
         return;
       }
-      
-      if (booking.status === 'used') {
+
+      if (!booking || (!attendee && booking.qrCode !== data)) {
         setScanResult({
-          type: 'warning',
-          title: 'تذكرة مستخدمة ⚠️',
-          message: `تم استخدام هذه التذكرة مسبقاً\nعدد التذاكر: ${booking.ticketCount}\nالسعر: ${booking.totalPrice === 0 ? 'مجاني' : `${booking.totalPrice} د.ل`}`
+          type: 'error',
+          title: 'تذكرة غير صالحة ❌',
+          message: 'رمز QR غير صحيح أو التذكرة غير موجودة في النظام'
         });
         return;
       }
@@ -142,11 +228,65 @@ export default function ScannerScreen() {
         return;
       }
       
+      if (booking.status === 'pending') {
+        setScanResult({
+          type: 'error',
+          title: 'الدفع غير مكتمل ❌',
+          message: 'لم يتم تأكيد الدفع لهذه التذكرة بعد'
+        });
+        return;
+      }
+      
+      // Reserved seats are signed into the ticket and must still be the booking's seats
+      const seatIds = attendee ? (attendee.seatId ? [attendee.seatId] : []) : getBookingSeatIds(booking);
+      if ((verification.payload.s || []).join(',') !== seatIds.join(',')) {
+        setScanResult({
+          type: 'error',
+          title: 'المقاعد غير مطابقة ❌',
+          message: 'المقاعد المسجلة في التذكرة لا تطابق الحجز. يرجى مراجعة المنظم'
+        });
+        return;
+      }
+      const bookingEvent = getEventById(booking.eventId);
+      const seatsLine = seatIds.length > 0 && bookingEvent
+        ? `\nالمقاعد: ${seatIds.map(seatId => formatSeatLabel(bookingEvent, seatId)).join('، ')}`
+        : '';
+      const attendeeLine = attendee && attendee.name ? `\nالحاضر: ${attendee.name}` : '';
+      const bookedSession = bookingEvent ? findSession(bookingEvent, booking.sessionId) : undefined;
+      const sessionLine = bookedSession ? `\nالموعد: ${formatSession(bookedSession)}` : '';
+
+      // Scans from other staff devices that have already synced count as entries too
+      const admitted = getAdmittedCount(booking);
+      // The group code cannot use entries of tickets transferred to other people
+      const reservedForOthers = getTransferredTickets(booking).filter(a => !isAttendeeAdmitted(a)).length;
+      const remaining = attendee
+        ? (isAttendeeAdmitted(attendee) ? 0 : Math.min(1, booking.ticketCount - admitted))
+        : booking.ticketCount - admitted - reservedForOthers;
+      if (!attendee && remaining <= 0 && reservedForOthers > 0 && admitted < booking.ticketCount) {
+        setScanResult({
+          type: 'warning',
+          title: 'تذاكر منقولة ⚠️',
+          message: `تم نقل ${reservedForOthers} من تذاكر هذا الحجز إلى أشخاص آخرين، ويدخلون بتذاكرهم الخاصة\n${admitted} من ${booking.ticketCount} تم دخولهم`
+        });
+        return;
+      }
+      if (remaining <= 0) {
+        setScanResult({
+          type: 'warning',
+          title: 'تذكرة مستخدمة ⚠️',
+          message: `تم استخدام هذه التذكرة مسبقاً${attendeeLine}${sessionLine}\n${admitted} من ${booking.ticketCount} تم دخولهم${seatsLine}\nالسعر: ${booking.totalPrice === 0 ? 'مجاني' : `${booking.totalPrice} د.ل`}`
+        });
+        return;
+      }
+      
       // Valid ticket - show confirmation dialog
+      setRemainingEntries(remaining);
+      setEntryCount(1);
+      setScannedTicket({ bookingId: booking.id, attendeeId: attendee?.id });
       setScanResult({
         type: 'success',
         title: 'تذكرة صالحة ✅',
-        message: `تذكرة صحيحة!\nعدد التذاكر: ${booking.ticketCount}\nالسعر: ${booking.totalPrice === 0 ? 'مجاني' : `${booking.totalPrice} د.ل`}`
+        message: `تذكرة صحيحة!${attendeeLine}${sessionLine}\n${admitted} من ${booking.ticketCount} تم دخولهم${seatsLine}\nالسعر: ${booking.totalPrice === 0 ? 'مجاني' : `${booking.totalPrice} د.ل`}`
       });
       
     } catch (error) {
@@ -161,25 +301,41 @@ export default function ScannerScreen() {
 
   const confirmEntry = async () => {
     try {
-      const booking = bookings.find(b => b.qrCode === lastScannedCode.current);
+      const booking = scannedTicket ? bookings.find(b => b.id === scannedTicket.bookingId) : undefined;
       if (booking && booking.status === 'confirmed') {
-        await markTicketAsUsed(booking.id);
+        const count = Math.min(entryCount, remainingEntries);
+        await recordCheckIn(booking, count, scannedTicket?.attendeeId);
         
         Alert.alert(
           'تم تأكيد الدخول! 🎉',
-          'تم تسجيل دخول الضيف بنجاح',
+          `تم تسجيل دخول ${count} من ${booking.ticketCount} بنجاح`,
           [{ text: 'موافق', onPress: resetScanner }]
         );
       }
     } catch (error) {
-      Alert.alert('خطأ', 'فشل في تسجيل الدخول');
-      resetScanner();
+      console.error('Check-in error:', error);
+      setScannedTicket(null);
+      setScanResult(
+        error instanceof RepositoryError && error.code !== 'server'
+          ? {
+              type: 'error',
+              title: 'تم رفض الدخول ⛔',
+              message: 'رفض النظام تسجيل الدخول: لم يتبق دخول على هذه التذكرة أو لم تعد صالحة. لا تسمح بالدخول.'
+            }
+          : {
+              type: 'error',
+              title: 'تعذر تسجيل الدخول',
+              message: 'حدث خطأ في الخادم ولم يتم تسجيل الدخول. يرجى مسح التذكرة مرة أخرى.'
+            }
+      );
     }
   };
 
   const resetScanner = () => {
     setScanned(false);
     setScanResult(null);
+    setEntryCount(1);
+    setScannedTicket(null);
     lastScannedCode.current = '';
     setManualQRCode('');
     
@@ -194,6 +350,19 @@ export default function ScannerScreen() {
     }, 1000);
   };
 
+  const showConflicts = () => {
+    if (conflicts.length === 0) {
+      syncCheckIns();
+      return;
+    }
+    Alert.alert(
+      'حالات دخول مكرر',
+      conflicts
+        .map(c => `• التذكرة ${c.bookingId}: مسحتها في ${new Date(c.scannedAt).toLocaleTimeString('ar-LY')}، ودخلت قبل ذلك في ${new Date(c.conflictWith!.scannedAt).toLocaleTimeString('ar-LY')}`)
+        .join('\n')
+    );
+  };
+
   const toggleFlash = () => {
     if (Platform.OS !== 'web') {
       setFlashEnabled(prev => !prev);
@@ -258,6 +427,57 @@ export default function ScannerScreen() {
       borderWidth: flashEnabled ? 2 : 1,
       borderColor: flashEnabled ? theme.colors.primary : theme.colors.border,
     },
+    eventSelector: {
+      flexGrow: 0,
+      backgroundColor: theme.colors.surface,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+    },
+    eventSelectorContent: {
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      gap: 8,
+    },
+    eventChip: {
+      paddingHorizontal: 14,
+      paddingVertical: 6,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.background,
+    },
+    eventChipActive: {
+      backgroundColor: theme.colors.primary,
+      borderColor: theme.colors.primary,
+    },
+    eventChipText: {
+      fontSize: 14,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.text,
+    },
+    eventChipTextActive: {
+      color: 'white',
+    },
+    syncStatus: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 8,
+      backgroundColor: conflicts.length > 0 ? theme.colors.error + '15' : theme.colors.surface,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+    },
+    syncStatusText: {
+      fontSize: 13,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.textSecondary,
+    },
+    syncConflictText: {
+      fontSize: 13,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.error,
+    },
     cameraContainer: {
       flex: 1,
       position: 'relative',
@@ -439,6 +659,43 @@ export default function ScannerScreen() {
       textAlign: 'center',
       lineHeight: 24,
     },
+    entryCounter: {
+      alignItems: 'center',
+      gap: 8,
+    },
+    entryCounterLabel: {
+      fontSize: 16,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.text,
+    },
+    entryCounterControls: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 20,
+    },
+    entryCounterButton: {
+      width: 40,
+      height: 40,
+      borderRadius: 20,
+      backgroundColor: theme.colors.primary,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    entryCounterButtonDisabled: {
+      opacity: 0.4,
+    },
+    entryCounterValue: {
+      fontSize: 24,
+      fontFamily: 'Cairo-Bold',
+      color: theme.colors.text,
+      minWidth: 32,
+      textAlign: 'center',
+    },
+    entryCounterHint: {
+      fontSize: 14,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.textSecondary,
+    },
     resultActions: {
       flexDirection: 'row',
       gap: 12,
@@ -559,6 +816,99 @@ export default function ScannerScreen() {
     },
   });
 
+  // Event the door is checking tickets for; tickets for other events are flagged
+  const renderEventSelector = () => (
+    <ScrollView
+      horizontal
+      style={styles.eventSelector}
+      contentContainerStyle={styles.eventSelectorContent}
+      showsHorizontalScrollIndicator={false}
+    >
+      {[{ id: '', title: 'كل الفعاليات' }, ...events.map(e => ({ id: e.id, title: e.titleAr }))].map(option => {
+        const isActive = selectedEventId === option.id;
+        return (
+          <TouchableOpacity
+            key={option.id || 'all'}
+            style={[styles.eventChip, isActive && styles.eventChipActive]}
+            onPress={() => setSelectedEventId(option.id)}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.eventChipText, isActive && styles.eventChipTextActive]} numberOfLines={1}>
+              {option.title}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+
+  const renderSessionSelector = () =>
+    selectedEvent && hasSessions(selectedEvent) ? (
+      <ScrollView
+        horizontal
+        style={styles.eventSelector}
+        contentContainerStyle={styles.eventSelectorContent}
+        showsHorizontalScrollIndicator={false}
+      >
+        {[{ id: '', title: 'كل المواعيد' }, ...selectedEvent.sessions!.map(session => ({ id: session.id, title: formatSession(session) }))].map(option => {
+          const isActive = selectedSessionId === option.id;
+          return (
+            <TouchableOpacity
+              key={option.id || 'all'}
+              style={[styles.eventChip, isActive && styles.eventChipActive]}
+              onPress={() => setSelectedSessionId(option.id)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.eventChipText, isActive && styles.eventChipTextActive]} numberOfLines={1}>
+                {option.title}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    ) : null;
+
+  const renderSyncStatus = () => (
+    <TouchableOpacity style={styles.syncStatus} onPress={showConflicts} activeOpacity={0.7}>
+      <Text style={styles.syncStatusText}>
+        {isSyncing
+          ? 'جاري مزامنة عمليات الدخول...'
+          : pendingCount > 0
+            ? `${pendingCount} عملية دخول بانتظار المزامنة`
+            : 'جميع عمليات الدخول متزامنة'}
+      </Text>
+      {conflicts.length > 0 && (
+        <Text style={styles.syncConflictText}>{conflicts.length} دخول مكرر</Text>
+      )}
+    </TouchableOpacity>
+  );
+
+  const renderEntryCounter = () => (
+    <View style={styles.entryCounter}>
+      <Text style={styles.entryCounterLabel}>عدد الداخلين</Text>
+      <View style={styles.entryCounterControls}>
+        <TouchableOpacity
+          style={[styles.entryCounterButton, entryCount <= 1 && styles.entryCounterButtonDisabled]}
+          onPress={() => setEntryCount(prev => Math.max(1, prev - 1))}
+          disabled={entryCount <= 1}
+          activeOpacity={0.7}
+        >
+          <Minus size={20} color="white" />
+        </TouchableOpacity>
+        <Text style={styles.entryCounterValue}>{entryCount}</Text>
+        <TouchableOpacity
+          style={[styles.entryCounterButton, entryCount >= remainingEntries && styles.entryCounterButtonDisabled]}
+          onPress={() => setEntryCount(prev => Math.min(remainingEntries, prev + 1))}
+          disabled={entryCount >= remainingEntries}
+          activeOpacity={0.7}
+        >
+          <Plus size={20} color="white" />
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.entryCounterHint}>متبقي {remainingEntries} من التذاكر</Text>
+    </View>
+  );
+
   // Check if user is a business account
   if (!isBusinessAccount()) {
     return (
@@ -597,6 +947,10 @@ export default function ScannerScreen() {
           </View>
         </View>
 
+        {renderEventSelector()}
+      {renderSessionSelector()}
+        {renderSyncStatus()}
+
         <View style={styles.webScannerContainer}>
           <View style={styles.webScannerCard}>
             <Camera size={64} color={theme.colors.primary} style={{ alignSelf: 'center', marginBottom: 16 }} />
@@ -609,11 +963,12 @@ export default function ScannerScreen() {
               <Text style={styles.inputLabel}>رمز QR للتذكرة</Text>
               <TextInput
                 style={styles.qrInput}
-                placeholder="MI3AD-1234567890-ABC123"
+                placeholder="MI3AD2.…"
                 placeholderTextColor={theme.colors.textSecondary}
                 value={manualQRCode}
                 onChangeText={setManualQRCode}
-                autoCapitalize="characters"
+                autoCapitalize="none"
+                autoCorrect={false}
               />
               
               <TouchableOpacity
@@ -637,6 +992,8 @@ export default function ScannerScreen() {
               <Text style={styles.resultMessage}>{scanResult.message}</Text>
             </View>
 
+            {scanResult.type === 'success' && renderEntryCounter()}
+
             <View style={styles.resultActions}>
               {scanResult.type === 'success' ? (
                 <>
@@ -729,6 +1086,10 @@ export default function ScannerScreen() {
         </TouchableOpacity>
       </View>
 
+      {renderEventSelector()}
+      {renderSessionSelector()}
+      {renderSyncStatus()}
+
       {/* Camera */}
       <View style={styles.cameraContainer}>
         {CameraView && (
@@ -771,6 +1132,8 @@ export default function ScannerScreen() {
                   <Text style={styles.resultMessage}>{scanResult.message}</Text>
                 </View>
 
+                {scanResult.type === 'success' && renderEntryCounter()}
+
                 <View style={styles.resultActions}>
                   {scanResult.type === 'success' ? (
                     <>
@@ -1,14 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Alert, Share, Platform, Animated, Dimensions, ScrollView } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, Share, Platform, Animated, Dimensions, ScrollView, TextInput, Modal } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams, router } from 'expo-router';
 import { useI18n } from '@/context/I18nContext';
 import { useTheme } from '@/context/ThemeContext';
 import { useEvents } from '@/context/EventContext';
 import { useAuth } from '@/context/AuthContext';
-import { ArrowLeft, Download, Share as ShareIcon, Calendar, MapPin, QrCode, Ticket, User, Wallet, Smartphone } from 'lucide-react-native';
+import { ArrowLeft, Download, Share as ShareIcon, Calendar, MapPin, QrCode, Ticket, User, Wallet, Smartphone, Send, FileText, X } from 'lucide-react-native';
 import QRCode from 'react-native-qrcode-svg';
-import { addToMobileWallet, downloadTicket, isWalletAvailable, PassData } from '@/utils/walletUtils';
+import { addToMobileWallet, downloadTicket, downloadTicketPdf, isWalletAvailable, PassData } from '@/utils/walletUtils';
+import { formatSeatLabel, getBookingSeatIds } from '@/utils/seatMap';
+import { getHeldTickets, getTransferredTickets } from '@/utils/attendees';
+import { getBookingEvent } from '@/utils/eventSessions';
+import { getCalendarInstant } from '@/utils/icalendar';
 
 const { width, height } = Dimensions.get('window');
 
@@ -16,17 +20,26 @@ export default function TicketScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const { locale, t } = useI18n();
   const { theme } = useTheme();
-  const { getBookingById, getEventById } = useEvents();
-  const { user } = useAuth();
+  const { getBookingById, getEventById, transferTicket, createApplePass, createGoogleWalletLink } = useEvents();
+  const { user, findUserByPhone } = useAuth();
   const [isAddingToWallet, setIsAddingToWallet] = useState(false);
   const [walletAvailable, setWalletAvailable] = useState(false);
+  // The attendee ticket on show; the buyer sees the group code when none is chosen
+  const [selectedTicketId, setSelectedTicketId] = useState<string | null>(null);
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+  const [recipientPhone, setRecipientPhone] = useState('');
+  const [recipientName, setRecipientName] = useState('');
+  const [isTransferring, setIsTransferring] = useState(false);
+  const [isDownloadOpen, setIsDownloadOpen] = useState(false);
   
   // Animation values
   const walletButtonScale = new Animated.Value(1);
   const downloadButtonScale = new Animated.Value(1);
 
   const booking = getBookingById(id);
-  const event = booking ? getEventById(booking.eventId) : null;
+  const listedEvent = booking ? getEventById(booking.eventId) : undefined;
+  // Tickets of events with sessions show the date and time of the booked session
+  const event = booking && listedEvent ? getBookingEvent(listedEvent, booking) : null;
 
   useEffect(() => {
     setWalletAvailable(isWalletAvailable());
@@ -52,6 +65,42 @@ export default function TicketScreen() {
   const title = locale === 'ar' ? event.titleAr : event.title;
   const location = locale === 'ar' ? event.locationAr : event.location;
   const organizer = locale === 'ar' ? event.organizerAr : event.organizer;
+  const isBuyer = booking.userId === user?.id;
+  // Buyers see every ticket of the booking, people it was transferred to only their own
+  const tickets = isBuyer ? booking.attendees : getHeldTickets(booking, user?.id || '');
+  const selectedTicket = tickets.find(ticket => ticket.id === selectedTicketId) || (isBuyer ? undefined : tickets[0]);
+  const transferredCount = getTransferredTickets(booking).length;
+  const canTransfer = !!selectedTicket && selectedTicket.holderId === user?.id && booking.status === 'confirmed';
+
+  const qrValue = selectedTicket ? selectedTicket.qrCode : booking.qrCode;
+  const holderName = (selectedTicket ? selectedTicket.name : '') || user?.name || 'المستخدم';
+  const ticketCount = selectedTicket ? 1 : booking.ticketCount;
+  const seatIds = selectedTicket ? (selectedTicket.seatId ? [selectedTicket.seatId] : []) : getBookingSeatIds(booking);
+  const seatLabels = seatIds.map(seatId => formatSeatLabel(event, seatId));
+  // A per-ticket PDF prints the codes of the tickets the user still holds, one page each
+  const heldTickets = selectedTicket ? [] : getHeldTickets(booking, user?.id || '');
+
+  const getPassData = (): PassData => ({
+    eventTitle: title,
+    eventDate: new Date(event.date).toLocaleDateString('ar-LY'),
+    eventTime: event.time,
+    location: location,
+    ticketCount,
+    totalPrice: booking.totalPrice,
+    qrCode: qrValue,
+    holderName,
+    organizerName: organizer,
+    bookingId: booking.id,
+    attendeeId: selectedTicket?.id,
+    eventId: event.id,
+    eventStart: getCalendarInstant(event.date, event.time).toISOString(),
+    seats: seatLabels,
+    tickets: heldTickets.map(ticket => ({
+      holderName: ticket.name || holderName,
+      qrCode: ticket.qrCode,
+      seat: ticket.seatId ? formatSeatLabel(event, ticket.seatId) : undefined,
+    })),
+  });
 
   const animateButton = (animationValue: Animated.Value, callback?: () => void) => {
     Animated.sequence([
@@ -74,20 +123,12 @@ export default function TicketScreen() {
     setIsAddingToWallet(true);
 
     try {
-      const passData: PassData = {
-        eventTitle: title,
-        eventDate: new Date(event.date).toLocaleDateString('ar-LY'),
-        eventTime: event.time,
-        location: location,
-        ticketCount: booking.ticketCount,
-        totalPrice: booking.totalPrice,
-        qrCode: booking.qrCode,
-        holderName: user?.name || 'المستخدم',
-        organizerName: organizer,
-        bookingId: booking.id,
-      };
+      const passData = getPassData();
 
-      const success = await addToMobileWallet(passData);
+      const success = await addToMobileWallet(passData, {
+        getApplePass: () => createApplePass(booking.id, selectedTicket?.id),
+        getGoogleWalletLink: () => createGoogleWalletLink(booking.id, selectedTicket?.id),
+      });
       
       if (success) {
         Alert.alert(
@@ -106,24 +147,24 @@ export default function TicketScreen() {
     }
   };
 
-  const handleDownload = async () => {
+  // Formats are picked in a modal: alerts do nothing on web and show at most three buttons on Android
+  const downloadFormats = [
+    { label: 'PDF', download: (passData: PassData) => downloadTicketPdf(passData) },
+    ...(heldTickets.length > 1
+      ? [{ label: 'PDF (تذكرة في كل صفحة)', download: (passData: PassData) => downloadTicketPdf(passData, { onePerTicket: true }) }]
+      : []),
+    { label: 'HTML', download: (passData: PassData) => downloadTicket(passData) },
+  ];
+
+  const handleDownload = () => {
     animateButton(downloadButtonScale);
+    setIsDownloadOpen(true);
+  };
 
+  const handleDownloadFormat = async (download: (passData: PassData) => Promise<boolean>) => {
+    setIsDownloadOpen(false);
     try {
-      const passData: PassData = {
-        eventTitle: title,
-        eventDate: new Date(event.date).toLocaleDateString('ar-LY'),
-        eventTime: event.time,
-        location: location,
-        ticketCount: booking.ticketCount,
-        totalPrice: booking.totalPrice,
-        qrCode: booking.qrCode,
-        holderName: user?.name || 'المستخدم',
-        organizerName: organizer,
-        bookingId: booking.id,
-      };
-
-      await downloadTicket(passData);
+      await download(getPassData());
     } catch (error) {
       console.error('Error downloading ticket:', error);
       Alert.alert('خطأ', 'فشل في تحميل التذكرة');
@@ -134,7 +175,7 @@ export default function TicketScreen() {
     try {
       const shareContent = {
         title: 'تذكرة Mi3AD',
-        message: `تذكرتي لفعالية: ${title}\nالتاريخ: ${new Date(event.date).toLocaleDateString('ar-LY')}\nرقم التذكرة: ${booking.qrCode}`,
+        message: `تذكرتي لفعالية: ${title}\nالتاريخ: ${new Date(event.date).toLocaleDateString('ar-LY')}\nرقم التذكرة: ${qrValue}`,
       };
 
       if (Platform.OS === 'web') {
@@ -158,12 +199,52 @@ export default function TicketScreen() {
     }
   };
 
+  const handleTransfer = async () => {
+    if (!selectedTicket) return;
+    if (!recipientPhone.trim()) {
+      Alert.alert('خطأ', 'يرجى إدخال رقم هاتف المستلم');
+      return;
+    }
+
+    setIsTransferring(true);
+    try {
+      const recipient = await findUserByPhone(recipientPhone.trim());
+      if (!recipient) {
+        Alert.alert('خطأ', 'لا يوجد حساب مسجل بهذا الرقم');
+        return;
+      }
+      if (recipient.id === user?.id) {
+        Alert.alert('خطأ', 'لا يمكنك نقل التذكرة إلى حسابك');
+        return;
+      }
+
+      const name = recipientName.trim() || recipient.name;
+      await transferTicket(booking.id, selectedTicket.id, { userId: recipient.id, name, phone: recipient.phone });
+      setIsTransferOpen(false);
+      setRecipientPhone('');
+      setRecipientName('');
+      setSelectedTicketId(null);
+      Alert.alert(
+        'تم نقل التذكرة',
+        `أصبحت التذكرة باسم ${name}. الرمز السابق لم يعد صالحاً للدخول`,
+        [{ text: 'موافق', onPress: () => { if (!isBuyer && tickets.length <= 1) handleBackToBookings(); } }]
+      );
+    } catch (error) {
+      console.error('Error transferring ticket:', error);
+      Alert.alert('خطأ', 'تعذر نقل التذكرة. قد تكون التذكرة مستخدمة أو الحجز غير مؤكد');
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
   const handleBackToBookings = () => {
     router.push('/(tabs)/bookings');
   };
 
   const getStatusColor = () => {
     switch (booking.status) {
+      case 'pending':
+        return theme.colors.warning;
       case 'confirmed':
         return theme.colors.success;
       case 'cancelled':
@@ -177,6 +258,8 @@ export default function TicketScreen() {
 
   const getStatusLabel = () => {
     switch (booking.status) {
+      case 'pending':
+        return 'بانتظار الدفع';
       case 'confirmed':
         return 'مؤكدة';
       case 'cancelled':
@@ -350,6 +433,10 @@ export default function TicketScreen() {
       fontFamily: 'Cairo-SemiBold',
       color: theme.colors.text,
     },
+    seatList: {
+      alignItems: 'flex-end',
+      gap: 2,
+    },
     statusBadge: {
       paddingHorizontal: 12,
       paddingVertical: 6,
@@ -372,6 +459,67 @@ export default function TicketScreen() {
       color: theme.colors.primary,
       letterSpacing: 2,
     },
+    ticketTabs: {
+      flexDirection: 'row',
+      gap: 8,
+      paddingBottom: 16,
+    },
+    ticketTab: {
+      paddingHorizontal: 14,
+      paddingVertical: 6,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.background,
+    },
+    ticketTabActive: {
+      backgroundColor: theme.colors.primary,
+      borderColor: theme.colors.primary,
+    },
+    ticketTabText: {
+      fontSize: 14,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.text,
+    },
+    ticketTabTextActive: {
+      color: 'white',
+    },
+    groupNote: {
+      fontSize: 13,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.warning,
+      textAlign: 'center',
+      marginTop: 8,
+    },
+    transferSection: {
+      backgroundColor: theme.colors.surface,
+      borderRadius: 16,
+      padding: 20,
+      marginTop: 20,
+      gap: 12,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: theme.isDark ? 0.3 : 0.1,
+      shadowRadius: 8,
+      elevation: 4,
+    },
+    transferHint: {
+      fontSize: 14,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.textSecondary,
+      textAlign: 'center',
+    },
+    transferInput: {
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      borderRadius: 12,
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+      fontSize: 16,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.text,
+      textAlign: locale === 'ar' ? 'right' : 'left',
+    },
     walletSection: {
       backgroundColor: theme.colors.surface,
       borderRadius: 16,
@@ -495,6 +643,52 @@ export default function TicketScreen() {
       fontFamily: 'Cairo-SemiBold',
       color: 'white',
     },
+    modalOverlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 20,
+    },
+    modalContent: {
+      backgroundColor: theme.colors.surface,
+      borderRadius: 16,
+      padding: 24,
+      width: '100%',
+      maxWidth: 400,
+    },
+    modalHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 8,
+    },
+    modalTitle: {
+      fontSize: 20,
+      fontFamily: 'Cairo-Bold',
+      color: theme.colors.text,
+    },
+    modalSubtitle: {
+      fontSize: 14,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.textSecondary,
+      marginBottom: 16,
+    },
+    formatOption: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingVertical: 14,
+      paddingHorizontal: 16,
+      borderRadius: 12,
+      backgroundColor: theme.colors.background,
+      marginBottom: 8,
+    },
+    formatOptionText: {
+      fontSize: 16,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.text,
+    },
   });
 
   return (
@@ -545,7 +739,7 @@ export default function TicketScreen() {
                 <Text style={styles.holderTitle}>حامل التذكرة</Text>
                 <View style={styles.holderInfo}>
                   <User size={20} color={theme.colors.primary} />
-                  <Text style={styles.holderName}>{user?.name || 'المستخدم'}</Text>
+                  <Text style={styles.holderName}>{holderName}</Text>
                 </View>
               </View>
 
@@ -566,26 +760,99 @@ export default function TicketScreen() {
                 </View>
               </View>
 
+              {/* Attendee Tickets */}
+              {tickets.length > 0 && (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.ticketTabs}>
+                  {isBuyer && (
+                    <TouchableOpacity
+                      style={[styles.ticketTab, !selectedTicket && styles.ticketTabActive]}
+                      onPress={() => setSelectedTicketId(null)}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={[styles.ticketTabText, !selectedTicket && styles.ticketTabTextActive]}>
+                        كل التذاكر
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                  {tickets.map((ticket, index) => {
+                    const isActive = selectedTicket?.id === ticket.id;
+                    return (
+                      <TouchableOpacity
+                        key={ticket.id}
+                        style={[styles.ticketTab, isActive && styles.ticketTabActive]}
+                        onPress={() => setSelectedTicketId(ticket.id)}
+                        activeOpacity={0.7}
+                      >
+                        <Text style={[styles.ticketTabText, isActive && styles.ticketTabTextActive]}>
+                          {ticket.name || `التذكرة ${index + 1}`}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+              )}
+
               {/* QR Code */}
               <View style={styles.qrSection}>
                 <View style={styles.qrCode}>
                   <QRCode
-                    value={booking.qrCode}
+                    value={qrValue}
                     size={150}
                     color={theme.colors.text}
                     backgroundColor={theme.colors.surface}
                   />
                 </View>
-                <Text style={styles.qrText}>امسح هذا الرمز عند الدخول</Text>
+                <Text style={styles.qrText}>
+                  {selectedTicket ? 'رمز دخول خاص بهذا الشخص' : 'امسح هذا الرمز عند الدخول'}
+                </Text>
+                {!selectedTicket && transferredCount > 0 && (
+                  <Text style={styles.groupNote}>
+                    تم نقل {transferredCount} من التذاكر لأشخاص آخرين ولا يشملها هذا الرمز
+                  </Text>
+                )}
               </View>
 
               {/* Ticket Details */}
               <View style={styles.ticketDetails}>
                 <View style={styles.detailRow}>
                   <Text style={styles.detailLabel}>عدد التذاكر</Text>
-                  <Text style={styles.detailValue}>{booking.ticketCount}</Text>
+                  <Text style={styles.detailValue}>{ticketCount}</Text>
                 </View>
-                
+
+                {booking.lineItems.map(item => (
+                  <View key={item.tierId} style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>{locale === 'ar' ? item.nameAr : item.name}</Text>
+                    <Text style={styles.detailValue}>
+                      {item.quantity} × {item.unitPrice === 0 ? 'مجاني' : `${item.unitPrice} د.ل`}
+                    </Text>
+                  </View>
+                ))}
+
+                {seatLabels.length > 0 && (
+                  <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>{seatLabels.length > 1 ? 'المقاعد' : 'المقعد'}</Text>
+                    <View style={styles.seatList}>
+                      {seatLabels.map(label => (
+                        <Text key={label} style={styles.detailValue}>{label}</Text>
+                      ))}
+                    </View>
+                  </View>
+                )}
+
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>الدخول</Text>
+                  <Text style={styles.detailValue}>
+                    {booking.admittedCount} من {booking.ticketCount} تم دخولهم
+                  </Text>
+                </View>
+
+                {booking.pricing.discounts.map(discount => (
+                  <View key={discount.code} style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>خصم ({discount.code})</Text>
+                    <Text style={styles.detailValue}>-{discount.amount} د.ل</Text>
+                  </View>
+                ))}
+
                 <View style={styles.detailRow}>
                   <Text style={styles.detailLabel}>السعر الإجمالي</Text>
                   <Text style={styles.detailValue}>
@@ -611,10 +878,60 @@ export default function TicketScreen() {
 
             {/* Ticket Footer */}
             <View style={styles.ticketFooter}>
-              <Text style={styles.ticketCode}>{booking.qrCode}</Text>
+              <Text style={styles.ticketCode}>{qrValue}</Text>
             </View>
           </View>
 
+          {/* Transfer */}
+          {canTransfer && (
+            <View style={styles.transferSection}>
+              {isTransferOpen ? (
+                <>
+                  <Text style={styles.walletTitle}>نقل التذكرة</Text>
+                  <Text style={styles.transferHint}>
+                    ستنتقل التذكرة إلى حساب المستلم ويصدر لها رمز جديد، ولن يعمل الرمز الحالي بعد ذلك
+                  </Text>
+                  <TextInput
+                    style={styles.transferInput}
+                    placeholder="رقم هاتف حساب المستلم"
+                    placeholderTextColor={theme.colors.textSecondary}
+                    value={recipientPhone}
+                    onChangeText={setRecipientPhone}
+                    keyboardType="phone-pad"
+                  />
+                  <TextInput
+                    style={styles.transferInput}
+                    placeholder="اسم الحاضر (اختياري)"
+                    placeholderTextColor={theme.colors.textSecondary}
+                    value={recipientName}
+                    onChangeText={setRecipientName}
+                  />
+                  <TouchableOpacity
+                    style={[styles.walletButton, isTransferring && styles.walletButtonDisabled]}
+                    onPress={handleTransfer}
+                    disabled={isTransferring}
+                    activeOpacity={0.7}
+                  >
+                    <Send size={20} color="white" />
+                    <Text style={styles.walletButtonText}>{isTransferring ? 'جاري النقل...' : 'تأكيد النقل'}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => setIsTransferOpen(false)} activeOpacity={0.7}>
+                    <Text style={styles.transferHint}>إلغاء</Text>
+                  </TouchableOpacity>
+                </>
+              ) : (
+                <TouchableOpacity
+                  style={styles.downloadButton}
+                  onPress={() => setIsTransferOpen(true)}
+                  activeOpacity={0.7}
+                >
+                  <Send size={20} color="white" />
+                  <Text style={styles.walletButtonText}>نقل التذكرة إلى حساب آخر</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
           {/* Wallet & Download Section */}
           <View style={styles.walletSection}>
             <Text style={styles.walletTitle}>حفظ وتحميل التذكرة</Text>
@@ -706,6 +1023,31 @@ export default function TicketScreen() {
           </View>
         </View>
       </ScrollView>
+
+      <Modal visible={isDownloadOpen} transparent animationType="fade" onRequestClose={() => setIsDownloadOpen(false)}>
+        <TouchableOpacity style={styles.modalOverlay} activeOpacity={1} onPress={() => setIsDownloadOpen(false)}>
+          <TouchableOpacity style={styles.modalContent} activeOpacity={1}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>تحميل التذكرة</Text>
+              <TouchableOpacity onPress={() => setIsDownloadOpen(false)} activeOpacity={0.7}>
+                <X size={22} color={theme.colors.text} />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.modalSubtitle}>اختر صيغة التحميل</Text>
+            {downloadFormats.map(format => (
+              <TouchableOpacity
+                key={format.label}
+                style={styles.formatOption}
+                onPress={() => handleDownloadFormat(format.download)}
+                activeOpacity={0.7}
+              >
+                <FileText size={20} color={theme.colors.primary} />
+                <Text style={styles.formatOptionText}>{format.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -2,14 +2,16 @@ import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Image } from 'react-native';
 import { Event } from '@/context/EventContext';
 import { useI18n } from '@/context/I18nContext';
-import { Calendar, MapPin } from 'lucide-react-native';
+import { Calendar, MapPin, Navigation } from 'lucide-react-native';
+import { formatDistance } from '@/utils/geo';
 
 interface EventCardProps {
   event: Event;
   onPress?: () => void;
+  distance?: number | null; // kilometres from the user, when known
 }
 
-export default function EventCard({ event, onPress }: EventCardProps) {
+export default function EventCard({ event, onPress, distance }: EventCardProps) {
   const { t, locale } = useI18n();
   const title = locale === 'ar' ? event.titleAr : event.title;
   const location = locale === 'ar' ? event.locationAr : event.location;
@@ -33,6 +35,13 @@ export default function EventCard({ event, onPress }: EventCardProps) {
             <MapPin size={16} color="#6B7280" />
             <Text style={styles.detailText}>{location}</Text>
           </View>
+
+          {distance != null && (
+            <View style={styles.detail}>
+              <Navigation size={16} color="#6B7280" />
+              <Text style={styles.detailText}>{formatDistance(distance)}</Text>
+            </View>
+          )}
         </View>
         
         <View style={styles.priceContainer}>
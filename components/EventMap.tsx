@@ -0,0 +1,366 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Image, ScrollView } from 'react-native';
+import MapView, { Circle, Marker } from 'react-native-maps';
+import { router } from 'expo-router';
+import { useI18n } from '@/context/I18nContext';
+import { useTheme } from '@/context/ThemeContext';
+import { useEvents, Event } from '@/context/EventContext';
+import { useLocation } from '@/context/LocationContext';
+import { Calendar, MapPin, Search, X } from 'lucide-react-native';
+import { Coordinates, DEFAULT_MAP_CENTER, MapRegion, getDistance, getRegionForRadius, getVisibleRadius } from '@/utils/geo';
+import { EventCluster, clusterEvents, getClusterRegion } from '@/utils/mapClusters';
+
+interface EventMapProps {
+  events: Event[]; // already filtered by search and category
+}
+
+const categoryColors: Record<Event['category'], string> = {
+  government: '#2563EB',
+  schools: '#F59E0B',
+  clinics: '#EF4444',
+  occasions: '#EC4899',
+  entertainment: '#8B5CF6',
+  openings: '#10B981',
+};
+
+// Radius choices in kilometres
+const RADIUS_OPTIONS = [5, 10, 25, 50];
+const DEFAULT_RADIUS = 25;
+
+export default function EventMap({ events }: EventMapProps) {
+  const { t, locale } = useI18n();
+  const { theme } = useTheme();
+  const { getNearbyEvents } = useEvents();
+  const { location } = useLocation();
+  const mapRef = useRef<MapView>(null);
+
+  // Start around the user when their location is known
+  const initialCenter: Coordinates = location
+    ? { latitude: location.latitude, longitude: location.longitude }
+    : DEFAULT_MAP_CENTER;
+  const [searchArea, setSearchArea] = useState<{ center: Coordinates; radius: number }>({
+    center: initialCenter,
+    radius: DEFAULT_RADIUS,
+  });
+  const [region, setRegion] = useState<MapRegion>(getRegionForRadius(initialCenter, DEFAULT_RADIUS));
+  const [previewEvents, setPreviewEvents] = useState<Event[] | null>(null);
+
+  // Only events within the search radius that also match the list's filters
+  const areaEvents = useMemo(() => {
+    const nearby = new Set(
+      getNearbyEvents(searchArea.center.latitude, searchArea.center.longitude, searchArea.radius).map(event => event.id)
+    );
+    return events.filter(event => nearby.has(event.id));
+  }, [events, searchArea, getNearbyEvents]);
+
+  const clusters = useMemo(() => clusterEvents(areaEvents, region), [areaEvents, region]);
+
+  // Offer to search again once the map has moved or zoomed well away from the searched area
+  const hasMovedAway =
+    getDistance(region, searchArea.center) > searchArea.radius / 4 ||
+    Math.abs(getVisibleRadius(region) - searchArea.radius) > searchArea.radius / 2;
+
+  const handleSelectRadius = (radius: number) => {
+    setSearchArea(prev => ({ ...prev, radius }));
+    mapRef.current?.animateToRegion(getRegionForRadius(searchArea.center, radius));
+  };
+
+  const handleSearchArea = () => {
+    setSearchArea({
+      center: { latitude: region.latitude, longitude: region.longitude },
+      radius: Math.max(1, Math.round(getVisibleRadius(region))),
+    });
+    setPreviewEvents(null);
+  };
+
+  const handlePressCluster = (cluster: EventCluster) => {
+    if (cluster.events.length === 1) {
+      setPreviewEvents(cluster.events);
+      return;
+    }
+    // Events at the same venue cannot be pulled apart by zooming, so they are previewed together
+    const clusterRegion = getClusterRegion(cluster);
+    if (clusterRegion) {
+      mapRef.current?.animateToRegion(clusterRegion);
+    } else {
+      setPreviewEvents(cluster.events);
+    }
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+    },
+    map: {
+      ...StyleSheet.absoluteFillObject,
+    },
+    controls: {
+      position: 'absolute',
+      top: 12,
+      left: 12,
+      right: 12,
+      alignItems: 'center',
+      gap: 8,
+    },
+    radiusOptions: {
+      flexDirection: 'row',
+      gap: 8,
+      backgroundColor: theme.colors.surface,
+      borderRadius: 20,
+      padding: 4,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: theme.isDark ? 0.3 : 0.1,
+      shadowRadius: 4,
+      elevation: 3,
+    },
+    radiusOption: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 16,
+    },
+    radiusOptionActive: {
+      backgroundColor: theme.colors.primary,
+    },
+    radiusOptionText: {
+      fontSize: 13,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.text,
+    },
+    radiusOptionTextActive: {
+      color: 'white',
+    },
+    searchAreaButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      backgroundColor: theme.colors.primary,
+      paddingHorizontal: 16,
+      paddingVertical: 8,
+      borderRadius: 20,
+      elevation: 3,
+    },
+    searchAreaButtonText: {
+      fontSize: 14,
+      fontFamily: 'Cairo-SemiBold',
+      color: 'white',
+    },
+    resultsBadge: {
+      backgroundColor: theme.colors.surface,
+      paddingHorizontal: 12,
+      paddingVertical: 4,
+      borderRadius: 12,
+    },
+    resultsBadgeText: {
+      fontSize: 12,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.textSecondary,
+    },
+    pin: {
+      width: 22,
+      height: 22,
+      borderRadius: 11,
+      borderWidth: 3,
+      borderColor: 'white',
+    },
+    clusterPin: {
+      minWidth: 36,
+      height: 36,
+      borderRadius: 18,
+      borderWidth: 3,
+      borderColor: 'white',
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingHorizontal: 6,
+    },
+    clusterPinText: {
+      fontSize: 14,
+      fontFamily: 'Cairo-Bold',
+      color: 'white',
+    },
+    sheet: {
+      position: 'absolute',
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: theme.colors.surface,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingTop: 8,
+      paddingBottom: 100, // Keep clear of the tab bar
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: -2 },
+      shadowOpacity: theme.isDark ? 0.3 : 0.1,
+      shadowRadius: 8,
+      elevation: 8,
+    },
+    sheetHandle: {
+      alignSelf: 'center',
+      width: 40,
+      height: 4,
+      borderRadius: 2,
+      backgroundColor: theme.colors.border,
+      marginBottom: 8,
+    },
+    sheetClose: {
+      position: 'absolute',
+      top: 8,
+      right: 12,
+      padding: 4,
+      zIndex: 1,
+    },
+    sheetContent: {
+      paddingHorizontal: 16,
+      gap: 12,
+    },
+    previewCard: {
+      width: 280,
+      flexDirection: 'row',
+      gap: 12,
+      backgroundColor: theme.colors.background,
+      borderRadius: 12,
+      padding: 8,
+    },
+    previewImage: {
+      width: 80,
+      height: 80,
+      borderRadius: 8,
+      backgroundColor: theme.colors.border,
+    },
+    previewInfo: {
+      flex: 1,
+      gap: 4,
+    },
+    previewTitle: {
+      fontSize: 15,
+      fontFamily: 'Cairo-Bold',
+      color: theme.colors.text,
+    },
+    previewDetail: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+    },
+    previewDetailText: {
+      flex: 1,
+      fontSize: 12,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.textSecondary,
+    },
+    previewPrice: {
+      fontSize: 13,
+      fontFamily: 'Cairo-Bold',
+      color: theme.colors.primary,
+    },
+  });
+
+  const renderPreview = (event: Event) => (
+    <TouchableOpacity
+      key={event.id}
+      style={styles.previewCard}
+      onPress={() => router.push(`/event/${event.id}`)}
+      activeOpacity={0.7}
+    >
+      <Image source={{ uri: event.image }} style={styles.previewImage} />
+      <View style={styles.previewInfo}>
+        <Text style={styles.previewTitle} numberOfLines={1}>
+          {locale === 'ar' ? event.titleAr : event.title}
+        </Text>
+        <View style={styles.previewDetail}>
+          <Calendar size={12} color={theme.colors.textSecondary} />
+          <Text style={styles.previewDetailText} numberOfLines={1}>
+            {new Date(event.date).toLocaleDateString(locale === 'ar' ? 'ar-LY' : 'en-US')} - {event.time}
+          </Text>
+        </View>
+        <View style={styles.previewDetail}>
+          <MapPin size={12} color={theme.colors.textSecondary} />
+          <Text style={styles.previewDetailText} numberOfLines={1}>
+            {locale === 'ar' ? event.locationAr : event.location}
+          </Text>
+        </View>
+        <Text style={styles.previewPrice}>{event.price === 0 ? t('free') : `${event.price} د.ل`}</Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <MapView
+        ref={mapRef}
+        style={styles.map}
+        initialRegion={region}
+        onRegionChangeComplete={setRegion}
+        onPress={(e) => {
+          // iOS also reports marker taps to the map
+          if (e.nativeEvent.action !== 'marker-press') setPreviewEvents(null);
+        }}
+      >
+        <Circle
+          center={searchArea.center}
+          radius={searchArea.radius * 1000}
+          strokeColor={theme.colors.primary}
+          fillColor={theme.colors.primary + '15'}
+        />
+        {clusters.map(cluster => (
+          <Marker
+            key={cluster.id}
+            coordinate={{ latitude: cluster.latitude, longitude: cluster.longitude }}
+            onPress={() => handlePressCluster(cluster)}
+            tracksViewChanges={false}
+          >
+            {cluster.events.length === 1 ? (
+              <View style={[styles.pin, { backgroundColor: categoryColors[cluster.category] }]} />
+            ) : (
+              <View style={[styles.clusterPin, { backgroundColor: categoryColors[cluster.category] }]}>
+                <Text style={styles.clusterPinText}>{cluster.events.length}</Text>
+              </View>
+            )}
+          </Marker>
+        ))}
+      </MapView>
+
+      <View style={styles.controls} pointerEvents="box-none">
+        <View style={styles.radiusOptions}>
+          {RADIUS_OPTIONS.map(radius => {
+            const isActive = searchArea.radius === radius;
+            return (
+              <TouchableOpacity
+                key={radius}
+                style={[styles.radiusOption, isActive && styles.radiusOptionActive]}
+                onPress={() => handleSelectRadius(radius)}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.radiusOptionText, isActive && styles.radiusOptionTextActive]}>
+                  {radius} كم
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {hasMovedAway ? (
+          <TouchableOpacity style={styles.searchAreaButton} onPress={handleSearchArea} activeOpacity={0.7}>
+            <Search size={16} color="white" />
+            <Text style={styles.searchAreaButtonText}>البحث في هذه المنطقة</Text>
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.resultsBadge}>
+            <Text style={styles.resultsBadgeText}>{areaEvents.length} فعالية ضمن {searchArea.radius} كم</Text>
+          </View>
+        )}
+      </View>
+
+      {previewEvents && (
+        <View style={styles.sheet}>
+          <View style={styles.sheetHandle} />
+          <TouchableOpacity style={styles.sheetClose} onPress={() => setPreviewEvents(null)} activeOpacity={0.7}>
+            <X size={18} color={theme.colors.textSecondary} />
+          </TouchableOpacity>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.sheetContent}>
+            {previewEvents.map(renderPreview)}
+          </ScrollView>
+        </View>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,47 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTheme } from '@/context/ThemeContext';
+import { Event } from '@/context/EventContext';
+import { MapPin } from 'lucide-react-native';
+
+interface EventMapProps {
+  events: Event[];
+}
+
+/**
+ * react-native-maps has no web renderer, so the browser build points users to the app
+ */
+export default function EventMap({ events }: EventMapProps) {
+  const { theme } = useTheme();
+  const placedEvents = events.filter(event => event.latitude !== undefined && event.longitude !== undefined);
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: 32,
+      gap: 12,
+    },
+    title: {
+      fontSize: 18,
+      fontFamily: 'Cairo-Bold',
+      color: theme.colors.text,
+      textAlign: 'center',
+    },
+    text: {
+      fontSize: 14,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.textSecondary,
+      textAlign: 'center',
+    },
+  });
+
+  return (
+    <View style={styles.container}>
+      <MapPin size={40} color={theme.colors.primary} />
+      <Text style={styles.title}>الخريطة متاحة في تطبيق الجوال</Text>
+      <Text style={styles.text}>{placedEvents.length} فعالية لها موقع على الخريطة</Text>
+    </View>
+  );
+}
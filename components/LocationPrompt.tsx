@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ActivityIndicator } from 'react-native';
+import { router } from 'expo-router';
+import { useTheme } from '@/context/ThemeContext';
+import { useLocation } from '@/context/LocationContext';
+import { LocateFixed, MapPin } from 'lucide-react-native';
+import { findCities } from '@/utils/geo';
+
+interface LocationPromptProps {
+  onLocated?: () => void;
+}
+
+const statusMessages = {
+  idle: 'اسمح بتحديد موقعك لعرض الفعاليات القريبة منك',
+  locating: 'جاري تحديد موقعك...',
+  ready: 'تم تحديد موقعك',
+  disabled: 'تتبع الموقع متوقف في إعدادات الخصوصية',
+  denied: 'لم يتم السماح بالوصول إلى موقعك',
+  unavailable: 'تعذر تحديد موقعك',
+};
+
+/**
+ * Ask for the device location, or let the user type their city when it is off or not allowed
+ */
+export default function LocationPrompt({ onLocated }: LocationPromptProps) {
+  const { theme } = useTheme();
+  const { status, requestLocation, setCity } = useLocation();
+  const [cityQuery, setCityQuery] = useState('');
+  const cities = findCities(cityQuery).slice(0, 5);
+
+  const handleUseDevice = async () => {
+    const located = await requestLocation();
+    if (located) onLocated?.();
+  };
+
+  const handleSelectCity = async (cityId: string) => {
+    await setCity(cityId);
+    setCityQuery('');
+    onLocated?.();
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      backgroundColor: theme.colors.surface,
+      borderRadius: 12,
+      padding: 16,
+      gap: 12,
+    },
+    message: {
+      fontSize: 14,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.textSecondary,
+      textAlign: 'center',
+    },
+    button: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      backgroundColor: theme.colors.primary,
+      paddingVertical: 10,
+      borderRadius: 8,
+    },
+    buttonText: {
+      fontSize: 14,
+      fontFamily: 'Cairo-SemiBold',
+      color: 'white',
+    },
+    settingsLink: {
+      fontSize: 14,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.primary,
+      textAlign: 'center',
+    },
+    cityInput: {
+      backgroundColor: theme.colors.background,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      fontSize: 14,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.text,
+      textAlign: 'right',
+    },
+    cities: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    cityChip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+      backgroundColor: theme.colors.background,
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 16,
+    },
+    cityChipText: {
+      fontSize: 13,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.text,
+    },
+  });
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.message}>{statusMessages[status]}</Text>
+
+      {status === 'disabled' ? (
+        <TouchableOpacity onPress={() => router.push('/security-privacy')} activeOpacity={0.7}>
+          <Text style={styles.settingsLink}>فتح إعدادات الخصوصية</Text>
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity
+          style={styles.button}
+          onPress={handleUseDevice}
+          disabled={status === 'locating'}
+          activeOpacity={0.7}
+        >
+          {status === 'locating' ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <LocateFixed size={18} color="white" />
+          )}
+          <Text style={styles.buttonText}>استخدام موقعي الحالي</Text>
+        </TouchableOpacity>
+      )}
+
+      <TextInput
+        style={styles.cityInput}
+        placeholder="أو اكتب اسم مدينتك"
+        placeholderTextColor={theme.colors.textSecondary}
+        value={cityQuery}
+        onChangeText={setCityQuery}
+      />
+      {cityQuery.trim() !== '' && (
+        <View style={styles.cities}>
+          {cities.length > 0 ? (
+            cities.map(city => (
+              <TouchableOpacity
+                key={city.id}
+                style={styles.cityChip}
+                onPress={() => handleSelectCity(city.id)}
+                activeOpacity={0.7}
+              >
+                <MapPin size={14} color={theme.colors.primary} />
+                <Text style={styles.cityChipText}>{city.nameAr}</Text>
+              </TouchableOpacity>
+            ))
+          ) : (
+            <Text style={styles.message}>لم يتم العثور على المدينة</Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,191 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
+import { useI18n } from '@/context/I18nContext';
+import { useTheme } from '@/context/ThemeContext';
+import { Seat, SeatMap, SeatSection } from '@/utils/seatMap';
+import { Accessibility } from 'lucide-react-native';
+
+interface SeatPickerProps {
+  seatMap: SeatMap;
+  takenSeatIds: string[];
+  selectedSeatIds: string[];
+  // Sections none of the selected tickets may be seated in are shown dimmed
+  isSectionAvailable?: (section: SeatSection) => boolean;
+  onToggleSeat: (seat: Seat, section: SeatSection) => void;
+}
+
+export default function SeatPicker({
+  seatMap,
+  takenSeatIds,
+  selectedSeatIds,
+  isSectionAvailable = () => true,
+  onToggleSeat,
+}: SeatPickerProps) {
+  const { locale } = useI18n();
+  const { theme } = useTheme();
+  const taken = new Set(takenSeatIds);
+  const selected = new Set(selectedSeatIds);
+
+  const styles = StyleSheet.create({
+    stage: {
+      backgroundColor: theme.colors.border,
+      borderRadius: 8,
+      paddingVertical: 6,
+      alignItems: 'center',
+      marginBottom: 16,
+    },
+    stageText: {
+      fontSize: 12,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.textSecondary,
+    },
+    section: {
+      marginBottom: 16,
+    },
+    sectionDimmed: {
+      opacity: 0.4,
+    },
+    sectionTitle: {
+      fontSize: 14,
+      fontFamily: 'Cairo-Bold',
+      color: theme.colors.text,
+      marginBottom: 8,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+      marginBottom: 4,
+    },
+    rowLabel: {
+      width: 20,
+      fontSize: 12,
+      fontFamily: 'Cairo-SemiBold',
+      color: theme.colors.textSecondary,
+      textAlign: 'center',
+    },
+    seat: {
+      width: 24,
+      height: 24,
+      borderRadius: 6,
+      borderWidth: 1,
+      borderColor: theme.colors.primary,
+      backgroundColor: theme.colors.surface,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    seatSelected: {
+      backgroundColor: theme.colors.primary,
+    },
+    seatTaken: {
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.border,
+    },
+    seatCompanion: {
+      borderStyle: 'dashed',
+    },
+    seatNumber: {
+      fontSize: 9,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.text,
+    },
+    seatNumberSelected: {
+      color: 'white',
+    },
+    legend: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 12,
+      marginTop: 4,
+    },
+    legendItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+    },
+    legendText: {
+      fontSize: 12,
+      fontFamily: 'Cairo-Regular',
+      color: theme.colors.textSecondary,
+    },
+  });
+
+  const renderSeat = (seat: Seat, section: SeatSection, sectionAvailable: boolean) => {
+    const isTaken = taken.has(seat.id);
+    const isSelected = selected.has(seat.id);
+
+    return (
+      <TouchableOpacity
+        key={seat.id}
+        style={[
+          styles.seat,
+          seat.companion && styles.seatCompanion,
+          isTaken && styles.seatTaken,
+          isSelected && styles.seatSelected,
+        ]}
+        onPress={() => onToggleSeat(seat, section)}
+        disabled={isTaken || (!sectionAvailable && !isSelected)}
+        activeOpacity={0.7}
+        accessibilityLabel={`${section.nameAr} ${seat.number}`}
+      >
+        {seat.accessible ? (
+          <Accessibility size={14} color={isSelected ? 'white' : theme.colors.text} />
+        ) : (
+          <Text style={[styles.seatNumber, isSelected && styles.seatNumberSelected]}>{seat.number}</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View>
+      <View style={styles.stage}>
+        <Text style={styles.stageText}>المسرح</Text>
+      </View>
+
+      {seatMap.sections.map(section => {
+        const sectionAvailable = isSectionAvailable(section);
+        return (
+          <View key={section.id} style={[styles.section, !sectionAvailable && styles.sectionDimmed]}>
+            <Text style={styles.sectionTitle}>{locale === 'ar' ? section.nameAr : section.name}</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              <View>
+                {section.rows.map(row => (
+                  <View key={row.label} style={styles.row}>
+                    <Text style={styles.rowLabel}>{row.label}</Text>
+                    {row.seats.map(seat => renderSeat(seat, section, sectionAvailable))}
+                  </View>
+                ))}
+              </View>
+            </ScrollView>
+          </View>
+        );
+      })}
+
+      <View style={styles.legend}>
+        <View style={styles.legendItem}>
+          <View style={styles.seat} />
+          <Text style={styles.legendText}>متاح</Text>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.seat, styles.seatSelected]} />
+          <Text style={styles.legendText}>مختار</Text>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.seat, styles.seatTaken]} />
+          <Text style={styles.legendText}>محجوز</Text>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={styles.seat}>
+            <Accessibility size={14} color={theme.colors.text} />
+          </View>
+          <Text style={styles.legendText}>مخصص لذوي الإعاقة</Text>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.seat, styles.seatCompanion]} />
+          <Text style={styles.legendText}>مرافق</Text>
+        </View>
+      </View>
+    </View>
+  );
+}
@@ -1,7 +1,18 @@
 import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  registerAccount,
+  authenticate,
+  restoreSession,
+  getAccessToken as getStoredAccessToken,
+  signOut,
+  updateAccountProfile,
+  findAccountByPhone,
+} from '@/services/authService';
+import { AccountSummary, RegisterInput, SignedIn } from '@/services/accounts';
+import { getEventRepository } from '@/services/createEventRepository';
 
-interface User {
+export interface User {
   id: string;
   name: string;
   email: string;
@@ -14,11 +25,14 @@ interface User {
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
-  login: (phone: string, password: string, accountType?: 'personal' | 'business') => Promise<void>;
-  register: (userData: Omit<User, 'id'> & { password: string, accountType: 'personal' | 'business' }) => Promise<void>;
+  login: (phone: string, password: string) => Promise<void>;
+  register: (userData: RegisterInput) => Promise<void>;
   logout: () => Promise<void>;
+  getAccessToken: () => Promise<string | null>;
   updateProfile: (userData: Partial<User>) => Promise<void>;
   isBusinessAccount: () => boolean;
+  isAdmin: () => boolean;
+  findUserByPhone: (phone: string) => Promise<AccountSummary | null>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -26,6 +40,7 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isModerator, setIsModerator] = useState(false);
   const isMountedRef = useRef(true);
 
   useEffect(() => {
@@ -37,14 +52,45 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     };
   }, []);
 
+  // Moderators are set on the events API, which is asked whenever the account changes
+  useEffect(() => {
+    if (!user) {
+      setIsModerator(false);
+      return;
+    }
+    let isCurrent = true;
+    getEventRepository()
+      .isModerator(user.id)
+      .then(result => {
+        if (isCurrent) setIsModerator(result);
+      })
+      .catch(error => {
+        console.error('Error checking moderator role:', error);
+        if (isCurrent) setIsModerator(false);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [user?.id]);
+
   const loadUser = async () => {
     try {
-      const userData = await AsyncStorage.getItem('user');
-      if (userData && isMountedRef.current) {
-        setUser(JSON.parse(userData));
+      const restored = await restoreSession();
+      if (restored) {
+        await AsyncStorage.setItem('user', JSON.stringify(restored.user));
+      } else {
+        await AsyncStorage.removeItem('user');
+      }
+      if (isMountedRef.current) {
+        setUser(restored ? restored.user : null);
       }
     } catch (error) {
+      // The events API could not be reached; the session is kept, so carry on with the account last seen
       console.error('Error loading user:', error);
+      const stored = await AsyncStorage.getItem('user').catch(() => null);
+      if (stored && isMountedRef.current) {
+        setUser(JSON.parse(stored));
+      }
     } finally {
       if (isMountedRef.current) {
         setIsLoading(false);
@@ -52,46 +98,26 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const login = async (phone: string, password: string, accountType: 'personal' | 'business' = 'personal') => {
+  const startSession = async (signedIn: SignedIn) => {
+    await AsyncStorage.setItem('user', JSON.stringify(signedIn.user));
+    if (isMountedRef.current) {
+      setUser(signedIn.user);
+    }
+  };
+
+  // Errors are AuthError instances so the screens can show a message per error code
+  const login = async (phone: string, password: string) => {
     try {
-      // Simulate API call
-      const userData: User = {
-        id: Date.now().toString(),
-        name: 'محمد أحمد',
-        email: 'mohamed@example.com',
-        phone,
-        bio: 'مطور تطبيقات ومهتم بالتكنولوجيا',
-        avatar: '',
-        accountType: accountType,
-      };
-      
-      await AsyncStorage.setItem('user', JSON.stringify(userData));
-      if (isMountedRef.current) {
-        setUser(userData);
-      }
+      await startSession(await authenticate(phone, password));
     } catch (error) {
       console.error('Login error:', error);
       throw error;
     }
   };
 
-  const register = async (userData: Omit<User, 'id'> & { password: string, accountType: 'personal' | 'business' }) => {
+  const register = async (userData: RegisterInput) => {
     try {
-      // Simulate API call
-      const newUser: User = {
-        id: Date.now().toString(),
-        name: userData.name,
-        email: userData.email,
-        phone: userData.phone,
-        bio: '',
-        avatar: '',
-        accountType: userData.accountType,
-      };
-      
-      await AsyncStorage.setItem('user', JSON.stringify(newUser));
-      if (isMountedRef.current) {
-        setUser(newUser);
-      }
+      await startSession(await registerAccount(userData));
     } catch (error) {
       console.error('Register error:', error);
       throw error;
@@ -100,6 +126,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const logout = async () => {
     try {
+      await signOut();
       await AsyncStorage.removeItem('user');
       if (isMountedRef.current) {
         setUser(null);
@@ -109,10 +136,23 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  /**
+   * Return a valid access token, refreshing it when it has expired.
+   * Signs the user out when the refresh token has expired too.
+   */
+  const getAccessToken = async (): Promise<string | null> => {
+    try {
+      return await getStoredAccessToken();
+    } catch (error) {
+      await logout();
+      return null;
+    }
+  };
+
   const updateProfile = async (userData: Partial<User>) => {
     try {
       if (user) {
-        const updatedUser = { ...user, ...userData };
+        const updatedUser = await updateAccountProfile(user.id, userData);
         await AsyncStorage.setItem('user', JSON.stringify(updatedUser));
         if (isMountedRef.current) {
           setUser(updatedUser);
@@ -128,14 +168,25 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return user?.accountType === 'business';
   };
 
+  const isAdmin = () => {
+    return isModerator;
+  };
+
+  const findUserByPhone = (phone: string): Promise<AccountSummary | null> => {
+    return findAccountByPhone(phone);
+  };
+
   const value: AuthContextType = {
     user,
     isLoading,
     login,
     register,
     logout,
+    getAccessToken,
     updateProfile,
     isBusinessAccount,
+    isAdmin,
+    findUserByPhone,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
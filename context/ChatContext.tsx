@@ -1,5 +1,6 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useMemo } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createSchoolSearchIndex } from '@/utils/searchIndex';
 
 export interface Message {
   id: string;
@@ -132,6 +133,7 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
   const [chats, setChats] = useState<Chat[]>([]);
   const [messages, setMessages] = useState<Message[]>([]);
   const [schools] = useState<School[]>(mockSchools);
+  const schoolSearchIndex = useMemo(() => createSchoolSearchIndex(schools), [schools]);
   const [isLoading, setIsLoading] = useState(false);
 
   useEffect(() => {
@@ -425,13 +427,7 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
   };
 
   const searchSchools = (query: string): School[] => {
-    const lowercaseQuery = query.toLowerCase();
-    return schools.filter(school =>
-      school.name.toLowerCase().includes(lowercaseQuery) ||
-      school.nameAr.includes(query) ||
-      school.location.toLowerCase().includes(lowercaseQuery) ||
-      school.locationAr.includes(query)
-    );
+    return schoolSearchIndex.search(query);
   };
 
   const getUnreadChatsCount = (): number => {
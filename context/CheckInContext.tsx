@@ -0,0 +1,270 @@
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAuth } from '@/context/AuthContext';
+import { useEvents, Booking } from '@/context/EventContext';
+import { useNotifications } from '@/context/NotificationContext';
+import { useSecurity } from '@/context/SecurityContext';
+import { getEventRepository } from '@/services/createEventRepository';
+import { RepositoryError } from '@/services/eventRepository';
+import { resolveCheckInConflicts, countAdmittedEntries } from '@/utils/checkIns';
+import { BookingAttendee } from '@/utils/attendees';
+import { generateSecureToken } from '@/utils/securityUtils';
+
+export interface CheckIn {
+  id: string;
+  bookingId: string;
+  eventId: string;
+  deviceId: string;
+  count: number; // people admitted by this scan
+  attendeeId?: string; // set when an attendee's own ticket was scanned
+  scannedAt: string;
+  syncedAt?: string;
+  // Set when earlier scans of the same booking already used up its tickets
+  conflictWith?: {
+    checkInId: string;
+    deviceId: string;
+    scannedAt: string;
+  };
+}
+
+interface CheckInContextType {
+  checkIns: CheckIn[];
+  deviceId: string | null;
+  pendingCount: number;
+  conflicts: CheckIn[];
+  isSyncing: boolean;
+  lastSyncAt: string | null;
+  getAdmittedCount: (booking: Booking) => number;
+  isAttendeeAdmitted: (attendee: BookingAttendee) => boolean;
+  recordCheckIn: (booking: Booking, count: number, attendeeId?: string) => Promise<CheckIn>; // fails when the server refuses the entry
+  syncCheckIns: () => Promise<void>;
+}
+
+const CheckInContext = createContext<CheckInContextType | undefined>(undefined);
+
+const SYNC_INTERVAL = 30000; // 30 seconds
+
+const isNetworkError = (error: unknown): boolean => error instanceof RepositoryError && error.code === 'network';
+
+export function CheckInProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const { markTicketAsUsed, refreshBookings } = useEvents();
+  const { addNotification } = useNotifications();
+  const { isOnline } = useSecurity();
+  const repository = getEventRepository();
+
+  const [checkIns, setCheckIns] = useState<CheckIn[]>([]);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [lastSyncAt, setLastSyncAt] = useState<string | null>(null);
+
+  // The sync loop runs outside React renders, so it reads the latest log from refs
+  const checkInsRef = useRef<CheckIn[]>([]);
+  const deviceIdRef = useRef<string | null>(null);
+  const isSyncingRef = useRef(false);
+  const syncRef = useRef<() => Promise<void>>(async () => {});
+
+  useEffect(() => {
+    loadCheckIns();
+
+    const interval = setInterval(() => {
+      syncRef.current();
+    }, SYNC_INTERVAL);
+
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        syncRef.current();
+      }
+    });
+
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (isOnline) {
+      syncCheckIns();
+    }
+  }, [isOnline]);
+
+  const loadCheckIns = async () => {
+    try {
+      const [storedLog, storedDeviceId, storedLastSync] = await Promise.all([
+        AsyncStorage.getItem('checkInLog'),
+        AsyncStorage.getItem('deviceId'),
+        AsyncStorage.getItem('checkInLastSync'),
+      ]);
+
+      let id = storedDeviceId;
+      if (!id) {
+        id = await generateSecureToken(16);
+        await AsyncStorage.setItem('deviceId', id);
+      }
+      deviceIdRef.current = id;
+      setDeviceId(id);
+
+      if (storedLog) {
+        updateLog(JSON.parse(storedLog));
+      }
+      setLastSyncAt(storedLastSync);
+    } catch (error) {
+      console.error('Error loading check-ins:', error);
+    }
+  };
+
+  const updateLog = (log: CheckIn[]) => {
+    checkInsRef.current = log;
+    setCheckIns(log);
+  };
+
+  const saveLog = async (log: CheckIn[]) => {
+    try {
+      await AsyncStorage.setItem('checkInLog', JSON.stringify(log));
+    } catch (error) {
+      console.error('Error saving check-ins:', error);
+    }
+  };
+
+  /**
+   * Entries admitted on a booking, counting scans that have not reached the server yet
+   */
+  const getAdmittedCount = (booking: Booking): number => {
+    const scans = checkIns
+      .filter(c => c.bookingId === booking.id)
+      // Scans logged before partial check-in have no count and admitted the whole booking
+      .map(c => ({ ...c, count: Math.min(c.count ?? booking.ticketCount, booking.ticketCount) }));
+    const logged = countAdmittedEntries(resolveCheckInConflicts(scans, () => booking.ticketCount), booking.id);
+    return Math.min(booking.ticketCount, Math.max(booking.admittedCount, logged));
+  };
+
+  /**
+   * Whether an attendee's own ticket was already used to get in, on any device
+   */
+  const isAttendeeAdmitted = (attendee: BookingAttendee): boolean => {
+    return !!attendee.admittedAt || checkIns.some(c => c.attendeeId === attendee.id && !c.conflictWith);
+  };
+
+  const recordCheckIn = async (booking: Booking, count: number, attendeeId?: string): Promise<CheckIn> => {
+    const device = deviceIdRef.current || 'unknown-device';
+    const checkIn: CheckIn = {
+      id: `${device}-${Date.now()}`,
+      bookingId: booking.id,
+      eventId: booking.eventId,
+      deviceId: device,
+      count,
+      ...(attendeeId ? { attendeeId } : {}),
+      scannedAt: new Date().toISOString(),
+    };
+
+    const updatedLog = [...checkInsRef.current, checkIn];
+    updateLog(updatedLog);
+    await saveLog(updatedLog);
+
+    try {
+      await markTicketAsUsed(booking.id, count, attendeeId);
+    } catch (error) {
+      // Offline: the queued check-in counts against the booking once it syncs
+      if (!isNetworkError(error)) {
+        // The server refused the entry, e.g. because its tickets were used on another device
+        const withoutScan = checkInsRef.current.filter(c => c.id !== checkIn.id);
+        updateLog(withoutScan);
+        await saveLog(withoutScan);
+        await refreshBookings();
+        throw error;
+      }
+    }
+
+    syncCheckIns();
+    return checkIn;
+  };
+
+  /**
+   * Upload queued scans and merge the server's view of every scan for the same events.
+   * Scans from this device that lost to an earlier scan are reported to the staff member.
+   */
+  const syncCheckIns = async (): Promise<void> => {
+    const device = deviceIdRef.current;
+    if (!device || isSyncingRef.current) return;
+
+    const log = checkInsRef.current;
+    const pending = log.filter(c => c.deviceId === device && !c.syncedAt);
+    const eventIds = Array.from(new Set(log.map(c => c.eventId)));
+    if (eventIds.length === 0) return;
+
+    isSyncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      const resolved = await repository.syncCheckIns({
+        organizerId: user?.id || '',
+        deviceId: device,
+        checkIns: pending,
+        eventIds,
+      });
+
+      const previous = new Map(checkInsRef.current.map(c => [c.id, c]));
+      const merged = new Map(previous);
+      resolved.forEach(c => merged.set(c.id, c));
+      const updatedLog = Array.from(merged.values());
+
+      const newConflicts = resolved.filter(c =>
+        c.deviceId === device && c.conflictWith && !previous.get(c.id)?.conflictWith
+      );
+
+      updateLog(updatedLog);
+      await saveLog(updatedLog);
+
+      const syncedAt = new Date().toISOString();
+      setLastSyncAt(syncedAt);
+      await AsyncStorage.setItem('checkInLastSync', syncedAt);
+
+      for (const conflict of newConflicts) {
+        await addNotification({
+          type: 'check_in_conflict',
+          title: 'دخول مكرر ⚠️',
+          message: `التذكرة رقم ${conflict.bookingId} استُخدمت للدخول من جهاز آخر في ${new Date(conflict.conflictWith!.scannedAt).toLocaleTimeString('ar-LY')} قبل مسحك لها`,
+          data: { checkInId: conflict.id, bookingId: conflict.bookingId },
+          actionUrl: '/scanner',
+        });
+      }
+
+      await refreshBookings();
+    } catch (error) {
+      // Offline syncs are retried on the next interval
+      if (!isNetworkError(error)) console.error('Error syncing check-ins:', error);
+    } finally {
+      isSyncingRef.current = false;
+      setIsSyncing(false);
+    }
+  };
+
+  syncRef.current = syncCheckIns;
+
+  const pendingCount = checkIns.filter(c => c.deviceId === deviceId && !c.syncedAt).length;
+  const conflicts = checkIns.filter(c => c.deviceId === deviceId && c.conflictWith);
+
+  const value: CheckInContextType = {
+    checkIns,
+    deviceId,
+    pendingCount,
+    conflicts,
+    isSyncing,
+    lastSyncAt,
+    getAdmittedCount,
+    isAttendeeAdmitted,
+    recordCheckIn,
+    syncCheckIns,
+  };
+
+  return <CheckInContext.Provider value={value}>{children}</CheckInContext.Provider>;
+}
+
+export function useCheckIns() {
+  const context = useContext(CheckInContext);
+  if (context === undefined) {
+    throw new Error('useCheckIns must be used within a CheckInProvider');
+  }
+  return context;
+}
@@ -1,5 +1,19 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import React, { createContext, useContext, useState, useEffect, useMemo } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { getEventRepository } from '@/services/createEventRepository';
+import { BookingPayment, BookingRefund, PaymentMethod } from '@/services/paymentProvider';
+import { CancellationPolicy } from '@/utils/cancellationPolicy';
+import { SeatHold } from '@/services/seatInventory';
+import { BookingLineItem, TicketSelection, TicketTier } from '@/utils/ticketTiers';
+import { SeatMap } from '@/utils/seatMap';
+import { PriceBreakdown, PriceQuote } from '@/utils/pricing';
+import { AttendeeDetails, BookingAttendee } from '@/utils/attendees';
+import { EventDetails } from '@/utils/eventDetails';
+import { EventRejectionReason, EventReview, EventStatus, isEventListed } from '@/utils/eventLifecycle';
+import { BookingFilter, EventListFilter, EventStatusInput } from '@/services/eventRepository';
+import { EventSession, RecurrenceRule } from '@/utils/eventSessions';
+import { getDistance, hasCoordinates } from '@/utils/geo';
+import { createEventSearchIndex } from '@/utils/searchIndex';
 
 export interface Event {
   id: string;
@@ -10,205 +24,164 @@ export interface Event {
   category: 'government' | 'schools' | 'clinics' | 'occasions' | 'entertainment' | 'openings';
   date: string;
   time: string;
+  durationMinutes?: number; // length of each session; the default applies when unset
   location: string;
   locationAr: string;
-  price: number;
+  price: number; // lowest ticket price, shown in listings
   image: string;
   organizer: string;
   organizerAr: string;
+  organizerId?: string; // business account that runs the event
+  status?: EventStatus; // published when unset
+  submittedAt?: string; // last sent for review
+  review?: EventReview; // the moderator's decision on the last submission
+  pendingChanges?: Partial<EventDetails>; // material changes to a live event waiting for review
   isFeatured: boolean;
   latitude?: number;
   longitude?: number;
-  maxAttendees: number;
-  currentAttendees: number;
+  maxAttendees: number; // per session for events with sessions
+  currentAttendees: number; // across every session
+  cancellationPolicy?: CancellationPolicy; // the default policy applies when unset
+  tiers?: TicketTier[]; // a single general admission tier at `price` when unset
+  seatMap?: SeatMap; // venues with numbered seats; tickets are unreserved when unset
+  bookedSeats?: string[]; // ids of seats taken by bookings
+  recurrence?: RecurrenceRule | null; // held once when unset or null
+  sessions?: EventSession[]; // built from the recurrence; each session is booked separately
+  sessionId?: string; // set when the event is seen through one of its sessions
+  ticketKey?: string; // organizer public key (hex) that verifies the event's tickets, from the events API
 }
 
 export interface Booking {
   id: string;
   eventId: string;
+  sessionId?: string; // the session the tickets admit to, for events with sessions
   userId: string;
   ticketCount: number;
-  totalPrice: number;
+  totalPrice: number; // after discounts
   bookingDate: string;
-  status: 'confirmed' | 'cancelled' | 'used';
-  qrCode: string;
+  status: 'pending' | 'confirmed' | 'cancelled' | 'used'; // pending until the payment is authorized
+  admittedCount: number; // entries already admitted at the door
+  payment: BookingPayment;
+  refunds: BookingRefund[];
+  lineItems: BookingLineItem[]; // tickets bought per tier
+  pricing: PriceBreakdown; // subtotal and the discounts applied
+  attendees: BookingAttendee[]; // one ticket per person, each with its own QR code
+  qrCode: string; // admits the whole group
+}
+
+export interface BookEventOptions {
+  sessionId?: string; // required for events with sessions
+  holdId?: string; // seats held at checkout
+  paymentSource?: string; // card token from the payment provider
+  promoCode?: string;
+  attendees?: AttendeeDetails[]; // one per ticket, in the order of the selection
+}
+
+export interface TicketRecipient {
+  userId: string;
+  name: string;
+  phone?: string;
 }
 
 interface EventContextType {
-  events: Event[];
+  events: Event[]; // listed in the catalogue
+  allEvents: Event[]; // also drafts, events under review and cancelled events
   bookings: Booking[];
   isLoading: boolean;
   getEventById: (id: string) => Event | undefined;
   getBookingById: (id: string) => Booking | undefined;
-  bookEvent: (eventId: string, ticketCount: number) => Promise<Booking>;
+  createEvent: (details: Partial<EventDetails>) => Promise<Event>; // starts a draft
+  updateEvent: (eventId: string, changes: Partial<EventDetails>) => Promise<Event>;
+  deleteEvent: (eventId: string) => Promise<void>;
+  setEventStatus: (eventId: string, status: EventStatusInput['status']) => Promise<Event>;
+  reviewEvent: (eventId: string, decision: 'approved' | 'rejected', reasons?: EventRejectionReason[], note?: string) => Promise<Event>;
+  holdSeats: (eventId: string, items: TicketSelection[], sessionId?: string) => Promise<SeatHold>;
+  releaseHold: (holdId: string) => Promise<void>;
+  quotePrice: (eventId: string, items: TicketSelection[], promoCode?: string, sessionId?: string) => Promise<PriceQuote>;
+  bookEvent: (eventId: string, items: TicketSelection[], paymentMethod: PaymentMethod, options?: BookEventOptions) => Promise<Booking>;
   cancelBooking: (bookingId: string) => Promise<void>;
-  markTicketAsUsed: (bookingId: string) => Promise<void>;
+  transferTicket: (bookingId: string, attendeeId: string, recipient: TicketRecipient) => Promise<Booking>;
+  markTicketAsUsed: (bookingId: string, count?: number, attendeeId?: string) => Promise<void>;
+  createApplePass: (bookingId: string, attendeeId?: string) => Promise<string>; // base64 .pkpass
+  createGoogleWalletLink: (bookingId: string, attendeeId?: string) => Promise<string>;
+  refreshBookings: () => Promise<void>;
   searchEvents: (query: string) => Event[];
   getEventsByCategory: (category: Event['category']) => Event[];
   getFeaturedEvents: () => Event[];
-  getNearbyEvents: (latitude: number, longitude: number, radius: number) => Event[];
+  getNearbyEvents: (latitude: number, longitude: number, radius: number) => Event[]; // radius in kilometres
 }
 
 const EventContext = createContext<EventContextType | undefined>(undefined);
 
-// Mock data
-const mockEvents: Event[] = [
-  {
-    id: '1',
-    title: 'Government Digital Transformation Conference',
-    titleAr: 'مؤتمر التحول الرقمي الحكومي',
-    description: 'Learn about the latest government digital initiatives and transformation strategies.',
-    descriptionAr: 'تعرف على أحدث المبادرات الحكومية للتحول الرقمي واستراتيجيات التطوير.',
-    category: 'government',
-    date: '2024-02-15',
-    time: '09:00',
-    location: 'Tripoli Convention Center',
-    locationAr: 'مركز طرابلس للمؤتمرات',
-    price: 0,
-    image: 'https://images.pexels.com/photos/3184435/pexels-photo-3184435.jpeg',
-    organizer: 'Ministry of Digital Transformation',
-    organizerAr: 'وزارة التحول الرقمي',
-    isFeatured: true,
-    latitude: 32.8872,
-    longitude: 13.1913,
-    maxAttendees: 500,
-    currentAttendees: 245,
-  },
-  {
-    id: '2',
-    title: 'International School Fair',
-    titleAr: 'معرض المدارس الدولية',
-    description: 'Discover the best international schools in Libya and their programs.',
-    descriptionAr: 'اكتشف أفضل المدارس الدولية في ليبيا وبرامجها التعليمية.',
-    category: 'schools',
-    date: '2024-02-20',
-    time: '10:00',
-    location: 'Benghazi Educational Complex',
-    locationAr: 'مجمع بنغازي التعليمي',
-    price: 5,
-    image: 'https://images.pexels.com/photos/289737/pexels-photo-289737.jpeg',
-    organizer: 'Libya Education Council',
-    organizerAr: 'مجلس التعليم الليبي',
-    isFeatured: true,
-    latitude: 32.1244,
-    longitude: 20.0707,
-    maxAttendees: 300,
-    currentAttendees: 156,
-  },
-  {
-    id: '3',
-    title: 'Health & Wellness Expo',
-    titleAr: 'معرض الصحة والعافية',
-    description: 'Latest medical technologies and wellness solutions for a healthier Libya.',
-    descriptionAr: 'أحدث التقنيات الطبية وحلول العافية من أجل ليبيا أكثر صحة.',
-    category: 'clinics',
-    date: '2024-02-25',
-    time: '08:30',
-    location: 'Tripoli Medical Center',
-    locationAr: 'المركز الطبي طرابلس',
-    price: 10,
-    image: 'https://images.pexels.com/photos/40568/medical-appointment-doctor-healthcare-40568.jpeg',
-    organizer: 'Libya Health Association',
-    organizerAr: 'جمعية الصحة الليبية',
-    isFeatured: false,
-    latitude: 32.8925,
-    longitude: 13.1802,
-    maxAttendees: 200,
-    currentAttendees: 89,
-  },
-  {
-    id: '4',
-    title: 'Traditional Wedding Celebration',
-    titleAr: 'احتفال الزفاف التقليدي',
-    description: 'Experience authentic Libyan wedding traditions and celebrations.',
-    descriptionAr: 'اختبر تقاليد الزفاف الليبية الأصيلة والاحتفالات التراثية.',
-    category: 'occasions',
-    date: '2024-03-01',
-    time: '18:00',
-    location: 'Al-Saraya Al-Hamra',
-    locationAr: 'السرايا الحمراء',
-    price: 25,
-    image: 'https://images.pexels.com/photos/1444442/pexels-photo-1444442.jpeg',
-    organizer: 'Cultural Heritage Society',
-    organizerAr: 'جمعية التراث الثقافي',
-    isFeatured: true,
-    latitude: 32.8925,
-    longitude: 13.1802,
-    maxAttendees: 150,
-    currentAttendees: 127,
-  },
-  {
-    id: '5',
-    title: 'Comedy Night Show',
-    titleAr: 'عرض الكوميديا الليلي',
-    description: 'Laugh the night away with Libya\'s top comedians.',
-    descriptionAr: 'استمتع بليلة من الضحك مع أفضل الكوميديين في ليبيا.',
-    category: 'entertainment',
-    date: '2024-03-05',
-    time: '20:00',
-    location: 'Tripoli Theatre',
-    locationAr: 'مسرح طرابلس',
-    price: 15,
-    image: 'https://images.pexels.com/photos/713149/pexels-photo-713149.jpeg',
-    organizer: 'Entertainment Libya',
-    organizerAr: 'ترفيه ليبيا',
-    isFeatured: false,
-    latitude: 32.8872,
-    longitude: 13.1913,
-    maxAttendees: 400,
-    currentAttendees: 298,
-  },
-  {
-    id: '6',
-    title: 'New Shopping Mall Opening',
-    titleAr: 'افتتاح المركز التجاري الجديد',
-    description: 'Grand opening of Libya\'s newest and largest shopping destination.',
-    descriptionAr: 'الافتتاح الكبير لأحدث وأكبر وجهة تسوق في ليبيا.',
-    category: 'openings',
-    date: '2024-03-10',
-    time: '11:00',
-    location: 'New Tripoli Mall',
-    locationAr: 'مول طرابلس الجديد',
-    price: 0,
-    image: 'https://images.pexels.com/photos/264507/pexels-photo-264507.jpeg',
-    organizer: 'Libya Commercial Group',
-    organizerAr: 'المجموعة التجارية الليبية',
-    isFeatured: true,
-    latitude: 32.8925,
-    longitude: 13.1802,
-    maxAttendees: 1000,
-    currentAttendees: 756,
-  },
-];
-
 export function EventProvider({ children }: { children: React.ReactNode }) {
-  const [events, setEvents] = useState<Event[]>(mockEvents);
+  const { user, isAdmin, isBusinessAccount } = useAuth();
+  const repository = getEventRepository();
+
+  const [events, setEvents] = useState<Event[]>([]);
   const [bookings, setBookings] = useState<Booking[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
 
+  // Reloaded for each account and role, since what is visible depends on who is signed in
   useEffect(() => {
-    loadBookingsFromStorage();
-  }, []);
+    let isCurrent = true;
+    loadFromRepository(() => isCurrent);
+    return () => {
+      isCurrent = false;
+    };
+  }, [user?.id, isAdmin()]);
+
+  // Unlisted events are only shown to their organizer, and to moderators
+  const getEventScope = (): EventListFilter =>
+    user ? { organizerId: user.id, ...(isAdmin() ? { reviewerId: user.id } : {}) } : {};
 
-  const loadBookingsFromStorage = async () => {
+  // Organizers also see the bookings for their events, to check people in and follow sales
+  const getBookingScope = (): BookingFilter | null =>
+    user ? { userId: user.id, ...(isBusinessAccount() ? { organizerId: user.id } : {}) } : null;
+
+  const listScopedBookings = async (): Promise<Booking[]> => {
+    const scope = getBookingScope();
+    return scope ? repository.listBookings(scope) : [];
+  };
+
+  const loadFromRepository = async (isCurrent: () => boolean) => {
     try {
-      const storedBookings = await AsyncStorage.getItem('bookings');
-      if (storedBookings) {
-        setBookings(JSON.parse(storedBookings));
-      }
+      const [loadedEvents, loadedBookings] = await Promise.all([
+        repository.listEvents(getEventScope()),
+        listScopedBookings(),
+      ]);
+      if (!isCurrent()) return;
+      setEvents(loadedEvents);
+      setBookings(loadedBookings);
     } catch (error) {
-      console.error('Error loading bookings:', error);
+      console.error('Error loading events:', error);
+    } finally {
+      if (isCurrent()) setIsLoading(false);
     }
   };
 
-  const saveBookingsToStorage = async (updatedBookings: Booking[]) => {
+  const replaceBooking = (updated: Booking) => {
+    setBookings(prev =>
+      prev.some(b => b.id === updated.id)
+        ? prev.map(b => (b.id === updated.id ? updated : b))
+        : [...prev, updated]
+    );
+  };
+
+  // Pull the latest attendance figures for an event after a booking change
+  const refreshEvent = async (eventId: string) => {
     try {
-      await AsyncStorage.setItem('bookings', JSON.stringify(updatedBookings));
+      const updated = await repository.getEvent(eventId);
+      setEvents(prev => prev.map(e => (e.id === eventId ? updated : e)));
     } catch (error) {
-      console.error('Error saving bookings:', error);
+      console.error('Error refreshing event:', error);
     }
   };
 
+  // Drafts and events under review stay with their organizer until published
+  const listedEvents = events.filter(isEventListed);
+  // Built once per catalogue change so search as you type stays fast
+  const searchIndex = useMemo(() => createEventSearchIndex(events.filter(isEventListed)), [events]);
+
   const getEventById = (id: string): Event | undefined => {
     return events.find(event => event.id === id);
   };
@@ -217,116 +190,191 @@ export function EventProvider({ children }: { children: React.ReactNode }) {
     return bookings.find(booking => booking.id === id);
   };
 
-  const bookEvent = async (eventId: string, ticketCount: number): Promise<Booking> => {
-    const event = getEventById(eventId);
-    if (!event) throw new Error('Event not found');
-
-    const booking: Booking = {
-      id: Date.now().toString(),
-      eventId,
-      userId: 'current-user-id',
-      ticketCount,
-      totalPrice: event.price * ticketCount,
-      bookingDate: new Date().toISOString(),
-      status: 'confirmed',
-      qrCode: `MI3AD-${Date.now()}-${eventId}`,
-    };
+  // Events are created under the signed-in business account
+  const createEvent = async (details: Partial<EventDetails>): Promise<Event> => {
+    const created = await repository.createEvent({
+      ...details,
+      organizerId: user?.id || '',
+      organizer: user?.name || '',
+      organizerAr: user?.name || '',
+    });
+    setEvents(prev => [...prev, created]);
+    return created;
+  };
 
-    const updatedBookings = [...bookings, booking];
-    setBookings(updatedBookings);
-    await saveBookingsToStorage(updatedBookings);
-    
-    // Update event attendance
-    setEvents(prev => 
-      prev.map(e => 
-        e.id === eventId 
-          ? { ...e, currentAttendees: e.currentAttendees + ticketCount }
-          : e
-      )
-    );
+  const updateEvent = async (eventId: string, changes: Partial<EventDetails>): Promise<Event> => {
+    const updated = await repository.updateEvent(eventId, { organizerId: user?.id || '', changes });
+    setEvents(prev => prev.map(e => (e.id === eventId ? updated : e)));
+    return updated;
+  };
 
-    return booking;
+  const deleteEvent = async (eventId: string): Promise<void> => {
+    await repository.deleteEvent(eventId, user?.id || '');
+    setEvents(prev => prev.filter(e => e.id !== eventId));
+  };
+
+  const setEventStatus = async (eventId: string, status: EventStatusInput['status']): Promise<Event> => {
+    const updated = await repository.setEventStatus(eventId, { organizerId: user?.id || '', status });
+    setEvents(prev => prev.map(e => (e.id === eventId ? updated : e)));
+
+    if (status === 'cancelled') {
+      // The events API cancels and refunds the bookings along with the event
+      await refreshBookings();
+    }
+    return updated;
+  };
+
+  const reviewEvent = async (
+    eventId: string,
+    decision: 'approved' | 'rejected',
+    reasons: EventRejectionReason[] = [],
+    note?: string
+  ): Promise<Event> => {
+    const updated = await repository.reviewEvent(eventId, { reviewerId: user?.id || '', decision, reasons, note });
+    setEvents(prev => prev.map(e => (e.id === eventId ? updated : e)));
+    return updated;
+  };
+
+  const holdSeats = (eventId: string, items: TicketSelection[], sessionId?: string): Promise<SeatHold> => {
+    return repository.holdSeats({ eventId, sessionId, userId: user?.id || 'guest', items });
+  };
+
+  const releaseHold = async (holdId: string): Promise<void> => {
+    try {
+      await repository.releaseHold(holdId, user?.id || 'guest');
+    } catch (error) {
+      // Unreleased holds expire on their own
+      console.error('Error releasing seat hold:', error);
+    }
+  };
+
+  const quotePrice = (
+    eventId: string,
+    items: TicketSelection[],
+    promoCode?: string,
+    sessionId?: string
+  ): Promise<PriceQuote> => {
+    return repository.priceBooking({ eventId, sessionId, userId: user?.id || 'guest', items, promoCode });
+  };
+
+  const bookEvent = async (
+    eventId: string,
+    items: TicketSelection[],
+    paymentMethod: PaymentMethod,
+    { sessionId, holdId, paymentSource, promoCode, attendees }: BookEventOptions = {}
+  ): Promise<Booking> => {
+    let reserved: Booking;
+    try {
+      reserved = await repository.bookEvent({
+        eventId,
+        sessionId,
+        userId: user?.id || 'guest',
+        items,
+        paymentMethod,
+        holdId,
+        promoCode,
+        attendees,
+      });
+    } catch (error) {
+      // Someone else may have taken the seats, so show the latest availability
+      await refreshEvent(eventId);
+      throw error;
+    }
+
+    try {
+      // The events API charges the booking, so only it can confirm it
+      const booking = await repository.payForBooking(reserved.id, { userId: user?.id || '', source: paymentSource });
+      replaceBooking(booking);
+      return booking;
+    } finally {
+      // A failed payment releases the seats, so the event is refreshed either way
+      await refreshEvent(eventId);
+      await refreshBookings();
+    }
   };
 
   const cancelBooking = async (bookingId: string): Promise<void> => {
-    const booking = getBookingById(bookingId);
-    if (!booking) throw new Error('Booking not found');
+    // The events API applies the event's cancellation policy and gives the money back
+    const booking = await repository.cancelBooking(bookingId, user?.id || '');
+    replaceBooking(booking);
+    await refreshEvent(booking.eventId);
+  };
 
-    const updatedBookings = bookings.map(b => 
-      b.id === bookingId ? { ...b, status: 'cancelled' as const } : b
-    );
-    setBookings(updatedBookings);
-    await saveBookingsToStorage(updatedBookings);
-
-    // Update event attendance
-    setEvents(prev => 
-      prev.map(e => 
-        e.id === booking.eventId 
-          ? { ...e, currentAttendees: Math.max(0, e.currentAttendees - booking.ticketCount) }
-          : e
-      )
-    );
+  const transferTicket = async (bookingId: string, attendeeId: string, recipient: TicketRecipient): Promise<Booking> => {
+    const booking = await repository.transferTicket({
+      bookingId,
+      attendeeId,
+      fromUserId: user?.id || 'guest',
+      toUserId: recipient.userId,
+      name: recipient.name,
+      phone: recipient.phone,
+    });
+    replaceBooking(booking);
+    return booking;
   };
 
-  const markTicketAsUsed = async (bookingId: string): Promise<void> => {
-    const updatedBookings = bookings.map(b => 
-      b.id === bookingId ? { ...b, status: 'used' as const } : b
-    );
-    setBookings(updatedBookings);
-    await saveBookingsToStorage(updatedBookings);
+  const markTicketAsUsed = async (bookingId: string, count?: number, attendeeId?: string): Promise<void> => {
+    const booking = await repository.markTicketAsUsed(bookingId, { organizerId: user?.id || '', count, attendeeId });
+    replaceBooking(booking);
+  };
+
+  // Passes are signed by the events API for the ticket's holder
+  const createApplePass = (bookingId: string, attendeeId?: string): Promise<string> => {
+    return repository.createApplePass({ bookingId, attendeeId, userId: user?.id || '' });
+  };
+
+  const createGoogleWalletLink = (bookingId: string, attendeeId?: string): Promise<string> => {
+    return repository.createGoogleWalletLink({ bookingId, attendeeId, userId: user?.id || '' });
+  };
+
+  const refreshBookings = async (): Promise<void> => {
+    try {
+      setBookings(await listScopedBookings());
+    } catch (error) {
+      console.error('Error refreshing bookings:', error);
+    }
   };
 
   const searchEvents = (query: string): Event[] => {
-    const lowercaseQuery = query.toLowerCase();
-    return events.filter(event => 
-      event.title.toLowerCase().includes(lowercaseQuery) ||
-      event.titleAr.includes(query) ||
-      event.description.toLowerCase().includes(lowercaseQuery) ||
-      event.descriptionAr.includes(query) ||
-      event.location.toLowerCase().includes(lowercaseQuery) ||
-      event.locationAr.includes(query)
-    );
+    return searchIndex.search(query);
   };
 
   const getEventsByCategory = (category: Event['category']): Event[] => {
-    return events.filter(event => event.category === category);
+    return listedEvents.filter(event => event.category === category);
   };
 
   const getFeaturedEvents = (): Event[] => {
-    return events.filter(event => event.isFeatured);
+    return listedEvents.filter(event => event.isFeatured);
   };
 
   const getNearbyEvents = (latitude: number, longitude: number, radius: number): Event[] => {
-    return events.filter(event => {
-      if (!event.latitude || !event.longitude) return false;
-      
-      const distance = getDistance(latitude, longitude, event.latitude, event.longitude);
-      return distance <= radius;
-    });
-  };
-
-  // Helper function to calculate distance between two coordinates
-  const getDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371; // Radius of the Earth in kilometers
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-      Math.sin(dLon/2) * Math.sin(dLon/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
+    return listedEvents.filter(
+      event => hasCoordinates(event) && getDistance({ latitude, longitude }, event) <= radius
+    );
   };
 
   const value: EventContextType = {
-    events,
+    events: listedEvents,
+    allEvents: events,
     bookings,
     isLoading,
     getEventById,
     getBookingById,
+    createEvent,
+    updateEvent,
+    deleteEvent,
+    setEventStatus,
+    reviewEvent,
+    holdSeats,
+    releaseHold,
+    quotePrice,
     bookEvent,
     cancelBooking,
+    transferTicket,
     markTicketAsUsed,
+    createApplePass,
+    createGoogleWalletLink,
+    refreshBookings,
     searchEvents,
     getEventsByCategory,
     getFeaturedEvents,
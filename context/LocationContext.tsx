@@ -0,0 +1,161 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Location from 'expo-location';
+import { useSecurity } from '@/context/SecurityContext';
+import { Coordinates, getCity, getDistance, hasCoordinates } from '@/utils/geo';
+
+export interface UserLocation extends Coordinates {
+  source: 'device' | 'city';
+  cityId?: string; // set when the user picked a city
+}
+
+/**
+ * Outcome of the last attempt to read the device location
+ */
+export type LocationStatus = 'idle' | 'locating' | 'ready' | 'disabled' | 'denied' | 'unavailable';
+
+interface LocationContextType {
+  location: UserLocation | null; // the device location, or the city the user picked
+  status: LocationStatus;
+  /**
+   * Ask for the device location. Does nothing while location tracking is off in the privacy settings.
+   */
+  requestLocation: () => Promise<UserLocation | null>;
+  setCity: (cityId: string) => Promise<void>;
+  /**
+   * Kilometres from the user to a place, or null when either is unknown
+   */
+  getDistanceTo: (place: Partial<Coordinates>) => number | null;
+}
+
+const LocationContext = createContext<LocationContextType | undefined>(undefined);
+
+const toCityLocation = (cityId: string | null): UserLocation | null => {
+  const city = cityId ? getCity(cityId) : undefined;
+  return city ? { latitude: city.latitude, longitude: city.longitude, source: 'city', cityId: city.id } : null;
+};
+
+export function LocationProvider({ children }: { children: React.ReactNode }) {
+  const { securitySettings } = useSecurity();
+  const allowLocationTracking = securitySettings.privacy.allowLocationTracking;
+  const [location, setLocation] = useState<UserLocation | null>(null);
+  const [status, setStatus] = useState<LocationStatus>('idle');
+  const [cityId, setCityId] = useState<string | null>(null);
+  const [isCityLoaded, setIsCityLoaded] = useState(false);
+
+  useEffect(() => {
+    loadCity();
+  }, []);
+
+  // The device position is only kept while tracking is allowed, and only read
+  // without asking when permission was already given and no city was picked
+  useEffect(() => {
+    if (!allowLocationTracking) {
+      setStatus('disabled');
+      setLocation(toCityLocation(cityId));
+      return;
+    }
+    if (status === 'disabled') setStatus('idle');
+    if (!isCityLoaded || cityId || status === 'ready') return;
+
+    Location.getForegroundPermissionsAsync()
+      .then(permission => {
+        if (permission.granted) readDeviceLocation();
+      })
+      .catch(error => console.error('Error checking location permission:', error));
+  }, [allowLocationTracking, cityId, isCityLoaded]);
+
+  const loadCity = async () => {
+    try {
+      const storedCity = await AsyncStorage.getItem('locationCity');
+      if (storedCity && getCity(storedCity)) {
+        setCityId(storedCity);
+        setLocation(toCityLocation(storedCity));
+      }
+    } catch (error) {
+      console.error('Error loading location city:', error);
+    } finally {
+      setIsCityLoaded(true);
+    }
+  };
+
+  const readDeviceLocation = async (): Promise<UserLocation | null> => {
+    try {
+      setStatus('locating');
+      const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+      const deviceLocation: UserLocation = {
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        source: 'device',
+      };
+      setLocation(deviceLocation);
+      setStatus('ready');
+      return deviceLocation;
+    } catch (error) {
+      console.error('Error reading device location:', error);
+      setStatus('unavailable');
+      return null;
+    }
+  };
+
+  const requestLocation = async (): Promise<UserLocation | null> => {
+    if (!allowLocationTracking) {
+      setStatus('disabled');
+      return null;
+    }
+
+    try {
+      const permission = await Location.requestForegroundPermissionsAsync();
+      if (!permission.granted) {
+        setStatus('denied');
+        return null;
+      }
+    } catch (error) {
+      console.error('Error requesting location permission:', error);
+      setStatus('unavailable');
+      return null;
+    }
+
+    const deviceLocation = await readDeviceLocation();
+    if (deviceLocation) {
+      // Asking for the device location replaces a city picked earlier
+      setCityId(null);
+      await AsyncStorage.removeItem('locationCity');
+    }
+    return deviceLocation;
+  };
+
+  const setCity = async (newCityId: string) => {
+    const cityLocation = toCityLocation(newCityId);
+    if (!cityLocation) return;
+
+    setCityId(newCityId);
+    setLocation(cityLocation);
+    try {
+      await AsyncStorage.setItem('locationCity', newCityId);
+    } catch (error) {
+      console.error('Error saving location city:', error);
+    }
+  };
+
+  const getDistanceTo = (place: Partial<Coordinates>): number | null =>
+    location && hasCoordinates(place) ? getDistance(location, place) : null;
+
+  const value: LocationContextType = {
+    location,
+    status,
+    requestLocation,
+    setCity,
+    getDistanceTo,
+  };
+
+  return <LocationContext.Provider value={value}>{children}</LocationContext.Provider>;
+}
+
+export function useLocation() {
+  const context = useContext(LocationContext);
+  if (context === undefined) {
+    throw new Error('useLocation must be used within a LocationProvider');
+  }
+  return context;
+}
@@ -3,7 +3,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 
 export interface Notification {
   id: string;
-  type: 'event_reminder' | 'message' | 'like' | 'comment' | 'booking_confirmed' | 'system';
+  type: 'event_reminder' | 'message' | 'like' | 'comment' | 'booking_confirmed' | 'check_in_conflict' | 'waitlist_offer' | 'system';
   title: string;
   message: string;
   data?: any;
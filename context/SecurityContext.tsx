@@ -506,7 +506,7 @@ export function SecurityProvider({ children }: { children: React.ReactNode }) {
       await AsyncStorage.clear();
       
       // Clear SecureStore
-      const secureKeys = ['securitySettings', 'auditLogs'];
+      const secureKeys = ['securitySettings', 'auditLogs', 'session', 'accounts'];
       for (const key of secureKeys) {
         try {
           await deleteSecureData(key);
@@ -0,0 +1,156 @@
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAuth } from '@/context/AuthContext';
+import { useEvents } from '@/context/EventContext';
+import { useNotifications } from '@/context/NotificationContext';
+import { AuthError } from '@/services/accounts';
+import { getEventRepository } from '@/services/createEventRepository';
+import { WaitlistEntry } from '@/services/waitlist';
+import { TicketSelection } from '@/utils/ticketTiers';
+
+interface WaitlistContextType {
+  entries: WaitlistEntry[];
+  /**
+   * The user's open entry (waiting or offered) for an event, or one of its sessions
+   */
+  getEntryForEvent: (eventId: string, sessionId?: string) => WaitlistEntry | undefined;
+  joinWaitlist: (eventId: string, items: TicketSelection[], sessionId?: string) => Promise<WaitlistEntry>;
+  leaveWaitlist: (entryId: string) => Promise<void>;
+  refreshWaitlist: () => Promise<void>;
+}
+
+const WaitlistContext = createContext<WaitlistContextType | undefined>(undefined);
+
+const REFRESH_INTERVAL = 30000; // 30 seconds
+
+export function WaitlistProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const { getEventById } = useEvents();
+  const { addNotification } = useNotifications();
+  const repository = getEventRepository();
+
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+
+  // Offers the user was already told about, so each one is only announced once
+  const notifiedOffersRef = useRef<Set<string>>(new Set());
+  const refreshRef = useRef<() => Promise<void>>(async () => {});
+
+  useEffect(() => {
+    loadNotifiedOffers();
+
+    const interval = setInterval(() => {
+      refreshRef.current();
+    }, REFRESH_INTERVAL);
+
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        refreshRef.current();
+      }
+    });
+
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, []);
+
+  useEffect(() => {
+    refreshWaitlist();
+  }, [user?.id]);
+
+  const loadNotifiedOffers = async () => {
+    try {
+      const stored = await AsyncStorage.getItem('waitlistNotifiedOffers');
+      if (stored) {
+        notifiedOffersRef.current = new Set(JSON.parse(stored));
+      }
+    } catch (error) {
+      console.error('Error loading waitlist offers:', error);
+    }
+  };
+
+  const notifyOffers = async (updated: WaitlistEntry[]) => {
+    const newOffers = updated.filter(
+      entry => entry.status === 'offered' && entry.offer && !notifiedOffersRef.current.has(entry.offer.id)
+    );
+    if (newOffers.length === 0) return;
+
+    for (const entry of newOffers) {
+      notifiedOffersRef.current.add(entry.offer!.id);
+      const event = getEventById(entry.eventId);
+      await addNotification({
+        type: 'waitlist_offer',
+        title: 'توفرت مقاعد لك 🎟️',
+        message: `تم حجز ${entry.ticketCount} مقعد لك في ${event ? event.titleAr : 'الفعالية'} من قائمة الانتظار. أكمل الحجز قبل ${new Date(entry.offer!.expiresAt).toLocaleTimeString('ar-LY')} وإلا ستنتقل المقاعد للشخص التالي`,
+        data: { entryId: entry.id, eventId: entry.eventId },
+        actionUrl: `/booking/${entry.eventId}${entry.sessionId ? `?sessionId=${encodeURIComponent(entry.sessionId)}` : ''}`,
+        imageUrl: event?.image,
+      });
+    }
+
+    try {
+      await AsyncStorage.setItem('waitlistNotifiedOffers', JSON.stringify(Array.from(notifiedOffersRef.current)));
+    } catch (error) {
+      console.error('Error saving waitlist offers:', error);
+    }
+  };
+
+  const refreshWaitlist = async (): Promise<void> => {
+    if (!user) {
+      setEntries([]);
+      return;
+    }
+    try {
+      const updated = await repository.listWaitlist({ userId: user.id });
+      setEntries(updated);
+      await notifyOffers(updated);
+    } catch (error) {
+      console.error('Error refreshing waitlist:', error);
+    }
+  };
+
+  refreshRef.current = refreshWaitlist;
+
+  const getEntryForEvent = (eventId: string, sessionId?: string): WaitlistEntry | undefined => {
+    return entries.find(
+      entry =>
+        entry.eventId === eventId &&
+        entry.sessionId === sessionId &&
+        (entry.status === 'waiting' || entry.status === 'offered')
+    );
+  };
+
+  // Offers are held for one account, so signed-out users cannot queue
+  const joinWaitlist = async (eventId: string, items: TicketSelection[], sessionId?: string): Promise<WaitlistEntry> => {
+    if (!user) {
+      throw new AuthError('signed_out', 'Sign in to join the waitlist');
+    }
+    const entry = await repository.joinWaitlist({ eventId, sessionId, userId: user.id, items });
+    await refreshWaitlist();
+    return entry;
+  };
+
+  const leaveWaitlist = async (entryId: string): Promise<void> => {
+    await repository.leaveWaitlist(entryId, user?.id || '');
+    await refreshWaitlist();
+  };
+
+  const value: WaitlistContextType = {
+    entries,
+    getEntryForEvent,
+    joinWaitlist,
+    leaveWaitlist,
+    refreshWaitlist,
+  };
+
+  return <WaitlistContext.Provider value={value}>{children}</WaitlistContext.Provider>;
+}
+
+export function useWaitlist() {
+  const context = useContext(WaitlistContext);
+  if (context === undefined) {
+    throw new Error('useWaitlist must be used within a WaitlistProvider');
+  }
+  return context;
+}
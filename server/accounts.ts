@@ -0,0 +1,143 @@
+import forge from 'node-forge';
+import type { User } from '@/context/AuthContext';
+import { AccountStore, AuthError, AuthSession, normalizePhone } from '@/services/accounts';
+
+const ACCESS_TOKEN_TTL = 60 * 60 * 1000; // 1 hour
+const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
+const PASSWORD_ITERATIONS = 10000;
+
+interface StoredAccount {
+  user: User;
+  passwordHash: string;
+  salt: string;
+  createdAt: string;
+}
+
+interface IssuedToken {
+  userId: string;
+  expiresAt: number;
+}
+
+interface IssuedRefreshToken extends IssuedToken {
+  accessToken: string; // the access token issued along with it, revoked on sign out
+}
+
+const randomHex = (bytes: number): string => forge.util.bytesToHex(forge.random.getBytesSync(bytes));
+
+const hashPassword = (password: string, salt: string): string =>
+  forge.util.bytesToHex(forge.pkcs5.pbkdf2(forge.util.encodeUtf8(password), salt, PASSWORD_ITERATIONS, 32, 'sha256'));
+
+/**
+ * Account store that keeps accounts and the tokens issued for them in memory.
+ * Passwords are kept as salted PBKDF2 hashes; tokens are random and only valid where they were issued.
+ */
+export const createAccountStore = (now: () => number = Date.now): AccountStore => {
+  let accounts: StoredAccount[] = [];
+  const accessTokens = new Map<string, IssuedToken>();
+  const refreshTokens = new Map<string, IssuedRefreshToken>();
+
+  const findAccount = (userId: string): StoredAccount => {
+    const account = accounts.find(a => a.user.id === userId);
+    if (!account) throw new AuthError('unknown_phone', 'Account not found');
+    return account;
+  };
+
+  const issueSession = (userId: string): AuthSession => {
+    const issuedAt = now();
+    const token = randomHex(32);
+    const refreshToken = randomHex(48);
+    accessTokens.set(token, { userId, expiresAt: issuedAt + ACCESS_TOKEN_TTL });
+    refreshTokens.set(refreshToken, { userId, expiresAt: issuedAt + REFRESH_TOKEN_TTL, accessToken: token });
+    return {
+      userId,
+      token,
+      expiresAt: new Date(issuedAt + ACCESS_TOKEN_TTL).toISOString(),
+      refreshToken,
+      refreshExpiresAt: new Date(issuedAt + REFRESH_TOKEN_TTL).toISOString(),
+    };
+  };
+
+  return {
+    register: async ({ name, email, phone: rawPhone, password, accountType }) => {
+      const phone = normalizePhone(rawPhone || '');
+      if (!name || !name.trim() || !phone || !password || password.length < 6) {
+        throw new AuthError('invalid_input', 'Name, phone and a password of at least 6 characters are required');
+      }
+      if (accounts.some(account => account.user.phone === phone)) {
+        throw new AuthError('phone_taken', 'An account with this phone number already exists');
+      }
+
+      const salt = randomHex(16);
+      const user: User = {
+        id: randomHex(16),
+        name: name.trim(),
+        email: (email || '').trim(),
+        phone,
+        bio: '',
+        avatar: '',
+        accountType: accountType === 'business' ? 'business' : 'personal',
+      };
+      accounts = [...accounts, { user, passwordHash: hashPassword(password, salt), salt, createdAt: new Date(now()).toISOString() }];
+      return { user, session: issueSession(user.id) };
+    },
+
+    signIn: async (phone, password) => {
+      const account = accounts.find(a => a.user.phone === normalizePhone(phone || ''));
+      if (!account) {
+        throw new AuthError('unknown_phone', 'No account is registered with this phone number');
+      }
+      if (hashPassword(password || '', account.salt) !== account.passwordHash) {
+        throw new AuthError('wrong_password', 'The password is incorrect');
+      }
+      return { user: account.user, session: issueSession(account.user.id) };
+    },
+
+    refresh: async (refreshToken) => {
+      const issued = refreshTokens.get(refreshToken);
+      refreshTokens.delete(refreshToken);
+      if (!issued || issued.expiresAt <= now()) {
+        throw new AuthError('session_expired', 'The session has expired, please sign in again');
+      }
+      return issueSession(issued.userId);
+    },
+
+    signOut: async (refreshToken) => {
+      const issued = refreshTokens.get(refreshToken);
+      refreshTokens.delete(refreshToken);
+      if (issued) accessTokens.delete(issued.accessToken);
+    },
+
+    authenticate: async (token) => {
+      const issued = accessTokens.get(token);
+      if (!issued) return null;
+      if (issued.expiresAt <= now()) {
+        accessTokens.delete(token);
+        return null;
+      }
+      return issued.userId;
+    },
+
+    getAccount: async (userId) => findAccount(userId).user,
+
+    updateAccount: async (userId, changes) => {
+      const account = findAccount(userId);
+      const phone = changes.phone !== undefined ? normalizePhone(changes.phone) : account.user.phone;
+      if (!phone) {
+        throw new AuthError('invalid_input', 'A phone number is required');
+      }
+      if (accounts.some(a => a.user.id !== userId && a.user.phone === phone)) {
+        throw new AuthError('phone_taken', 'An account with this phone number already exists');
+      }
+
+      // The account type decides who may run events, so it is not changed along with the profile
+      const user: User = { ...account.user, ...changes, id: userId, phone, accountType: account.user.accountType };
+      accounts = accounts.map(a => (a.user.id === userId ? { ...a, user } : a));
+      return user;
+    },
+
+    findByPhone: async (phone) => {
+      const account = accounts.find(a => a.user.phone === normalizePhone(phone || ''));
+      return account ? { id: account.user.id, name: account.user.name, phone: account.user.phone } : null;
+    },
+  };
+};
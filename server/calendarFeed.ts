@@ -0,0 +1,41 @@
+import forge from 'node-forge';
+import { CalendarFeedSigner } from '@/utils/calendarFeed';
+
+/**
+ * Signer whose tokens are an HMAC of the user id under the server secret,
+ * so links cannot be made up for other accounts.
+ */
+export const createCalendarFeedSigner = (secret: string): CalendarFeedSigner => {
+  if (!secret) {
+    throw new Error('A calendar feed secret is required to sign feed links');
+  }
+
+  const sign = (userId: string): string => {
+    const hmac = forge.hmac.create();
+    hmac.start('sha256', secret);
+    hmac.update(forge.util.encodeUtf8(userId));
+    return hmac.digest().toHex();
+  };
+
+  return {
+    sign,
+    // Compares every character so timing does not give the token away
+    verify: (userId, token) => {
+      const expected = sign(userId);
+      if (token.length !== expected.length) return false;
+      let difference = 0;
+      for (let i = 0; i < expected.length; i++) {
+        difference |= expected.charCodeAt(i) ^ token.charCodeAt(i);
+      }
+      return difference === 0;
+    },
+  };
+};
+
+/**
+ * Signer for the secret in CALENDAR_FEED_SECRET, or null when feeds are not configured
+ */
+export const getCalendarFeedSignerFromEnv = (): CalendarFeedSigner | null => {
+  const secret = process.env.CALENDAR_FEED_SECRET;
+  return secret ? createCalendarFeedSigner(secret) : null;
+};
@@ -0,0 +1,371 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Event, Booking } from '@/context/EventContext';
+import { RepositoryError } from '@/services/eventRepository';
+import { createInMemoryEventRepository, InMemoryEventRepository } from '@/services/inMemoryEventRepository';
+import { mockEvents } from '@/services/mockEvents';
+import { mockPromoCodes } from '@/services/mockPromoCodes';
+import { PromoCode } from '@/utils/pricing';
+import { TicketIssuer } from '@/utils/ticketSigning';
+import { getTicketIssuerFromEnv } from '@/server/ticketIssuer';
+import { getApplePassConfigFromEnv, getGoogleWalletAccountFromEnv } from '@/server/walletPasses';
+import { ApplePassConfig } from '@/utils/appleWalletPass';
+import { GoogleWalletAccount } from '@/utils/googleWalletPass';
+import { CalendarFeedSigner } from '@/utils/calendarFeed';
+import { getCalendarFeedSignerFromEnv } from '@/server/calendarFeed';
+import { createBookingsFeed } from '@/utils/icalendar';
+import { AccountStore, AuthError } from '@/services/accounts';
+import { createAccountStore } from '@/server/accounts';
+import { PaymentError, PaymentProvider } from '@/services/paymentProvider';
+import { getPaymentProviderFromEnv } from '@/server/paymentProvider';
+
+export interface MockEventServerOptions {
+  port?: number;
+  host?: string; // only this machine can connect when unset
+  events?: Event[];
+  bookings?: Booking[];
+  promoCodes?: PromoCode[];
+  ticketIssuer?: TicketIssuer; // read from TICKET_SIGNING_SECRET when unset
+  applePass?: ApplePassConfig; // read from the PASS_* variables when unset
+  googleWallet?: GoogleWalletAccount; // read from the GOOGLE_WALLET_* variables when unset
+  calendarFeed?: CalendarFeedSigner; // read from CALENDAR_FEED_SECRET when unset
+  moderatorIds?: string[]; // read from MODERATOR_IDS, comma separated, when unset
+  accounts?: AccountStore; // a new, empty store when unset
+  paymentProvider?: PaymentProvider; // read from PAYMENT_PROVIDER when unset
+}
+
+export interface MockEventServer {
+  url: string;
+  repository: InMemoryEventRepository;
+  close: () => Promise<void>;
+}
+
+const statusForError = (error: unknown): number => {
+  if (error instanceof PaymentError) return 402;
+  if (error instanceof AuthError) {
+    switch (error.code) {
+      case 'invalid_input':
+        return 400;
+      case 'unknown_phone':
+        return 404;
+      case 'phone_taken':
+        return 409;
+      default:
+        return 401;
+    }
+  }
+  if (!(error instanceof RepositoryError)) return 500;
+  switch (error.code) {
+    case 'not_found':
+      return 404;
+    case 'invalid_request':
+      return 400;
+    case 'sold_out':
+      return 409;
+    default:
+      return 500;
+  }
+};
+
+interface RouteResult {
+  status: number;
+  body: unknown;
+  contentType?: string; // JSON when unset; other bodies are sent as given
+}
+
+const readBody = (req: http.IncomingMessage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch (error) {
+        reject(new RepositoryError('invalid_request', 'Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+// Moderator accounts are configured on the server, never in the app
+const getModeratorIdsFromEnv = (): string[] =>
+  (process.env.MODERATOR_IDS || '').split(',').map(id => id.trim()).filter(Boolean);
+
+/**
+ * Local stand-in for the events API, for tests and offline development.
+ * Serves the routes used by the REST repository on top of an in-memory repository.
+ */
+export const startMockEventServer = (options: MockEventServerOptions = {}): Promise<MockEventServer> => {
+  const calendarFeed = options.calendarFeed || getCalendarFeedSignerFromEnv() || undefined;
+  const accounts = options.accounts || createAccountStore();
+  const repository = createInMemoryEventRepository(
+    {
+      events: options.events || mockEvents,
+      bookings: options.bookings,
+      promoCodes: options.promoCodes || mockPromoCodes,
+    },
+    {
+      ticketIssuer: options.ticketIssuer || getTicketIssuerFromEnv(),
+      applePass: options.applePass || getApplePassConfigFromEnv() || undefined,
+      googleWallet: options.googleWallet || getGoogleWalletAccountFromEnv() || undefined,
+      calendarFeed,
+      moderatorIds: options.moderatorIds || getModeratorIdsFromEnv(),
+      accounts,
+      paymentProvider: options.paymentProvider || getPaymentProviderFromEnv(),
+    }
+  );
+
+  const getBearerToken = (req: http.IncomingMessage): string | null => {
+    const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+    return match ? match[1] : null;
+  };
+
+  // Account the request was sent from; a token that is no longer valid counts as signed out here
+  const getCaller = async (req: http.IncomingMessage): Promise<string | null> => {
+    const token = getBearerToken(req);
+    return token ? accounts.authenticate(token) : null;
+  };
+
+  const requireCaller = async (req: http.IncomingMessage): Promise<string> => {
+    const caller = await getCaller(req);
+    if (caller) return caller;
+    throw getBearerToken(req)
+      ? new AuthError('session_expired', 'The session has expired, please sign in again')
+      : new AuthError('signed_out', 'Sign in to continue');
+  };
+
+  const route = async (req: http.IncomingMessage): Promise<RouteResult> => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    const method = req.method || 'GET';
+    // Ids in queries and bodies that say who is asking are taken from the session, never from the client
+    const asCaller = async (requested: string | null): Promise<string | undefined> =>
+      requested ? requireCaller(req) : undefined;
+
+    if (parts[0] === 'auth' && method === 'POST' && parts.length === 2) {
+      const body = await readBody(req);
+      switch (parts[1]) {
+        case 'register':
+          return { status: 201, body: await repository.registerAccount(body) };
+        case 'sessions':
+          return { status: 201, body: await repository.signIn(body.phone, body.password) };
+        case 'refresh':
+          return { status: 200, body: await repository.refreshSession(body.refreshToken) };
+        case 'sign-out':
+          await repository.signOut(body.refreshToken);
+          return { status: 200, body: null };
+      }
+    }
+
+    // Signed-in users can look up who a phone number belongs to, to transfer tickets to them
+    if (parts[0] === 'accounts' && parts.length === 1 && method === 'GET') {
+      await requireCaller(req);
+      const account = await repository.findAccountByPhone(url.searchParams.get('phone') || '');
+      return { status: 200, body: account ? [account] : [] };
+    }
+
+    // Accounts are only shown to and changed by their owner
+    if (parts[0] === 'accounts' && parts.length === 2) {
+      const caller = await requireCaller(req);
+      if (parts[1] !== caller) throw new RepositoryError('not_found', 'Account not found');
+      if (method === 'GET') {
+        return { status: 200, body: await repository.getAccount(caller) };
+      }
+      if (method === 'PATCH') {
+        const body = await readBody(req);
+        return { status: 200, body: await repository.updateAccount(caller, body) };
+      }
+    }
+
+    if (parts[0] === 'events') {
+      if (method === 'GET' && parts.length === 1) {
+        const query = url.searchParams.get('q');
+        const events = query
+          ? await repository.searchEvents(query)
+          : await repository.listEvents({
+              organizerId: await asCaller(url.searchParams.get('organizerId')),
+              reviewerId: await asCaller(url.searchParams.get('reviewerId')),
+            });
+        return { status: 200, body: events };
+      }
+      if (method === 'POST' && parts.length === 1) {
+        const body = await readBody(req);
+        return { status: 201, body: await repository.createEvent({ ...body, organizerId: await requireCaller(req) }) };
+      }
+      if (method === 'GET' && parts.length === 2) {
+        return { status: 200, body: await repository.getEvent(parts[1]) };
+      }
+      if (method === 'PATCH' && parts.length === 2) {
+        const body = await readBody(req);
+        return { status: 200, body: await repository.updateEvent(parts[1], { ...body, organizerId: await requireCaller(req) }) };
+      }
+      if (method === 'POST' && parts.length === 3 && parts[2] === 'status') {
+        const body = await readBody(req);
+        return { status: 200, body: await repository.setEventStatus(parts[1], { ...body, organizerId: await requireCaller(req) }) };
+      }
+      if (method === 'POST' && parts.length === 3 && parts[2] === 'review') {
+        const body = await readBody(req);
+        return { status: 200, body: await repository.reviewEvent(parts[1], { ...body, reviewerId: await requireCaller(req) }) };
+      }
+      if (method === 'DELETE' && parts.length === 2) {
+        await repository.deleteEvent(parts[1], await requireCaller(req));
+        return { status: 200, body: null };
+      }
+    }
+
+    if (parts[0] === 'holds') {
+      if (method === 'POST' && parts.length === 1) {
+        const body = await readBody(req);
+        return { status: 201, body: await repository.holdSeats({ ...body, userId: await requireCaller(req) }) };
+      }
+      if (method === 'DELETE' && parts.length === 2) {
+        await repository.releaseHold(parts[1], await requireCaller(req));
+        return { status: 200, body: null };
+      }
+    }
+
+    if (parts[0] === 'pricing' && parts[1] === 'quote' && method === 'POST') {
+      const body = await readBody(req);
+      // Anyone can price tickets; promo codes limited per account are checked for the signed-in one
+      return { status: 200, body: await repository.priceBooking({ ...body, userId: (await getCaller(req)) || 'guest' }) };
+    }
+
+    if (parts[0] === 'bookings') {
+      if (method === 'GET' && parts.length === 1) {
+        const userId = await asCaller(url.searchParams.get('userId'));
+        const organizerId = await asCaller(url.searchParams.get('organizerId'));
+        return { status: 200, body: await repository.listBookings({ userId, organizerId }) };
+      }
+      if (method === 'POST' && parts.length === 1) {
+        const body = await readBody(req);
+        return { status: 201, body: await repository.bookEvent({ ...body, userId: await requireCaller(req) }) };
+      }
+      if (method === 'POST' && parts.length === 3 && parts[2] === 'payment') {
+        const body = await readBody(req);
+        return {
+          status: 200,
+          body: await repository.payForBooking(parts[1], { source: body.source, userId: await requireCaller(req) }),
+        };
+      }
+      if (method === 'POST' && parts.length === 3 && parts[2] === 'cancel') {
+        return { status: 200, body: await repository.cancelBooking(parts[1], await requireCaller(req)) };
+      }
+      if (method === 'POST' && parts.length === 5 && parts[2] === 'attendees' && parts[4] === 'transfer') {
+        const body = await readBody(req);
+        return {
+          status: 200,
+          body: await repository.transferTicket({
+            ...body,
+            bookingId: parts[1],
+            attendeeId: parts[3],
+            fromUserId: await requireCaller(req),
+          }),
+        };
+      }
+      if (method === 'POST' && parts.length === 4 && parts[2] === 'wallet' && parts[3] === 'apple') {
+        const body = await readBody(req);
+        const pkpass = await repository.createApplePass({ ...body, bookingId: parts[1], userId: await requireCaller(req) });
+        return { status: 200, body: { pkpass } };
+      }
+      if (method === 'POST' && parts.length === 4 && parts[2] === 'wallet' && parts[3] === 'google') {
+        const body = await readBody(req);
+        return {
+          status: 200,
+          body: {
+            saveUrl: await repository.createGoogleWalletLink({ ...body, bookingId: parts[1], userId: await requireCaller(req) }),
+          },
+        };
+      }
+      if (method === 'POST' && parts.length === 3 && parts[2] === 'use') {
+        const body = await readBody(req);
+        return {
+          status: 200,
+          body: await repository.markTicketAsUsed(parts[1], {
+            count: body.count,
+            attendeeId: body.attendeeId,
+            organizerId: await requireCaller(req),
+          }),
+        };
+      }
+    }
+
+    if (parts[0] === 'moderators' && parts.length === 2 && method === 'GET') {
+      return { status: 200, body: { isModerator: await repository.isModerator(parts[1]) } };
+    }
+
+    if (parts[0] === 'waitlist') {
+      if (method === 'GET' && parts.length === 1) {
+        // Entries name who is waiting, so each account only sees its own
+        const eventId = url.searchParams.get('eventId') || undefined;
+        return { status: 200, body: await repository.listWaitlist({ eventId, userId: await requireCaller(req) }) };
+      }
+      if (method === 'POST' && parts.length === 1) {
+        const body = await readBody(req);
+        return { status: 201, body: await repository.joinWaitlist({ ...body, userId: await requireCaller(req) }) };
+      }
+      if (method === 'DELETE' && parts.length === 2) {
+        return { status: 200, body: await repository.leaveWaitlist(parts[1], await requireCaller(req)) };
+      }
+    }
+
+    // Calendar apps subscribe with a link and cannot sign in, so the token stands in for the user
+    if (parts[0] === 'calendar' && parts.length === 2 && parts[1].endsWith('.ics') && method === 'GET') {
+      const userId = parts[1].slice(0, -'.ics'.length);
+      if (!userId || !calendarFeed?.verify(userId, url.searchParams.get('token') || '')) {
+        throw new RepositoryError('not_found', 'Calendar feed not found');
+      }
+      const bookings = await repository.listBookings({ userId });
+      const entries = await Promise.all(
+        bookings.map(async booking => ({ booking, event: await repository.getEvent(booking.eventId) }))
+      );
+      return { status: 200, body: createBookingsFeed(entries), contentType: 'text/calendar; charset=utf-8' };
+    }
+
+    if (parts[0] === 'calendar-feeds' && parts.length === 2 && method === 'GET') {
+      const caller = await requireCaller(req);
+      if (parts[1] !== caller) throw new RepositoryError('not_found', 'Calendar feed not found');
+      return { status: 200, body: { path: await repository.getCalendarFeedPath(caller) } };
+    }
+
+    if (parts[0] === 'check-ins' && parts[1] === 'sync' && method === 'POST') {
+      const body = await readBody(req);
+      return { status: 200, body: await repository.syncCheckIns({ ...body, organizerId: await requireCaller(req) }) };
+    }
+
+    throw new RepositoryError('not_found', `No route for ${method} ${url.pathname}`);
+  };
+
+  const server = http.createServer(async (req, res) => {
+    let status: number;
+    let body: unknown;
+    let contentType: string | undefined;
+    try {
+      ({ status, body, contentType } = await route(req));
+    } catch (error) {
+      status = statusForError(error);
+      body = {
+        error: {
+          code: error instanceof RepositoryError || error instanceof AuthError || error instanceof PaymentError
+            ? error.code
+            : 'server',
+          message: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+    res.writeHead(status, { 'Content-Type': contentType || 'application/json' });
+    res.end(contentType ? String(body) : JSON.stringify(body));
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    const host = options.host || '127.0.0.1';
+    server.listen(options.port || 0, host, () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://${host === '0.0.0.0' ? '127.0.0.1' : host}:${port}`,
+        repository,
+        close: () => new Promise<void>((done, fail) => server.close(error => (error ? fail(error) : done()))),
+      });
+    });
+  });
+};
@@ -0,0 +1,19 @@
+import { PaymentProvider } from '@/services/paymentProvider';
+import { createSandboxPaymentProvider } from '@/services/sandboxPaymentProvider';
+
+/**
+ * Create the payment provider selected by PAYMENT_PROVIDER.
+ * Only the sandbox gateway is available for now. Payments and refunds are only made
+ * by the events API, so the gateway's credentials never ship with the app.
+ */
+export const getPaymentProviderFromEnv = (
+  name: string | undefined = process.env.PAYMENT_PROVIDER
+): PaymentProvider => {
+  switch (name) {
+    case undefined:
+    case 'sandbox':
+      return createSandboxPaymentProvider();
+    default:
+      throw new Error(`Unknown payment provider: ${name}`);
+  }
+};
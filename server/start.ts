@@ -0,0 +1,28 @@
+import { startMockEventServer } from '@/server/mockEventServer';
+
+// The port the app looks for in development (see services/createEventRepository.ts)
+const DEFAULT_PORT = 4000;
+
+// Secrets the environment leaves unset get these, so bookings and feed links work out of the box.
+// They stay on the development machine and are never bundled with the app.
+const DEVELOPMENT_SECRETS: Record<string, string> = {
+  TICKET_SIGNING_SECRET: 'mi3ad-development-tickets',
+  CALENDAR_FEED_SECRET: 'mi3ad-development-calendar-feed',
+};
+
+Object.keys(DEVELOPMENT_SECRETS).forEach(name => {
+  if (!process.env[name]) {
+    console.warn(`${name} is not set, using a development secret`);
+    process.env[name] = DEVELOPMENT_SECRETS[name];
+  }
+});
+
+/**
+ * Serve the mock events API to phones and simulators on the local network: `npm run server`
+ */
+startMockEventServer({ port: Number(process.env.PORT) || DEFAULT_PORT, host: process.env.HOST || '0.0.0.0' })
+  .then(server => console.log(`Mock events API listening on ${server.url}`))
+  .catch(error => {
+    console.error('Error starting the mock events API:', error);
+    process.exit(1);
+  });
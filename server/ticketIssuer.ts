@@ -0,0 +1,46 @@
+import forge from 'node-forge';
+import { TicketIssuer, signTicket } from '@/utils/ticketSigning';
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Issuer with one ed25519 key pair per organizer, each derived from the server secret
+ * and the organizer's key id, so keys survive restarts without being stored.
+ */
+export const createTicketIssuer = (secret: string): TicketIssuer => {
+  if (!secret) {
+    throw new Error('A ticket signing secret is required to issue tickets');
+  }
+  const keyPairs = new Map<string, { publicKey: Uint8Array; privateKey: Uint8Array }>();
+
+  const getKeyPair = (keyId: string) => {
+    let keyPair = keyPairs.get(keyId);
+    if (!keyPair) {
+      const hmac = forge.hmac.create();
+      hmac.start('sha256', secret);
+      hmac.update(forge.util.encodeUtf8(keyId));
+      const generated = forge.pki.ed25519.generateKeyPair({ seed: hmac.digest().getBytes() });
+      keyPair = { publicKey: new Uint8Array(generated.publicKey), privateKey: new Uint8Array(generated.privateKey) };
+      keyPairs.set(keyId, keyPair);
+    }
+    return keyPair;
+  };
+
+  return {
+    getPublicKey: (keyId) => toHex(getKeyPair(keyId).publicKey),
+    sign: (keyId, payload) => signTicket(payload, getKeyPair(keyId).privateKey),
+  };
+};
+
+/**
+ * Issuer for the secret in TICKET_SIGNING_SECRET. The secret is never bundled with the app,
+ * and nothing is signed without it.
+ */
+export const getTicketIssuerFromEnv = (): TicketIssuer => {
+  const secret = process.env.TICKET_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error('TICKET_SIGNING_SECRET is required to issue tickets');
+  }
+  return createTicketIssuer(secret);
+};
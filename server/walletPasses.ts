@@ -0,0 +1,68 @@
+import fs from 'fs';
+import path from 'path';
+import { ApplePassConfig, PassFiles } from '@/utils/appleWalletPass';
+import { GoogleWalletAccount } from '@/utils/googleWalletPass';
+
+// Bundled images copied into every pass (Wallet requires at least icon.png)
+const PASS_ASSETS: Record<string, string> = {
+  'icon.png': 'icon.png',
+  'icon@2x.png': 'icon.png',
+  'logo.png': 'mi3ad new logo.png',
+  'logo@2x.png': 'mi3ad new logo.png',
+};
+
+/**
+ * Read the pass images from the app's assets as binary strings
+ */
+const loadPassAssets = (): PassFiles => {
+  const files: PassFiles = {};
+  Object.keys(PASS_ASSETS).forEach(name => {
+    files[name] = fs.readFileSync(path.join(__dirname, '..', 'assets', 'images', PASS_ASSETS[name])).toString('binary');
+  });
+  return files;
+};
+
+/**
+ * Apple Wallet pass signing setup from the server environment, or null when passes are not configured.
+ * The certificate and its key stay on the server and are never bundled with the app.
+ */
+export const getApplePassConfigFromEnv = (): ApplePassConfig | null => {
+  const certificatePem = process.env.PASS_CERTIFICATE;
+  const privateKeyPem = process.env.PASS_PRIVATE_KEY;
+  const wwdrCertificatePem = process.env.PASS_WWDR_CERTIFICATE;
+  const teamIdentifier = process.env.PASS_TEAM_IDENTIFIER;
+  if (!certificatePem || !privateKeyPem || !wwdrCertificatePem || !teamIdentifier) return null;
+
+  return {
+    certificate: {
+      certificatePem,
+      privateKeyPem,
+      privateKeyPassphrase: process.env.PASS_PRIVATE_KEY_PASSPHRASE,
+      wwdrCertificatePem,
+    },
+    identity: {
+      passTypeIdentifier: process.env.PASS_TYPE_IDENTIFIER || 'pass.com.mi3ad.eventticket',
+      teamIdentifier,
+    },
+    assets: loadPassAssets(),
+  };
+};
+
+/**
+ * Google Wallet issuer and service-account key from the server environment,
+ * or null when Google Wallet is not configured
+ */
+export const getGoogleWalletAccountFromEnv = (): GoogleWalletAccount | null => {
+  const issuerId = process.env.GOOGLE_WALLET_ISSUER_ID;
+  const serviceAccount = process.env.GOOGLE_WALLET_SERVICE_ACCOUNT;
+  if (!issuerId || !serviceAccount) return null;
+
+  try {
+    // The JSON key file downloaded from the Google Cloud console
+    const key = JSON.parse(serviceAccount);
+    return { issuerId, clientEmail: key.client_email, privateKeyPem: key.private_key };
+  } catch (error) {
+    console.error('Invalid Google Wallet service account key:', error);
+    return null;
+  }
+};
@@ -0,0 +1,124 @@
+import type { Event } from '@/context/EventContext';
+import { AuthError } from '@/services/accounts';
+import { EventRepository, RepositoryError } from '@/services/eventRepository';
+import { mockEvents } from '@/services/mockEvents';
+import { PaymentError } from '@/services/paymentProvider';
+import { createRestEventRepository } from '@/services/restEventRepository';
+import { SANDBOX_DECLINED_SOURCE } from '@/services/sandboxPaymentProvider';
+import { MockEventServer, startMockEventServer } from '@/server/mockEventServer';
+import { createTicketIssuer } from '@/server/ticketIssuer';
+
+// Single-session, general-admission events, moved into the future so they can be booked
+const baseEvent = mockEvents.find(event => !event.tiers && !event.seatMap && !event.sessions)!;
+const freeEvent: Event = { ...baseEvent, id: 'free-event', date: '2030-06-01', price: 0, maxAttendees: 50, currentAttendees: 0 };
+const paidEvent: Event = { ...baseEvent, id: 'paid-event', date: '2030-06-01', price: 40, maxAttendees: 50, currentAttendees: 0 };
+const fullEvent: Event = { ...baseEvent, id: 'full-event', date: '2030-06-01', price: 0, maxAttendees: 1, currentAttendees: 1 };
+
+const oneTicket = [{ tierId: 'general', quantity: 1 }];
+
+describe('REST event repository against the mock events API', () => {
+  let server: MockEventServer;
+  let token: string | null = null;
+  let repository: EventRepository;
+  let userId: string;
+
+  beforeAll(async () => {
+    server = await startMockEventServer({
+      events: [freeEvent, paidEvent, fullEvent],
+      bookings: [],
+      ticketIssuer: createTicketIssuer('contract-test-secret'),
+    });
+    repository = createRestEventRepository({ baseUrl: server.url, getAccessToken: async () => token });
+    const { user, session } = await repository.registerAccount({
+      name: 'سارة',
+      email: '',
+      phone: '+218 91 000 0001',
+      password: 'secret1',
+      accountType: 'personal',
+    });
+    userId = user.id;
+    token = session.token;
+  });
+
+  afterAll(() => server.close());
+
+  it('lists the published events', async () => {
+    const events = await repository.listEvents();
+
+    expect(events.map(event => event.id).sort()).toEqual(['free-event', 'full-event', 'paid-event']);
+  });
+
+  it('books a free event for the signed-in account', async () => {
+    const booking = await repository.bookEvent({ eventId: freeEvent.id, userId: '', items: oneTicket, paymentMethod: 'cash' });
+
+    expect(booking.userId).toBe(userId);
+    expect(booking.status).toBe('confirmed');
+    expect((await repository.getEvent(freeEvent.id)).currentAttendees).toBe(1);
+    expect((await repository.listBookings({ userId })).map(b => b.id)).toContain(booking.id);
+  });
+
+  it('cancels a paid booking and refunds it', async () => {
+    const reserved = await repository.bookEvent({ eventId: paidEvent.id, userId: '', items: oneTicket, paymentMethod: 'card' });
+    const paid = await repository.payForBooking(reserved.id, { userId: '', source: 'tok_visa' });
+    expect(paid.status).toBe('confirmed');
+    expect(paid.payment.status).toBe('captured');
+
+    const cancelled = await repository.cancelBooking(paid.id, '');
+
+    expect(cancelled.status).toBe('cancelled');
+    expect(cancelled.payment.refundedAmount).toBe(cancelled.refunds[0].amount);
+    expect(cancelled.refunds[0].reason).toBe('cancellation');
+  });
+
+  describe('error mapping', () => {
+    it('maps 404 to a not_found RepositoryError', async () => {
+      const error = await repository.getEvent('no-such-event').catch(e => e);
+
+      expect(error).toBeInstanceOf(RepositoryError);
+      expect(error.code).toBe('not_found');
+    });
+
+    it('maps 400 to an invalid_request RepositoryError', async () => {
+      const error = await repository
+        .bookEvent({ eventId: freeEvent.id, userId: '', items: [{ tierId: 'general', quantity: 0 }], paymentMethod: 'cash' })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(RepositoryError);
+      expect(error.code).toBe('invalid_request');
+    });
+
+    it('maps 409 to a sold_out RepositoryError', async () => {
+      const error = await repository
+        .bookEvent({ eventId: fullEvent.id, userId: '', items: oneTicket, paymentMethod: 'cash' })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(RepositoryError);
+      expect(error.code).toBe('sold_out');
+    });
+
+    it('maps 401 to a signed_out AuthError', async () => {
+      const signedOut = createRestEventRepository({ baseUrl: server.url });
+      const error = await signedOut.listBookings({ userId }).catch(e => e);
+
+      expect(error).toBeInstanceOf(AuthError);
+      expect(error.code).toBe('signed_out');
+    });
+
+    it('keeps the auth code the API sends', async () => {
+      const error = await repository
+        .registerAccount({ name: 'سارة', email: '', phone: '+21891 0000001', password: 'secret1', accountType: 'personal' })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(AuthError);
+      expect(error.code).toBe('phone_taken');
+    });
+
+    it('maps 402 to a PaymentError', async () => {
+      const reserved = await repository.bookEvent({ eventId: paidEvent.id, userId: '', items: oneTicket, paymentMethod: 'card' });
+      const error = await repository.payForBooking(reserved.id, { userId: '', source: SANDBOX_DECLINED_SOURCE }).catch(e => e);
+
+      expect(error).toBeInstanceOf(PaymentError);
+      expect(error.code).toBe('declined');
+    });
+  });
+});
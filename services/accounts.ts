@@ -0,0 +1,83 @@
+import type { User } from '@/context/AuthContext';
+
+export type AuthErrorCode =
+  | 'unknown_phone'
+  | 'wrong_password'
+  | 'phone_taken'
+  | 'invalid_input'
+  | 'session_expired'
+  | 'signed_out';
+
+const AUTH_ERROR_CODES: AuthErrorCode[] = [
+  'unknown_phone',
+  'wrong_password',
+  'phone_taken',
+  'invalid_input',
+  'session_expired',
+  'signed_out',
+];
+
+export const isAuthErrorCode = (code: unknown): code is AuthErrorCode =>
+  AUTH_ERROR_CODES.includes(code as AuthErrorCode);
+
+export class AuthError extends Error {
+  code: AuthErrorCode;
+
+  constructor(code: AuthErrorCode, message: string) {
+    super(message);
+    this.name = 'AuthError';
+    this.code = code;
+  }
+}
+
+export interface AuthSession {
+  userId: string;
+  token: string;
+  expiresAt: string;
+  refreshToken: string;
+  refreshExpiresAt: string;
+}
+
+export interface SignedIn {
+  user: User;
+  session: AuthSession;
+}
+
+/**
+ * What other accounts can see of an account, e.g. when a ticket is transferred to it
+ */
+export type AccountSummary = Pick<User, 'id' | 'name' | 'phone'>;
+
+export interface RegisterInput {
+  name: string;
+  email: string;
+  phone: string;
+  password: string;
+  accountType: User['accountType'];
+}
+
+/**
+ * Normalize a phone number so "+218 91-123" and "+21891123" match
+ */
+export const normalizePhone = (phone: string): string => phone.replace(/[\s\-()]/g, '');
+
+/**
+ * Accounts and the sessions issued for them. Only the events API has one,
+ * so tokens are never made on a device and every request can be traced to an account.
+ */
+export interface AccountStore {
+  register: (input: RegisterInput) => Promise<SignedIn>;
+  signIn: (phone: string, password: string) => Promise<SignedIn>;
+  /**
+   * Exchange a refresh token for a new token pair; the old refresh token stops working
+   */
+  refresh: (refreshToken: string) => Promise<AuthSession>;
+  signOut: (refreshToken: string) => Promise<void>;
+  /**
+   * Account an access token was issued to, or null when it is unknown or has expired
+   */
+  authenticate: (token: string) => Promise<string | null>;
+  getAccount: (userId: string) => Promise<User>;
+  updateAccount: (userId: string, changes: Partial<User>) => Promise<User>;
+  findByPhone: (phone: string) => Promise<AccountSummary | null>;
+}
@@ -0,0 +1,145 @@
+import { User } from '@/context/AuthContext';
+import { getEventRepository } from '@/services/createEventRepository';
+import { AccountSummary, AuthError, AuthSession, RegisterInput, SignedIn } from '@/services/accounts';
+import {
+  getSecureData,
+  deleteSecureData,
+  storeSecret,
+  getSecret,
+  deleteSecret,
+} from '@/utils/securityUtils';
+
+const SESSION_KEY = 'session';
+
+const isExpired = (timestamp: string): boolean => new Date(timestamp).getTime() <= Date.now();
+
+// Sessions used to be kept with the rest of the secure data; they move to the keystore on first read
+const loadSession = async (): Promise<AuthSession | null> => {
+  const stored = await getSecret(SESSION_KEY);
+  if (stored) return JSON.parse(stored);
+
+  const legacy = await getSecureData(SESSION_KEY);
+  if (!legacy) return null;
+  await storeSecret(SESSION_KEY, legacy);
+  await deleteSecureData(SESSION_KEY);
+  return JSON.parse(legacy);
+};
+
+/**
+ * Keep a session issued by the events API in the device keystore
+ */
+const saveSession = async (signedIn: SignedIn): Promise<SignedIn> => {
+  await storeSecret(SESSION_KEY, JSON.stringify(signedIn.session));
+  return signedIn;
+};
+
+/**
+ * Create an account on the events API and sign it in
+ */
+export const registerAccount = async (input: RegisterInput): Promise<SignedIn> => {
+  return saveSession(await getEventRepository().registerAccount(input));
+};
+
+/**
+ * Verify credentials on the events API and start a new session
+ */
+export const authenticate = async (phone: string, password: string): Promise<SignedIn> => {
+  return saveSession(await getEventRepository().signIn(phone, password));
+};
+
+// Requests made while a refresh is under way wait for it, since each refresh token can only be used once
+let refreshing: Promise<AuthSession> | null = null;
+
+/**
+ * Exchange the refresh token for a new token pair.
+ * Fails with `session_expired`, and forgets the session, when the events API no longer accepts it.
+ */
+export const refreshSession = (session: AuthSession): Promise<AuthSession> => {
+  if (!refreshing) {
+    refreshing = (async () => {
+      if (isExpired(session.refreshExpiresAt)) {
+        await clearSession();
+        throw new AuthError('session_expired', 'The session has expired, please sign in again');
+      }
+      try {
+        const refreshed = await getEventRepository().refreshSession(session.refreshToken);
+        await storeSecret(SESSION_KEY, JSON.stringify(refreshed));
+        return refreshed;
+      } catch (error) {
+        if (error instanceof AuthError) await clearSession();
+        throw error;
+      }
+    })().finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+};
+
+/**
+ * Restore the stored session and load its account from the events API.
+ * Returns null when there is no session or the events API no longer accepts it;
+ * other failures, such as being offline, are passed on with the session kept.
+ */
+export const restoreSession = async (): Promise<SignedIn | null> => {
+  const stored = await loadSession();
+  if (!stored) return null;
+
+  try {
+    const user = await getEventRepository().getAccount(stored.userId);
+    return { user, session: (await loadSession()) || stored };
+  } catch (error) {
+    if (error instanceof AuthError) {
+      await clearSession();
+      return null;
+    }
+    throw error;
+  }
+};
+
+export const getSession = (): Promise<AuthSession | null> => loadSession();
+
+/**
+ * Return a valid access token, refreshing it when it has expired, or null when signed out.
+ * Fails with `session_expired` when the refresh token has expired too.
+ */
+export const getAccessToken = async (): Promise<string | null> => {
+  const session = await loadSession();
+  if (!session) return null;
+  if (!isExpired(session.expiresAt)) return session.token;
+  return (await refreshSession(session)).token;
+};
+
+export const clearSession = async (): Promise<void> => {
+  await deleteSecret(SESSION_KEY);
+};
+
+/**
+ * Forget the session on this device and end it on the events API
+ */
+export const signOut = async (): Promise<void> => {
+  const session = await loadSession();
+  await clearSession();
+  if (session) {
+    try {
+      await getEventRepository().signOut(session.refreshToken);
+    } catch (error) {
+      // The tokens are gone from the device either way and run out on their own
+      console.error('Error ending session:', error);
+    }
+  }
+};
+
+/**
+ * Look up a registered account by phone number, e.g. to transfer a ticket to it
+ */
+export const findAccountByPhone = (phone: string): Promise<AccountSummary | null> => {
+  return getEventRepository().findAccountByPhone(phone);
+};
+
+/**
+ * Save profile changes on the events API
+ */
+export const updateAccountProfile = (userId: string, changes: Partial<User>): Promise<User> => {
+  return getEventRepository().updateAccount(userId, changes);
+};
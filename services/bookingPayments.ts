@@ -0,0 +1,86 @@
+import { Booking } from '@/context/EventContext';
+import { UpdatePaymentInput } from '@/services/eventRepository';
+import { PaymentProvider, PaymentError } from '@/services/paymentProvider';
+import { getPaidAmount } from '@/utils/cancellationPolicy';
+
+/**
+ * Saves a payment status change on a booking and returns the updated booking
+ */
+export type PaymentRecorder = (bookingId: string, input: UpdatePaymentInput) => Booking | Promise<Booking>;
+
+/**
+ * Take payment for a pending booking: authorize, which confirms the booking,
+ * then capture card payments. Cash stays authorized until it is collected at the door.
+ * When authorization fails the booking is cancelled and the error is rethrown.
+ */
+export const payForBooking = async (
+  provider: PaymentProvider,
+  booking: Booking,
+  record: PaymentRecorder,
+  source?: string
+): Promise<Booking> => {
+  if (booking.payment.status !== 'pending') return booking;
+
+  let reference: string;
+  try {
+    ({ reference } = await provider.authorize({
+      bookingId: booking.id,
+      amount: booking.payment.amount,
+      method: booking.payment.method,
+      source,
+    }));
+  } catch (error) {
+    await record(booking.id, {
+      status: 'failed',
+      failureReason: error instanceof Error ? error.message : String(error),
+    });
+    throw error instanceof PaymentError ? error : new PaymentError('unavailable', String(error));
+  }
+
+  let updated = await record(booking.id, { status: 'authorized', reference });
+
+  if (booking.payment.method === 'card') {
+    try {
+      await provider.capture(reference, booking.payment.amount);
+      updated = await record(booking.id, { status: 'captured' });
+    } catch (error) {
+      // The booking stays confirmed on the authorization; capture can be retried later
+      console.error('Error capturing payment:', error);
+    }
+  }
+
+  return updated;
+};
+
+/**
+ * Give money back for a booking: releases an uncaptured authorization,
+ * or refunds `amount` (all that is left by default) of a captured one.
+ * The payment is partially refunded until the whole amount has been given back;
+ * a captured payment with nothing to refund is left as it is.
+ */
+export const refundBookingPayment = async (
+  provider: PaymentProvider,
+  booking: Booking,
+  record: PaymentRecorder,
+  amount: number = getPaidAmount(booking)
+): Promise<Booking> => {
+  const { status, reference } = booking.payment;
+  if (!reference || (status !== 'authorized' && status !== 'captured' && status !== 'partially_refunded')) {
+    return booking;
+  }
+
+  if (status === 'authorized') {
+    await provider.release(reference);
+    return record(booking.id, { status: 'refunded' });
+  }
+
+  const refundable = Math.min(amount, getPaidAmount(booking));
+  if (refundable <= 0) return booking;
+
+  await provider.refund(reference, refundable);
+  const refundedAmount = (booking.payment.refundedAmount || 0) + refundable;
+  return record(booking.id, {
+    status: refundedAmount >= booking.payment.amount ? 'refunded' : 'partially_refunded',
+    refundedAmount,
+  });
+};
@@ -0,0 +1,156 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import forge from 'node-forge';
+import { Event, Booking } from '@/context/EventContext';
+import { CheckIn } from '@/context/CheckInContext';
+import { WaitlistEntry } from '@/services/waitlist';
+import { PromoCode } from '@/utils/pricing';
+import { EventRepository } from '@/services/eventRepository';
+import { createInMemoryEventRepository, InMemoryEventRepository } from '@/services/inMemoryEventRepository';
+
+const EVENTS_KEY = 'events';
+const BOOKINGS_KEY = 'bookings';
+const CHECK_INS_KEY = 'checkIns';
+const WAITLIST_KEY = 'waitlist';
+const PROMO_CODES_KEY = 'promoCodes';
+const SEED_VERSION_KEY = 'eventsSeedVersion';
+
+// Changes whenever the bundled catalogue does
+const getSeedVersion = (seedEvents: Event[]): string =>
+  forge.md.sha256.create().update(JSON.stringify(seedEvents), 'utf8').digest().toHex();
+
+/**
+ * Replace the stored copies of the bundled events with the current catalogue, keeping the attendance
+ * recorded on the device. Events created on the device, and dropped events that still have bookings, are kept.
+ */
+const refreshSeedEvents = (stored: Event[], seedEvents: Event[], bookings: Booking[]): Event[] => {
+  const refreshed = seedEvents.map(seed => {
+    const previous = stored.find(e => e.id === seed.id);
+    if (!previous) return seed;
+    return {
+      ...seed,
+      currentAttendees: previous.currentAttendees,
+      bookedSeats: previous.bookedSeats,
+      tiers: seed.tiers?.map(tier => ({ ...tier, sold: previous.tiers?.find(t => t.id === tier.id)?.sold ?? tier.sold })),
+      sessions: seed.sessions?.map(session => previous.sessions?.find(s => s.id === session.id) || session),
+    };
+  });
+  const kept = stored.filter(event =>
+    !seedEvents.some(seed => seed.id === event.id) &&
+    (!!event.organizerId || bookings.some(b => b.eventId === event.id))
+  );
+  return [...refreshed, ...kept];
+};
+
+/**
+ * Repository that keeps the catalogue and bookings cached in AsyncStorage,
+ * so bookings and attendance counts survive app restarts.
+ * Tickets are only signed by the events API, so bookings and transfers fail with `server` here,
+ * as does signing in, since accounts are kept there too.
+ */
+export const createCachedEventRepository = ({
+  events: seedEvents,
+  promoCodes: seedPromoCodes = [],
+}: {
+  events: Event[];
+  promoCodes?: PromoCode[];
+}): EventRepository => {
+  let store: Promise<InMemoryEventRepository> | null = null;
+  const seedVersion = getSeedVersion(seedEvents);
+
+  const load = async (): Promise<InMemoryEventRepository> => {
+    let events = seedEvents;
+    let bookings: Booking[] = [];
+    let checkIns: CheckIn[] = [];
+    let waitlist: WaitlistEntry[] = [];
+    let promoCodes = seedPromoCodes;
+
+    try {
+      const [storedEvents, storedBookings, storedCheckIns, storedWaitlist, storedPromoCodes, storedSeedVersion] = await Promise.all([
+        AsyncStorage.getItem(EVENTS_KEY),
+        AsyncStorage.getItem(BOOKINGS_KEY),
+        AsyncStorage.getItem(CHECK_INS_KEY),
+        AsyncStorage.getItem(WAITLIST_KEY),
+        AsyncStorage.getItem(PROMO_CODES_KEY),
+        AsyncStorage.getItem(SEED_VERSION_KEY),
+      ]);
+      if (storedBookings) bookings = JSON.parse(storedBookings);
+      if (storedEvents) {
+        // The stored copies win until the app ships a different catalogue
+        events = storedSeedVersion === seedVersion
+          ? JSON.parse(storedEvents)
+          : refreshSeedEvents(JSON.parse(storedEvents), seedEvents, bookings);
+      }
+      if (storedCheckIns) checkIns = JSON.parse(storedCheckIns);
+      if (storedWaitlist) waitlist = JSON.parse(storedWaitlist);
+      if (storedPromoCodes) promoCodes = JSON.parse(storedPromoCodes);
+    } catch (error) {
+      console.error('Error loading cached events:', error);
+    }
+
+    return createInMemoryEventRepository({ events, bookings, checkIns, waitlist, promoCodes });
+  };
+
+  const getStore = () => {
+    if (!store) store = load();
+    return store;
+  };
+
+  const persist = async (repository: InMemoryEventRepository) => {
+    const { events, bookings, checkIns, waitlist, promoCodes } = repository.getState();
+    try {
+      await AsyncStorage.multiSet([
+        [EVENTS_KEY, JSON.stringify(events)],
+        [BOOKINGS_KEY, JSON.stringify(bookings)],
+        [CHECK_INS_KEY, JSON.stringify(checkIns)],
+        [WAITLIST_KEY, JSON.stringify(waitlist)],
+        [PROMO_CODES_KEY, JSON.stringify(promoCodes)],
+        [SEED_VERSION_KEY, seedVersion],
+      ]);
+    } catch (error) {
+      console.error('Error saving cached events:', error);
+    }
+  };
+
+  const mutate = async <T>(operation: (repository: InMemoryEventRepository) => Promise<T>): Promise<T> => {
+    const repository = await getStore();
+    const result = await operation(repository);
+    await persist(repository);
+    return result;
+  };
+
+  return {
+    listEvents: async (filter) => (await getStore()).listEvents(filter),
+    getEvent: async (id) => (await getStore()).getEvent(id),
+    searchEvents: async (query) => (await getStore()).searchEvents(query),
+    createEvent: (input) => mutate(repository => repository.createEvent(input)),
+    updateEvent: (eventId, input) => mutate(repository => repository.updateEvent(eventId, input)),
+    setEventStatus: (eventId, input) => mutate(repository => repository.setEventStatus(eventId, input)),
+    reviewEvent: (eventId, input) => mutate(repository => repository.reviewEvent(eventId, input)),
+    deleteEvent: (eventId, organizerId) => mutate(repository => repository.deleteEvent(eventId, organizerId)),
+    isModerator: async (userId) => (await getStore()).isModerator(userId),
+    registerAccount: async (input) => (await getStore()).registerAccount(input),
+    signIn: async (phone, password) => (await getStore()).signIn(phone, password),
+    refreshSession: async (refreshToken) => (await getStore()).refreshSession(refreshToken),
+    signOut: async (refreshToken) => (await getStore()).signOut(refreshToken),
+    getAccount: async (userId) => (await getStore()).getAccount(userId),
+    updateAccount: async (userId, changes) => (await getStore()).updateAccount(userId, changes),
+    findAccountByPhone: async (phone) => (await getStore()).findAccountByPhone(phone),
+    listBookings: async (filter) => (await getStore()).listBookings(filter),
+    getCalendarFeedPath: async (userId) => (await getStore()).getCalendarFeedPath(userId),
+    // Holding and releasing seats can pass seats to the waitlist, which is persisted
+    holdSeats: (input) => mutate(repository => repository.holdSeats(input)),
+    releaseHold: (holdId, userId) => mutate(repository => repository.releaseHold(holdId, userId)),
+    priceBooking: async (input) => (await getStore()).priceBooking(input),
+    bookEvent: (input) => mutate(repository => repository.bookEvent(input)),
+    payForBooking: (bookingId, input) => mutate(repository => repository.payForBooking(bookingId, input)),
+    cancelBooking: (bookingId, userId) => mutate(repository => repository.cancelBooking(bookingId, userId)),
+    transferTicket: (input) => mutate(repository => repository.transferTicket(input)),
+    createApplePass: async (input) => (await getStore()).createApplePass(input),
+    createGoogleWalletLink: async (input) => (await getStore()).createGoogleWalletLink(input),
+    markTicketAsUsed: (bookingId, input) => mutate(repository => repository.markTicketAsUsed(bookingId, input)),
+    syncCheckIns: (input) => mutate(repository => repository.syncCheckIns(input)),
+    listWaitlist: (filter) => mutate(repository => repository.listWaitlist(filter)),
+    joinWaitlist: (input) => mutate(repository => repository.joinWaitlist(input)),
+    leaveWaitlist: (entryId, userId) => mutate(repository => repository.leaveWaitlist(entryId, userId)),
+  };
+};
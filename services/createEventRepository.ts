@@ -0,0 +1,72 @@
+import Constants from 'expo-constants';
+import { EventRepository } from '@/services/eventRepository';
+import { mockEvents } from '@/services/mockEvents';
+import { mockPromoCodes } from '@/services/mockPromoCodes';
+import { createInMemoryEventRepository } from '@/services/inMemoryEventRepository';
+import { createCachedEventRepository } from '@/services/cachedEventRepository';
+import { createRestEventRepository } from '@/services/restEventRepository';
+import { getAccessToken } from '@/services/authService';
+
+export type EventDataSource = 'memory' | 'cached' | 'rest';
+
+export interface EventRepositoryConfig {
+  source: EventDataSource;
+  apiUrl?: string;
+}
+
+// Port of the mock events API started by `npm run server`
+const DEVELOPMENT_API_PORT = 4000;
+
+// In development the mock events API runs on the machine that serves the app bundle
+const getDevelopmentApiUrl = (): string => {
+  const host = Constants.expoConfig?.hostUri?.split(':')[0] || 'localhost';
+  return `http://${host}:${DEVELOPMENT_API_PORT}`;
+};
+
+/**
+ * Read the data source from the public Expo environment.
+ * Defaults to the events API, which is the only source that signs tickets and takes payments;
+ * the local sources serve the bundled catalogue for offline work and tests.
+ */
+export const getEventRepositoryConfig = (): EventRepositoryConfig => {
+  const source = process.env.EXPO_PUBLIC_EVENT_SOURCE;
+  return {
+    source: source === 'memory' || source === 'cached' ? source : 'rest',
+    apiUrl: process.env.EXPO_PUBLIC_EVENT_API_URL || (__DEV__ ? getDevelopmentApiUrl() : undefined),
+  };
+};
+
+/**
+ * Create the repository selected by the given config
+ */
+export const createEventRepository = (
+  config: EventRepositoryConfig = getEventRepositoryConfig()
+): EventRepository => {
+  switch (config.source) {
+    case 'memory':
+      return createInMemoryEventRepository({ events: mockEvents, promoCodes: mockPromoCodes });
+    case 'cached':
+      return createCachedEventRepository({ events: mockEvents, promoCodes: mockPromoCodes });
+    default:
+      if (!config.apiUrl) {
+        throw new Error('EXPO_PUBLIC_EVENT_API_URL is required for the rest event source');
+      }
+      return createRestEventRepository({
+        baseUrl: config.apiUrl,
+        // Requests made after the session has run out go out signed out; the app asks the user to sign in again
+        getAccessToken: () => getAccessToken().catch(() => null),
+      });
+  }
+};
+
+let sharedRepository: EventRepository | null = null;
+
+/**
+ * Repository shared by the app's providers, created on first use
+ */
+export const getEventRepository = (): EventRepository => {
+  if (!sharedRepository) {
+    sharedRepository = createEventRepository();
+  }
+  return sharedRepository;
+};
@@ -0,0 +1,290 @@
+import { Event, Booking } from '@/context/EventContext';
+import { CheckIn } from '@/context/CheckInContext';
+import type { User } from '@/context/AuthContext';
+import type { AccountSummary, AuthSession, RegisterInput, SignedIn } from '@/services/accounts';
+import { PaymentMethod, PaymentStatus } from '@/services/paymentProvider';
+import type { SeatHold } from '@/services/seatInventory';
+import type { WaitlistEntry } from '@/services/waitlist';
+import type { TicketSelection } from '@/utils/ticketTiers';
+import type { PriceQuote } from '@/utils/pricing';
+import type { AttendeeDetails } from '@/utils/attendees';
+import type { EventDetails } from '@/utils/eventDetails';
+import type { EventRejectionReason } from '@/utils/eventLifecycle';
+
+export interface EventListFilter {
+  organizerId?: string; // also that organizer's drafts, events under review and cancelled events
+  reviewerId?: string; // for moderators, also the events waiting for review and those already reviewed
+}
+
+export interface CreateEventInput extends Partial<EventDetails> {
+  organizerId: string; // business account that runs the event
+  organizer: string;
+  organizerAr: string;
+}
+
+export interface UpdateEventInput {
+  organizerId: string; // only the account that runs an event may change it
+  changes: Partial<EventDetails>;
+}
+
+export interface EventStatusInput {
+  organizerId: string;
+  status: 'submitted' | 'published' | 'cancelled' | 'completed';
+}
+
+export interface ReviewEventInput {
+  reviewerId: string; // moderator making the decision
+  decision: 'approved' | 'rejected';
+  reasons?: EventRejectionReason[]; // at least one when rejecting
+  note?: string;
+}
+
+export interface BookEventInput {
+  eventId: string;
+  sessionId?: string; // required for events with sessions
+  userId: string;
+  items: TicketSelection[]; // tickets wanted per tier
+  paymentMethod: PaymentMethod;
+  holdId?: string; // seats held at checkout; without one, seats are taken if still available
+  promoCode?: string; // discount code entered at checkout
+  attendees?: AttendeeDetails[]; // one per ticket, in the order of the selected items
+}
+
+export interface PriceBookingInput {
+  eventId: string;
+  sessionId?: string; // required for events with sessions
+  userId: string;
+  items: TicketSelection[];
+  promoCode?: string;
+}
+
+export interface HoldSeatsInput {
+  eventId: string;
+  sessionId?: string; // required for events with sessions
+  userId: string;
+  items: TicketSelection[];
+}
+
+export interface JoinWaitlistInput {
+  eventId: string;
+  sessionId?: string; // required for events with sessions
+  userId: string;
+  items: TicketSelection[]; // tickets wanted per tier, without seats
+}
+
+export interface WaitlistFilter {
+  eventId?: string;
+  userId?: string;
+}
+
+export interface BookingFilter {
+  userId?: string; // bookings made by the user, along with bookings holding tickets transferred to them
+  organizerId?: string; // bookings for the events the organizer runs
+}
+
+export interface PayForBookingInput {
+  userId: string; // only the account that made a booking pays for it
+  source?: string; // card token from the payment provider's checkout
+}
+
+export interface UpdatePaymentInput {
+  status: PaymentStatus;
+  reference?: string;
+  refundedAmount?: number;
+  failureReason?: string;
+}
+
+export interface TransferTicketInput {
+  bookingId: string;
+  attendeeId: string;
+  fromUserId: string; // current holder of the ticket
+  toUserId: string;
+  name: string; // the new attendee
+  phone?: string;
+}
+
+export interface WalletPassInput {
+  bookingId: string;
+  attendeeId?: string; // one attendee's own ticket; the group ticket when unset
+  userId: string; // only the holder of a ticket can add it to a wallet
+}
+
+export interface MarkTicketAsUsedInput {
+  organizerId: string; // only the organizer of the event can admit people
+  count?: number; // all remaining entries when unset
+  attendeeId?: string; // set when an attendee's own ticket was scanned
+}
+
+export interface SyncCheckInsInput {
+  organizerId: string; // scans are only taken for the organizer's own events
+  deviceId: string;
+  checkIns: CheckIn[];
+  eventIds: string[];
+}
+
+/**
+ * Data access contract for the event catalogue and bookings.
+ * Every implementation (local, cached or remote) must behave the same way.
+ */
+export interface EventRepository {
+  /**
+   * Events listed in the catalogue, along with the unlisted events the filter gives access to
+   */
+  listEvents: (filter?: EventListFilter) => Promise<Event[]>;
+  getEvent: (id: string) => Promise<Event>;
+  /**
+   * Listed events matching every word of the query, best match first. Arabic spelling variants,
+   * partly typed words and small typos still match.
+   */
+  searchEvents: (query: string) => Promise<Event[]>;
+  /**
+   * Start a draft event. Only the details filled in so far are checked.
+   */
+  createEvent: (input: CreateEventInput) => Promise<Event>;
+  /**
+   * Change the details of an event. The date, time and recurrence are fixed once tickets are sold,
+   * and the capacity cannot drop below the tickets already sold for any session.
+   * Sessions are rebuilt from the recurrence, with the event's date set to the first one.
+   * Events under review, cancelled or completed cannot be changed. Changes to when and where an
+   * approved or published event is held, its price or its capacity wait in `pendingChanges` for a
+   * moderator while the event stays as it is; other changes apply straight away.
+   */
+  updateEvent: (eventId: string, input: UpdateEventInput) => Promise<Event>;
+  /**
+   * Move an event along its lifecycle for its organizer. Submitting checks every detail;
+   * cancelling cancels its bookings with a full refund. Refunds the payment provider turns down
+   * are recorded with their failure reason, as the bookings are cancelled either way.
+   */
+  setEventStatus: (eventId: string, input: EventStatusInput) => Promise<Event>;
+  /**
+   * Approve a submitted event or send it back to its organizer with the reasons. For a live event
+   * with pending changes the decision applies to the changes, which are made or dropped.
+   * Only moderators can review events.
+   */
+  reviewEvent: (eventId: string, input: ReviewEventInput) => Promise<Event>;
+  /**
+   * Remove an event from the catalogue. Events with bookings have to keep their record.
+   */
+  deleteEvent: (eventId: string, organizerId: string) => Promise<void>;
+  /**
+   * Whether the account moderates events. Moderators are set on the events API.
+   */
+  isModerator: (userId: string) => Promise<boolean>;
+  /**
+   * Create an account and start a session for it. Fails with an AuthError for missing details
+   * or a phone number already in use. Sessions are only issued by the events API.
+   */
+  registerAccount: (input: RegisterInput) => Promise<SignedIn>;
+  /**
+   * Check the password and start a session. Fails with an AuthError for an unknown phone or a wrong password.
+   */
+  signIn: (phone: string, password: string) => Promise<SignedIn>;
+  /**
+   * Exchange a refresh token for a new token pair. Fails with `session_expired` when it is no longer valid.
+   */
+  refreshSession: (refreshToken: string) => Promise<AuthSession>;
+  /**
+   * End the session, so neither of its tokens is accepted again
+   */
+  signOut: (refreshToken: string) => Promise<void>;
+  getAccount: (userId: string) => Promise<User>;
+  /**
+   * Save profile changes. The phone number has to stay unique and the account type cannot change.
+   */
+  updateAccount: (userId: string, changes: Partial<User>) => Promise<User>;
+  /**
+   * Account registered with a phone number, e.g. to transfer a ticket to it, or null when there is none
+   */
+  findAccountByPhone: (phone: string) => Promise<AccountSummary | null>;
+  /**
+   * Bookings matching either part of the filter. Fails with `invalid_request` when it is empty.
+   */
+  listBookings: (filter: BookingFilter) => Promise<Booking[]>;
+  /**
+   * Path of the user's bookings feed on the events API, with the token calendar apps read it with.
+   * Fails with `server` where feeds cannot be signed.
+   */
+  getCalendarFeedPath: (userId: string) => Promise<string>;
+  /**
+   * Hold seats while the user checks out. Fails with `sold_out` when not enough are left.
+   */
+  holdSeats: (input: HoldSeatsInput) => Promise<SeatHold>;
+  /**
+   * Give the user's held seats back; unknown or expired holds are ignored
+   */
+  releaseHold: (holdId: string, userId: string) => Promise<void>;
+  /**
+   * Price a selection, checking the promo code for this user without using it up
+   */
+  priceBooking: (input: PriceBookingInput) => Promise<PriceQuote>;
+  /**
+   * Reserve seats for a booking, using the hold when it is still valid.
+   * Fails with `invalid_request` when the event is not published.
+   * Fails with `invalid_request` when the session is missing, unknown or has started.
+   * Fails with `invalid_request` when the promo code cannot be used.
+   * Fails with `sold_out` when the seats went to someone else.
+   * Paid bookings stay pending until their payment is authorized.
+   */
+  bookEvent: (input: BookEventInput) => Promise<Booking>;
+  /**
+   * Charge a pending booking through the events API's payment provider. An authorized payment
+   * confirms the booking; a failed one cancels it, releases its seats and fails with the PaymentError.
+   * Fails with `server` where payments cannot be taken.
+   */
+  payForBooking: (bookingId: string, input: PayForBookingInput) => Promise<Booking>;
+  /**
+   * Cancel a booking for the user who made it, giving back what the cancellation policy allows
+   * through the payment provider. Freed seats are offered to the event's waitlist first.
+   * When the refund fails the booking stays as it was and the PaymentError is passed on.
+   */
+  cancelBooking: (bookingId: string, userId: string) => Promise<Booking>;
+  /**
+   * Give one ticket of a booking to another registered account. The ticket gets a new id and QR code,
+   * so the old code no longer admits anyone.
+   */
+  transferTicket: (input: TransferTicketInput) => Promise<Booking>;
+  /**
+   * Signed Apple Wallet pass for a ticket, as a base64 .pkpass bundle.
+   * Fails with `server` where passes cannot be signed.
+   */
+  createApplePass: (input: WalletPassInput) => Promise<string>;
+  /**
+   * Signed "save to Google Wallet" link for a ticket.
+   * Fails with `server` where links cannot be signed.
+   */
+  createGoogleWalletLink: (input: WalletPassInput) => Promise<string>;
+  /**
+   * Admit people on a booking for the organizer of its event. An attendee's own ticket admits them once;
+   * the group code cannot use the entries of tickets transferred to other accounts.
+   */
+  markTicketAsUsed: (bookingId: string, input: MarkTicketAsUsedInput) => Promise<Booking>;
+  /**
+   * Upload scans recorded on a device and return the resolved check-ins
+   * (from every device) for the given events. Scans of other organizers' events are left out.
+   */
+  syncCheckIns: (input: SyncCheckInsInput) => Promise<CheckIn[]>;
+  /**
+   * Waitlist entries, with offers that have lapsed marked expired and passed on
+   */
+  listWaitlist: (filter?: WaitlistFilter) => Promise<WaitlistEntry[]>;
+  /**
+   * Queue for a sold-out event. Fails with `invalid_request` while tickets are available and nobody is waiting.
+   */
+  joinWaitlist: (input: JoinWaitlistInput) => Promise<WaitlistEntry>;
+  /**
+   * Leave the user's place in the queue, giving up any open offer
+   */
+  leaveWaitlist: (entryId: string, userId: string) => Promise<WaitlistEntry>;
+}
+
+export type RepositoryErrorCode = 'not_found' | 'invalid_request' | 'sold_out' | 'network' | 'server';
+
+export class RepositoryError extends Error {
+  code: RepositoryErrorCode;
+
+  constructor(code: RepositoryErrorCode, message: string) {
+    super(message);
+    this.name = 'RepositoryError';
+    this.code = code;
+  }
+}
@@ -0,0 +1,1107 @@
+import forge from 'node-forge';
+import { Event, Booking } from '@/context/EventContext';
+import { CheckIn } from '@/context/CheckInContext';
+import {
+  EventRepository,
+  BookEventInput,
+  BookingFilter,
+  CreateEventInput,
+  EventListFilter,
+  EventStatusInput,
+  HoldSeatsInput,
+  JoinWaitlistInput,
+  MarkTicketAsUsedInput,
+  PayForBookingInput,
+  PriceBookingInput,
+  ReviewEventInput,
+  SyncCheckInsInput,
+  UpdatePaymentInput,
+  RepositoryError,
+  TransferTicketInput,
+  UpdateEventInput,
+  WaitlistFilter,
+  WalletPassInput,
+} from '@/services/eventRepository';
+import { createSeatInventory } from '@/services/seatInventory';
+import { createWaitlist, WaitlistEntry } from '@/services/waitlist';
+import { PaymentProvider, canTransitionPayment } from '@/services/paymentProvider';
+import { payForBooking, refundBookingPayment } from '@/services/bookingPayments';
+import { AccountStore } from '@/services/accounts';
+import { TicketIssuer, getTicketExpiry, isSignedTicketCode } from '@/utils/ticketSigning';
+import { getPaidAmount, getRefundQuote } from '@/utils/cancellationPolicy';
+import {
+  buildSessions,
+  findSession,
+  getBookingEvent,
+  getSessionEvent,
+  hasSessions,
+  validateRecurrence,
+} from '@/utils/eventSessions';
+import { findSeat, formatSeatLabel, getBookingSeatIds, isTierAllowedInSection } from '@/utils/seatMap';
+import { PriceQuote, PromoCode, buildPriceBreakdown, checkPromoCode, normalizePromoCode } from '@/utils/pricing';
+import {
+  AttendeeDetails,
+  BookingAttendee,
+  findAttendee,
+  getTransferredTickets,
+  isBookingVisibleTo,
+} from '@/utils/attendees';
+import { ApplePassConfig, buildPkpass } from '@/utils/appleWalletPass';
+import { GoogleWalletAccount, getGoogleWalletSaveUrl } from '@/utils/googleWalletPass';
+import { CalendarFeedSigner, getCalendarFeedPath } from '@/utils/calendarFeed';
+import { getCalendarInstant } from '@/utils/icalendar';
+import type { PassData } from '@/utils/walletUtils';
+import { SearchIndex, createEventSearchIndex } from '@/utils/searchIndex';
+import { countAdmittedEntries, resolveCheckInConflicts } from '@/utils/checkIns';
+import {
+  EMPTY_EVENT_DETAILS,
+  EventDetails,
+  getChangedDetails,
+  getEventDetails,
+  getFilledDetails,
+  splitMaterialDetails,
+  validateEventDetails,
+  withPendingChanges,
+} from '@/utils/eventDetails';
+import {
+  EVENT_REJECTION_REASONS,
+  EventReview,
+  canCompleteEvent,
+  canTransitionEvent,
+  getEventStatus,
+  isEventBookable,
+  isEventEditable,
+  isEventInProgress,
+  isEventListed,
+} from '@/utils/eventLifecycle';
+import {
+  BookingLineItem,
+  TicketSelection,
+  GENERAL_TIER_ID,
+  buildLineItems,
+  countTickets,
+  getEventTiers,
+  isTierOnSale,
+} from '@/utils/ticketTiers';
+
+export interface InMemoryEventState {
+  events: Event[];
+  bookings?: Booking[];
+  checkIns?: CheckIn[];
+  waitlist?: WaitlistEntry[];
+  promoCodes?: PromoCode[];
+}
+
+export interface InMemoryEventRepositoryOptions {
+  ticketIssuer?: TicketIssuer; // only the events API has one; without it no tickets are issued
+  applePass?: ApplePassConfig; // likewise for Apple Wallet passes
+  googleWallet?: GoogleWalletAccount; // and for Google Wallet links
+  calendarFeed?: CalendarFeedSigner; // and for calendar feed links
+  moderatorIds?: string[]; // accounts that review events
+  accounts?: AccountStore; // accounts and sessions; only the events API keeps them
+  paymentProvider?: PaymentProvider; // gateway that takes payments; likewise only on the events API
+}
+
+export interface InMemoryEventRepository extends EventRepository {
+  getState: () => {
+    events: Event[];
+    bookings: Booking[];
+    checkIns: CheckIn[];
+    waitlist: WaitlistEntry[];
+    promoCodes: PromoCode[];
+  };
+}
+
+// Booking ids are signed into tickets, so two checkouts in the same millisecond must not share one
+const createBookingId = (): string => forge.util.bytesToHex(forge.random.getBytesSync(12));
+
+/**
+ * Repository that keeps the catalogue and bookings in memory only.
+ * Also used as the backing store of the cached repository and the mock server.
+ */
+export const createInMemoryEventRepository = (
+  initialState: InMemoryEventState,
+  { ticketIssuer, applePass, googleWallet, calendarFeed, moderatorIds = [], accounts, paymentProvider }: InMemoryEventRepositoryOptions = {}
+): InMemoryEventRepository => {
+  // Each organizer signs with their own key; events without an account use the organizer's name
+  const getTicketKeyId = (event: Event): string => event.organizerId || event.organizer;
+
+  const isModerator = (userId?: string): boolean => !!userId && moderatorIds.includes(userId);
+
+  // Scanners verify tickets offline with the public key sent along with the event
+  const withTicketKey = (event: Event): Event =>
+    ticketIssuer ? { ...event, ticketKey: ticketIssuer.getPublicKey(getTicketKeyId(event)) } : event;
+
+  const requireAccounts = (): AccountStore => {
+    if (!accounts) {
+      throw new RepositoryError('server', 'Accounts are only kept by the events API');
+    }
+    return accounts;
+  };
+
+  const requirePaymentProvider = (): PaymentProvider => {
+    if (!paymentProvider) {
+      throw new RepositoryError('server', 'Payments can only be taken by the events API');
+    }
+    return paymentProvider;
+  };
+
+  const requireTicketIssuer = (): TicketIssuer => {
+    if (!ticketIssuer) {
+      throw new RepositoryError('server', 'Tickets can only be issued by the events API');
+    }
+    return ticketIssuer;
+  };
+
+  /**
+   * Sign the QR code for a booking with the organizer's key.
+   * With an attendee id, the code is that attendee's own single-entry ticket.
+   * Pass the event as seen by the booked session, so the ticket admits to that session only.
+   */
+  const issueTicketCode = (
+    booking: Pick<Booking, 'id' | 'eventId' | 'ticketCount'>,
+    event: Event,
+    seatIds: string[] = [],
+    attendeeId?: string
+  ): string => {
+    return requireTicketIssuer().sign(getTicketKeyId(event), {
+      bid: booking.id,
+      eid: booking.eventId,
+      n: attendeeId ? 1 : booking.ticketCount,
+      ...(seatIds.length > 0 ? { s: seatIds } : {}),
+      ...(attendeeId ? { a: attendeeId } : {}),
+      ...(event.sessionId ? { ses: event.sessionId } : {}),
+      iat: Math.floor(Date.now() / 1000),
+      exp: Math.floor(getTicketExpiry(event.date, event.time).getTime() / 1000),
+    });
+  };
+
+  /**
+   * Issue one ticket per person of a booking, in line item order, all held by the buyer
+   */
+  const issueAttendeeTickets = (
+    booking: Pick<Booking, 'id' | 'eventId' | 'userId' | 'lineItems'>,
+    event: Event,
+    details: AttendeeDetails[] = []
+  ): BookingAttendee[] => {
+    const tickets = booking.lineItems.flatMap(item =>
+      Array.from({ length: item.quantity }, (_, index) => ({ tierId: item.tierId, seatId: item.seatIds?.[index] }))
+    );
+    return tickets.map(({ tierId, seatId }, index) => {
+      const id = `${booking.id}-${index + 1}`;
+      const attendee = details[index];
+      return {
+        id,
+        name: attendee ? attendee.name.trim() : '',
+        ...(attendee?.phone?.trim() ? { phone: attendee.phone.trim() } : {}),
+        holderId: booking.userId,
+        tierId,
+        ...(seatId ? { seatId } : {}),
+        qrCode: issueTicketCode({ id: booking.id, eventId: booking.eventId, ticketCount: 1 }, event, seatId ? [seatId] : [], id),
+      };
+    });
+  };
+
+  let events = initialState.events.map(withTicketKey);
+  // Rebuilt on the first search after the catalogue changes
+  let searchIndex: { events: Event[]; index: SearchIndex<Event> } | null = null;
+  // Bookings stored before partial check-in was added have no admitted count
+  let bookings = (initialState.bookings || []).map(booking => ({
+    ...booking,
+    admittedCount: booking.admittedCount ?? (booking.status === 'used' ? booking.ticketCount : 0),
+    // ...and bookings made before payments were taken count as paid
+    payment: booking.payment ?? {
+      method: 'card' as const,
+      status: 'captured' as const,
+      amount: booking.totalPrice,
+      updatedAt: booking.bookingDate,
+    },
+    refunds: booking.refunds ?? [],
+    // ...and bookings from before ticket tiers were all general admission
+    lineItems: booking.lineItems ?? [{
+      tierId: GENERAL_TIER_ID,
+      name: 'General admission',
+      nameAr: 'تذكرة عامة',
+      unitPrice: booking.totalPrice / booking.ticketCount,
+      quantity: booking.ticketCount,
+      subtotal: booking.totalPrice,
+    }],
+    // ...and from before discounts, so they were charged their full price
+    pricing: booking.pricing ?? {
+      subtotal: booking.totalPrice,
+      discounts: [],
+      discountTotal: 0,
+      total: booking.totalPrice,
+    },
+    // ...and from before named attendees, so only the group code admits them
+    attendees: booking.attendees ?? [],
+  }));
+  // Bookings made before tickets were signed carry unsigned codes that no scanner accepts, so they are signed again
+  if (ticketIssuer) {
+    bookings = bookings.map(booking => {
+      const stored = events.find(e => e.id === booking.eventId);
+      if (!stored) return booking;
+      const event = getBookingEvent(stored, booking);
+      return {
+        ...booking,
+        qrCode: isSignedTicketCode(booking.qrCode)
+          ? booking.qrCode
+          : issueTicketCode(booking, event, getBookingSeatIds(booking)),
+        attendees: booking.attendees.map(attendee =>
+          isSignedTicketCode(attendee.qrCode)
+            ? attendee
+            : { ...attendee, qrCode: issueTicketCode(booking, event, attendee.seatId ? [attendee.seatId] : [], attendee.id) }
+        ),
+      };
+    });
+  }
+  const ticketCountOf = (bookingId: string) => bookings.find(b => b.id === bookingId)?.ticketCount ?? 0;
+  // Likewise, older scans have no count because they admitted the whole booking
+  const withCount = (checkIn: CheckIn): CheckIn => ({
+    ...checkIn,
+    count: checkIn.count ?? ticketCountOf(checkIn.bookingId),
+  });
+  let checkIns = (initialState.checkIns || []).map(withCount);
+  // Checkout holds are short-lived and are not part of the persisted state
+  const inventory = createSeatInventory();
+  const waitlist = createWaitlist(inventory, initialState.waitlist);
+  let promoCodes = (initialState.promoCodes || []).map(promo => ({ ...promo }));
+
+  const findEvent = (id: string): Event => {
+    const event = events.find(e => e.id === id);
+    if (!event) throw new RepositoryError('not_found', 'Event not found');
+    return event;
+  };
+
+  // Only the account that runs an event may change it
+  const findOwnEvent = (id: string, organizerId: string): Event => {
+    const event = findEvent(id);
+    if (!organizerId || event.organizerId !== organizerId) {
+      throw new RepositoryError('invalid_request', 'Only the organizer of an event can change it');
+    }
+    return event;
+  };
+
+  const validateDetails = (details: Partial<EventDetails>) => {
+    const [issue] = validateEventDetails(details);
+    if (issue) throw new RepositoryError('invalid_request', issue.message);
+  };
+
+  const patchEvent = (eventId: string, changes: Partial<Event>): Event => {
+    const updated = { ...findEvent(eventId), ...changes };
+    events = events.map(e => (e.id === eventId ? updated : e));
+    return updated;
+  };
+
+  // Lay out the sessions of a recurring event; the event's date and time become those of the first one
+  const scheduleSessions = (event: Event): Partial<Event> => {
+    const rule = event.recurrence;
+    if (!rule || validateRecurrence(rule)) return { sessions: undefined };
+    // Daily and weekly rules repeat from the event's date, which a draft may not have yet
+    if (rule.frequency !== 'custom' && (!event.date || !event.time)) return { sessions: undefined };
+
+    const sessions = buildSessions(event, rule, event.sessions);
+    return { sessions, date: sessions[0].date, time: sessions[0].time };
+  };
+
+  // Events with sessions are booked one session at a time, through the event as that session sees it
+  const findBookingTarget = (eventId: string, sessionId?: string): Event => {
+    const event = findEvent(eventId);
+    if (!hasSessions(event)) {
+      if (sessionId) throw new RepositoryError('invalid_request', 'This event has no sessions');
+      return event;
+    }
+    if (!sessionId) {
+      throw new RepositoryError('invalid_request', 'Choose a session of this event');
+    }
+    if (!findSession(event, sessionId)) {
+      throw new RepositoryError('not_found', 'Session not found');
+    }
+    const target = getSessionEvent(event, sessionId);
+    if (new Date(`${target.date}T${target.time}:00`) <= new Date()) {
+      throw new RepositoryError('invalid_request', 'This session has already started');
+    }
+    return target;
+  };
+
+  const findBooking = (id: string): Booking => {
+    const booking = bookings.find(b => b.id === id);
+    if (!booking) throw new RepositoryError('not_found', 'Booking not found');
+    return booking;
+  };
+
+  // Take (direction 1) or give back (direction -1) the seats of a booking's line items.
+  // Sessions keep their own tier sales and seats; the event counts attendees across all of them.
+  const adjustSeats = (
+    { eventId, sessionId, lineItems }: Pick<Booking, 'eventId' | 'sessionId' | 'lineItems'>,
+    direction: 1 | -1
+  ) => {
+    const seatsIn = (tierId?: string) => lineItems
+      .filter(item => !tierId || item.tierId === tierId)
+      .reduce((sum, item) => sum + item.quantity, 0);
+    const seatIds = getBookingSeatIds({ lineItems });
+    const updateBookedSeats = (booked: string[] = []) =>
+      direction === 1 ? [...booked, ...seatIds] : booked.filter(id => !seatIds.includes(id));
+
+    events = events.map(e => {
+      if (e.id !== eventId) return e;
+      const currentAttendees = Math.max(0, e.currentAttendees + direction * seatsIn());
+      if (sessionId) {
+        return {
+          ...e,
+          currentAttendees,
+          sessions: e.sessions?.map(session =>
+            session.id === sessionId
+              ? {
+                  ...session,
+                  booked: Math.max(0, session.booked + direction * seatsIn()),
+                  tierSold: Object.fromEntries(
+                    (e.tiers || []).map(tier => [
+                      tier.id,
+                      Math.max(0, (session.tierSold?.[tier.id] ?? 0) + direction * seatsIn(tier.id)),
+                    ])
+                  ),
+                  bookedSeats: e.seatMap ? updateBookedSeats(session.bookedSeats) : session.bookedSeats,
+                }
+              : session
+          ),
+        };
+      }
+      return {
+        ...e,
+        currentAttendees,
+        tiers: e.tiers?.map(tier => ({ ...tier, sold: Math.max(0, tier.sold + direction * seatsIn(tier.id)) })),
+        bookedSeats: e.seatMap ? updateBookedSeats(e.bookedSeats) : e.bookedSeats,
+      };
+    });
+  };
+
+  // Reserved-seating events need one seat per ticket, in a section the ticket's tier may sit in
+  const validateSeats = (event: Event, items: TicketSelection[]) => {
+    const seatMap = event.seatMap;
+    if (!seatMap) {
+      if (items.some(item => item.seatIds && item.seatIds.length > 0)) {
+        throw new RepositoryError('invalid_request', 'This event does not have reserved seating');
+      }
+      return;
+    }
+
+    const chosen = new Set<string>();
+    items.forEach(item => {
+      const seatIds = item.seatIds || [];
+      if (seatIds.length !== item.quantity) {
+        throw new RepositoryError('invalid_request', 'Choose one seat for every ticket');
+      }
+      seatIds.forEach(seatId => {
+        const location = findSeat(seatMap, seatId);
+        if (!location) {
+          throw new RepositoryError('invalid_request', `Unknown seat ${seatId}`);
+        }
+        if (!isTierAllowedInSection(location.section, item.tierId)) {
+          throw new RepositoryError('invalid_request', `Seat ${seatId} is not available for this ticket type`);
+        }
+        if (chosen.has(seatId)) {
+          throw new RepositoryError('invalid_request', `Seat ${seatId} was chosen twice`);
+        }
+        chosen.add(seatId);
+      });
+    });
+  };
+
+  // Reject selections the event does not sell right now
+  const validateSelection = (event: Event, items: TicketSelection[]) => {
+    if (!isEventBookable(event)) {
+      throw new RepositoryError('invalid_request', 'This event is not open for booking');
+    }
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new RepositoryError('invalid_request', 'At least one ticket must be selected');
+    }
+    const tiers = getEventTiers(event);
+    items.forEach(item => {
+      const tier = tiers.find(t => t.id === item.tierId);
+      if (!tier) {
+        throw new RepositoryError('invalid_request', `Unknown ticket tier ${item.tierId}`);
+      }
+      if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+        throw new RepositoryError('invalid_request', 'Ticket count must be a positive integer');
+      }
+      if (!isTierOnSale(tier)) {
+        throw new RepositoryError('invalid_request', `${tier.name} tickets are not on sale`);
+      }
+    });
+  };
+
+  const validateAttendees = (attendees: AttendeeDetails[] | undefined, ticketCount: number) => {
+    if (!attendees) return;
+    if (attendees.length !== ticketCount) {
+      throw new RepositoryError('invalid_request', 'Enter one attendee for every ticket');
+    }
+    if (attendees.some(attendee => !attendee.name || !attendee.name.trim())) {
+      throw new RepositoryError('invalid_request', 'Every attendee needs a name');
+    }
+  };
+
+  // Offer seats that have come free to the event's waitlist, or each session's, before anyone else can take them
+  const promoteWaitlist = (eventId: string) => {
+    const event = findEvent(eventId);
+    if (!isEventBookable(event)) return;
+    if (hasSessions(event)) {
+      event.sessions!.forEach(session => waitlist.promote(getSessionEvent(event, session.id)));
+    } else {
+      waitlist.promote(event);
+    }
+  };
+
+  // Count the bookings a user made with a code, leaving out those whose payment failed
+  const countPromoUses = (code: string, userId: string): number => {
+    return bookings.filter(booking =>
+      booking.userId === userId &&
+      booking.payment.status !== 'failed' &&
+      booking.pricing.discounts.some(discount => discount.code === code)
+    ).length;
+  };
+
+  const adjustPromoUses = (codes: string[], direction: 1 | -1) => {
+    promoCodes = promoCodes.map(promo =>
+      codes.includes(promo.code) ? { ...promo, timesUsed: Math.max(0, promo.timesUsed + direction) } : promo
+    );
+  };
+
+  const quote = (event: Event, userId: string, items: TicketSelection[], promoCode?: string): PriceQuote => {
+    const lineItems = buildLineItems(event, items);
+    const subtotal = buildPriceBreakdown(lineItems).subtotal;
+    if (!promoCode || !promoCode.trim()) {
+      return { lineItems, breakdown: buildPriceBreakdown(lineItems) };
+    }
+
+    const promo = promoCodes.find(p => p.code === normalizePromoCode(promoCode));
+    const check = checkPromoCode(promoCode, promo, {
+      event,
+      ticketCount: countTickets(items),
+      subtotal,
+      userUses: promo ? countPromoUses(promo.code, userId) : 0,
+    });
+    return {
+      lineItems,
+      breakdown: buildPriceBreakdown(lineItems, check.status === 'applied' ? [check.discount] : []),
+      promoCode: check,
+    };
+  };
+
+  // What a wallet pass shows, taken from the booking so only its holder gets a pass with the real code
+  const getPassData = ({ bookingId, attendeeId, userId }: WalletPassInput): PassData => {
+    const booking = findBooking(bookingId);
+    if (booking.status !== 'confirmed' && booking.status !== 'used') {
+      throw new RepositoryError('invalid_request', `Tickets of a ${booking.status} booking cannot be added to a wallet`);
+    }
+    const attendee = attendeeId ? findAttendee(booking, attendeeId) : undefined;
+    if (attendeeId && !attendee) throw new RepositoryError('not_found', 'Ticket not found');
+    if (!userId || (attendee ? attendee.holderId !== userId : booking.userId !== userId)) {
+      throw new RepositoryError('invalid_request', 'Only the holder of a ticket can add it to a wallet');
+    }
+
+    const event = getBookingEvent(findEvent(booking.eventId), booking);
+    const seatIds = attendee ? (attendee.seatId ? [attendee.seatId] : []) : getBookingSeatIds(booking);
+    return {
+      eventTitle: event.titleAr,
+      eventDate: new Date(event.date).toLocaleDateString('ar-LY'),
+      eventTime: event.time,
+      location: event.locationAr,
+      ticketCount: attendee ? 1 : booking.ticketCount,
+      totalPrice: booking.totalPrice,
+      qrCode: attendee ? attendee.qrCode : booking.qrCode,
+      holderName: attendee?.name || '',
+      organizerName: event.organizerAr,
+      bookingId: booking.id,
+      attendeeId: attendee?.id,
+      eventId: event.id,
+      eventStart: getCalendarInstant(event.date, event.time).toISOString(),
+      seats: seatIds.map(seatId => formatSeatLabel(event, seatId)),
+    };
+  };
+
+  // An attendee is in once their own ticket was accepted, here or in a scan synced from a device
+  const isAttendeeAdmitted = (attendee: BookingAttendee): boolean =>
+    !!attendee.admittedAt || checkIns.some(c => c.attendeeId === attendee.id && !c.conflictWith);
+
+  const updateBooking = (bookingId: string, changes: Partial<Booking>): Booking => {
+    const updated = { ...findBooking(bookingId), ...changes };
+    bookings = bookings.map(b => (b.id === bookingId ? updated : b));
+    return updated;
+  };
+
+  // Apply a payment status change. An authorized payment confirms the booking;
+  // a failed one cancels it and releases its seats.
+  const recordPayment = (
+    bookingId: string,
+    { status, reference, refundedAmount, failureReason }: UpdatePaymentInput
+  ): Booking => {
+    const booking = findBooking(bookingId);
+    if (!canTransitionPayment(booking.payment.status, status)) {
+      throw new RepositoryError('invalid_request', `Payment cannot move from ${booking.payment.status} to ${status}`);
+    }
+
+    const payment = {
+      ...booking.payment,
+      status,
+      reference: reference ?? booking.payment.reference,
+      refundedAmount: refundedAmount ?? booking.payment.refundedAmount,
+      failureReason,
+      updatedAt: new Date().toISOString(),
+    };
+
+    if (status === 'authorized' && booking.status === 'pending') {
+      return updateBooking(bookingId, { payment, status: 'confirmed' });
+    }
+    if (status === 'failed' && booking.status !== 'cancelled') {
+      adjustSeats(booking, -1);
+      // A booking that was never paid for does not use up its promo code
+      adjustPromoUses(booking.pricing.discounts.map(discount => discount.code), -1);
+      const cancelled = updateBooking(bookingId, { payment, status: 'cancelled' });
+      promoteWaitlist(booking.eventId);
+      return cancelled;
+    }
+    return updateBooking(bookingId, { payment });
+  };
+
+  // Changes that could not be made to the event as it is now, checked again when pending changes are approved
+  const checkDetailChanges = (event: Event, changes: Partial<EventDetails>) => {
+    const hasBookings = bookings.some(b => b.eventId === event.id && b.status !== 'cancelled');
+    const changesSchedule = 'date' in changes || 'time' in changes || 'recurrence' in changes;
+    // Signed tickets carry the session and an expiry worked out from its start time
+    if (hasBookings && changesSchedule) {
+      throw new RepositoryError('invalid_request', 'The date, time and sessions cannot change once tickets are sold');
+    }
+    if ('price' in changes && event.tiers && event.tiers.length > 0) {
+      throw new RepositoryError('invalid_request', 'Events with ticket tiers are priced per tier');
+    }
+    if ('maxAttendees' in changes) {
+      if (event.seatMap) {
+        throw new RepositoryError('invalid_request', 'The capacity of a seated event comes from its seat map');
+      }
+      // The capacity applies to each session, so it has to fit the best-selling one
+      const sold = hasSessions(event)
+        ? Math.max(...event.sessions!.map(session => session.booked))
+        : event.currentAttendees;
+      if (changes.maxAttendees! < sold) {
+        throw new RepositoryError('invalid_request', `${sold} tickets are already sold`);
+      }
+    }
+  };
+
+  const applyDetailChanges = (eventId: string, changes: Partial<EventDetails>): Event => {
+    const updated = patchEvent(eventId, changes);
+    if ('date' in changes || 'time' in changes || 'recurrence' in changes) {
+      patchEvent(eventId, scheduleSessions(updated));
+    }
+    // Extra capacity goes to anyone waiting first
+    if ('maxAttendees' in changes) promoteWaitlist(eventId);
+    return findEvent(eventId);
+  };
+
+  // Give money back through the payment provider; bookings paid before payments were taken have no charge to refund
+  const refundPayment = async (booking: Booking, amount: number): Promise<Booking> => {
+    if (!booking.payment.reference) return booking;
+    return refundBookingPayment(requirePaymentProvider(), booking, recordPayment, amount);
+  };
+
+  return {
+    getState: () => ({ events, bookings, checkIns, waitlist: waitlist.list(), promoCodes }),
+
+    // Drafts and events under review stay with their organizer, and the moderators, until they are published
+    listEvents: async ({ organizerId, reviewerId }: EventListFilter = {}) => {
+      const canReview = isModerator(reviewerId);
+      return events.filter(event =>
+        isEventListed(event) ||
+        (!!organizerId && event.organizerId === organizerId) ||
+        (canReview && (getEventStatus(event) === 'submitted' || !!event.pendingChanges || !!event.review))
+      );
+    },
+
+    getEvent: async (id: string) => findEvent(id),
+
+    searchEvents: async (query: string) => {
+      if (!searchIndex || searchIndex.events !== events) {
+        searchIndex = { events, index: createEventSearchIndex(events.filter(isEventListed)) };
+      }
+      return searchIndex.index.search(query);
+    },
+
+    createEvent: async ({ organizerId, organizer, organizerAr, ...details }: CreateEventInput) => {
+      if (!organizerId) {
+        throw new RepositoryError('invalid_request', 'Events need an organizer account');
+      }
+      const filled = getFilledDetails(details);
+      validateDetails(filled);
+
+      const event: Event = {
+        id: `event-${Date.now()}`,
+        ...EMPTY_EVENT_DETAILS,
+        ...filled,
+        organizer,
+        organizerAr,
+        organizerId,
+        status: 'draft',
+        isFeatured: false,
+        currentAttendees: 0,
+      };
+      events = [...events, withTicketKey({ ...event, ...scheduleSessions(event) })];
+      return findEvent(event.id);
+    },
+
+    updateEvent: async (eventId: string, { organizerId, changes }: UpdateEventInput) => {
+      const event = findOwnEvent(eventId, organizerId);
+      if (!isEventEditable(event)) {
+        throw new RepositoryError('invalid_request', `Events that are ${getEventStatus(event)} cannot be changed`);
+      }
+      // Unchanged fields are left alone, so an event that has already taken place can still be corrected
+      const applied = getChangedDetails(changes, withPendingChanges(event));
+      // Drafts may be saved half-finished; everything is checked when they are submitted
+      validateDetails(isEventInProgress(event) ? getFilledDetails(applied) : applied);
+      checkDetailChanges(event, applied);
+
+      if (isEventInProgress(event)) return applyDetailChanges(eventId, applied);
+
+      // Moderators approved the event as it was, so material changes wait for them while it stays live
+      const { material, other } = splitMaterialDetails(applied);
+      // Fields changed back to what the event already has are no longer pending
+      const pendingChanges = getChangedDetails({ ...event.pendingChanges, ...material }, event);
+      const hasPendingChanges = Object.keys(pendingChanges).length > 0;
+      if (Object.keys(material).length > 0) {
+        patchEvent(eventId, hasPendingChanges
+          ? { pendingChanges, submittedAt: new Date().toISOString() }
+          : { pendingChanges: undefined });
+      }
+      return applyDetailChanges(eventId, other);
+    },
+
+    setEventStatus: async (eventId: string, { organizerId, status }: EventStatusInput) => {
+      const event = findOwnEvent(eventId, organizerId);
+      const current = getEventStatus(event);
+      if (!['submitted', 'published', 'cancelled', 'completed'].includes(status) || !canTransitionEvent(current, status)) {
+        throw new RepositoryError('invalid_request', `Events that are ${current} cannot be ${status}`);
+      }
+
+      if (status === 'submitted') {
+        const [issue] = validateEventDetails(getEventDetails(event));
+        if (issue) throw new RepositoryError('invalid_request', issue.message);
+        return patchEvent(eventId, { status, submittedAt: new Date().toISOString() });
+      }
+
+      if (status === 'completed' && !canCompleteEvent(event)) {
+        throw new RepositoryError('invalid_request', 'Events can only be completed once they have started');
+      }
+
+      if (status === 'cancelled') {
+        // Everyone with a booking gets their money back in full, and nobody is left waiting
+        const cancelledAt = new Date().toISOString();
+        const affected = bookings.filter(b => b.eventId === eventId && (b.status === 'pending' || b.status === 'confirmed'));
+        for (const booking of affected) {
+          const paidAmount = getPaidAmount(booking);
+          // The event is off either way, so a refund the provider turns down is kept on record to be paid out by hand
+          let failureReason: string | undefined;
+          if (paidAmount > 0) {
+            try {
+              await refundPayment(booking, paidAmount);
+            } catch (error) {
+              failureReason = error instanceof Error ? error.message : String(error);
+            }
+          }
+          const latest = findBooking(booking.id);
+          updateBooking(booking.id, {
+            status: 'cancelled',
+            refunds: paidAmount > 0
+              ? [
+                  ...latest.refunds,
+                  {
+                    id: `${booking.id}-refund-${latest.refunds.length + 1}`,
+                    amount: paidAmount,
+                    percent: 100,
+                    reason: 'event_cancelled' as const,
+                    createdAt: cancelledAt,
+                    ...(failureReason ? { failureReason } : {}),
+                  },
+                ]
+              : latest.refunds,
+          });
+        }
+        waitlist
+          .list()
+          .filter(entry => entry.eventId === eventId && (entry.status === 'waiting' || entry.status === 'offered'))
+          .forEach(entry => waitlist.leave(entry.id));
+      }
+
+      return patchEvent(eventId, { status });
+    },
+
+    reviewEvent: async (eventId: string, { reviewerId, decision, reasons = [], note }: ReviewEventInput) => {
+      const event = findEvent(eventId);
+      const current = getEventStatus(event);
+      if (!isModerator(reviewerId)) {
+        throw new RepositoryError('invalid_request', 'Only moderators can review events');
+      }
+      // Live events with pending changes keep their status whatever the decision on the changes
+      const reviewsChanges = !!event.pendingChanges && (current === 'approved' || current === 'published');
+      if ((decision !== 'approved' && decision !== 'rejected') || (!reviewsChanges && !canTransitionEvent(current, decision))) {
+        throw new RepositoryError('invalid_request', `Events that are ${current} cannot be reviewed`);
+      }
+      if (decision === 'rejected' && reasons.length === 0) {
+        throw new RepositoryError('invalid_request', 'Give at least one reason for rejecting an event');
+      }
+      if (reasons.some(reason => !EVENT_REJECTION_REASONS.some(r => r.id === reason))) {
+        throw new RepositoryError('invalid_request', 'Unknown rejection reason');
+      }
+
+      const review: EventReview = {
+        decision,
+        reasons: decision === 'rejected' ? reasons : [],
+        ...(note?.trim() ? { note: note.trim() } : {}),
+        reviewerId,
+        reviewedAt: new Date().toISOString(),
+      };
+      if (!reviewsChanges) return patchEvent(eventId, { status: decision, review });
+
+      // Tickets may have been sold since the changes were sent, so they are checked again first
+      if (decision === 'approved') checkDetailChanges(event, event.pendingChanges!);
+      patchEvent(eventId, { pendingChanges: undefined, review });
+      return decision === 'approved' ? applyDetailChanges(eventId, event.pendingChanges!) : findEvent(eventId);
+    },
+
+    isModerator: async (userId: string) => isModerator(userId),
+
+    registerAccount: async (input) => requireAccounts().register(input),
+    signIn: async (phone, password) => requireAccounts().signIn(phone, password),
+    refreshSession: async (refreshToken) => requireAccounts().refresh(refreshToken),
+    signOut: async (refreshToken) => requireAccounts().signOut(refreshToken),
+    getAccount: async (userId) => requireAccounts().getAccount(userId),
+    updateAccount: async (userId, changes) => requireAccounts().updateAccount(userId, changes),
+    findAccountByPhone: async (phone) => requireAccounts().findByPhone(phone),
+
+    deleteEvent: async (eventId: string, organizerId: string) => {
+      findOwnEvent(eventId, organizerId);
+      if (bookings.some(b => b.eventId === eventId)) {
+        throw new RepositoryError('invalid_request', 'Events with bookings cannot be deleted');
+      }
+      events = events.filter(e => e.id !== eventId);
+    },
+
+    listBookings: async ({ userId, organizerId }: BookingFilter) => {
+      if (!userId && !organizerId) {
+        throw new RepositoryError('invalid_request', 'Bookings are listed for a user or an organizer');
+      }
+      const organizerEvents = new Set(
+        organizerId ? events.filter(e => e.organizerId === organizerId).map(e => e.id) : []
+      );
+      return bookings.filter(b => (!!userId && isBookingVisibleTo(b, userId)) || organizerEvents.has(b.eventId));
+    },
+
+    getCalendarFeedPath: async (userId: string) => {
+      if (!calendarFeed) {
+        throw new RepositoryError('server', 'Calendar feed links can only be signed by the events API');
+      }
+      if (!userId) {
+        throw new RepositoryError('invalid_request', 'Calendar feeds are for signed-in users');
+      }
+      return getCalendarFeedPath(userId, calendarFeed.sign(userId));
+    },
+
+    holdSeats: async ({ eventId, sessionId, userId, items }: HoldSeatsInput) => {
+      promoteWaitlist(eventId);
+      const event = findBookingTarget(eventId, sessionId);
+      validateSelection(event, items);
+      validateSeats(event, items);
+      if (waitlist.hasQueue(eventId, event.sessionId)) {
+        throw new RepositoryError('sold_out', 'Free seats go to the waitlist first');
+      }
+      return inventory.hold(event, userId, items);
+    },
+
+    releaseHold: async (holdId: string, userId: string) => {
+      const hold = inventory.take(holdId);
+      if (!hold) return;
+      if (hold.userId !== userId) {
+        inventory.restore(hold);
+        throw new RepositoryError('invalid_request', 'The seats are held for another checkout');
+      }
+      promoteWaitlist(hold.eventId);
+    },
+
+    priceBooking: async ({ eventId, sessionId, userId, items, promoCode }: PriceBookingInput) => {
+      const event = findBookingTarget(eventId, sessionId);
+      validateSelection(event, items);
+      return quote(event, userId, items, promoCode);
+    },
+
+    bookEvent: async ({ eventId, sessionId, userId, items, paymentMethod, holdId, promoCode, attendees }: BookEventInput) => {
+      requireTicketIssuer();
+      promoteWaitlist(eventId);
+      const event = findBookingTarget(eventId, sessionId);
+      validateSelection(event, items);
+      validateSeats(event, items);
+      validateAttendees(attendees, countTickets(items));
+
+      const { lineItems, breakdown: pricing, promoCode: promoCheck } = quote(event, userId, items, promoCode);
+      if (promoCheck && promoCheck.status === 'rejected') {
+        throw new RepositoryError('invalid_request', `Promo code ${promoCheck.code} cannot be used: ${promoCheck.reason}`);
+      }
+
+      // Hand the held seats back to the pool and take them again in the same step
+      const hold = holdId ? inventory.take(holdId) : undefined;
+      if (hold && (hold.userId !== userId || hold.eventId !== eventId || hold.sessionId !== event.sessionId)) {
+        inventory.restore(hold);
+        throw new RepositoryError('invalid_request', 'The seats are held for another checkout');
+      }
+      if (!hold && waitlist.hasQueue(eventId, event.sessionId)) {
+        throw new RepositoryError('sold_out', 'Free seats go to the waitlist first');
+      }
+      try {
+        inventory.ensureAvailable(event, items);
+      } catch (error) {
+        // The hold stays with its owner until it expires
+        if (hold) inventory.restore(hold);
+        throw new RepositoryError('sold_out', 'The seats were sold while checking out');
+      }
+
+      const id = createBookingId();
+      const bookingDate = new Date().toISOString();
+      const ticketCount = countTickets(items);
+      const totalPrice = pricing.total;
+      // Free bookings have nothing to pay and are confirmed straight away
+      const isFree = totalPrice === 0;
+      const booking: Booking = {
+        id,
+        eventId,
+        ...(event.sessionId ? { sessionId: event.sessionId } : {}),
+        userId,
+        ticketCount,
+        totalPrice,
+        bookingDate,
+        status: isFree ? 'confirmed' : 'pending',
+        payment: {
+          method: paymentMethod,
+          status: isFree ? 'captured' : 'pending',
+          amount: totalPrice,
+          updatedAt: bookingDate,
+        },
+        admittedCount: 0,
+        refunds: [],
+        lineItems,
+        pricing,
+        attendees: issueAttendeeTickets({ id, eventId, userId, lineItems }, event, attendees),
+        qrCode: issueTicketCode({ id, eventId, ticketCount }, event, getBookingSeatIds({ lineItems })),
+      };
+
+      bookings = [...bookings, booking];
+      adjustSeats(booking, 1);
+      adjustPromoUses(pricing.discounts.map(discount => discount.code), 1);
+      if (hold) waitlist.accept(hold.id);
+      return booking;
+    },
+
+    payForBooking: async (bookingId: string, { userId, source }: PayForBookingInput) => {
+      const booking = findBooking(bookingId);
+      if (!userId || booking.userId !== userId) {
+        throw new RepositoryError('invalid_request', 'Only the account that made a booking can pay for it');
+      }
+      if (booking.payment.status !== 'pending') return booking;
+      return payForBooking(requirePaymentProvider(), booking, recordPayment, source);
+    },
+
+    cancelBooking: async (bookingId: string, userId: string) => {
+      const booking = findBooking(bookingId);
+      if (!userId || booking.userId !== userId) {
+        throw new RepositoryError('invalid_request', 'Only the account that made a booking can cancel it');
+      }
+      if (booking.status === 'cancelled') return booking;
+
+      const quote = getRefundQuote(booking, getBookingEvent(findEvent(booking.eventId), booking));
+      if (!quote.allowed) {
+        throw new RepositoryError('invalid_request', 'Bookings cannot be cancelled after the event has started');
+      }
+
+      // The money goes back first, so a refund that fails leaves the booking as it was
+      if (quote.paidAmount > 0) await refundPayment(booking, quote.refundAmount);
+      const refunded = findBooking(bookingId);
+      if (refunded.status === 'cancelled') return refunded;
+
+      const refunds = quote.paidAmount > 0
+        ? [
+            ...refunded.refunds,
+            {
+              id: `${bookingId}-refund-${refunded.refunds.length + 1}`,
+              amount: quote.refundAmount,
+              percent: quote.refundPercent,
+              reason: 'cancellation' as const,
+              createdAt: new Date().toISOString(),
+            },
+          ]
+        : refunded.refunds;
+
+      adjustSeats(refunded, -1);
+      const cancelled = updateBooking(bookingId, { status: 'cancelled', refunds });
+      promoteWaitlist(booking.eventId);
+      return cancelled;
+    },
+
+    transferTicket: async ({ bookingId, attendeeId, fromUserId, toUserId, name, phone }: TransferTicketInput) => {
+      requireTicketIssuer();
+      const booking = findBooking(bookingId);
+      if (booking.status !== 'confirmed') {
+        throw new RepositoryError('invalid_request', `Tickets of a ${booking.status} booking cannot be transferred`);
+      }
+      const index = booking.attendees.findIndex(a => a.id === attendeeId);
+      if (index === -1) throw new RepositoryError('not_found', 'Ticket not found');
+
+      const attendee = booking.attendees[index];
+      if (attendee.holderId !== fromUserId) {
+        throw new RepositoryError('invalid_request', 'Only the holder of a ticket can transfer it');
+      }
+      if (!toUserId || toUserId === fromUserId) {
+        throw new RepositoryError('invalid_request', 'Tickets can only be transferred to another account');
+      }
+      try {
+        await requireAccounts().getAccount(toUserId);
+      } catch (error) {
+        if (error instanceof RepositoryError) throw error;
+        throw new RepositoryError('not_found', 'The recipient has no account');
+      }
+      if (!name || !name.trim()) {
+        throw new RepositoryError('invalid_request', 'Every attendee needs a name');
+      }
+      if (isAttendeeAdmitted(attendee)) {
+        throw new RepositoryError('invalid_request', 'This ticket has already been used');
+      }
+
+      // A new ticket id means a new signed code; the old one no longer matches any ticket
+      const id = `${bookingId}-${index + 1}-${Date.now().toString(36)}`;
+      const event = getBookingEvent(findEvent(booking.eventId), booking);
+      const transferred: BookingAttendee = {
+        id,
+        name: name.trim(),
+        ...(phone?.trim() ? { phone: phone.trim() } : {}),
+        holderId: toUserId,
+        tierId: attendee.tierId,
+        ...(attendee.seatId ? { seatId: attendee.seatId } : {}),
+        qrCode: issueTicketCode(booking, event, attendee.seatId ? [attendee.seatId] : [], id),
+        transferredFrom: fromUserId,
+        transferredAt: new Date().toISOString(),
+      };
+      return updateBooking(bookingId, {
+        attendees: booking.attendees.map((a, i) => (i === index ? transferred : a)),
+      });
+    },
+
+    createApplePass: async (input: WalletPassInput) => {
+      if (!applePass) {
+        throw new RepositoryError('server', 'Apple Wallet passes can only be signed by the events API');
+      }
+      const pkpass = buildPkpass(getPassData(input), applePass.assets, applePass.certificate, applePass.identity);
+      return forge.util.encode64(pkpass);
+    },
+
+    createGoogleWalletLink: async (input: WalletPassInput) => {
+      if (!googleWallet) {
+        throw new RepositoryError('server', 'Google Wallet links can only be signed by the events API');
+      }
+      return getGoogleWalletSaveUrl(getPassData(input), googleWallet);
+    },
+
+    markTicketAsUsed: async (bookingId: string, { organizerId, count, attendeeId }: MarkTicketAsUsedInput) => {
+      const booking = findBooking(bookingId);
+      if (!organizerId || findEvent(booking.eventId).organizerId !== organizerId) {
+        throw new RepositoryError('invalid_request', 'Only the organizer of an event can admit its attendees');
+      }
+      if (booking.status === 'cancelled' || booking.status === 'pending') {
+        throw new RepositoryError('invalid_request', `Booking is ${booking.status}`);
+      }
+
+      const attendee = attendeeId ? findAttendee(booking, attendeeId) : undefined;
+      if (attendeeId && !attendee) throw new RepositoryError('not_found', 'Ticket not found');
+      if (attendee && isAttendeeAdmitted(attendee)) {
+        throw new RepositoryError('invalid_request', 'This ticket has already been used');
+      }
+      if (attendee && count !== undefined && count !== 1) {
+        throw new RepositoryError('invalid_request', "An attendee's ticket admits one person");
+      }
+
+      // Tickets passed on to other accounts are kept for their holders, who come in with their own codes
+      const reservedForOthers = attendee
+        ? 0
+        : getTransferredTickets(booking).filter(a => !isAttendeeAdmitted(a)).length;
+      const remaining = Math.max(0, booking.ticketCount - booking.admittedCount - reservedForOthers);
+      const entering = attendee ? 1 : count === undefined ? remaining : count;
+      if (!Number.isInteger(entering) || entering < 1 || entering > remaining) {
+        throw new RepositoryError('invalid_request', `Only ${remaining} entries are left on this booking`);
+      }
+
+      const admittedCount = booking.admittedCount + entering;
+      const admittedAt = new Date().toISOString();
+      return updateBooking(bookingId, {
+        admittedCount,
+        status: admittedCount >= booking.ticketCount ? 'used' : booking.status,
+        attendees: attendee
+          ? booking.attendees.map(a => (a.id === attendee.id ? { ...a, admittedAt } : a))
+          : booking.attendees,
+      });
+    },
+
+    syncCheckIns: async ({ organizerId, checkIns: uploaded, eventIds }: SyncCheckInsInput) => {
+      const syncedAt = new Date().toISOString();
+      const known = new Set(checkIns.map(c => c.id));
+      // Staff can only check people in to the events of the account they are signed in with
+      const ownEvents = new Set(
+        organizerId ? events.filter(e => e.organizerId === organizerId).map(e => e.id) : []
+      );
+      const isOwnScan = (checkIn: CheckIn) =>
+        ownEvents.has(checkIn.eventId) && bookings.some(b => b.id === checkIn.bookingId && b.eventId === checkIn.eventId);
+      const received = uploaded
+        .filter(checkIn => !known.has(checkIn.id) && isOwnScan(checkIn))
+        .map(checkIn => ({ ...withCount(checkIn), syncedAt }));
+
+      checkIns = resolveCheckInConflicts([...checkIns, ...received], ticketCountOf);
+
+      // Admitted scans count against their booking's entries
+      bookings
+        .filter(booking => booking.status !== 'cancelled')
+        .forEach(booking => {
+          const admittedCount = Math.max(booking.admittedCount, countAdmittedEntries(checkIns, booking.id));
+          if (admittedCount !== booking.admittedCount) {
+            updateBooking(booking.id, {
+              admittedCount,
+              status: admittedCount >= booking.ticketCount ? 'used' : booking.status,
+            });
+          }
+        });
+
+      const relevantEvents = new Set([...eventIds, ...uploaded.map(c => c.eventId)]);
+      return checkIns.filter(checkIn => relevantEvents.has(checkIn.eventId) && ownEvents.has(checkIn.eventId));
+    },
+
+    listWaitlist: async ({ eventId, userId }: WaitlistFilter = {}) => {
+      events.filter(e => !eventId || e.id === eventId).forEach(e => promoteWaitlist(e.id));
+      return waitlist
+        .list()
+        .filter(entry => (!eventId || entry.eventId === eventId) && (!userId || entry.userId === userId));
+    },
+
+    joinWaitlist: async ({ eventId, sessionId, userId, items }: JoinWaitlistInput) => {
+      if (!userId) {
+        throw new RepositoryError('invalid_request', 'Sign in to join the waitlist');
+      }
+      promoteWaitlist(eventId);
+      const event = findBookingTarget(eventId, sessionId);
+      validateSelection(event, items);
+      return waitlist.join(event, userId, items.map(({ tierId, quantity }) => ({ tierId, quantity })));
+    },
+
+    leaveWaitlist: async (entryId: string, userId: string) => {
+      const existing = waitlist.list().find(e => e.id === entryId);
+      if (existing && existing.userId !== userId) {
+        throw new RepositoryError('invalid_request', 'Only the account on the waitlist can leave it');
+      }
+      const entry = waitlist.leave(entryId);
+      promoteWaitlist(entry.eventId);
+      return entry;
+    },
+  };
+};
@@ -0,0 +1,219 @@
+import { Event } from '@/context/EventContext';
+import { SeatMap, SeatSection, buildSeatSection, getSectionSeatIds } from '@/utils/seatMap';
+
+// Tripoli Theatre, where the comedy night sells numbered seats
+const tripoliTheatreSeatMap: SeatMap = {
+  venue: 'Tripoli Theatre',
+  venueAr: 'مسرح طرابلس',
+  sections: [
+    buildSeatSection({
+      id: 'vip',
+      name: 'VIP front rows',
+      nameAr: 'الصفوف الأمامية',
+      tierIds: ['vip'],
+      rows: ['A', 'B'],
+      seatsPerRow: 15,
+    }),
+    buildSeatSection({
+      id: 'stalls',
+      name: 'Stalls',
+      nameAr: 'الصالة',
+      tierIds: ['early-bird', 'standard', 'student'],
+      rows: ['C', 'D', 'E', 'F', 'G', 'H', 'I', 'J', 'K', 'L', 'M', 'N', 'O', 'P', 'Q', 'R'],
+      seatsPerRow: 20,
+      accessibleSeats: ['R-1', 'R-20'],
+    }),
+    buildSeatSection({
+      id: 'balcony',
+      name: 'Balcony',
+      nameAr: 'الشرفة',
+      tierIds: ['standard', 'student'],
+      rows: ['S', 'T'],
+      seatsPerRow: 25,
+    }),
+  ],
+};
+
+const firstSeats = (section: SeatSection, count: number): string[] => getSectionSeatIds(section).slice(0, count);
+
+// Seed catalogue used by the local repositories and the mock event server
+export const mockEvents: Event[] = [
+  {
+    id: '1',
+    title: 'Government Digital Transformation Conference',
+    titleAr: 'مؤتمر التحول الرقمي الحكومي',
+    description: 'Learn about the latest government digital initiatives and transformation strategies.',
+    descriptionAr: 'تعرف على أحدث المبادرات الحكومية للتحول الرقمي واستراتيجيات التطوير.',
+    category: 'government',
+    date: '2024-02-15',
+    time: '09:00',
+    location: 'Tripoli Convention Center',
+    locationAr: 'مركز طرابلس للمؤتمرات',
+    price: 0,
+    image: 'https://images.pexels.com/photos/3184435/pexels-photo-3184435.jpeg',
+    organizer: 'Ministry of Digital Transformation',
+    organizerAr: 'وزارة التحول الرقمي',
+    isFeatured: true,
+    latitude: 32.8872,
+    longitude: 13.1913,
+    maxAttendees: 500,
+    currentAttendees: 245,
+  },
+  {
+    id: '2',
+    title: 'International School Fair',
+    titleAr: 'معرض المدارس الدولية',
+    description: 'Discover the best international schools in Libya and their programs.',
+    descriptionAr: 'اكتشف أفضل المدارس الدولية في ليبيا وبرامجها التعليمية.',
+    category: 'schools',
+    date: '2024-02-20',
+    time: '10:00',
+    location: 'Benghazi Educational Complex',
+    locationAr: 'مجمع بنغازي التعليمي',
+    price: 5,
+    image: 'https://images.pexels.com/photos/289737/pexels-photo-289737.jpeg',
+    organizer: 'Libya Education Council',
+    organizerAr: 'مجلس التعليم الليبي',
+    isFeatured: true,
+    latitude: 32.1244,
+    longitude: 20.0707,
+    maxAttendees: 300,
+    currentAttendees: 156,
+  },
+  {
+    id: '3',
+    title: 'Health & Wellness Expo',
+    titleAr: 'معرض الصحة والعافية',
+    description: 'Latest medical technologies and wellness solutions for a healthier Libya.',
+    descriptionAr: 'أحدث التقنيات الطبية وحلول العافية من أجل ليبيا أكثر صحة.',
+    category: 'clinics',
+    date: '2024-02-25',
+    time: '08:30',
+    location: 'Tripoli Medical Center',
+    locationAr: 'المركز الطبي طرابلس',
+    price: 10,
+    image: 'https://images.pexels.com/photos/40568/medical-appointment-doctor-healthcare-40568.jpeg',
+    organizer: 'Libya Health Association',
+    organizerAr: 'جمعية الصحة الليبية',
+    isFeatured: false,
+    latitude: 32.8925,
+    longitude: 13.1802,
+    maxAttendees: 200,
+    currentAttendees: 89,
+  },
+  {
+    id: '4',
+    title: 'Traditional Wedding Celebration',
+    titleAr: 'احتفال الزفاف التقليدي',
+    description: 'Experience authentic Libyan wedding traditions and celebrations.',
+    descriptionAr: 'اختبر تقاليد الزفاف الليبية الأصيلة والاحتفالات التراثية.',
+    category: 'occasions',
+    date: '2024-03-01',
+    time: '18:00',
+    location: 'Al-Saraya Al-Hamra',
+    locationAr: 'السرايا الحمراء',
+    price: 25,
+    image: 'https://images.pexels.com/photos/1444442/pexels-photo-1444442.jpeg',
+    organizer: 'Cultural Heritage Society',
+    organizerAr: 'جمعية التراث الثقافي',
+    isFeatured: true,
+    latitude: 32.8925,
+    longitude: 13.1802,
+    maxAttendees: 150,
+    currentAttendees: 127,
+    // Limited seating, so late cancellations are not refunded
+    cancellationPolicy: {
+      rules: [
+        { hoursBefore: 7 * 24, refundPercent: 100 },
+        { hoursBefore: 72, refundPercent: 50 },
+      ],
+    },
+  },
+  {
+    id: '5',
+    title: 'Comedy Night Show',
+    titleAr: 'عرض الكوميديا الليلي',
+    description: 'Laugh the night away with Libya\'s top comedians.',
+    descriptionAr: 'استمتع بليلة من الضحك مع أفضل الكوميديين في ليبيا.',
+    category: 'entertainment',
+    date: '2024-03-05',
+    time: '20:00',
+    location: 'Tripoli Theatre',
+    locationAr: 'مسرح طرابلس',
+    price: 8,
+    image: 'https://images.pexels.com/photos/713149/pexels-photo-713149.jpeg',
+    organizer: 'Entertainment Libya',
+    organizerAr: 'ترفيه ليبيا',
+    isFeatured: false,
+    latitude: 32.8872,
+    longitude: 13.1913,
+    maxAttendees: 400,
+    currentAttendees: 298,
+    tiers: [
+      {
+        id: 'early-bird',
+        name: 'Early bird',
+        nameAr: 'حجز مبكر',
+        price: 10,
+        capacity: 100,
+        sold: 100,
+        salesEnd: '2024-02-20T23:59:00',
+      },
+      {
+        id: 'standard',
+        name: 'Standard',
+        nameAr: 'تذكرة عادية',
+        price: 15,
+        capacity: 220,
+        sold: 160,
+      },
+      {
+        id: 'student',
+        name: 'Student',
+        nameAr: 'طالب',
+        price: 8,
+        capacity: 50,
+        sold: 30,
+        eligibility: 'Valid student ID required at the door',
+        eligibilityAr: 'يشترط إبراز بطاقة طالب سارية عند الدخول',
+      },
+      {
+        id: 'vip',
+        name: 'VIP',
+        nameAr: 'كبار الشخصيات',
+        price: 40,
+        capacity: 30,
+        sold: 8,
+        eligibility: 'Front-row seating and a meet-and-greet',
+        eligibilityAr: 'مقاعد في الصف الأول ولقاء مع الفنانين',
+      },
+    ],
+    seatMap: tripoliTheatreSeatMap,
+    bookedSeats: [
+      ...firstSeats(tripoliTheatreSeatMap.sections[0], 8),
+      ...firstSeats(tripoliTheatreSeatMap.sections[1], 270),
+      ...firstSeats(tripoliTheatreSeatMap.sections[2], 20),
+    ],
+  },
+  {
+    id: '6',
+    title: 'New Shopping Mall Opening',
+    titleAr: 'افتتاح المركز التجاري الجديد',
+    description: 'Grand opening of Libya\'s newest and largest shopping destination.',
+    descriptionAr: 'الافتتاح الكبير لأحدث وأكبر وجهة تسوق في ليبيا.',
+    category: 'openings',
+    date: '2024-03-10',
+    time: '11:00',
+    location: 'New Tripoli Mall',
+    locationAr: 'مول طرابلس الجديد',
+    price: 0,
+    image: 'https://images.pexels.com/photos/264507/pexels-photo-264507.jpeg',
+    organizer: 'Libya Commercial Group',
+    organizerAr: 'المجموعة التجارية الليبية',
+    isFeatured: true,
+    latitude: 32.8925,
+    longitude: 13.1802,
+    maxAttendees: 1000,
+    currentAttendees: 756,
+  },
+];
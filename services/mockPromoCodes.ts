@@ -0,0 +1,55 @@
+import { PromoCode } from '@/utils/pricing';
+
+// Seed promo codes used by the local repositories and the mock event server
+export const mockPromoCodes: PromoCode[] = [
+  {
+    code: 'WELCOME10',
+    type: 'percentage',
+    value: 10,
+    description: '10% off your first booking',
+    descriptionAr: 'خصم 10% على حجزك الأول',
+    maxUsesPerUser: 1,
+    timesUsed: 0,
+  },
+  {
+    code: 'GROUP20',
+    type: 'percentage',
+    value: 20,
+    maxDiscount: 50,
+    description: '20% off bookings of 4 tickets or more, up to 50 LYD',
+    descriptionAr: 'خصم 20% عند حجز 4 تذاكر أو أكثر بحد أقصى 50 د.ل',
+    minTickets: 4,
+    timesUsed: 0,
+  },
+  {
+    code: 'FUN5',
+    type: 'fixed',
+    value: 5,
+    description: '5 LYD off entertainment events',
+    descriptionAr: 'خصم 5 د.ل على فعاليات الترفيه',
+    categories: ['entertainment'],
+    maxUses: 200,
+    maxUsesPerUser: 2,
+    timesUsed: 37,
+  },
+  {
+    code: 'COMEDY50',
+    type: 'percentage',
+    value: 50,
+    description: 'Half price at Comedy Night Show',
+    descriptionAr: 'نصف السعر في عرض الكوميديا الليلي',
+    eventIds: ['5'],
+    maxUses: 50,
+    timesUsed: 50,
+  },
+  {
+    code: 'EID2024',
+    type: 'fixed',
+    value: 10,
+    description: 'Eid al-Fitr offer',
+    descriptionAr: 'عرض عيد الفطر',
+    validFrom: '2024-04-08T00:00:00',
+    expiresAt: '2024-04-15T23:59:00',
+    timesUsed: 0,
+  },
+];
@@ -0,0 +1,82 @@
+export type PaymentMethod = 'card' | 'cash';
+
+// Partially refunded payments keep the rest of the captured amount; refunded ones give it all back
+export type PaymentStatus = 'pending' | 'authorized' | 'captured' | 'partially_refunded' | 'refunded' | 'failed';
+
+/**
+ * Payment state stored on a booking
+ */
+export interface BookingPayment {
+  method: PaymentMethod;
+  status: PaymentStatus;
+  amount: number; // LYD
+  reference?: string; // the provider's id for the charge
+  refundedAmount?: number; // total given back so far
+  failureReason?: string;
+  updatedAt: string;
+}
+
+/**
+ * Money given back on a booking, recorded when it is cancelled
+ */
+export interface BookingRefund {
+  id: string;
+  amount: number;
+  percent: number; // share of the paid amount the cancellation policy allowed
+  reason: 'cancellation' | 'event_cancelled'; // event cancellations are refunded in full
+  createdAt: string;
+  failureReason?: string; // set when the payment provider did not give the money back
+}
+
+export interface PaymentRequest {
+  bookingId: string;
+  amount: number;
+  method: PaymentMethod;
+  source?: string; // card token from the provider's checkout
+}
+
+/**
+ * Contract for payment gateways. Amounts are in LYD.
+ */
+export interface PaymentProvider {
+  name: string;
+  /**
+   * Hold the amount without moving money; resolves with the provider's reference
+   */
+  authorize: (request: PaymentRequest) => Promise<{ reference: string }>;
+  capture: (reference: string, amount: number) => Promise<void>;
+  refund: (reference: string, amount: number) => Promise<void>;
+  /**
+   * Release an authorization that will never be captured
+   */
+  release: (reference: string) => Promise<void>;
+}
+
+export type PaymentErrorCode = 'declined' | 'invalid_request' | 'unavailable';
+
+export class PaymentError extends Error {
+  code: PaymentErrorCode;
+
+  constructor(code: PaymentErrorCode, message: string) {
+    super(message);
+    this.name = 'PaymentError';
+    this.code = code;
+  }
+}
+
+// Status changes a booking's payment may go through
+const PAYMENT_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ['authorized', 'failed'],
+  authorized: ['captured', 'refunded', 'failed'],
+  captured: ['partially_refunded', 'refunded'],
+  partially_refunded: ['partially_refunded', 'refunded'],
+  refunded: [],
+  failed: [],
+};
+
+/**
+ * Check whether a payment may move from one status to another
+ */
+export const canTransitionPayment = (from: PaymentStatus, to: PaymentStatus): boolean => {
+  return PAYMENT_TRANSITIONS[from].includes(to);
+};
@@ -0,0 +1,160 @@
+import { Event, Booking } from '@/context/EventContext';
+import { CheckIn } from '@/context/CheckInContext';
+import type { User } from '@/context/AuthContext';
+import { EventRepository, RepositoryError, RepositoryErrorCode } from '@/services/eventRepository';
+import { AccountSummary, AuthError, AuthSession, SignedIn, isAuthErrorCode } from '@/services/accounts';
+import { PaymentError } from '@/services/paymentProvider';
+import { SeatHold } from '@/services/seatInventory';
+import { WaitlistEntry } from '@/services/waitlist';
+import { PriceQuote } from '@/utils/pricing';
+
+export interface RestEventRepositoryOptions {
+  baseUrl: string;
+  headers?: Record<string, string>;
+  getAccessToken?: () => Promise<string | null>; // sent as a bearer token when signed in
+  fetchImpl?: typeof fetch;
+}
+
+const codeForStatus = (status: number): RepositoryErrorCode => {
+  if (status === 404) return 'not_found';
+  if (status === 409) return 'sold_out';
+  if (status >= 400 && status < 500) return 'invalid_request';
+  return 'server';
+};
+
+// Query string for the filter's values that are set, empty when none are
+const toQuery = (filter: object): string => {
+  const params = Object.entries(filter)
+    .filter(([, value]) => value)
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`);
+  return params.length > 0 ? `?${params.join('&')}` : '';
+};
+
+/**
+ * Repository backed by the Mi3AD events HTTP API.
+ * The same routes are served locally by server/mockEventServer.ts.
+ */
+export const createRestEventRepository = ({
+  baseUrl,
+  headers,
+  getAccessToken,
+  fetchImpl = fetch,
+}: RestEventRepositoryOptions): EventRepository => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  // Session routes go out without a token, since getting one may be what they are called for
+  const request = async <T>(
+    path: string,
+    init: { method?: string; body?: unknown; signedOut?: boolean } = {}
+  ): Promise<T> => {
+    const token = getAccessToken && !init.signedOut ? await getAccessToken() : null;
+    let response: Response;
+    try {
+      response = await fetchImpl(`${root}${path}`, {
+        method: init.method || 'GET',
+        headers: {
+          Accept: 'application/json',
+          ...(init.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          ...headers,
+        },
+        body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+      });
+    } catch (error) {
+      throw new RepositoryError('network', `Request to ${path} failed: ${error}`);
+    }
+
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      const message = payload?.error?.message || `Request to ${path} failed with status ${response.status}`;
+      // Sign-in problems keep their own error type, so screens can tell them apart
+      if (isAuthErrorCode(payload?.error?.code)) throw new AuthError(payload.error.code, message);
+      if (response.status === 401) throw new AuthError('signed_out', message);
+      // ...and so do payments the provider turned down
+      if (response.status === 402) {
+        throw new PaymentError(payload?.error?.code === 'declined' ? 'declined' : 'unavailable', message);
+      }
+      throw new RepositoryError(payload?.error?.code || codeForStatus(response.status), message);
+    }
+    return payload as T;
+  };
+
+  return {
+    listEvents: (filter = {}) => request<Event[]>(`/events${toQuery(filter)}`),
+    getEvent: (id) => request<Event>(`/events/${encodeURIComponent(id)}`),
+    searchEvents: (query) => request<Event[]>(`/events?q=${encodeURIComponent(query)}`),
+    createEvent: (input) => request<Event>('/events', { method: 'POST', body: input }),
+    updateEvent: (eventId, input) =>
+      request<Event>(`/events/${encodeURIComponent(eventId)}`, { method: 'PATCH', body: input }),
+    setEventStatus: (eventId, input) =>
+      request<Event>(`/events/${encodeURIComponent(eventId)}/status`, { method: 'POST', body: input }),
+    reviewEvent: (eventId, input) =>
+      request<Event>(`/events/${encodeURIComponent(eventId)}/review`, { method: 'POST', body: input }),
+    deleteEvent: async (eventId, organizerId) => {
+      await request<null>(
+        `/events/${encodeURIComponent(eventId)}?organizerId=${encodeURIComponent(organizerId)}`,
+        { method: 'DELETE' }
+      );
+    },
+    isModerator: async (userId) => {
+      const { isModerator } = await request<{ isModerator: boolean }>(`/moderators/${encodeURIComponent(userId)}`);
+      return isModerator;
+    },
+    registerAccount: (input) => request<SignedIn>('/auth/register', { method: 'POST', body: input, signedOut: true }),
+    signIn: (phone, password) =>
+      request<SignedIn>('/auth/sessions', { method: 'POST', body: { phone, password }, signedOut: true }),
+    refreshSession: (refreshToken) =>
+      request<AuthSession>('/auth/refresh', { method: 'POST', body: { refreshToken }, signedOut: true }),
+    signOut: async (refreshToken) => {
+      await request<null>('/auth/sign-out', { method: 'POST', body: { refreshToken }, signedOut: true });
+    },
+    getAccount: (userId) => request<User>(`/accounts/${encodeURIComponent(userId)}`),
+    updateAccount: (userId, changes) =>
+      request<User>(`/accounts/${encodeURIComponent(userId)}`, { method: 'PATCH', body: changes }),
+    findAccountByPhone: async (phone) => {
+      const [account] = await request<AccountSummary[]>(`/accounts?phone=${encodeURIComponent(phone)}`);
+      return account || null;
+    },
+    listBookings: (filter) => request<Booking[]>(`/bookings${toQuery(filter)}`),
+    getCalendarFeedPath: async (userId) => {
+      const { path } = await request<{ path: string }>(`/calendar-feeds/${encodeURIComponent(userId)}`);
+      return path;
+    },
+    holdSeats: (input) => request<SeatHold>('/holds', { method: 'POST', body: input }),
+    releaseHold: async (holdId) => {
+      await request<null>(`/holds/${encodeURIComponent(holdId)}`, { method: 'DELETE' });
+    },
+    priceBooking: (input) => request<PriceQuote>('/pricing/quote', { method: 'POST', body: input }),
+    bookEvent: (input) => request<Booking>('/bookings', { method: 'POST', body: input }),
+    payForBooking: (bookingId, { source }) =>
+      request<Booking>(`/bookings/${encodeURIComponent(bookingId)}/payment`, { method: 'POST', body: { source } }),
+    cancelBooking: (bookingId) =>
+      request<Booking>(`/bookings/${encodeURIComponent(bookingId)}/cancel`, { method: 'POST' }),
+    transferTicket: ({ bookingId, attendeeId, ...recipient }) =>
+      request<Booking>(
+        `/bookings/${encodeURIComponent(bookingId)}/attendees/${encodeURIComponent(attendeeId)}/transfer`,
+        { method: 'POST', body: recipient }
+      ),
+    createApplePass: async ({ bookingId, ...input }) => {
+      const { pkpass } = await request<{ pkpass: string }>(
+        `/bookings/${encodeURIComponent(bookingId)}/wallet/apple`,
+        { method: 'POST', body: input }
+      );
+      return pkpass;
+    },
+    createGoogleWalletLink: async ({ bookingId, ...input }) => {
+      const { saveUrl } = await request<{ saveUrl: string }>(
+        `/bookings/${encodeURIComponent(bookingId)}/wallet/google`,
+        { method: 'POST', body: input }
+      );
+      return saveUrl;
+    },
+    markTicketAsUsed: (bookingId, { count, attendeeId }) =>
+      request<Booking>(`/bookings/${encodeURIComponent(bookingId)}/use`, { method: 'POST', body: { count, attendeeId } }),
+    syncCheckIns: (input) => request<CheckIn[]>('/check-ins/sync', { method: 'POST', body: input }),
+    listWaitlist: (filter = {}) => request<WaitlistEntry[]>(`/waitlist${toQuery(filter)}`),
+    joinWaitlist: (input) => request<WaitlistEntry>('/waitlist', { method: 'POST', body: input }),
+    leaveWaitlist: (entryId) =>
+      request<WaitlistEntry>(`/waitlist/${encodeURIComponent(entryId)}`, { method: 'DELETE' }),
+  };
+};
@@ -0,0 +1,82 @@
+import { PaymentProvider, PaymentRequest, PaymentError } from '@/services/paymentProvider';
+
+export interface SandboxPaymentProviderOptions {
+  // Card tokens that are always declined
+  declinedSources?: string[];
+  // Simulated gateway latency in milliseconds
+  latency?: number;
+}
+
+interface SandboxCharge {
+  amount: number;
+  captured: number;
+  refunded: number;
+  released: boolean;
+}
+
+export const SANDBOX_DECLINED_SOURCE = 'tok_declined';
+
+/**
+ * Local payment gateway for development and tests.
+ * Authorizes everything except the declined test tokens and keeps charges in memory.
+ */
+export const createSandboxPaymentProvider = ({
+  declinedSources = [SANDBOX_DECLINED_SOURCE],
+  latency = 0,
+}: SandboxPaymentProviderOptions = {}): PaymentProvider => {
+  const charges = new Map<string, SandboxCharge>();
+  let sequence = 0;
+
+  const delay = () => new Promise<void>(resolve => setTimeout(resolve, latency));
+
+  const findCharge = (reference: string): SandboxCharge => {
+    const charge = charges.get(reference);
+    if (!charge) throw new PaymentError('invalid_request', `Unknown charge ${reference}`);
+    return charge;
+  };
+
+  return {
+    name: 'sandbox',
+
+    authorize: async ({ bookingId, amount, source }: PaymentRequest) => {
+      await delay();
+      if (!(amount > 0)) {
+        throw new PaymentError('invalid_request', 'Amount must be positive');
+      }
+      if (source && declinedSources.includes(source)) {
+        throw new PaymentError('declined', 'Card declined by the sandbox');
+      }
+
+      const reference = `sbx_${bookingId}_${++sequence}`;
+      charges.set(reference, { amount, captured: 0, refunded: 0, released: false });
+      return { reference };
+    },
+
+    capture: async (reference, amount) => {
+      await delay();
+      const charge = findCharge(reference);
+      if (charge.released || charge.captured + amount > charge.amount) {
+        throw new PaymentError('invalid_request', 'Capture exceeds the authorized amount');
+      }
+      charge.captured += amount;
+    },
+
+    refund: async (reference, amount) => {
+      await delay();
+      const charge = findCharge(reference);
+      if (charge.refunded + amount > charge.captured) {
+        throw new PaymentError('invalid_request', 'Refund exceeds the captured amount');
+      }
+      charge.refunded += amount;
+    },
+
+    release: async (reference) => {
+      await delay();
+      const charge = findCharge(reference);
+      if (charge.captured > 0) {
+        throw new PaymentError('invalid_request', 'Captured charges must be refunded instead');
+      }
+      charge.released = true;
+    },
+  };
+};
@@ -0,0 +1,135 @@
+import { Event } from '@/context/EventContext';
+import { RepositoryError } from '@/services/eventRepository';
+import { getEventTiers, countTickets, TicketSelection } from '@/utils/ticketTiers';
+
+/**
+ * Seats set aside for a user while they are at checkout
+ */
+export interface SeatHold {
+  id: string;
+  eventId: string;
+  sessionId?: string; // for events with sessions, the session the seats are in
+  userId: string;
+  items: TicketSelection[];
+  ticketCount: number;
+  expiresAt: string;
+}
+
+// How long seats stay held at checkout
+export const SEAT_HOLD_DURATION = 10 * 60 * 1000;
+
+export interface SeatInventory {
+  /**
+   * Seats neither booked nor held by an unexpired hold, for the event or one of its tiers.
+   * Events seen through one of their sessions only count that session's holds.
+   */
+  available: (event: Event, tierId?: string) => number;
+  /**
+   * Check whether every selected tier, and the event, has room (chosen seats are not checked)
+   */
+  hasRoom: (event: Event, items: TicketSelection[]) => boolean;
+  /**
+   * Throw a `sold_out` error unless every selected tier, and the event, has room
+   * and none of the chosen seats is booked or held
+   */
+  ensureAvailable: (event: Event, items: TicketSelection[]) => void;
+  hold: (event: Event, userId: string, items: TicketSelection[], duration?: number) => SeatHold;
+  /**
+   * Put back a hold kept outside the inventory, such as a waitlist offer loaded from storage
+   */
+  restore: (hold: SeatHold) => void;
+  release: (holdId: string) => void;
+  /**
+   * Remove a hold so its seats can be booked; returns undefined when it has expired
+   */
+  take: (holdId: string) => SeatHold | undefined;
+}
+
+/**
+ * Track checkout holds for the repository. Every operation runs synchronously,
+ * so the availability check and the hold it guards cannot interleave with another booking.
+ */
+export const createSeatInventory = (now: () => number = Date.now): SeatInventory => {
+  let holds: SeatHold[] = [];
+  let sequence = 0;
+
+  const activeHolds = (): SeatHold[] => {
+    holds = holds.filter(hold => new Date(hold.expiresAt).getTime() > now());
+    return holds;
+  };
+
+  const holdsFor = (event: Event): SeatHold[] =>
+    activeHolds().filter(hold => hold.eventId === event.id && hold.sessionId === event.sessionId);
+
+  const available = (event: Event, tierId?: string): number => {
+    const eventHolds = holdsFor(event);
+
+    if (!tierId) {
+      const held = eventHolds.reduce((sum, hold) => sum + hold.ticketCount, 0);
+      return event.maxAttendees - event.currentAttendees - held;
+    }
+
+    const tier = getEventTiers(event).find(t => t.id === tierId);
+    if (!tier) return 0;
+    const held = eventHolds
+      .flatMap(hold => hold.items)
+      .filter(item => item.tierId === tierId)
+      .reduce((sum, item) => sum + item.quantity, 0);
+    return Math.min(tier.capacity - tier.sold - held, available(event));
+  };
+
+  const hasRoom = (event: Event, items: TicketSelection[]): boolean => {
+    const short = items.some(item => available(event, item.tierId) < item.quantity);
+    return !short && available(event) >= countTickets(items);
+  };
+
+  const ensureAvailable = (event: Event, items: TicketSelection[]) => {
+    if (!hasRoom(event, items)) {
+      throw new RepositoryError('sold_out', 'Not enough seats left for this event');
+    }
+
+    const taken = new Set([
+      ...(event.bookedSeats || []),
+      ...holdsFor(event).flatMap(hold => hold.items.flatMap(item => item.seatIds || [])),
+    ]);
+    if (items.some(item => (item.seatIds || []).some(seatId => taken.has(seatId)))) {
+      throw new RepositoryError('sold_out', 'Some of the chosen seats are already taken');
+    }
+  };
+
+  return {
+    available,
+    hasRoom,
+    ensureAvailable,
+
+    hold: (event, userId, items, duration = SEAT_HOLD_DURATION) => {
+      ensureAvailable(event, items);
+
+      const hold: SeatHold = {
+        id: `hold-${now()}-${++sequence}`,
+        eventId: event.id,
+        ...(event.sessionId ? { sessionId: event.sessionId } : {}),
+        userId,
+        items,
+        ticketCount: countTickets(items),
+        expiresAt: new Date(now() + duration).toISOString(),
+      };
+      holds = [...holds, hold];
+      return hold;
+    },
+
+    restore: (hold) => {
+      holds = [...holds.filter(h => h.id !== hold.id), hold];
+    },
+
+    release: (holdId) => {
+      holds = holds.filter(hold => hold.id !== holdId);
+    },
+
+    take: (holdId) => {
+      const hold = activeHolds().find(h => h.id === holdId);
+      holds = holds.filter(h => h.id !== holdId);
+      return hold;
+    },
+  };
+};
@@ -0,0 +1,155 @@
+import { Event } from '@/context/EventContext';
+import { RepositoryError } from '@/services/eventRepository';
+import { SeatHold, SeatInventory } from '@/services/seatInventory';
+import { TicketSelection, countTickets } from '@/utils/ticketTiers';
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'booked' | 'expired' | 'left';
+
+/**
+ * A user queued for a sold-out event
+ */
+export interface WaitlistEntry {
+  id: string;
+  eventId: string;
+  sessionId?: string; // for events with sessions, the session being waited for
+  userId: string;
+  items: TicketSelection[];
+  ticketCount: number;
+  status: WaitlistStatus;
+  joinedAt: string;
+  offer?: SeatHold; // seats held for the user while the offer is open
+  position?: number; // place in the queue while waiting, 1 is next
+}
+
+// How long a waitlist offer holds the freed seats before they pass to the next person
+export const WAITLIST_OFFER_DURATION = 30 * 60 * 1000;
+
+export const WAITLIST_MAX_TICKETS = 5;
+
+export interface Waitlist {
+  list: () => WaitlistEntry[];
+  /**
+   * Check whether anyone is still waiting for an event, or one of its sessions;
+   * their claim comes before new checkouts
+   */
+  hasQueue: (eventId: string, sessionId?: string) => boolean;
+  join: (event: Event, userId: string, items: TicketSelection[]) => WaitlistEntry;
+  leave: (entryId: string) => WaitlistEntry;
+  /**
+   * Mark the entry whose offer was used for a booking as booked
+   */
+  accept: (holdId: string) => void;
+  /**
+   * Expire lapsed offers, then offer free seats to waiting users in the order they joined.
+   * Events seen through a session only promote that session's queue.
+   * Returns the entries that received an offer.
+   */
+  promote: (event: Event) => WaitlistEntry[];
+}
+
+/**
+ * First-in-first-out waitlist on top of the seat inventory. Offers are seat holds,
+ * so nobody else can book the seats while an offer is open.
+ */
+export const createWaitlist = (
+  inventory: SeatInventory,
+  initialEntries: WaitlistEntry[] = [],
+  now: () => number = Date.now
+): Waitlist => {
+  let entries = initialEntries.map(entry => ({ ...entry }));
+  let sequence = 0;
+
+  const isExpired = (offer: SeatHold) => new Date(offer.expiresAt).getTime() <= now();
+
+  // Open offers loaded from storage keep their seats
+  entries
+    .filter(entry => entry.status === 'offered' && entry.offer && !isExpired(entry.offer))
+    .forEach(entry => inventory.restore(entry.offer!));
+
+  const update = (entryId: string, changes: Partial<WaitlistEntry>): WaitlistEntry => {
+    const entry = entries.find(e => e.id === entryId);
+    if (!entry) throw new RepositoryError('not_found', 'Waitlist entry not found');
+    const updated = { ...entry, ...changes };
+    entries = entries.map(e => (e.id === entryId ? updated : e));
+    return updated;
+  };
+
+  const waiting = (eventId: string, sessionId?: string) =>
+    entries.filter(e => e.eventId === eventId && e.sessionId === sessionId && e.status === 'waiting');
+
+  return {
+    list: () =>
+      entries.map(entry =>
+        entry.status === 'waiting'
+          ? { ...entry, position: waiting(entry.eventId, entry.sessionId).findIndex(e => e.id === entry.id) + 1 }
+          : entry
+      ),
+
+    hasQueue: (eventId, sessionId) => waiting(eventId, sessionId).length > 0,
+
+    join: (event, userId, items) => {
+      const ticketCount = countTickets(items);
+      if (ticketCount > WAITLIST_MAX_TICKETS) {
+        throw new RepositoryError('invalid_request', `At most ${WAITLIST_MAX_TICKETS} tickets can be requested from the waitlist`);
+      }
+      const existing = entries.find(
+        e =>
+          e.eventId === event.id &&
+          e.sessionId === event.sessionId &&
+          e.userId === userId &&
+          (e.status === 'waiting' || e.status === 'offered')
+      );
+      if (existing) {
+        throw new RepositoryError('invalid_request', 'Already on the waitlist for this event');
+      }
+      // Seats left over while others wait are theirs, so joining behind them is allowed
+      if (inventory.hasRoom(event, items) && waiting(event.id, event.sessionId).length === 0) {
+        throw new RepositoryError('invalid_request', 'Tickets are still available for this event');
+      }
+
+      const entry: WaitlistEntry = {
+        id: `wait-${now()}-${++sequence}`,
+        eventId: event.id,
+        ...(event.sessionId ? { sessionId: event.sessionId } : {}),
+        userId,
+        items,
+        ticketCount,
+        status: 'waiting',
+        joinedAt: new Date(now()).toISOString(),
+      };
+      entries = [...entries, entry];
+      return entry;
+    },
+
+    leave: (entryId) => {
+      const entry = entries.find(e => e.id === entryId);
+      if (!entry) throw new RepositoryError('not_found', 'Waitlist entry not found');
+      if (entry.status !== 'waiting' && entry.status !== 'offered') return entry;
+
+      if (entry.offer) inventory.release(entry.offer.id);
+      return update(entryId, { status: 'left' });
+    },
+
+    accept: (holdId) => {
+      const entry = entries.find(e => e.status === 'offered' && e.offer?.id === holdId);
+      if (entry) update(entry.id, { status: 'booked' });
+    },
+
+    promote: (event) => {
+      entries
+        .filter(e =>
+          e.eventId === event.id && e.sessionId === event.sessionId && e.status === 'offered' && e.offer && isExpired(e.offer)
+        )
+        .forEach(e => update(e.id, { status: 'expired' }));
+
+      const offered: WaitlistEntry[] = [];
+      // Strictly in join order: nobody is skipped because they asked for more seats
+      for (const entry of waiting(event.id, event.sessionId)) {
+        if (!inventory.hasRoom(event, entry.items)) break;
+        const offer = inventory.hold(event, entry.userId, entry.items, WAITLIST_OFFER_DURATION);
+        offered.push(update(entry.id, { status: 'offered', offer }));
+      }
+      return offered;
+    },
+  };
+};
@@ -0,0 +1,160 @@
+import forge from 'node-forge';
+import { PassCertificate, buildPkpass, createPassManifest } from '@/utils/appleWalletPass';
+import { crc32 } from '@/utils/zipArchive';
+import type { PassData } from '@/utils/walletUtils';
+
+const passData: PassData = {
+  eventTitle: 'مهرجان طرابلس',
+  eventDate: '2025-06-01',
+  eventTime: '19:00',
+  location: 'طرابلس',
+  ticketCount: 2,
+  totalPrice: 50,
+  qrCode: 'MI3AD2.payload.signature',
+  holderName: 'أحمد',
+  organizerName: 'Mi3AD',
+  bookingId: 'booking-1',
+  eventId: 'event-1',
+  eventStart: '2025-06-01T19:00:00.000Z',
+};
+
+const identity = { passTypeIdentifier: 'pass.com.mi3ad.test', teamIdentifier: 'TEAM123' };
+
+const assets = { 'icon.png': '\x89PNG\r\n\x1a\nicon', 'logo.png': '\x89PNG\r\n\x1a\nlogo' };
+
+// Self-signed stand-ins for the Pass Type ID and WWDR certificates
+const createCertificate = (): PassCertificate => {
+  const keys = forge.pki.rsa.generateKeyPair({ bits: 1024, e: 0x10001 });
+  const certificate = forge.pki.createCertificate();
+  certificate.publicKey = keys.publicKey;
+  certificate.serialNumber = '01';
+  certificate.validity.notBefore = new Date('2024-01-01');
+  certificate.validity.notAfter = new Date('2034-01-01');
+  const attributes = [{ name: 'commonName', value: 'Pass Type ID: pass.com.mi3ad.test' }];
+  certificate.setSubject(attributes);
+  certificate.setIssuer(attributes);
+  certificate.sign(keys.privateKey, forge.md.sha256.create());
+  const pem = forge.pki.certificateToPem(certificate);
+  return { certificatePem: pem, privateKeyPem: forge.pki.privateKeyToPem(keys.privateKey), wwdrCertificatePem: pem };
+};
+
+// forge cannot verify PKCS#7 signatures, so the signer info is checked by hand
+const readSignerInfo = (signature: string) => {
+  const message = forge.pkcs7.messageFromAsn1(forge.asn1.fromDer(signature)) as forge.pkcs7.PkcsSignedData & {
+    rawCapture: { signerInfos: forge.asn1.Asn1[] };
+  };
+  const fields = message.rawCapture.signerInfos[0].value as forge.asn1.Asn1[];
+  const signedAttributes = fields.find(field => field.tagClass === forge.asn1.Class.CONTEXT_SPECIFIC && field.type === 0)!;
+  const attributes = signedAttributes.value as forge.asn1.Asn1[];
+  const attributeValue = (oid: string) => {
+    const attribute = attributes.find(a => forge.asn1.derToOid((a.value as forge.asn1.Asn1[])[0].value as string) === oid)!;
+    return ((attribute.value as forge.asn1.Asn1[])[1].value as forge.asn1.Asn1[])[0].value as string;
+  };
+  // The signature covers the attributes encoded as a SET rather than under their [0] tag
+  const signedBytes = forge.asn1
+    .toDer(forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.SET, true, attributes))
+    .getBytes();
+  return {
+    certificates: message.certificates,
+    messageDigest: attributeValue(forge.pki.oids.messageDigest),
+    signedBytes,
+    encryptedDigest: fields[fields.length - 1].value as string,
+  };
+};
+
+// forge throws rather than returning false when the signature was made with another key
+const verifies = (certificatePem: string, signedBytes: string, encryptedDigest: string): boolean => {
+  const publicKey = forge.pki.certificateFromPem(certificatePem).publicKey as forge.pki.rsa.PublicKey;
+  const digest = forge.md.sha256.create().update(signedBytes).digest().getBytes();
+  try {
+    return publicKey.verify(digest, encryptedDigest);
+  } catch {
+    return false;
+  }
+};
+
+// Read the entries of a stored (uncompressed) zip archive, in order
+const readZip = (archive: string) => {
+  const readUint16 = (offset: number) => archive.charCodeAt(offset) | (archive.charCodeAt(offset + 1) << 8);
+  const readUint32 = (offset: number) => (readUint16(offset) | (readUint16(offset + 2) << 16)) >>> 0;
+
+  const entries: { name: string; data: string; crc: number }[] = [];
+  let offset = 0;
+  while (readUint32(offset) === 0x04034b50) {
+    const crc = readUint32(offset + 14);
+    const size = readUint32(offset + 18);
+    const nameLength = readUint16(offset + 26);
+    const extraLength = readUint16(offset + 28);
+    const start = offset + 30 + nameLength + extraLength;
+    entries.push({
+      name: forge.util.decodeUtf8(archive.slice(offset + 30, offset + 30 + nameLength)),
+      data: archive.slice(start, start + size),
+      crc,
+    });
+    offset = start + size;
+  }
+  // The central directory follows the last file
+  expect(readUint32(offset)).toBe(0x02014b50);
+  return entries;
+};
+
+describe('buildPkpass', () => {
+  const certificate = createCertificate();
+  const entries = readZip(buildPkpass(passData, assets, certificate, identity));
+  const fileOf = (name: string) => entries.find(entry => entry.name === name)!.data;
+
+  it('lays out the pass files, then the manifest and its signature', () => {
+    expect(entries.map(entry => entry.name)).toEqual(['pass.json', 'icon.png', 'logo.png', 'manifest.json', 'signature']);
+    entries.forEach(entry => expect(entry.crc).toBe(crc32(entry.data)));
+  });
+
+  it('describes the ticket in pass.json', () => {
+    const pass = JSON.parse(forge.util.decodeUtf8(fileOf('pass.json')));
+    expect(pass).toMatchObject({
+      formatVersion: 1,
+      passTypeIdentifier: 'pass.com.mi3ad.test',
+      teamIdentifier: 'TEAM123',
+      serialNumber: 'booking-1',
+      relevantDate: '2025-06-01T19:00:00.000Z',
+    });
+    expect(pass.barcodes[0]).toMatchObject({ message: passData.qrCode, format: 'PKBarcodeFormatQR' });
+  });
+
+  it('hashes every pass file with SHA-1 in the manifest', () => {
+    const manifest = JSON.parse(fileOf('manifest.json'));
+    expect(Object.keys(manifest).sort()).toEqual(['icon.png', 'logo.png', 'pass.json']);
+    Object.keys(manifest).forEach(name => {
+      expect(manifest[name]).toBe(forge.md.sha1.create().update(fileOf(name)).digest().toHex());
+    });
+  });
+
+  it('signs the manifest with a detached PKCS#7 signature carrying both certificates', () => {
+    const signerInfo = readSignerInfo(fileOf('signature'));
+    expect(signerInfo.certificates).toHaveLength(2);
+    expect(signerInfo.certificates[0].subject.getField('CN').value).toBe('Pass Type ID: pass.com.mi3ad.test');
+
+    // The signed attributes carry the SHA-256 digest of the manifest, and the signer's key signed them
+    const manifestDigest = forge.md.sha256.create().update(fileOf('manifest.json')).digest().getBytes();
+    expect(signerInfo.messageDigest).toBe(manifestDigest);
+    expect(verifies(certificate.certificatePem, signerInfo.signedBytes, signerInfo.encryptedDigest)).toBe(true);
+  });
+
+  it('does not verify against another certificate', () => {
+    const signerInfo = readSignerInfo(fileOf('signature'));
+    expect(verifies(createCertificate().certificatePem, signerInfo.signedBytes, signerInfo.encryptedDigest)).toBe(false);
+  });
+
+  it('gives each attendee ticket its own serial number', () => {
+    const attendeeEntries = readZip(buildPkpass({ ...passData, attendeeId: 'attendee-2' }, assets, certificate, identity));
+    const pass = JSON.parse(forge.util.decodeUtf8(attendeeEntries.find(entry => entry.name === 'pass.json')!.data));
+    expect(pass.serialNumber).toBe('booking-1-attendee-2');
+  });
+});
+
+describe('createPassManifest', () => {
+  it('hashes the raw bytes of each file', () => {
+    expect(createPassManifest({ 'pass.json': '{}' })).toEqual({
+      'pass.json': 'bf21a9e8fbc5a3846fb05b4fa0859e0917b2202f',
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import type { Event } from '@/context/EventContext';
+import {
+  DEFAULT_EVENT_FILTERS,
+  EventFilters,
+  countActiveFilters,
+  filterEvents,
+  getDateRangeBounds,
+  getEventCity,
+  isEventSoldOut,
+  parseEventFilters,
+  toEventFilterParams,
+} from '@/utils/eventFilters';
+
+const createEvent = (id: string, overrides: Partial<Event> = {}): Event => ({
+  id,
+  title: id,
+  titleAr: id,
+  description: '',
+  descriptionAr: '',
+  category: 'entertainment',
+  date: '2030-01-10',
+  time: '19:00',
+  location: '',
+  locationAr: '',
+  price: 0,
+  image: '',
+  organizer: 'Mi3AD',
+  organizerAr: 'ميعاد',
+  isFeatured: false,
+  maxAttendees: 100,
+  currentAttendees: 0,
+  ...overrides,
+});
+
+// Wednesday 8 January 2030
+const now = new Date(2030, 0, 8, 12, 0);
+
+const withFilters = (filters: Partial<EventFilters>): EventFilters => ({ ...DEFAULT_EVENT_FILTERS, ...filters });
+
+describe('parseEventFilters', () => {
+  it('reads the filters from the route params', () => {
+    expect(
+      parseEventFilters({
+        search: 'حفل',
+        category: 'schools',
+        when: 'custom',
+        from: '2030-01-01',
+        to: '2030-01-31',
+        minPrice: '10',
+        free: '1',
+        available: '1',
+        city: 'benghazi',
+      })
+    ).toEqual({
+      search: 'حفل',
+      category: 'schools',
+      dateRange: 'custom',
+      from: '2030-01-01',
+      to: '2030-01-31',
+      minPrice: 10,
+      maxPrice: undefined,
+      freeOnly: true,
+      hideSoldOut: true,
+      organizer: undefined,
+      city: 'benghazi',
+      sort: 'relevance',
+    });
+  });
+
+  it('ignores unknown and malformed values', () => {
+    const filters = parseEventFilters({
+      category: 'parties',
+      when: 'someday',
+      from: '2030-02-30',
+      minPrice: '-5',
+      city: 'atlantis',
+      sort: 'relevance',
+    });
+    expect(filters).toMatchObject(DEFAULT_EVENT_FILTERS);
+    expect(filters).toMatchObject({ from: undefined, minPrice: undefined, city: undefined });
+  });
+
+  it('reads the params toEventFilterParams writes', () => {
+    const filters = withFilters({ search: 'موسيقى', category: 'occasions', dateRange: 'week', maxPrice: 50, sort: 'price' });
+    expect(parseEventFilters(toEventFilterParams(filters))).toMatchObject(filters);
+  });
+});
+
+describe('toEventFilterParams', () => {
+  it('leaves the defaults unset', () => {
+    expect(Object.values(toEventFilterParams(DEFAULT_EVENT_FILTERS)).every(value => value === undefined)).toBe(true);
+  });
+
+  it('drops the price range of free-only filters and the dates of preset ranges', () => {
+    const params = toEventFilterParams(withFilters({ freeOnly: true, minPrice: 5, dateRange: 'today', from: '2030-01-01' }));
+    expect(params).toMatchObject({ free: '1', minPrice: undefined, when: 'today', from: undefined });
+  });
+});
+
+describe('getDateRangeBounds', () => {
+  it('works out the preset ranges from today', () => {
+    expect(getDateRangeBounds({ dateRange: 'today' }, now)).toEqual({ from: '2030-01-08', to: '2030-01-08' });
+    expect(getDateRangeBounds({ dateRange: 'weekend' }, now)).toEqual({ from: '2030-01-11', to: '2030-01-12' });
+    expect(getDateRangeBounds({ dateRange: 'week' }, now)).toEqual({ from: '2030-01-08', to: '2030-01-12' });
+    expect(getDateRangeBounds({ dateRange: 'month' }, now)).toEqual({ from: '2030-01-08', to: '2030-01-31' });
+    expect(getDateRangeBounds({ dateRange: 'any' }, now)).toEqual({});
+  });
+
+  it('keeps the rest of a weekend that has started', () => {
+    const saturday = new Date(2030, 0, 12, 9, 0);
+    expect(getDateRangeBounds({ dateRange: 'weekend' }, saturday)).toEqual({ from: '2030-01-12', to: '2030-01-12' });
+  });
+
+  it('swaps a custom range typed back to front', () => {
+    expect(getDateRangeBounds({ dateRange: 'custom', from: '2030-03-01', to: '2030-02-01' }, now)).toEqual({
+      from: '2030-02-01',
+      to: '2030-03-01',
+    });
+  });
+});
+
+describe('isEventSoldOut', () => {
+  it('compares the attendees with the capacity', () => {
+    expect(isEventSoldOut(createEvent('full', { maxAttendees: 2, currentAttendees: 2 }))).toBe(true);
+    expect(isEventSoldOut(createEvent('open', { maxAttendees: 2, currentAttendees: 1 }))).toBe(false);
+  });
+
+  it('needs every session to be full', () => {
+    const sessions = [
+      { id: 'a', date: '2030-01-10', time: '19:00', booked: 2 },
+      { id: 'b', date: '2030-01-17', time: '19:00', booked: 1 },
+    ];
+    expect(isEventSoldOut(createEvent('series', { maxAttendees: 2, currentAttendees: 3, sessions }))).toBe(false);
+  });
+});
+
+describe('getEventCity', () => {
+  it('finds a city named in the location of events without coordinates', () => {
+    expect(getEventCity(createEvent('named', { locationAr: 'فندق تيبستي، بنغازي' }))?.id).toBe('benghazi');
+    expect(getEventCity(createEvent('unknown', { location: 'Online' }))).toBeUndefined();
+  });
+
+  it('uses the nearest city for events on the map', () => {
+    expect(getEventCity(createEvent('mapped', { latitude: 32.89, longitude: 13.18 }))?.id).toBe('tripoli');
+  });
+});
+
+describe('filterEvents', () => {
+  const events = [
+    createEvent('free-today', { date: '2030-01-08', price: 0, category: 'schools' }),
+    createEvent('paid-weekend', { date: '2030-01-11', price: 30, organizerId: 'org-1' }),
+    createEvent('sold-out', { date: '2030-01-20', price: 80, maxAttendees: 1, currentAttendees: 1 }),
+    createEvent('series', {
+      date: '2030-01-05',
+      price: 10,
+      sessions: [
+        { id: 'a', date: '2030-01-05', time: '19:00', booked: 0 },
+        { id: 'b', date: '2030-01-12', time: '19:00', booked: 0 },
+      ],
+    }),
+  ];
+  const ids = (filters: Partial<EventFilters>) => filterEvents(events, withFilters(filters), now).map(event => event.id);
+
+  it('keeps every event without filters', () => {
+    expect(ids({})).toEqual(['free-today', 'paid-weekend', 'sold-out', 'series']);
+  });
+
+  it('filters by category', () => {
+    expect(ids({ category: 'schools' })).toEqual(['free-today']);
+  });
+
+  it('filters by date, counting any session in the range', () => {
+    expect(ids({ dateRange: 'today' })).toEqual(['free-today']);
+    expect(ids({ dateRange: 'weekend' })).toEqual(['paid-weekend', 'series']);
+  });
+
+  it('filters by price, with free-only overriding the range', () => {
+    expect(ids({ minPrice: 20, maxPrice: 50 })).toEqual(['paid-weekend']);
+    expect(ids({ freeOnly: true, minPrice: 20 })).toEqual(['free-today']);
+  });
+
+  it('hides sold-out events', () => {
+    expect(ids({ hideSoldOut: true })).toEqual(['free-today', 'paid-weekend', 'series']);
+  });
+
+  it('filters by organizer account, or by name for events without one', () => {
+    expect(ids({ organizer: 'org-1' })).toEqual(['paid-weekend']);
+    expect(ids({ organizer: 'Mi3AD' })).toEqual(['free-today', 'sold-out', 'series']);
+  });
+});
+
+describe('countActiveFilters', () => {
+  it('counts the price filters once', () => {
+    expect(countActiveFilters(DEFAULT_EVENT_FILTERS)).toBe(0);
+    expect(countActiveFilters(withFilters({ minPrice: 5, maxPrice: 10, hideSoldOut: true, city: 'tripoli' }))).toBe(3);
+  });
+});
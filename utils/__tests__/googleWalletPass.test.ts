@@ -0,0 +1,104 @@
+import forge from 'node-forge';
+import {
+  GoogleWalletAccount,
+  MAX_SAVE_URL_LENGTH,
+  buildEventTicketObject,
+  createGoogleWalletJwt,
+  getGoogleWalletSaveUrl,
+} from '@/utils/googleWalletPass';
+import type { PassData } from '@/utils/walletUtils';
+
+const passData: PassData = {
+  eventTitle: 'مهرجان طرابلس',
+  eventDate: '2025-06-01',
+  eventTime: '19:00',
+  location: 'طرابلس',
+  ticketCount: 1,
+  totalPrice: 50,
+  qrCode: 'MI3AD2.payload.signature',
+  holderName: 'أحمد',
+  organizerName: 'Mi3AD',
+  bookingId: 'booking-1',
+  attendeeId: 'attendee-2',
+  eventId: 'event-1',
+  eventStart: '2025-06-01T19:00:00.000Z',
+};
+
+// Fixture service-account key standing in for the issuer's
+const keys = forge.pki.rsa.generateKeyPair({ bits: 1024, e: 0x10001 });
+const account: GoogleWalletAccount = {
+  issuerId: '3388000000012345678',
+  clientEmail: 'wallet@mi3ad-test.iam.gserviceaccount.com',
+  privateKeyPem: forge.pki.privateKeyToPem(keys.privateKey),
+};
+
+const decodeBase64Url = (value: string): string =>
+  forge.util.decode64(value.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - (value.length % 4)) % 4));
+
+const decodeJwt = (jwt: string) => {
+  const [header, body, signature] = jwt.split('.');
+  return {
+    signingInput: `${header}.${body}`,
+    header: JSON.parse(decodeBase64Url(header)),
+    claims: JSON.parse(forge.util.decodeUtf8(decodeBase64Url(body))),
+    signature: decodeBase64Url(signature),
+  };
+};
+
+// forge throws rather than returning false when the signature was made with another key
+const verifies = (publicKey: forge.pki.PublicKey, signingInput: string, signature: string): boolean => {
+  const digest = forge.md.sha256.create().update(signingInput).digest().getBytes();
+  try {
+    return (publicKey as forge.pki.rsa.PublicKey).verify(digest, signature);
+  } catch {
+    return false;
+  }
+};
+
+describe('createGoogleWalletJwt', () => {
+  const jwt = decodeJwt(createGoogleWalletJwt(passData, account));
+
+  it('signs the save claims with RS256 using the service-account key', () => {
+    expect(jwt.header).toEqual({ alg: 'RS256', typ: 'JWT' });
+    expect(verifies(keys.publicKey, jwt.signingInput, jwt.signature)).toBe(true);
+    expect(verifies(keys.publicKey, `${jwt.signingInput}x`, jwt.signature)).toBe(false);
+  });
+
+  it('rejects the signature under another key', () => {
+    const other = forge.pki.rsa.generateKeyPair({ bits: 1024, e: 0x10001 });
+    expect(verifies(other.publicKey, jwt.signingInput, jwt.signature)).toBe(false);
+  });
+
+  it('addresses the claims to Google from the service account', () => {
+    expect(jwt.claims).toMatchObject({ iss: account.clientEmail, aud: 'google', typ: 'savetowallet' });
+    expect(jwt.claims.payload.eventTicketObjects[0]).toMatchObject({
+      barcode: { type: 'QR_CODE', value: passData.qrCode },
+      ticketHolderName: 'أحمد',
+    });
+  });
+});
+
+describe('buildEventTicketObject', () => {
+  it('gives every attendee of a booking their own object', () => {
+    const first = buildEventTicketObject(passData, account.issuerId, 'class');
+    const second = buildEventTicketObject({ ...passData, attendeeId: 'attendee-3' }, account.issuerId, 'class');
+    expect(first.id).toBe('3388000000012345678.ticket_booking-1_attendee-2');
+    expect(first.ticketNumber).toBe('attendee-2');
+    expect(second.id).not.toBe(first.id);
+  });
+
+  it('uses the booking for the group ticket', () => {
+    const { attendeeId, ...groupTicket } = passData;
+    expect(buildEventTicketObject(groupTicket, account.issuerId, 'class').id).toBe(
+      '3388000000012345678.booking_booking-1'
+    );
+  });
+});
+
+describe('getGoogleWalletSaveUrl', () => {
+  it('fits the save link within the length Google accepts', () => {
+    const url = getGoogleWalletSaveUrl(passData, account);
+    expect(url.startsWith('https://pay.google.com/gp/v/save/')).toBe(true);
+    expect(url.length).toBeLessThanOrEqual(MAX_SAVE_URL_LENGTH);
+  });
+});
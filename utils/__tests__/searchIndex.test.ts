@@ -0,0 +1,95 @@
+import type { Event } from '@/context/EventContext';
+import { createEventSearchIndex, createSearchIndex, normalizeText, tokenize } from '@/utils/searchIndex';
+
+const createEvent = (id: string, titleAr: string, title = '', locationAr = ''): Event => ({
+  id,
+  title,
+  titleAr,
+  description: '',
+  descriptionAr: '',
+  category: 'schools',
+  date: '2030-01-01',
+  time: '10:00',
+  location: '',
+  locationAr,
+  price: 0,
+  image: '',
+  organizer: '',
+  organizerAr: '',
+  isFeatured: false,
+  maxAttendees: 100,
+  currentAttendees: 0,
+});
+
+const events = [
+  createEvent('school', 'حفل تخرج المدرسة', 'School graduation', 'طرابلس'),
+  createEvent('clinic', 'يوم صحي مفتوح', 'Open health day', 'بنغازي'),
+  createEvent('concert', 'أمسية موسيقية', 'Music evening', 'مسرح طرابلس'),
+];
+
+const ids = (results: Event[]) => results.map(event => event.id);
+
+describe('normalizeText', () => {
+  it('folds Arabic spelling variants and diacritics', () => {
+    expect(normalizeText('أمسيةٌ إبداعيّة')).toBe(normalizeText('امسيه ابداعيه'));
+    expect(normalizeText('مستشفى')).toBe(normalizeText('مستشفي'));
+  });
+
+  it('folds Latin case and accents and Eastern digits', () => {
+    expect(normalizeText('Café ٢٠٢٥')).toBe('cafe 2025');
+  });
+});
+
+describe('tokenize', () => {
+  it('splits on punctuation and spaces', () => {
+    expect(tokenize('  حفل، تخرج!  ')).toEqual(['حفل', 'تخرج']);
+    expect(tokenize('   ')).toEqual([]);
+  });
+});
+
+describe('createSearchIndex', () => {
+  const index = createEventSearchIndex(events);
+
+  it('gives back every item for a blank query', () => {
+    expect(ids(index.search(''))).toEqual(['school', 'clinic', 'concert']);
+  });
+
+  it('finds words with and without their article', () => {
+    expect(ids(index.search('مدرسة'))).toEqual(['school']);
+    expect(ids(index.search('المدرسة'))).toEqual(['school']);
+  });
+
+  it('strips articles and joined prepositions from the query too', () => {
+    const schoolIndex = createEventSearchIndex([createEvent('school', 'حفل تخرج مدرسة النور')]);
+    expect(ids(schoolIndex.search('المدرسة'))).toEqual(['school']);
+    expect(ids(schoolIndex.search('بالمدرسة'))).toEqual(['school']);
+    expect(ids(schoolIndex.search('والمدرسة'))).toEqual(['school']);
+  });
+
+  it('matches prefixes of longer words', () => {
+    expect(ids(index.search('موسي'))).toEqual(['concert']);
+  });
+
+  it('tolerates a typo in longer words', () => {
+    expect(ids(index.search('graduaton'))).toEqual(['school']);
+  });
+
+  it('requires every word of the query to match', () => {
+    expect(ids(index.search('طرابلس'))).toEqual(['school', 'concert']);
+    expect(ids(index.search('طرابلس موسيقية'))).toEqual(['concert']);
+  });
+
+  it('ranks matches in heavier fields first', () => {
+    const ranked = createSearchIndex(
+      [
+        { id: 'in-description', name: 'Evening', description: 'Poetry' },
+        { id: 'in-name', name: 'Poetry night', description: '' },
+      ],
+      [
+        { value: item => item.name, weight: 3 },
+        { value: item => item.description, weight: 1 },
+      ]
+    );
+    expect(ranked.search('poetry').map(item => item.id)).toEqual(['in-name', 'in-description']);
+  });
+});
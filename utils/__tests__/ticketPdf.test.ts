@@ -0,0 +1,56 @@
+import { generateQRCodeSvg, generateTicketPdfHTML } from '@/utils/ticketPdf';
+import type { PassData } from '@/utils/walletUtils';
+
+const passData: PassData = {
+  eventTitle: 'أمسية <b>شعرية</b>',
+  eventDate: '2025-06-01',
+  eventTime: '19:00',
+  location: 'طرابلس',
+  ticketCount: 2,
+  totalPrice: 40,
+  qrCode: 'MI3AD2.group.signature',
+  holderName: 'أحمد',
+  organizerName: 'Mi3AD',
+  bookingId: 'booking-1',
+  eventId: 'event-1',
+  eventStart: '2025-06-01T19:00:00.000Z',
+  seats: ['A1', 'A2'],
+  tickets: [
+    { holderName: 'أحمد', qrCode: 'MI3AD2.first.signature', seat: 'A1' },
+    { holderName: 'سارة', qrCode: 'MI3AD2.second.signature', seat: 'A2' },
+  ],
+};
+
+describe('generateTicketPdfHTML', () => {
+  it('prints each attendee page with that attendee’s own code', async () => {
+    const html = await generateTicketPdfHTML(passData, '', { onePerTicket: true });
+    const [first, second] = await Promise.all(passData.tickets!.map(ticket => generateQRCodeSvg(ticket.qrCode)));
+
+    expect(html.split('<section class="page">')).toHaveLength(3);
+    expect(html).toContain(first);
+    expect(html).toContain(second);
+    expect(html).not.toContain(await generateQRCodeSvg(passData.qrCode));
+    expect(html).toContain('سارة');
+  });
+
+  it('leaves the booking total off attendee pages', async () => {
+    const perTicket = await generateTicketPdfHTML(passData, '', { onePerTicket: true });
+    const attendeeTicket = await generateTicketPdfHTML({ ...passData, ticketCount: 1, attendeeId: 'attendee-2' }, '');
+
+    expect(perTicket).not.toContain('السعر الإجمالي');
+    expect(attendeeTicket).not.toContain('السعر الإجمالي');
+    expect(await generateTicketPdfHTML(passData, '')).toContain('40 د.ل');
+  });
+
+  it('prints the group code on a single page', async () => {
+    const html = await generateTicketPdfHTML(passData, '');
+    expect(html.split('<section class="page">')).toHaveLength(2);
+    expect(html).toContain(await generateQRCodeSvg(passData.qrCode));
+  });
+
+  it('escapes the event text', async () => {
+    const html = await generateTicketPdfHTML(passData, '');
+    expect(html).toContain('أمسية &lt;b&gt;شعرية&lt;/b&gt;');
+    expect(html).not.toContain('<b>');
+  });
+});
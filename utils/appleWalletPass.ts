@@ -0,0 +1,138 @@
+import forge from 'node-forge';
+import { createZipArchive } from '@/utils/zipArchive';
+import type { PassData } from '@/utils/walletUtils';
+
+export interface PassCertificate {
+  certificatePem: string; // Pass Type ID certificate
+  privateKeyPem: string;
+  privateKeyPassphrase?: string;
+  wwdrCertificatePem: string; // Apple WWDR intermediate certificate
+}
+
+export interface PassIdentity {
+  passTypeIdentifier: string;
+  teamIdentifier: string;
+}
+
+// File name -> binary string
+export type PassFiles = Record<string, string>;
+
+/**
+ * What the events API needs to sign passes. Only the server has it; apps ask the API for signed passes.
+ */
+export interface ApplePassConfig {
+  certificate: PassCertificate;
+  identity: PassIdentity;
+  assets: PassFiles; // images copied into every pass; Wallet requires at least icon.png
+}
+
+/**
+ * Build the pass.json description of an event ticket
+ */
+export const buildPassJson = (passData: PassData, identity: PassIdentity) => ({
+  formatVersion: 1,
+  passTypeIdentifier: identity.passTypeIdentifier,
+  // Each attendee's ticket is a pass of its own, so Wallet does not replace one with another
+  serialNumber: passData.attendeeId ? `${passData.bookingId}-${passData.attendeeId}` : passData.bookingId,
+  teamIdentifier: identity.teamIdentifier,
+  organizationName: 'Mi3AD',
+  description: `تذكرة ${passData.eventTitle}`,
+  logoText: 'Mi3AD',
+  foregroundColor: 'rgb(255, 255, 255)',
+  backgroundColor: 'rgb(168, 85, 247)',
+  relevantDate: passData.eventStart,
+  eventTicket: {
+    primaryFields: [
+      { key: 'event', label: 'الفعالية', value: passData.eventTitle },
+    ],
+    secondaryFields: [
+      { key: 'date', label: 'التاريخ', value: passData.eventDate },
+      { key: 'time', label: 'الوقت', value: passData.eventTime },
+    ],
+    auxiliaryFields: [
+      { key: 'location', label: 'الموقع', value: passData.location },
+      { key: 'tickets', label: 'عدد التذاكر', value: passData.ticketCount.toString() },
+      ...(passData.seats && passData.seats.length > 0
+        ? [{ key: 'seats', label: 'المقاعد', value: passData.seats.join('، ') }]
+        : []),
+    ],
+    backFields: [
+      { key: 'holder', label: 'حامل التذكرة', value: passData.holderName },
+      { key: 'organizer', label: 'المنظم', value: passData.organizerName },
+      { key: 'booking', label: 'رقم الحجز', value: passData.bookingId },
+    ],
+  },
+  barcodes: [
+    {
+      message: passData.qrCode,
+      format: 'PKBarcodeFormatQR',
+      messageEncoding: 'iso-8859-1',
+    },
+  ],
+});
+
+/**
+ * manifest.json content: the SHA-1 hash of every file in the pass
+ */
+export const createPassManifest = (files: PassFiles): Record<string, string> => {
+  const manifest: Record<string, string> = {};
+  Object.keys(files).forEach(name => {
+    manifest[name] = forge.md.sha1.create().update(files[name]).digest().toHex();
+  });
+  return manifest;
+};
+
+/**
+ * Detached PKCS#7 signature of the manifest, as DER bytes
+ */
+export const signPassManifest = (manifest: string, certificate: PassCertificate): string => {
+  const signer = forge.pki.certificateFromPem(certificate.certificatePem);
+  const wwdr = forge.pki.certificateFromPem(certificate.wwdrCertificatePem);
+  const privateKey = certificate.privateKeyPassphrase
+    ? forge.pki.decryptRsaPrivateKey(certificate.privateKeyPem, certificate.privateKeyPassphrase)
+    : forge.pki.privateKeyFromPem(certificate.privateKeyPem);
+  if (!privateKey) {
+    throw new Error('Pass private key could not be decrypted');
+  }
+
+  const signedData = forge.pkcs7.createSignedData();
+  signedData.content = forge.util.createBuffer(manifest, 'raw');
+  signedData.addCertificate(signer);
+  signedData.addCertificate(wwdr);
+  signedData.addSigner({
+    key: privateKey,
+    certificate: signer,
+    digestAlgorithm: forge.pki.oids.sha256,
+    authenticatedAttributes: [
+      { type: forge.pki.oids.contentType, value: forge.pki.oids.data },
+      { type: forge.pki.oids.messageDigest },
+      { type: forge.pki.oids.signingTime }, // filled in with the current time
+    ],
+  });
+  signedData.sign({ detached: true });
+
+  return forge.asn1.toDer(signedData.toAsn1()).getBytes();
+};
+
+/**
+ * Assemble a signed .pkpass bundle from pass data and its image assets.
+ * Returns the zip archive as a binary string.
+ */
+export const buildPkpass = (
+  passData: PassData,
+  assets: PassFiles,
+  certificate: PassCertificate,
+  identity: PassIdentity
+): string => {
+  const files: PassFiles = {
+    'pass.json': forge.util.encodeUtf8(JSON.stringify(buildPassJson(passData, identity))),
+    ...assets,
+  };
+  const manifest = JSON.stringify(createPassManifest(files));
+
+  return createZipArchive([
+    ...Object.keys(files).map(name => ({ name, data: files[name] })),
+    { name: 'manifest.json', data: manifest },
+    { name: 'signature', data: signPassManifest(manifest, certificate) },
+  ]);
+};
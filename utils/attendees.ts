@@ -0,0 +1,49 @@
+import type { Booking } from '@/context/EventContext';
+
+/**
+ * Name and phone the buyer enters for one ticket of a booking
+ */
+export interface AttendeeDetails {
+  name: string;
+  phone?: string;
+}
+
+/**
+ * One ticket of a booking, with its own QR code for the person using it
+ */
+export interface BookingAttendee {
+  id: string; // ticket id signed into the QR code, replaced when the ticket is transferred
+  name: string;
+  phone?: string;
+  holderId: string; // account the ticket belongs to
+  tierId: string;
+  seatId?: string;
+  qrCode: string;
+  transferredFrom?: string; // account that passed the ticket on
+  transferredAt?: string;
+  admittedAt?: string; // set by the events API once this ticket got its holder in
+}
+
+/**
+ * Tickets of a booking that belong to an account
+ */
+export const getHeldTickets = (booking: Pick<Booking, 'attendees'>, userId: string): BookingAttendee[] =>
+  booking.attendees.filter(attendee => attendee.holderId === userId);
+
+/**
+ * Buyers see their whole booking; anyone a ticket was transferred to sees the booking too
+ */
+export const isBookingVisibleTo = (booking: Pick<Booking, 'userId' | 'attendees'>, userId: string): boolean =>
+  booking.userId === userId || booking.attendees.some(attendee => attendee.holderId === userId);
+
+/**
+ * Tickets the buyer has passed on to other accounts
+ */
+export const getTransferredTickets = (booking: Pick<Booking, 'userId' | 'attendees'>): BookingAttendee[] =>
+  booking.attendees.filter(attendee => attendee.holderId !== booking.userId);
+
+/**
+ * Find the booking ticket a QR code belongs to
+ */
+export const findAttendee = (booking: Pick<Booking, 'attendees'>, attendeeId: string): BookingAttendee | undefined =>
+  booking.attendees.find(attendee => attendee.id === attendeeId);
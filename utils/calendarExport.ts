@@ -0,0 +1,130 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as Linking from 'expo-linking';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Event, Booking } from '@/context/EventContext';
+import { getEventRepository, getEventRepositoryConfig } from '@/services/createEventRepository';
+import { createBookingCalendar, createEventCalendar } from '@/utils/icalendar';
+import { getCalendarFeedUrl } from '@/utils/calendarFeed';
+
+// Bookings the user added to their calendar, so cancelling one can take it out again
+const EXPORTED_BOOKINGS_KEY = 'calendarBookings';
+
+const getExportedBookings = async (): Promise<string[]> => {
+  const stored = await AsyncStorage.getItem(EXPORTED_BOOKINGS_KEY);
+  return stored ? JSON.parse(stored) : [];
+};
+
+const setBookingExported = async (bookingId: string, exported: boolean) => {
+  const bookings = (await getExportedBookings()).filter(id => id !== bookingId);
+  await AsyncStorage.setItem(EXPORTED_BOOKINGS_KEY, JSON.stringify(exported ? [...bookings, bookingId] : bookings));
+};
+
+/**
+ * Hand an .ics file to the device: a download on the web, the share sheet elsewhere
+ * so the user can open it with their calendar app
+ */
+const shareCalendarFile = async (fileName: string, content: string): Promise<boolean> => {
+  if (Platform.OS === 'web') {
+    const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    return true;
+  }
+
+  if (!(await Sharing.isAvailableAsync())) return false;
+  const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(fileUri, content);
+  await Sharing.shareAsync(fileUri, {
+    mimeType: 'text/calendar',
+    UTI: 'com.apple.ical.ics',
+    dialogTitle: 'إضافة إلى التقويم',
+  });
+  return true;
+};
+
+/**
+ * Export every session of an event
+ */
+export const addEventToCalendar = async (event: Event): Promise<boolean> => {
+  try {
+    return await shareCalendarFile(`mi3ad-event-${event.id}.ics`, createEventCalendar(event));
+  } catch (error) {
+    console.error('Error exporting event to calendar:', error);
+    return false;
+  }
+};
+
+/**
+ * Export the session a booking admits to, remembering it so it can be removed on cancel
+ */
+export const addBookingToCalendar = async (booking: Booking, event: Event): Promise<boolean> => {
+  try {
+    const shared = await shareCalendarFile(`mi3ad-booking-${booking.id}.ics`, createBookingCalendar(booking, event));
+    if (shared) await setBookingExported(booking.id, true);
+    return shared;
+  } catch (error) {
+    console.error('Error exporting booking to calendar:', error);
+    return false;
+  }
+};
+
+export const isBookingInCalendar = async (bookingId: string): Promise<boolean> => {
+  try {
+    return (await getExportedBookings()).includes(bookingId);
+  } catch (error) {
+    console.error('Error loading calendar bookings:', error);
+    return false;
+  }
+};
+
+/**
+ * Share the cancellation of a cancelled booking, which removes the entry added for it
+ */
+export const removeBookingFromCalendar = async (booking: Booking, event: Event): Promise<boolean> => {
+  try {
+    const shared = await shareCalendarFile(`mi3ad-booking-${booking.id}.ics`, createBookingCalendar(booking, event));
+    if (shared) await setBookingExported(booking.id, false);
+    return shared;
+  } catch (error) {
+    console.error('Error removing booking from calendar:', error);
+    return false;
+  }
+};
+
+/**
+ * Feed link for the user's bookings, signed by the events API, or null when there is none to serve it
+ */
+export const getBookingsFeedUrl = async (userId: string): Promise<string | null> => {
+  const { apiUrl } = getEventRepositoryConfig();
+  if (!apiUrl) return null;
+  try {
+    return getCalendarFeedUrl(apiUrl, await getEventRepository().getCalendarFeedPath(userId));
+  } catch (error) {
+    console.error('Error getting bookings feed link:', error);
+    return null;
+  }
+};
+
+/**
+ * Subscribe the device's calendar app to the user's bookings
+ */
+export const subscribeToBookingsCalendar = async (userId: string): Promise<boolean> => {
+  const feedUrl = await getBookingsFeedUrl(userId);
+  if (!feedUrl) return false;
+  try {
+    await Linking.openURL(feedUrl);
+    return true;
+  } catch (error) {
+    console.error('Error subscribing to bookings calendar:', error);
+    return false;
+  }
+};
@@ -0,0 +1,20 @@
+/**
+ * Issues and checks the tokens that let calendar apps read a user's bookings without signing in.
+ * Only the events API has one, since the secret behind the tokens is never bundled with the app.
+ */
+export interface CalendarFeedSigner {
+  sign: (userId: string) => string;
+  verify: (userId: string, token: string) => boolean;
+}
+
+/**
+ * Path of a user's feed on the events API
+ */
+export const getCalendarFeedPath = (userId: string, token: string): string =>
+  `/calendar/${encodeURIComponent(userId)}.ics?token=${encodeURIComponent(token)}`;
+
+/**
+ * webcal:// link that makes calendar apps subscribe to the feed rather than import it once
+ */
+export const getCalendarFeedUrl = (apiUrl: string, feedPath: string): string =>
+  `${apiUrl.replace(/\/$/, '').replace(/^https?:\/\//, 'webcal://')}${feedPath}`;
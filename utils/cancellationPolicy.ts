@@ -0,0 +1,96 @@
+import type { Event, Booking } from '@/context/EventContext';
+
+export interface CancellationRule {
+  hoursBefore: number; // applies when cancelling at least this many hours before the start
+  refundPercent: number;
+}
+
+export interface CancellationPolicy {
+  rules: CancellationRule[];
+}
+
+export interface RefundQuote {
+  allowed: boolean; // bookings cannot be cancelled once the event has started
+  refundPercent: number;
+  refundAmount: number;
+  paidAmount: number;
+  hoursBeforeStart: number;
+}
+
+/**
+ * Policy for events whose organizer has not set one:
+ * full refund up to 48h before, 50% up to 24h, nothing after
+ */
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  rules: [
+    { hoursBefore: 48, refundPercent: 100 },
+    { hoursBefore: 24, refundPercent: 50 },
+  ],
+};
+
+/**
+ * Ready-made policies an organizer can start from on the event form
+ */
+export const CANCELLATION_POLICY_PRESETS: { key: string; labelAr: string; policy: CancellationPolicy }[] = [
+  { key: 'flexible', labelAr: 'مرنة', policy: { rules: [{ hoursBefore: 24, refundPercent: 100 }] } },
+  { key: 'standard', labelAr: 'قياسية', policy: DEFAULT_CANCELLATION_POLICY },
+  {
+    key: 'strict',
+    labelAr: 'صارمة',
+    policy: {
+      rules: [
+        { hoursBefore: 7 * 24, refundPercent: 100 },
+        { hoursBefore: 72, refundPercent: 50 },
+      ],
+    },
+  },
+  { key: 'none', labelAr: 'بدون استرداد', policy: { rules: [] } },
+];
+
+/**
+ * Arabic summary of one rule, e.g. "استرداد 50% عند الإلغاء قبل 24 ساعة على الأقل"
+ */
+export const describeCancellationRule = (rule: CancellationRule): string =>
+  `استرداد ${rule.refundPercent}% عند الإلغاء قبل ${rule.hoursBefore} ساعة على الأقل`;
+
+/**
+ * When an event starts, from its date and HH:mm time
+ */
+export const getEventStart = (event: Pick<Event, 'date' | 'time'>): Date => {
+  return new Date(`${event.date}T${event.time || '00:00'}:00`);
+};
+
+/**
+ * Money actually collected for a booking and not yet refunded
+ */
+export const getPaidAmount = (booking: Booking): number => {
+  if (booking.payment.status !== 'captured' && booking.payment.status !== 'partially_refunded') return 0;
+  return booking.payment.amount - (booking.payment.refundedAmount || 0);
+};
+
+/**
+ * Work out what cancelling a booking now would refund under the event's policy
+ */
+export const getRefundQuote = (booking: Booking, event: Event, now: Date = new Date()): RefundQuote => {
+  const policy = event.cancellationPolicy || DEFAULT_CANCELLATION_POLICY;
+  const hoursBeforeStart = (getEventStart(event).getTime() - now.getTime()) / (60 * 60 * 1000);
+  const paidAmount = getPaidAmount(booking);
+
+  if (hoursBeforeStart <= 0) {
+    return { allowed: false, refundPercent: 0, refundAmount: 0, paidAmount, hoursBeforeStart };
+  }
+
+  // The most generous rule the cancellation still qualifies for
+  const rule = [...policy.rules]
+    .sort((a, b) => b.hoursBefore - a.hoursBefore)
+    .find(r => hoursBeforeStart >= r.hoursBefore);
+  const refundPercent = rule ? rule.refundPercent : 0;
+
+  return {
+    allowed: true,
+    refundPercent,
+    refundAmount: Math.round(paidAmount * refundPercent) / 100,
+    paidAmount,
+    hoursBeforeStart,
+  };
+};
@@ -0,0 +1,50 @@
+import type { CheckIn } from '@/context/CheckInContext';
+
+/**
+ * Resolve double entries: scans of a booking are admitted in scan order
+ * (ties broken by device id) until its tickets run out. Any scan that would
+ * admit more people than the booking holds, or that reuses an attendee's
+ * ticket, is flagged as a conflict.
+ */
+export const resolveCheckInConflicts = (
+  checkIns: CheckIn[],
+  getTicketCount: (bookingId: string) => number
+): CheckIn[] => {
+  const ordered = [...checkIns].sort((a, b) =>
+    a.scannedAt.localeCompare(b.scannedAt) || a.deviceId.localeCompare(b.deviceId) || a.id.localeCompare(b.id)
+  );
+  const admitted = new Map<string, { count: number; last: CheckIn }>();
+  const admittedAttendees = new Map<string, CheckIn>();
+
+  return ordered.map(checkIn => {
+    const earlierEntry = checkIn.attendeeId ? admittedAttendees.get(checkIn.attendeeId) : undefined;
+    if (earlierEntry) {
+      return {
+        ...checkIn,
+        conflictWith: { checkInId: earlierEntry.id, deviceId: earlierEntry.deviceId, scannedAt: earlierEntry.scannedAt },
+      };
+    }
+
+    const previous = admitted.get(checkIn.bookingId);
+    const admittedSoFar = previous ? previous.count : 0;
+    if (admittedSoFar + checkIn.count <= getTicketCount(checkIn.bookingId)) {
+      admitted.set(checkIn.bookingId, { count: admittedSoFar + checkIn.count, last: checkIn });
+      if (checkIn.attendeeId) admittedAttendees.set(checkIn.attendeeId, checkIn);
+      return { ...checkIn, conflictWith: undefined };
+    }
+    const last = previous ? previous.last : checkIn;
+    return {
+      ...checkIn,
+      conflictWith: { checkInId: last.id, deviceId: last.deviceId, scannedAt: last.scannedAt },
+    };
+  });
+};
+
+/**
+ * Count the entries admitted by non-conflicting scans of a booking
+ */
+export const countAdmittedEntries = (checkIns: CheckIn[], bookingId: string): number => {
+  return checkIns
+    .filter(checkIn => checkIn.bookingId === bookingId && !checkIn.conflictWith)
+    .reduce((sum, checkIn) => sum + checkIn.count, 0);
+};
@@ -0,0 +1,273 @@
+import type { Event } from '@/context/EventContext';
+import { validateRecurrence } from '@/utils/eventSessions';
+import { DEFAULT_CANCELLATION_POLICY } from '@/utils/cancellationPolicy';
+
+/**
+ * What an organizer fills in on the event form
+ */
+export type EventDetails = Pick<
+  Event,
+  | 'title'
+  | 'titleAr'
+  | 'description'
+  | 'descriptionAr'
+  | 'category'
+  | 'date'
+  | 'time'
+  | 'durationMinutes'
+  | 'location'
+  | 'locationAr'
+  | 'price'
+  | 'maxAttendees'
+  | 'image'
+  | 'recurrence'
+  | 'cancellationPolicy'
+>;
+
+export interface EventDetailsIssue {
+  field: keyof EventDetails;
+  message: string;
+  messageAr: string;
+}
+
+export const EVENT_CATEGORIES: Event['category'][] = [
+  'government',
+  'schools',
+  'clinics',
+  'occasions',
+  'entertainment',
+  'openings',
+];
+
+const toLocalDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Rolled-over dates such as 2025-02-30 come back as a different day
+const isValidDate = (date: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+  const [year, month, day] = date.split('-').map(Number);
+  return toLocalDate(new Date(year, month - 1, day)) === date;
+};
+
+const isValidTime = (time: string): boolean => /^([01]\d|2[0-3]):[0-5]\d$/.test(time);
+
+// Events last two hours unless their organizer says otherwise
+export const DEFAULT_EVENT_DURATION = 120;
+
+// Sessions run within a single day
+const MAX_EVENT_DURATION = 24 * 60;
+
+/**
+ * Length of each session of an event, in minutes
+ */
+export const getEventDuration = (event: Pick<Event, 'durationMinutes'>): number =>
+  event.durationMinutes ?? DEFAULT_EVENT_DURATION;
+
+/**
+ * Arabic duration, e.g. "ساعتان" or "ساعة و30 دقيقة"
+ */
+export const formatDuration = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  const hoursText =
+    hours === 0 ? '' : hours === 1 ? 'ساعة' : hours === 2 ? 'ساعتان' : hours <= 10 ? `${hours} ساعات` : `${hours} ساعة`;
+  const minutesText = rest === 0 ? '' : `${rest} دقيقة`;
+  return [hoursText, minutesText].filter(Boolean).join(' و');
+};
+
+const isBlank = (value: string | undefined) => !value || !value.trim();
+
+/**
+ * Details a draft starts with; the organizer fills them in before submitting
+ */
+export const EMPTY_EVENT_DETAILS: EventDetails = {
+  title: '',
+  titleAr: '',
+  description: '',
+  descriptionAr: '',
+  category: 'entertainment',
+  date: '',
+  time: '',
+  durationMinutes: DEFAULT_EVENT_DURATION,
+  location: '',
+  locationAr: '',
+  price: 0,
+  maxAttendees: 0,
+  image: '',
+  recurrence: null,
+};
+
+/**
+ * The organizer-entered details of an event
+ */
+export const getEventDetails = (event: Event): EventDetails => ({
+  title: event.title,
+  titleAr: event.titleAr,
+  description: event.description,
+  descriptionAr: event.descriptionAr,
+  category: event.category,
+  date: event.date,
+  time: event.time,
+  durationMinutes: getEventDuration(event),
+  location: event.location,
+  locationAr: event.locationAr,
+  price: event.price,
+  maxAttendees: event.maxAttendees,
+  image: event.image,
+  recurrence: event.recurrence ?? null,
+  cancellationPolicy: event.cancellationPolicy || DEFAULT_CANCELLATION_POLICY,
+});
+
+/**
+ * Details that differ from what is saved on the event
+ */
+export const getChangedDetails = (details: Partial<EventDetails>, event: Event): Partial<EventDetails> => {
+  const changed: Partial<EventDetails> = {};
+  (Object.keys(details) as (keyof EventDetails)[]).forEach(field => {
+    const value = details[field];
+    // Recurrence rules and cancellation policies are compared by content; null and unset both mean
+    // the event is held once. An unset duration or cancellation policy is the default one.
+    const isSame = field === 'recurrence'
+      ? JSON.stringify(value) === JSON.stringify(event.recurrence ?? null)
+      : field === 'cancellationPolicy'
+        ? JSON.stringify(value) === JSON.stringify(event.cancellationPolicy || DEFAULT_CANCELLATION_POLICY)
+        : field === 'durationMinutes'
+          ? value === getEventDuration(event)
+          : value === event[field];
+    if (value !== undefined && !isSame) {
+      (changed as Record<string, unknown>)[field] = details[field];
+    }
+  });
+  return changed;
+};
+
+/**
+ * Details moderators check again when a live event changes them: when and where it is held,
+ * what a ticket costs and how many people it takes
+ */
+export const MATERIAL_EVENT_DETAILS: (keyof EventDetails)[] = [
+  'date',
+  'time',
+  'recurrence',
+  'location',
+  'locationAr',
+  'price',
+  'maxAttendees',
+];
+
+/**
+ * Split changes into the material ones that wait for review and the ones applied straight away
+ */
+export const splitMaterialDetails = (
+  details: Partial<EventDetails>
+): { material: Partial<EventDetails>; other: Partial<EventDetails> } => {
+  const material: Partial<EventDetails> = {};
+  const other: Partial<EventDetails> = {};
+  (Object.keys(details) as (keyof EventDetails)[]).forEach(field => {
+    const target = MATERIAL_EVENT_DETAILS.includes(field) ? material : other;
+    (target as Record<string, unknown>)[field] = details[field];
+  });
+  return { material, other };
+};
+
+/**
+ * The event as it will be once its pending changes are approved
+ */
+export const withPendingChanges = (event: Event): Event =>
+  event.pendingChanges ? { ...event, ...event.pendingChanges } : event;
+
+/**
+ * Leave out the text fields not filled in yet, so a half-finished draft only has what was entered checked
+ */
+export const getFilledDetails = (details: Partial<EventDetails>): Partial<EventDetails> => {
+  const filled: Partial<EventDetails> = {};
+  (Object.keys(details) as (keyof EventDetails)[]).forEach(field => {
+    const value = details[field];
+    if (typeof value !== 'string' || value.trim()) (filled as Record<string, unknown>)[field] = value;
+  });
+  return filled;
+};
+
+/**
+ * Check event details before they are saved. Only the fields given are checked,
+ * so the changes of an edit can be validated on their own.
+ */
+export const validateEventDetails = (
+  details: Partial<EventDetails>,
+  now: Date = new Date()
+): EventDetailsIssue[] => {
+  const issues: EventDetailsIssue[] = [];
+  const add = (field: keyof EventDetails, message: string, messageAr: string) =>
+    issues.push({ field, message, messageAr });
+
+  if ('title' in details && isBlank(details.title)) {
+    add('title', 'Enter the English title', 'يرجى إدخال عنوان الفعالية بالإنجليزية');
+  }
+  if ('titleAr' in details && isBlank(details.titleAr)) {
+    add('titleAr', 'Enter the Arabic title', 'يرجى إدخال عنوان الفعالية بالعربية');
+  }
+  if ('category' in details && !EVENT_CATEGORIES.includes(details.category as Event['category'])) {
+    add('category', 'Choose a category', 'يرجى اختيار فئة الفعالية');
+  }
+  if ('date' in details) {
+    if (!details.date || !isValidDate(details.date)) {
+      add('date', 'Enter the date as YYYY-MM-DD', 'يرجى إدخال التاريخ بالصيغة YYYY-MM-DD');
+    } else if (details.date < toLocalDate(now)) {
+      add('date', 'The event date has already passed', 'لا يمكن أن يكون تاريخ الفعالية في الماضي');
+    }
+  }
+  if ('time' in details && (!details.time || !isValidTime(details.time))) {
+    add('time', 'Enter the time as HH:MM', 'يرجى إدخال الوقت بالصيغة HH:MM');
+  }
+  if (
+    'durationMinutes' in details &&
+    (typeof details.durationMinutes !== 'number' ||
+      !Number.isInteger(details.durationMinutes) ||
+      details.durationMinutes < 1 ||
+      details.durationMinutes > MAX_EVENT_DURATION)
+  ) {
+    add('durationMinutes', 'The duration must be between 1 minute and 24 hours', 'يجب أن تكون مدة الفعالية بين دقيقة و24 ساعة');
+  }
+  if ('location' in details && isBlank(details.location)) {
+    add('location', 'Enter the English location', 'يرجى إدخال موقع الفعالية بالإنجليزية');
+  }
+  if ('locationAr' in details && isBlank(details.locationAr)) {
+    add('locationAr', 'Enter the Arabic location', 'يرجى إدخال موقع الفعالية بالعربية');
+  }
+  if ('price' in details && (typeof details.price !== 'number' || !isFinite(details.price) || details.price < 0)) {
+    add('price', 'The price must be zero or more', 'يرجى إدخال سعر صحيح');
+  }
+  if (
+    'maxAttendees' in details &&
+    (typeof details.maxAttendees !== 'number' || !Number.isInteger(details.maxAttendees) || details.maxAttendees < 1)
+  ) {
+    add('maxAttendees', 'Capacity must be at least one person', 'يجب أن يتسع الحضور لشخص واحد على الأقل');
+  }
+  if ('image' in details && isBlank(details.image)) {
+    add('image', 'Choose an image for the event', 'يرجى اختيار صورة للفعالية');
+  }
+  if (details.recurrence) {
+    const issue = validateRecurrence(details.recurrence, now);
+    if (issue) add('recurrence', issue.message, issue.messageAr);
+  }
+  if (details.cancellationPolicy) {
+    const { rules } = details.cancellationPolicy;
+    const isValidRule = (rule: { hoursBefore: number; refundPercent: number }) =>
+      Number.isInteger(rule.hoursBefore) &&
+      rule.hoursBefore >= 0 &&
+      Number.isInteger(rule.refundPercent) &&
+      rule.refundPercent >= 0 &&
+      rule.refundPercent <= 100;
+    if (!Array.isArray(rules) || !rules.every(isValidRule)) {
+      add(
+        'cancellationPolicy',
+        'Each cancellation rule needs a number of hours and a refund between 0% and 100%',
+        'يجب أن تحدد كل قاعدة إلغاء عدد الساعات ونسبة استرداد بين 0% و100%'
+      );
+    } else if (new Set(rules.map(rule => rule.hoursBefore)).size !== rules.length) {
+      add('cancellationPolicy', 'Two cancellation rules have the same hours', 'لا يمكن تكرار عدد الساعات في قواعد الإلغاء');
+    }
+  }
+
+  return issues;
+};
@@ -0,0 +1,256 @@
+import * as Linking from 'expo-linking';
+import type { Event } from '@/context/EventContext';
+import { EVENT_CATEGORIES } from '@/utils/eventDetails';
+import { hasSessions } from '@/utils/eventSessions';
+import { City, LIBYAN_CITIES, findNearestCity, getCity, hasCoordinates } from '@/utils/geo';
+import { normalizeText } from '@/utils/searchIndex';
+
+export type EventDateRange = 'any' | 'today' | 'weekend' | 'week' | 'month' | 'custom';
+
+export type EventSortOption = 'relevance' | 'date' | 'price' | 'popularity' | 'distance';
+
+/**
+ * Everything that shapes the events tab. It lives in the route's search params,
+ * so a filtered view can be shared as a link.
+ */
+export interface EventFilters {
+  search: string;
+  category: Event['category'] | 'all';
+  dateRange: EventDateRange;
+  from?: string; // YYYY-MM-DD, for a custom range; open-ended when unset
+  to?: string;
+  minPrice?: number; // compared with the lowest ticket price
+  maxPrice?: number;
+  freeOnly: boolean;
+  hideSoldOut: boolean;
+  organizer?: string; // organizer account id, or the English name for events without an account
+  city?: string; // id from LIBYAN_CITIES
+  sort: EventSortOption;
+}
+
+export interface OrganizerOption {
+  id: string;
+  name: string;
+  nameAr: string;
+}
+
+export const DEFAULT_EVENT_FILTERS: EventFilters = {
+  search: '',
+  category: 'all',
+  dateRange: 'any',
+  freeOnly: false,
+  hideSoldOut: false,
+  sort: 'date',
+};
+
+export const EVENT_DATE_RANGES: EventDateRange[] = ['any', 'today', 'weekend', 'week', 'month', 'custom'];
+
+export const EVENT_SORT_OPTIONS: EventSortOption[] = ['relevance', 'date', 'price', 'popularity', 'distance'];
+
+// Events held this far from a city's center count as being in it
+const CITY_RADIUS = 30; // kilometres
+
+const toLocalDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Rolled-over dates such as 2025-02-30 come back as a different day
+const isValidDate = (date: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+  const [year, month, day] = date.split('-').map(Number);
+  return toLocalDate(new Date(year, month - 1, day)) === date;
+};
+
+const toPrice = (value: string | undefined): number | undefined => {
+  if (!value) return undefined;
+  const price = Number(value);
+  return isFinite(price) && price >= 0 ? price : undefined;
+};
+
+/**
+ * Sorting by relevance only makes sense while searching, so searches start there and everything else by date
+ */
+export const getDefaultSort = (search: string): EventSortOption => (search.trim() ? 'relevance' : 'date');
+
+/**
+ * Read the filters from the route's search params. Values that are unknown or malformed are ignored.
+ */
+export const parseEventFilters = (params: Record<string, string | string[] | undefined>): EventFilters => {
+  const get = (key: string): string | undefined => {
+    const value = params[key];
+    return (Array.isArray(value) ? value[0] : value) || undefined;
+  };
+
+  const search = get('search') || '';
+  const category = get('category') as Event['category'] | undefined;
+  const dateRange = get('when') as EventDateRange | undefined;
+  const from = get('from');
+  const to = get('to');
+  const city = get('city');
+  const sort = get('sort') as EventSortOption | undefined;
+
+  return {
+    search,
+    category: category && EVENT_CATEGORIES.includes(category) ? category : 'all',
+    dateRange: dateRange && EVENT_DATE_RANGES.includes(dateRange) ? dateRange : 'any',
+    from: from && isValidDate(from) ? from : undefined,
+    to: to && isValidDate(to) ? to : undefined,
+    minPrice: toPrice(get('minPrice')),
+    maxPrice: toPrice(get('maxPrice')),
+    freeOnly: get('free') === '1',
+    hideSoldOut: get('available') === '1',
+    organizer: get('organizer'),
+    city: city && getCity(city) ? city : undefined,
+    sort: sort && EVENT_SORT_OPTIONS.includes(sort) && (sort !== 'relevance' || search.trim())
+      ? sort
+      : getDefaultSort(search),
+  };
+};
+
+/**
+ * The search params for a set of filters. Every param is listed, with the ones left at their default unset,
+ * so passing them to the router also clears filters that were turned off.
+ */
+export const toEventFilterParams = (filters: EventFilters): Record<string, string | undefined> => {
+  const isCustom = filters.dateRange === 'custom';
+  return {
+    search: filters.search || undefined,
+    category: filters.category !== 'all' ? filters.category : undefined,
+    when: filters.dateRange !== 'any' ? filters.dateRange : undefined,
+    from: isCustom ? filters.from : undefined,
+    to: isCustom ? filters.to : undefined,
+    minPrice: !filters.freeOnly && filters.minPrice !== undefined ? String(filters.minPrice) : undefined,
+    maxPrice: !filters.freeOnly && filters.maxPrice !== undefined ? String(filters.maxPrice) : undefined,
+    free: filters.freeOnly ? '1' : undefined,
+    available: filters.hideSoldOut ? '1' : undefined,
+    organizer: filters.organizer,
+    city: filters.city,
+    sort: filters.sort !== getDefaultSort(filters.search) ? filters.sort : undefined,
+  };
+};
+
+/**
+ * App link that opens the events tab with the same filters
+ */
+export const getEventFiltersUrl = (filters: EventFilters): string => {
+  const params = toEventFilterParams(filters);
+  const queryParams: Record<string, string> = {};
+  Object.keys(params).forEach(key => {
+    if (params[key] !== undefined) queryParams[key] = params[key]!;
+  });
+  return Linking.createURL('/events', { queryParams });
+};
+
+/**
+ * First and last day of the chosen range, either of which may be open. Weekends are Friday and Saturday
+ * and weeks start on Sunday; the ranges start today, so days that are over are left out.
+ */
+export const getDateRangeBounds = (
+  filters: Pick<EventFilters, 'dateRange' | 'from' | 'to'>,
+  now: Date = new Date()
+): { from?: string; to?: string } => {
+  const today = addDays(now, 0); // midnight
+  const weekday = today.getDay();
+
+  switch (filters.dateRange) {
+    case 'today':
+      return { from: toLocalDate(today), to: toLocalDate(today) };
+    case 'weekend': {
+      // On Saturday the weekend is half over; on other days it is the coming Friday and Saturday
+      const start = weekday === 6 ? today : addDays(today, (5 - weekday + 7) % 7);
+      return { from: toLocalDate(start), to: toLocalDate(addDays(today, (6 - weekday + 7) % 7)) };
+    }
+    case 'week':
+      return { from: toLocalDate(today), to: toLocalDate(addDays(today, 6 - weekday)) };
+    case 'month':
+      return { from: toLocalDate(today), to: toLocalDate(new Date(today.getFullYear(), today.getMonth() + 1, 0)) };
+    case 'custom':
+      // A range typed back to front still means the days between
+      return filters.from && filters.to && filters.from > filters.to
+        ? { from: filters.to, to: filters.from }
+        : { from: filters.from, to: filters.to };
+    default:
+      return {};
+  }
+};
+
+/**
+ * Whether every seat is taken; for events with sessions, in every session
+ */
+export const isEventSoldOut = (event: Event): boolean =>
+  hasSessions(event)
+    ? event.sessions!.every(session => session.booked >= event.maxAttendees)
+    : event.currentAttendees >= event.maxAttendees;
+
+const getOrganizerId = (event: Event): string => event.organizerId || event.organizer;
+
+/**
+ * The organizers of the given events, each once, in Arabic alphabetical order
+ */
+export const getOrganizerOptions = (events: Event[]): OrganizerOption[] => {
+  const organizers = new Map<string, OrganizerOption>();
+  events.forEach(event => {
+    const id = getOrganizerId(event);
+    if (!organizers.has(id)) organizers.set(id, { id, name: event.organizer, nameAr: event.organizerAr });
+  });
+  return Array.from(organizers.values()).sort((a, b) => a.nameAr.localeCompare(b.nameAr, 'ar'));
+};
+
+/**
+ * The city an event is held in: the nearest one for events on the map, otherwise a city named in its location
+ */
+export const getEventCity = (event: Event): City | undefined => {
+  if (hasCoordinates(event)) return findNearestCity(event, CITY_RADIUS);
+  const location = ` ${normalizeText(`${event.location} ${event.locationAr}`)} `;
+  return LIBYAN_CITIES.find(city =>
+    [city.name, city.nameAr].some(name => location.includes(` ${normalizeText(name)} `))
+  );
+};
+
+/**
+ * The cities that have at least one of the given events, in the order of LIBYAN_CITIES
+ */
+export const getCityOptions = (events: Event[]): City[] => {
+  const cityIds = new Set(events.map(event => getEventCity(event)?.id));
+  return LIBYAN_CITIES.filter(city => cityIds.has(city.id));
+};
+
+/**
+ * Number of filters set in the filters panel; the search, category and sort order are shown elsewhere
+ */
+export const countActiveFilters = (filters: EventFilters): number =>
+  [
+    filters.dateRange !== 'any',
+    filters.freeOnly || filters.minPrice !== undefined || filters.maxPrice !== undefined,
+    filters.hideSoldOut,
+    !!filters.organizer,
+    !!filters.city,
+  ].filter(Boolean).length;
+
+/**
+ * Keep the events that pass every filter. The search and sort order are left to the caller.
+ */
+export const filterEvents = (events: Event[], filters: EventFilters, now: Date = new Date()): Event[] => {
+  const { from, to } = getDateRangeBounds(filters, now);
+  const isInRange = (date: string) => (!from || date >= from) && (!to || date <= to);
+
+  return events.filter(event => {
+    if (filters.category !== 'all' && event.category !== filters.category) return false;
+    if (from || to) {
+      const dates = hasSessions(event) ? event.sessions!.map(session => session.date) : [event.date];
+      if (!dates.some(isInRange)) return false;
+    }
+    if (filters.freeOnly) {
+      if (event.price !== 0) return false;
+    } else {
+      if (filters.minPrice !== undefined && event.price < filters.minPrice) return false;
+      if (filters.maxPrice !== undefined && event.price > filters.maxPrice) return false;
+    }
+    if (filters.hideSoldOut && isEventSoldOut(event)) return false;
+    if (filters.organizer && getOrganizerId(event) !== filters.organizer) return false;
+    if (filters.city && getEventCity(event)?.id !== filters.city) return false;
+    return true;
+  });
+};
@@ -0,0 +1,108 @@
+import type { Event } from '@/context/EventContext';
+import { getEventStart } from '@/utils/cancellationPolicy';
+
+/**
+ * Where an organizer's event is on its way to the catalogue:
+ * draft → submitted → approved or rejected → published → cancelled or completed
+ */
+export type EventStatus = 'draft' | 'submitted' | 'approved' | 'rejected' | 'published' | 'cancelled' | 'completed';
+
+export type EventRejectionReason =
+  | 'incomplete_details'
+  | 'wrong_category'
+  | 'misleading_price'
+  | 'unsuitable_image'
+  | 'inappropriate_content'
+  | 'duplicate'
+  | 'other';
+
+/**
+ * The moderator's decision on the last submission of an event
+ */
+export interface EventReview {
+  decision: 'approved' | 'rejected';
+  reasons: EventRejectionReason[]; // empty when approved
+  note?: string; // explanation for the organizer
+  reviewerId: string;
+  reviewedAt: string;
+}
+
+export const EVENT_REJECTION_REASONS: { id: EventRejectionReason; label: string; labelAr: string }[] = [
+  { id: 'incomplete_details', label: 'Details are missing or unclear', labelAr: 'البيانات ناقصة أو غير واضحة' },
+  { id: 'wrong_category', label: 'Wrong category', labelAr: 'الفئة غير مناسبة' },
+  { id: 'misleading_price', label: 'Price or capacity looks wrong', labelAr: 'السعر أو عدد الحضور غير صحيح' },
+  { id: 'unsuitable_image', label: 'The image is unsuitable', labelAr: 'الصورة غير مناسبة' },
+  { id: 'inappropriate_content', label: 'Content breaks the guidelines', labelAr: 'المحتوى يخالف الإرشادات' },
+  { id: 'duplicate', label: 'The event is already listed', labelAr: 'الفعالية منشورة مسبقاً' },
+  { id: 'other', label: 'Other', labelAr: 'سبب آخر' },
+];
+
+// Status changes an event may go through; moderators make the submitted → approved/rejected ones.
+// Approved and published events keep their status while material changes to them are reviewed.
+const EVENT_TRANSITIONS: Record<EventStatus, EventStatus[]> = {
+  draft: ['submitted'],
+  submitted: ['approved', 'rejected'],
+  approved: ['published', 'cancelled'],
+  rejected: ['submitted'],
+  published: ['cancelled', 'completed'],
+  cancelled: [],
+  completed: [],
+};
+
+/**
+ * Events from before the review workflow were all live in the catalogue
+ */
+export const getEventStatus = (event: Pick<Event, 'status'>): EventStatus => event.status ?? 'published';
+
+/**
+ * Check whether an event may move from one status to another
+ */
+export const canTransitionEvent = (from: EventStatus, to: EventStatus): boolean => {
+  return EVENT_TRANSITIONS[from].includes(to);
+};
+
+/**
+ * Shown in the public catalogue; past events stay listed once they are completed
+ */
+export const isEventListed = (event: Pick<Event, 'status'>): boolean => {
+  const status = getEventStatus(event);
+  return status === 'published' || status === 'completed';
+};
+
+/**
+ * Only published events sell tickets
+ */
+export const isEventBookable = (event: Pick<Event, 'status'>): boolean => getEventStatus(event) === 'published';
+
+/**
+ * Drafts and rejected events are still being written, so their details are saved
+ * without requiring every field
+ */
+export const isEventInProgress = (event: Pick<Event, 'status'>): boolean => {
+  const status = getEventStatus(event);
+  return status === 'draft' || status === 'rejected';
+};
+
+/**
+ * Events under review, cancelled or completed cannot be changed
+ */
+export const isEventEditable = (event: Pick<Event, 'status'>): boolean => {
+  const status = getEventStatus(event);
+  return isEventInProgress(event) || status === 'approved' || status === 'published';
+};
+
+/**
+ * Events are completed once they have started
+ */
+export const canCompleteEvent = (event: Pick<Event, 'date' | 'time'>, now: Date = new Date()): boolean =>
+  getEventStart(event) <= now;
+
+export const EVENT_STATUS_LABELS: Record<EventStatus, string> = {
+  draft: 'مسودة',
+  submitted: 'قيد المراجعة',
+  approved: 'معتمدة',
+  rejected: 'مرفوضة',
+  published: 'منشورة',
+  cancelled: 'ملغاة',
+  completed: 'منتهية',
+};
@@ -0,0 +1,209 @@
+import type { Event, Booking } from '@/context/EventContext';
+
+/**
+ * One date of a recurring or multi-session event. Each session is booked separately,
+ * with the event's capacity and tiers, and has its own tickets sold and seats taken.
+ */
+export interface EventSession {
+  id: string; // stable for a given date and time, e.g. "2025-03-04T18:00"
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm
+  label?: string; // e.g. "Day 2"
+  labelAr?: string;
+  booked: number; // tickets sold for this session
+  tierSold?: Record<string, number>; // tickets sold per tier for this session
+  bookedSeats?: string[];
+}
+
+/**
+ * How the sessions of an event are laid out, starting from the event's date and time
+ */
+export type RecurrenceRule =
+  | { frequency: 'daily'; interval: number; count: number } // every `interval` days
+  | { frequency: 'weekly'; interval: number; weekdays: number[]; count: number } // 0 is Sunday
+  | { frequency: 'custom'; dates: { date: string; time: string; label?: string; labelAr?: string }[] };
+
+export interface RecurrenceIssue {
+  message: string;
+  messageAr: string;
+}
+
+export const MAX_EVENT_SESSIONS = 60;
+
+export const getSessionId = (date: string, time: string): string => `${date}T${time}`;
+
+const toLocalDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const parseDate = (date: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Check a recurrence rule before sessions are built from it
+ */
+export const validateRecurrence = (rule: RecurrenceRule, now: Date = new Date()): RecurrenceIssue | null => {
+  if (rule.frequency === 'custom') {
+    if (!Array.isArray(rule.dates) || rule.dates.length === 0) {
+      return { message: 'Add at least one session date', messageAr: 'يرجى إضافة موعد واحد على الأقل' };
+    }
+    if (rule.dates.length > MAX_EVENT_SESSIONS) {
+      return { message: `At most ${MAX_EVENT_SESSIONS} sessions`, messageAr: `الحد الأقصى ${MAX_EVENT_SESSIONS} موعداً` };
+    }
+    const invalid = rule.dates.some(
+      ({ date, time }) =>
+        !/^\d{4}-\d{2}-\d{2}$/.test(date) ||
+        toLocalDate(parseDate(date)) !== date ||
+        !/^([01]\d|2[0-3]):[0-5]\d$/.test(time)
+    );
+    if (invalid) {
+      return { message: 'Enter every session as YYYY-MM-DD and HH:MM', messageAr: 'يرجى إدخال كل موعد بالصيغة YYYY-MM-DD و HH:MM' };
+    }
+    if (rule.dates.some(({ date }) => date < toLocalDate(now))) {
+      return { message: 'Some session dates have already passed', messageAr: 'بعض المواعيد في الماضي' };
+    }
+    const ids = rule.dates.map(({ date, time }) => getSessionId(date, time));
+    if (new Set(ids).size !== ids.length) {
+      return { message: 'Two sessions are at the same time', messageAr: 'يوجد موعدان في نفس الوقت' };
+    }
+    return null;
+  }
+
+  if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+    return { message: 'The repeat interval must be at least 1', messageAr: 'يجب أن يكون التكرار كل فترة واحدة على الأقل' };
+  }
+  if (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > MAX_EVENT_SESSIONS) {
+    return {
+      message: `Repeat between 1 and ${MAX_EVENT_SESSIONS} times`,
+      messageAr: `يجب أن يكون عدد المرات بين 1 و ${MAX_EVENT_SESSIONS}`,
+    };
+  }
+  if (
+    rule.frequency === 'weekly' &&
+    (!Array.isArray(rule.weekdays) || rule.weekdays.length === 0 || rule.weekdays.some(day => day < 0 || day > 6))
+  ) {
+    return { message: 'Choose the days of the week', messageAr: 'يرجى اختيار أيام الأسبوع' };
+  }
+  return null;
+};
+
+/**
+ * List the dates and times a rule produces, oldest first. Daily and weekly rules
+ * start from the first date and keep its time.
+ */
+export const expandRecurrence = (
+  start: { date: string; time: string },
+  rule: RecurrenceRule
+): { date: string; time: string; label?: string; labelAr?: string }[] => {
+  if (rule.frequency === 'custom') {
+    return [...rule.dates].sort((a, b) => getSessionId(a.date, a.time).localeCompare(getSessionId(b.date, b.time)));
+  }
+
+  const first = parseDate(start.date);
+  const occurrences: { date: string; time: string }[] = [];
+
+  if (rule.frequency === 'daily') {
+    for (let i = 0; i < rule.count; i++) {
+      const day = new Date(first);
+      day.setDate(first.getDate() + i * rule.interval);
+      occurrences.push({ date: toLocalDate(day), time: start.time });
+    }
+    return occurrences;
+  }
+
+  // Weekly: walk the weeks from the first date's week, every `interval` weeks, on the chosen days
+  const weekStart = new Date(first);
+  weekStart.setDate(first.getDate() - first.getDay());
+  const weekdays = [...new Set(rule.weekdays)].sort((a, b) => a - b);
+  for (let week = 0; occurrences.length < rule.count; week += rule.interval) {
+    for (const weekday of weekdays) {
+      const day = new Date(weekStart);
+      day.setDate(weekStart.getDate() + week * 7 + weekday);
+      if (day < first) continue;
+      occurrences.push({ date: toLocalDate(day), time: start.time });
+      if (occurrences.length === rule.count) break;
+    }
+  }
+  return occurrences;
+};
+
+/**
+ * Build an event's sessions from its rule. Sessions that already exist keep what they sold.
+ */
+export const buildSessions = (
+  start: { date: string; time: string },
+  rule: RecurrenceRule,
+  existing: EventSession[] = []
+): EventSession[] => {
+  return expandRecurrence(start, rule).map(({ date, time, label, labelAr }) => {
+    const id = getSessionId(date, time);
+    const previous = existing.find(session => session.id === id);
+    return {
+      ...(previous || { booked: 0 }),
+      id,
+      date,
+      time,
+      ...(label ? { label } : {}),
+      ...(labelAr ? { labelAr } : {}),
+    };
+  });
+};
+
+/**
+ * Whether tickets are sold per session
+ */
+export const hasSessions = (event: Pick<Event, 'sessions'>): boolean => !!event.sessions && event.sessions.length > 0;
+
+export const findSession = (event: Pick<Event, 'sessions'>, sessionId?: string): EventSession | undefined =>
+  sessionId ? event.sessions?.find(session => session.id === sessionId) : undefined;
+
+/**
+ * The first session held on the given day
+ */
+export const findSessionOn = (event: Pick<Event, 'sessions'>, day: Date): EventSession | undefined =>
+  event.sessions?.find(session => session.date === toLocalDate(day));
+
+/**
+ * The event as seen by one of its sessions: that session's date, time, tickets sold and seats.
+ * Events without sessions, or an unknown session id, give back the event itself.
+ */
+export const getSessionEvent = (event: Event, sessionId?: string): Event => {
+  const session = findSession(event, sessionId);
+  if (!session) return event;
+  return {
+    ...event,
+    date: session.date,
+    time: session.time,
+    currentAttendees: session.booked,
+    tiers: event.tiers?.map(tier => ({ ...tier, sold: session.tierSold?.[tier.id] ?? 0 })),
+    bookedSeats: session.bookedSeats ?? [],
+    sessionId: session.id,
+  };
+};
+
+/**
+ * The event as seen by a booking, so its date and time are those of the booked session
+ */
+export const getBookingEvent = (event: Event, booking: Pick<Booking, 'sessionId'>): Event =>
+  getSessionEvent(event, booking.sessionId);
+
+/**
+ * Sessions that have not started yet, soonest first
+ */
+export const getUpcomingSessions = (event: Event, now: Date = new Date()): EventSession[] =>
+  (event.sessions || [])
+    .filter(session => new Date(`${session.date}T${session.time}:00`) > now)
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+/**
+ * Seats across every session; `maxAttendees` is the capacity of each one
+ */
+export const getTotalCapacity = (event: Event): number =>
+  hasSessions(event) ? event.sessions!.length * event.maxAttendees : event.maxAttendees;
+
+/**
+ * Short Arabic description of a session, e.g. "اليوم الثاني · 2025-03-04 18:00"
+ */
+export const formatSession = (session: EventSession): string =>
+  `${session.labelAr ? `${session.labelAr} · ` : ''}${new Date(`${session.date}T00:00:00`).toLocaleDateString('ar-LY')} ${session.time}`;
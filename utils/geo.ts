@@ -0,0 +1,123 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Visible part of a map, in the shape react-native-maps uses
+ */
+export interface MapRegion extends Coordinates {
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+// Maps open on Tripoli until the user moves them
+export const DEFAULT_MAP_CENTER: Coordinates = { latitude: 32.8872, longitude: 13.1913 };
+
+const EARTH_RADIUS = 6371; // kilometres
+const KM_PER_DEGREE = 111.32;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points, in kilometres
+ */
+export const getDistance = (from: Coordinates, to: Coordinates): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return EARTH_RADIUS * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * Whether an event has a place on the map. Zero is a real coordinate, so only missing values count.
+ */
+export const hasCoordinates = (place: Partial<Coordinates>): place is Coordinates =>
+  typeof place.latitude === 'number' && typeof place.longitude === 'number';
+
+/**
+ * Region that shows a circle of the given radius around a point
+ */
+export const getRegionForRadius = (center: Coordinates, radius: number): MapRegion => {
+  // A little margin so the edge of the circle stays on screen
+  const latitudeDelta = ((radius * 2) / KM_PER_DEGREE) * 1.2;
+  return {
+    ...center,
+    latitudeDelta,
+    longitudeDelta: latitudeDelta / Math.max(Math.cos(toRadians(center.latitude)), 0.01),
+  };
+};
+
+/**
+ * Radius of the largest circle around the region's center that fits on screen, in kilometres
+ */
+export const getVisibleRadius = (region: MapRegion): number =>
+  Math.min(
+    getDistance(region, { latitude: region.latitude + region.latitudeDelta / 2, longitude: region.longitude }),
+    getDistance(region, { latitude: region.latitude, longitude: region.longitude + region.longitudeDelta / 2 })
+  );
+
+export interface City extends Coordinates {
+  id: string;
+  name: string;
+  nameAr: string;
+}
+
+/**
+ * Cities users can pick when the device location is off or not allowed
+ */
+export const LIBYAN_CITIES: City[] = [
+  { id: 'tripoli', name: 'Tripoli', nameAr: 'طرابلس', latitude: 32.8872, longitude: 13.1913 },
+  { id: 'benghazi', name: 'Benghazi', nameAr: 'بنغازي', latitude: 32.1167, longitude: 20.0667 },
+  { id: 'misrata', name: 'Misrata', nameAr: 'مصراتة', latitude: 32.3754, longitude: 15.0925 },
+  { id: 'zawiya', name: 'Zawiya', nameAr: 'الزاوية', latitude: 32.7571, longitude: 12.7278 },
+  { id: 'sabratha', name: 'Sabratha', nameAr: 'صبراتة', latitude: 32.7933, longitude: 12.4885 },
+  { id: 'gharyan', name: 'Gharyan', nameAr: 'غريان', latitude: 32.1722, longitude: 13.0203 },
+  { id: 'tarhuna', name: 'Tarhuna', nameAr: 'ترهونة', latitude: 32.435, longitude: 13.6332 },
+  { id: 'khoms', name: 'Khoms', nameAr: 'الخمس', latitude: 32.6486, longitude: 14.2619 },
+  { id: 'zliten', name: 'Zliten', nameAr: 'زليتن', latitude: 32.4674, longitude: 14.5687 },
+  { id: 'sirte', name: 'Sirte', nameAr: 'سرت', latitude: 31.2089, longitude: 16.5887 },
+  { id: 'ajdabiya', name: 'Ajdabiya', nameAr: 'أجدابيا', latitude: 30.7554, longitude: 20.2263 },
+  { id: 'bayda', name: 'Bayda', nameAr: 'البيضاء', latitude: 32.7627, longitude: 21.7551 },
+  { id: 'derna', name: 'Derna', nameAr: 'درنة', latitude: 32.7648, longitude: 22.6391 },
+  { id: 'tobruk', name: 'Tobruk', nameAr: 'طبرق', latitude: 32.0836, longitude: 23.9764 },
+  { id: 'sabha', name: 'Sabha', nameAr: 'سبها', latitude: 27.0377, longitude: 14.4283 },
+];
+
+export const getCity = (cityId: string): City | undefined => LIBYAN_CITIES.find(city => city.id === cityId);
+
+/**
+ * Cities whose English or Arabic name contains what the user typed
+ */
+export const findCities = (query: string): City[] => {
+  const term = query.trim().toLowerCase();
+  if (!term) return [];
+  return LIBYAN_CITIES.filter(city => city.name.toLowerCase().includes(term) || city.nameAr.includes(term));
+};
+
+/**
+ * Arabic distance, e.g. "800 م" or "3.5 كم"
+ */
+export const formatDistance = (distance: number): string => {
+  if (distance < 1) return `${Math.round(distance * 100) * 10} م`;
+  if (distance < 10) return `${distance.toFixed(1)} كم`;
+  return `${Math.round(distance)} كم`;
+};
+
+/**
+ * The listed city closest to a place, when one is within `maxDistance` kilometres
+ */
+export const findNearestCity = (place: Coordinates, maxDistance: number): City | undefined => {
+  let nearest: City | undefined;
+  let nearestDistance = maxDistance;
+  LIBYAN_CITIES.forEach(city => {
+    const distance = getDistance(place, city);
+    if (distance <= nearestDistance) {
+      nearest = city;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+};
@@ -0,0 +1,108 @@
+import forge from 'node-forge';
+import type { PassData } from '@/utils/walletUtils';
+
+const SAVE_URL_PREFIX = 'https://pay.google.com/gp/v/save/';
+
+// Google rejects save links longer than this
+export const MAX_SAVE_URL_LENGTH = 2000;
+
+// Held by the events API only; the service-account key is never bundled with the app
+export interface GoogleWalletAccount {
+  issuerId: string;
+  clientEmail: string; // service account that owns the issuer
+  privateKeyPem: string;
+}
+
+const encodeBase64Url = (binary: string): string =>
+  forge.util.encode64(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+// Wallet ids are "<issuerId>.<suffix>" where the suffix is limited to word characters, dots and dashes
+const walletId = (issuerId: string, suffix: string): string =>
+  `${issuerId}.${suffix.replace(/[^\w.-]/g, '_')}`;
+
+const localized = (value: string) => ({ defaultValue: { language: 'ar', value } });
+
+/**
+ * Event ticket class: the details shared by every ticket of one event
+ */
+export const buildEventTicketClass = (passData: PassData, issuerId: string) => ({
+  id: walletId(issuerId, `event_${passData.eventId}`),
+  issuerName: passData.organizerName || 'Mi3AD',
+  reviewStatus: 'UNDER_REVIEW',
+  eventName: localized(passData.eventTitle),
+  venue: { name: localized(passData.location), address: localized(passData.location) },
+  dateTime: { start: passData.eventStart },
+  hexBackgroundColor: '#a855f7',
+});
+
+/**
+ * Event ticket object: one holder's ticket, pointing at its class.
+ * Each attendee's ticket gets its own object so saving one does not replace another.
+ */
+export const buildEventTicketObject = (passData: PassData, issuerId: string, classId: string) => ({
+  id: walletId(
+    issuerId,
+    passData.attendeeId ? `ticket_${passData.bookingId}_${passData.attendeeId}` : `booking_${passData.bookingId}`
+  ),
+  classId,
+  state: 'ACTIVE',
+  ticketHolderName: passData.holderName,
+  ticketNumber: passData.attendeeId || passData.bookingId,
+  barcode: { type: 'QR_CODE', value: passData.qrCode },
+  textModulesData: [
+    { id: 'tickets', header: 'عدد التذاكر', body: passData.ticketCount.toString() },
+    ...(passData.seats && passData.seats.length > 0
+      ? [{ id: 'seats', header: 'المقاعد', body: passData.seats.join('، ') }]
+      : []),
+  ],
+});
+
+/**
+ * Sign a JWT with RS256
+ */
+export const signJwt = (claims: object, privateKeyPem: string): string => {
+  const header = encodeBase64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+  const body = encodeBase64Url(forge.util.encodeUtf8(JSON.stringify(claims)));
+  const digest = forge.md.sha256.create().update(`${header}.${body}`);
+  const privateKey = forge.pki.privateKeyFromPem(privateKeyPem) as forge.pki.rsa.PrivateKey;
+  return `${header}.${body}.${encodeBase64Url(privateKey.sign(digest))}`;
+};
+
+/**
+ * Build the signed "save to Google Wallet" JWT for a ticket.
+ * The class is embedded so the first save creates it; when that makes the link
+ * too long, only the object is sent and the class must already exist.
+ */
+export const createGoogleWalletJwt = (passData: PassData, account: GoogleWalletAccount): string => {
+  const ticketClass = buildEventTicketClass(passData, account.issuerId);
+  const ticketObject = buildEventTicketObject(passData, account.issuerId, ticketClass.id);
+
+  const sign = (payload: object) =>
+    signJwt(
+      {
+        iss: account.clientEmail,
+        aud: 'google',
+        typ: 'savetowallet',
+        iat: Math.floor(Date.now() / 1000),
+        payload,
+      },
+      account.privateKeyPem
+    );
+
+  const withClass = sign({ eventTicketClasses: [ticketClass], eventTicketObjects: [ticketObject] });
+  if (SAVE_URL_PREFIX.length + withClass.length <= MAX_SAVE_URL_LENGTH) {
+    return withClass;
+  }
+
+  const objectOnly = sign({ eventTicketObjects: [ticketObject] });
+  if (SAVE_URL_PREFIX.length + objectOnly.length > MAX_SAVE_URL_LENGTH) {
+    throw new Error('Google Wallet ticket is too large for a save link');
+  }
+  return objectOnly;
+};
+
+/**
+ * Link that opens the "save to Google Wallet" flow for a ticket
+ */
+export const getGoogleWalletSaveUrl = (passData: PassData, account: GoogleWalletAccount): string =>
+  `${SAVE_URL_PREFIX}${createGoogleWalletJwt(passData, account)}`;
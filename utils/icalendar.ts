@@ -0,0 +1,255 @@
+import type { Event, Booking } from '@/context/EventContext';
+import { getEventDuration } from '@/utils/eventDetails';
+import { getBookingEvent, hasSessions } from '@/utils/eventSessions';
+
+/**
+ * Events are entered in Libyan local time
+ */
+export const CALENDAR_TIME_ZONE = 'Africa/Tripoli';
+
+const PRODUCT_ID = '-//Mi3ad//Mi3ad App//AR';
+const UID_DOMAIN = 'mi3ad.ly';
+
+// Libya has kept UTC+2 all year since 2013, so the zone has a single standard rule
+const TIME_ZONE_OFFSET = '+02:00';
+
+/**
+ * The moment an event date and time in Libyan local time stands for, whatever the device's own zone
+ */
+export const getCalendarInstant = (date: string, time: string): Date =>
+  new Date(`${date}T${time || '00:00'}:00${TIME_ZONE_OFFSET}`);
+
+const TIME_ZONE_LINES = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${CALENDAR_TIME_ZONE}`,
+  'BEGIN:STANDARD',
+  'DTSTART:19700101T000000',
+  'TZOFFSETFROM:+0200',
+  'TZOFFSETTO:+0200',
+  'TZNAME:EET',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+// Reminders added to every entry, as iCalendar durations before the start
+const ALARMS = [
+  { trigger: '-P1D', description: 'تذكير: الفعالية غداً' },
+  { trigger: '-PT1H', description: 'تذكير: الفعالية بعد ساعة' },
+];
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Quote a parameter value such as CN (RFC 5545 §3.2). Quoted values cannot hold double quotes
+ * or control characters, and are not backslash-escaped like TEXT values.
+ */
+export const quoteParam = (value: string): string => `"${value.replace(/["\x00-\x1f\x7f]/g, '')}"`;
+
+/**
+ * Escape TEXT values (RFC 5545 §3.3.11)
+ */
+export const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const utf8Length = (char: string): number => {
+  const code = char.codePointAt(0) || 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+};
+
+/**
+ * Fold a content line at 75 octets (RFC 5545 §3.1). Arabic text takes two bytes a letter,
+ * so lines are measured in UTF-8 and never split inside a character.
+ */
+export const foldLine = (line: string): string => {
+  const lines: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of Array.from(line)) {
+    const length = utf8Length(char);
+    // Continuation lines start with a space, which counts towards their 75 octets
+    const limit = lines.length === 0 ? 75 : 74;
+    if (size + length > limit) {
+      lines.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += length;
+  }
+  lines.push(current);
+  return lines.join('\r\n ');
+};
+
+/**
+ * Local date-time in the event's time zone, e.g. "20250304T180000"
+ */
+const formatLocal = (date: string, time: string, addMinutes = 0): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  // Wall-clock arithmetic in UTC, so the device's own zone never shifts the result
+  const local = new Date(Date.UTC(year, month - 1, day, hours, minutes + addMinutes));
+  return (
+    `${local.getUTCFullYear()}${pad(local.getUTCMonth() + 1)}${pad(local.getUTCDate())}` +
+    `T${pad(local.getUTCHours())}${pad(local.getUTCMinutes())}00`
+  );
+};
+
+const formatUtc = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+  `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+/**
+ * Repeat lines for the sessions of an event, starting from its first session
+ */
+const getRecurrenceLines = (event: Event): string[] => {
+  const rule = event.recurrence;
+  if (!rule || !hasSessions(event)) return [];
+
+  if (rule.frequency === 'daily') {
+    return [`RRULE:FREQ=DAILY;INTERVAL=${rule.interval};COUNT=${rule.count}`];
+  }
+  if (rule.frequency === 'weekly') {
+    const days = [...new Set(rule.weekdays)].sort((a, b) => a - b).map(day => WEEKDAY_CODES[day]);
+    // Sessions are laid out in weeks starting on Sunday
+    return [`RRULE:FREQ=WEEKLY;INTERVAL=${rule.interval};BYDAY=${days.join(',')};WKST=SU;COUNT=${rule.count}`];
+  }
+  const [, ...others] = event.sessions!;
+  return others.length > 0
+    ? [`RDATE;TZID=${CALENDAR_TIME_ZONE}:${others.map(session => formatLocal(session.date, session.time)).join(',')}`]
+    : [];
+};
+
+interface CalendarEntry {
+  uid: string;
+  event: Event; // seen through the session the entry is for, if any
+  status: 'CONFIRMED' | 'CANCELLED';
+  sequence: number;
+  repeat: boolean; // add the event's other sessions
+  note?: string;
+}
+
+const getEntryLines = (entry: CalendarEntry, now: Date): string[] => {
+  const { event } = entry;
+  const first = entry.repeat && hasSessions(event) ? event.sessions![0] : event;
+  const description = [event.descriptionAr || event.description, entry.note].filter(Boolean).join('\n\n');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${entry.uid}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `SEQUENCE:${entry.sequence}`,
+    `STATUS:${entry.status}`,
+    `DTSTART;TZID=${CALENDAR_TIME_ZONE}:${formatLocal(first.date, first.time)}`,
+    `DTEND;TZID=${CALENDAR_TIME_ZONE}:${formatLocal(first.date, first.time, getEventDuration(event))}`,
+    ...(entry.repeat ? getRecurrenceLines(event) : []),
+    `SUMMARY:${escapeText(event.titleAr || event.title)}`,
+    ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+    `LOCATION:${escapeText(event.locationAr || event.location)}`,
+    ...(event.latitude !== undefined && event.longitude !== undefined
+      ? [`GEO:${event.latitude};${event.longitude}`]
+      : []),
+    `ORGANIZER;CN=${quoteParam(event.organizerAr || event.organizer)}:mailto:events@${UID_DOMAIN}`,
+  ];
+
+  if (entry.status !== 'CANCELLED') {
+    ALARMS.forEach(alarm => {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `TRIGGER:${alarm.trigger}`,
+        `DESCRIPTION:${escapeText(alarm.description)}`,
+        'END:VALARM'
+      );
+    });
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+const createCalendar = (
+  entries: CalendarEntry[],
+  options: { method: 'PUBLISH' | 'CANCEL'; name?: string; now: Date }
+): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${options.method}`,
+    ...(options.name
+      ? [
+          `X-WR-CALNAME:${escapeText(options.name)}`,
+          `X-WR-TIMEZONE:${CALENDAR_TIME_ZONE}`,
+          // Ask subscribed calendars to check for new and cancelled bookings every hour
+          'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+          'X-PUBLISHED-TTL:PT1H',
+        ]
+      : []),
+    ...TIME_ZONE_LINES,
+    ...entries.flatMap(entry => getEntryLines(entry, options.now)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+const getBookingEntry = (booking: Booking, event: Event): CalendarEntry => ({
+  uid: `booking-${booking.id}@${UID_DOMAIN}`,
+  event: getBookingEvent(event, booking),
+  // Cancelling bumps the sequence so calendars replace the entry they already have
+  status: booking.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+  sequence: booking.status === 'cancelled' ? 1 : 0,
+  repeat: false,
+  note: `عدد التذاكر: ${booking.ticketCount}\nرقم الحجز: ${booking.id}`,
+});
+
+/**
+ * An .ics file with every session of an event
+ */
+export const createEventCalendar = (event: Event, now: Date = new Date()): string =>
+  createCalendar(
+    [
+      {
+        uid: `event-${event.id}@${UID_DOMAIN}`,
+        event,
+        status: event.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+        sequence: 0,
+        repeat: true,
+      },
+    ],
+    { method: 'PUBLISH', now }
+  );
+
+/**
+ * An .ics file with the session a booking admits to. A cancelled booking gives a
+ * cancellation that removes the entry from calendars it was added to.
+ */
+export const createBookingCalendar = (booking: Booking, event: Event, now: Date = new Date()): string =>
+  createCalendar([getBookingEntry(booking, event)], {
+    method: booking.status === 'cancelled' ? 'CANCEL' : 'PUBLISH',
+    now,
+  });
+
+/**
+ * The calendar feed of a user: one entry per confirmed booking. Cancelled bookings are
+ * left out, so subscribed calendars drop them on their next refresh.
+ */
+export const createBookingsFeed = (
+  bookings: { booking: Booking; event: Event }[],
+  now: Date = new Date()
+): string =>
+  createCalendar(
+    bookings
+      .filter(({ booking }) => booking.status === 'confirmed' || booking.status === 'used')
+      .map(({ booking, event }) => getBookingEntry(booking, event)),
+    { method: 'PUBLISH', name: 'حجوزاتي - ميعاد', now }
+  );
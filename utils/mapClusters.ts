@@ -0,0 +1,61 @@
+import type { Event } from '@/context/EventContext';
+import { Coordinates, MapRegion, hasCoordinates } from '@/utils/geo';
+
+/**
+ * Events of one category close enough on screen to share a pin
+ */
+export interface EventCluster extends Coordinates {
+  id: string;
+  category: Event['category'];
+  events: Event[];
+}
+
+// Pins per screen width; events within the same cell share a pin
+const CLUSTER_CELLS_ACROSS = 8;
+
+// Below this spread (about 50 m) zooming in cannot pull a cluster's pins apart
+const MIN_CLUSTER_SPREAD = 0.0005;
+
+/**
+ * Group events into pins for the region on screen. Each category is clustered on its own,
+ * so every pin has a single category. Events without coordinates are left out.
+ */
+export const clusterEvents = (events: Event[], region: MapRegion): EventCluster[] => {
+  const cellHeight = region.latitudeDelta / CLUSTER_CELLS_ACROSS;
+  const cellWidth = region.longitudeDelta / CLUSTER_CELLS_ACROSS;
+  const cells = new Map<string, Event[]>();
+
+  events.forEach(event => {
+    if (!hasCoordinates(event)) return;
+    const key = `${event.category}:${Math.floor(event.latitude! / cellHeight)}:${Math.floor(event.longitude! / cellWidth)}`;
+    cells.set(key, [...(cells.get(key) || []), event]);
+  });
+
+  return Array.from(cells.entries()).map(([key, cellEvents]) => ({
+    // Single pins keep the event's id so they do not flicker as the map moves
+    id: cellEvents.length === 1 ? cellEvents[0].id : key,
+    category: cellEvents[0].category,
+    latitude: cellEvents.reduce((sum, event) => sum + event.latitude!, 0) / cellEvents.length,
+    longitude: cellEvents.reduce((sum, event) => sum + event.longitude!, 0) / cellEvents.length,
+    events: cellEvents,
+  }));
+};
+
+/**
+ * Region that fits every event of a cluster, or null when they are at the same place
+ * and zooming in would not separate them
+ */
+export const getClusterRegion = (cluster: EventCluster): MapRegion | null => {
+  const latitudes = cluster.events.map(event => event.latitude!);
+  const longitudes = cluster.events.map(event => event.longitude!);
+  const latitudeSpread = Math.max(...latitudes) - Math.min(...latitudes);
+  const longitudeSpread = Math.max(...longitudes) - Math.min(...longitudes);
+  if (latitudeSpread < MIN_CLUSTER_SPREAD && longitudeSpread < MIN_CLUSTER_SPREAD) return null;
+
+  return {
+    latitude: (Math.max(...latitudes) + Math.min(...latitudes)) / 2,
+    longitude: (Math.max(...longitudes) + Math.min(...longitudes)) / 2,
+    latitudeDelta: Math.max(latitudeSpread * 1.5, MIN_CLUSTER_SPREAD * 4),
+    longitudeDelta: Math.max(longitudeSpread * 1.5, MIN_CLUSTER_SPREAD * 4),
+  };
+};
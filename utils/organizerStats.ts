@@ -0,0 +1,141 @@
+import type { Event, Booking } from '@/context/EventContext';
+import type { User } from '@/context/AuthContext';
+import type { CheckIn } from '@/context/CheckInContext';
+import { countAdmittedEntries } from '@/utils/checkIns';
+import { getTotalCapacity } from '@/utils/eventSessions';
+
+/**
+ * Tickets sold and money taken on one day
+ */
+export interface DailySales {
+  date: string; // YYYY-MM-DD
+  tickets: number;
+  revenue: number;
+}
+
+/**
+ * How an event is selling, worked out from its bookings and door scans
+ */
+export interface EventStats {
+  eventId: string;
+  ticketsSold: number; // on confirmed and used bookings
+  bookingCount: number;
+  revenue: number; // collected and not refunded, in LYD
+  refunded: number;
+  cancellations: number; // bookings cancelled by the customer
+  cancelledTickets: number;
+  pendingTickets: number; // reserved while waiting for payment
+  checkedIn: number; // entries admitted at the door
+  checkInRate: number; // share of sold tickets admitted, 0 to 1
+  capacity: number; // across every session
+  remainingCapacity: number;
+  salesByDay: DailySales[]; // oldest first, only days with sales
+}
+
+export interface OrganizerSummary {
+  eventCount: number;
+  ticketsSold: number;
+  revenue: number;
+  refunded: number;
+  cancellations: number;
+  checkedIn: number;
+  checkInRate: number;
+  remainingCapacity: number;
+}
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Events the account runs. Only the linked organizer account counts:
+ * names are not unique, so they never give access to an event's figures.
+ */
+export const isEventOrganizedBy = (event: Event, user: Pick<User, 'id'>): boolean =>
+  !!event.organizerId && event.organizerId === user.id;
+
+/**
+ * Money kept on a booking: the captured amount less refunds.
+ * Released authorizations and unpaid bookings bring in nothing.
+ */
+export const getNetRevenue = (booking: Booking): number => {
+  const { status, amount, refundedAmount = 0 } = booking.payment;
+  if (status === 'captured' || status === 'partially_refunded') return amount - refundedAmount;
+  if (status === 'refunded' && refundedAmount > 0) return amount - refundedAmount;
+  return 0;
+};
+
+// Failed payments cancel the booking too, but the customer never had the tickets,
+// and bookings of a cancelled event were not the customer's choice
+const isCustomerCancellation = (booking: Booking) =>
+  booking.status === 'cancelled' &&
+  booking.payment.status !== 'failed' &&
+  !booking.refunds.some(refund => refund.reason === 'event_cancelled');
+
+/**
+ * Work out the sales, revenue and attendance figures of an event
+ */
+export const getEventStats = (event: Event, bookings: Booking[], checkIns: CheckIn[] = []): EventStats => {
+  const eventBookings = bookings.filter(booking => booking.eventId === event.id);
+  const sold = eventBookings.filter(booking => booking.status === 'confirmed' || booking.status === 'used');
+  const cancelled = eventBookings.filter(isCustomerCancellation);
+
+  const ticketsSold = sold.reduce((sum, booking) => sum + booking.ticketCount, 0);
+  // Scans still syncing from this device count as well as those the server already applied
+  const checkedIn = sold.reduce(
+    (sum, booking) =>
+      sum + Math.min(booking.ticketCount, Math.max(booking.admittedCount, countAdmittedEntries(checkIns, booking.id))),
+    0
+  );
+
+  const days = new Map<string, DailySales>();
+  sold.forEach(booking => {
+    const date = booking.bookingDate.slice(0, 10);
+    const day = days.get(date) || { date, tickets: 0, revenue: 0 };
+    days.set(date, {
+      date,
+      tickets: day.tickets + booking.ticketCount,
+      revenue: roundCurrency(day.revenue + getNetRevenue(booking)),
+    });
+  });
+
+  return {
+    eventId: event.id,
+    ticketsSold,
+    bookingCount: sold.length,
+    revenue: roundCurrency(eventBookings.reduce((sum, booking) => sum + getNetRevenue(booking), 0)),
+    refunded: roundCurrency(
+      eventBookings.reduce(
+        (sum, booking) =>
+          sum + booking.refunds.filter(refund => !refund.failureReason).reduce((total, refund) => total + refund.amount, 0),
+        0
+      )
+    ),
+    cancellations: cancelled.length,
+    cancelledTickets: cancelled.reduce((sum, booking) => sum + booking.ticketCount, 0),
+    pendingTickets: eventBookings
+      .filter(booking => booking.status === 'pending')
+      .reduce((sum, booking) => sum + booking.ticketCount, 0),
+    checkedIn,
+    checkInRate: ticketsSold > 0 ? checkedIn / ticketsSold : 0,
+    capacity: getTotalCapacity(event),
+    remainingCapacity: Math.max(0, getTotalCapacity(event) - event.currentAttendees),
+    salesByDay: Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date)),
+  };
+};
+
+/**
+ * Add up the figures of all of an organizer's events
+ */
+export const summarizeEventStats = (stats: EventStats[]): OrganizerSummary => {
+  const ticketsSold = stats.reduce((sum, s) => sum + s.ticketsSold, 0);
+  const checkedIn = stats.reduce((sum, s) => sum + s.checkedIn, 0);
+  return {
+    eventCount: stats.length,
+    ticketsSold,
+    revenue: roundCurrency(stats.reduce((sum, s) => sum + s.revenue, 0)),
+    refunded: roundCurrency(stats.reduce((sum, s) => sum + s.refunded, 0)),
+    cancellations: stats.reduce((sum, s) => sum + s.cancellations, 0),
+    checkedIn,
+    checkInRate: ticketsSold > 0 ? checkedIn / ticketsSold : 0,
+    remainingCapacity: stats.reduce((sum, s) => sum + s.remainingCapacity, 0),
+  };
+};
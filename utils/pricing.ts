@@ -0,0 +1,131 @@
+import type { Event } from '@/context/EventContext';
+import type { BookingLineItem } from '@/utils/ticketTiers';
+
+/**
+ * A discount code customers can enter at checkout
+ */
+export interface PromoCode {
+  code: string;
+  type: 'percentage' | 'fixed';
+  value: number; // percent off, or LYD off the booking
+  maxDiscount?: number; // cap on a percentage discount, in LYD
+  description?: string;
+  descriptionAr?: string;
+  validFrom?: string; // ISO date-time
+  expiresAt?: string; // ISO date-time
+  maxUses?: number; // across all customers
+  maxUsesPerUser?: number;
+  timesUsed: number;
+  minTickets?: number;
+  eventIds?: string[]; // only these events, any event when unset
+  categories?: Event['category'][]; // only events in these categories, any category when unset
+}
+
+/**
+ * A discount taken off a booking
+ */
+export interface AppliedDiscount {
+  code: string;
+  type: PromoCode['type'];
+  value: number;
+  amount: number; // LYD taken off
+}
+
+/**
+ * How a booking's price was worked out
+ */
+export interface PriceBreakdown {
+  subtotal: number; // line items before discounts
+  discounts: AppliedDiscount[];
+  discountTotal: number;
+  total: number; // what the customer pays
+}
+
+export type PromoCodeRejection =
+  | 'unknown'
+  | 'not_started'
+  | 'expired'
+  | 'usage_limit'
+  | 'user_limit'
+  | 'min_tickets'
+  | 'not_applicable';
+
+export type PromoCodeCheck =
+  | { status: 'applied'; discount: AppliedDiscount }
+  | { status: 'rejected'; code: string; reason: PromoCodeRejection };
+
+/**
+ * Price quote for a selection, with the outcome of the promo code when one was entered
+ */
+export interface PriceQuote {
+  lineItems: BookingLineItem[];
+  breakdown: PriceBreakdown;
+  promoCode?: PromoCodeCheck;
+}
+
+export interface PromoCodeContext {
+  event: Event;
+  ticketCount: number;
+  subtotal: number;
+  userUses: number; // bookings the user already made with the code
+  now?: Date;
+}
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Codes are matched without regard to case or surrounding spaces
+ */
+export const normalizePromoCode = (code: string): string => code.trim().toUpperCase();
+
+/**
+ * Check a promo code against a booking and work out the discount it gives
+ */
+export const checkPromoCode = (
+  enteredCode: string,
+  promo: PromoCode | undefined,
+  { event, ticketCount, subtotal, userUses, now = new Date() }: PromoCodeContext
+): PromoCodeCheck => {
+  const code = normalizePromoCode(enteredCode);
+  const reject = (reason: PromoCodeRejection): PromoCodeCheck => ({ status: 'rejected', code, reason });
+
+  if (!promo) return reject('unknown');
+  if (promo.validFrom && now < new Date(promo.validFrom)) return reject('not_started');
+  if (promo.expiresAt && now > new Date(promo.expiresAt)) return reject('expired');
+  if (promo.maxUses !== undefined && promo.timesUsed >= promo.maxUses) return reject('usage_limit');
+  if (promo.maxUsesPerUser !== undefined && userUses >= promo.maxUsesPerUser) return reject('user_limit');
+  if (promo.minTickets !== undefined && ticketCount < promo.minTickets) return reject('min_tickets');
+  if (promo.eventIds && !promo.eventIds.includes(event.id)) return reject('not_applicable');
+  if (promo.categories && !promo.categories.includes(event.category)) return reject('not_applicable');
+
+  const uncapped = promo.type === 'percentage'
+    ? subtotal * promo.value / 100
+    : promo.value;
+  const capped = promo.type === 'percentage' && promo.maxDiscount !== undefined
+    ? Math.min(uncapped, promo.maxDiscount)
+    : uncapped;
+
+  return {
+    status: 'applied',
+    discount: {
+      code: promo.code,
+      type: promo.type,
+      value: promo.value,
+      amount: roundCurrency(Math.min(capped, subtotal)),
+    },
+  };
+};
+
+/**
+ * Total up line items and discounts. Discounts never take the total below zero.
+ */
+export const buildPriceBreakdown = (lineItems: BookingLineItem[], discounts: AppliedDiscount[] = []): PriceBreakdown => {
+  const subtotal = roundCurrency(lineItems.reduce((sum, item) => sum + item.subtotal, 0));
+  const discountTotal = roundCurrency(Math.min(subtotal, discounts.reduce((sum, d) => sum + d.amount, 0)));
+  return {
+    subtotal,
+    discounts,
+    discountTotal,
+    total: roundCurrency(subtotal - discountTotal),
+  };
+};
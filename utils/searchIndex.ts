@@ -0,0 +1,219 @@
+import type { Event } from '@/context/EventContext';
+import type { School } from '@/context/ChatContext';
+
+/**
+ * A text field to search, with how much a match in it counts towards the ranking
+ */
+export interface SearchField<T> {
+  value: (item: T) => string | undefined;
+  weight: number;
+}
+
+export interface SearchIndex<T> {
+  /**
+   * Items matching every word of the query, best match first. A blank query gives back every item.
+   */
+  search: (query: string) => T[];
+}
+
+// How much each kind of match is worth before the field weight is applied
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.5; // plus up to 0.3 the more of the word was typed
+const TYPO_MATCH = 0.4; // less 0.1 for each extra edit
+
+// Articles and joined prepositions dropped so "مدرسة" finds "المدرسة" and "بالمدرسة"
+const ARABIC_PREFIXES = ['وال', 'بال', 'فال', 'كال', 'لل', 'ال'];
+
+/**
+ * Fold the spelling variants of Arabic (hamza forms, taa marbuta, alef maqsura, diacritics,
+ * tatweel, Eastern digits) and Latin (case, accents) so they compare equal
+ */
+export const normalizeText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Latin accents
+    .toLowerCase()
+    .replace(/[\u064b-\u065f\u0670\u0640]/g, '') // tashkeel, superscript alef and tatweel
+    .replace(/[\u0622\u0623\u0625\u0671]/g, '\u0627') // آ أ إ ٱ -> ا
+    .replace(/\u0624/g, '\u0648') // ؤ -> و
+    .replace(/[\u0626\u0649]/g, '\u064a') // ئ ى -> ي
+    .replace(/\u0629/g, '\u0647') // ة -> ه
+    .replace(/\u0621/g, '') // standalone hamza ء
+    .replace(/[\u0660-\u0669]/g, digit => String(digit.charCodeAt(0) - 0x0660)) // Eastern Arabic digits
+    .replace(/[^a-z0-9\u0621-\u064a]+/g, ' ')
+    .trim();
+
+export const tokenize = (text: string): string[] => {
+  const normalized = normalizeText(text);
+  return normalized ? normalized.split(' ') : [];
+};
+
+/**
+ * A word along with its form without a leading article, when it has one
+ */
+const getTerms = (token: string): string[] => {
+  const prefix = ARABIC_PREFIXES.find(p => token.startsWith(p) && token.length - p.length >= 2);
+  return prefix ? [token, token.slice(prefix.length)] : [token];
+};
+
+// Short words have to be typed exactly; longer ones allow one or two mistakes
+const getAllowedTypos = (token: string): number => (token.length < 4 ? 0 : token.length < 8 ? 1 : 2);
+
+/**
+ * Edits (insertions, deletions, substitutions and swaps of neighbours) between two words,
+ * or Infinity once it is certain to exceed `max`
+ */
+const getEditDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return Infinity;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const nextRow = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(row[j] + 1, nextRow[j - 1] + 1, row[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, previousRow[j - 2] + 1);
+      }
+      nextRow.push(distance);
+      rowMin = Math.min(rowMin, distance);
+    }
+    if (rowMin > max) return Infinity;
+    previousRow = row;
+    row = nextRow;
+  }
+  return row[b.length] <= max ? row[b.length] : Infinity;
+};
+
+/**
+ * Build an index over the given fields of the items. Words are stored once in a sorted list,
+ * so exact and prefix lookups are binary searches and typo lookups only compare words of a similar length.
+ */
+export const createSearchIndex = <T>(items: T[], fields: SearchField<T>[]): SearchIndex<T> => {
+  // Word -> item -> the highest weight of the fields it appears in
+  const postings = new Map<string, Map<number, number>>();
+  // Whole normalized fields, to reward queries found as a phrase
+  const fieldTexts = items.map(item => fields.map(field => normalizeText(field.value(item) || '')));
+
+  items.forEach((item, itemIndex) => {
+    fields.forEach((field, fieldIndex) => {
+      const text = fieldTexts[itemIndex][fieldIndex];
+      if (!text) return;
+      text.split(' ').flatMap(getTerms).forEach(term => {
+        const itemWeights = postings.get(term) || new Map<number, number>();
+        itemWeights.set(itemIndex, Math.max(itemWeights.get(itemIndex) || 0, field.weight));
+        postings.set(term, itemWeights);
+      });
+    });
+  });
+
+  const sortedTerms = Array.from(postings.keys()).sort();
+  const termsByLength = new Map<number, string[]>();
+  sortedTerms.forEach(term => {
+    const sameLength = termsByLength.get(term.length);
+    if (sameLength) sameLength.push(term);
+    else termsByLength.set(term.length, [term]);
+  });
+
+  // Position of the first word that is not before `token`
+  const lowerBound = (token: string): number => {
+    let low = 0;
+    let high = sortedTerms.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (sortedTerms[middle] < token) low = middle + 1;
+      else high = middle;
+    }
+    return low;
+  };
+
+  // Indexed words matching a query word, each with how good the match is
+  const matchToken = (token: string): Map<string, number> => {
+    const matches = new Map<string, number>();
+
+    // Exact and prefix matches; a single letter only matches whole words
+    for (let i = lowerBound(token); i < sortedTerms.length && sortedTerms[i].startsWith(token); i++) {
+      const term = sortedTerms[i];
+      if (term === token) matches.set(term, EXACT_MATCH);
+      else if (token.length >= 2) matches.set(term, PREFIX_MATCH + 0.3 * (token.length / term.length));
+    }
+
+    const allowedTypos = getAllowedTypos(token);
+    for (let length = token.length - allowedTypos; length <= token.length + allowedTypos; length++) {
+      (termsByLength.get(length) || []).forEach(term => {
+        if (matches.has(term)) return;
+        const distance = getEditDistance(token, term, allowedTypos);
+        if (distance !== Infinity) matches.set(term, TYPO_MATCH - 0.1 * (distance - 1));
+      });
+    }
+    return matches;
+  };
+
+  return {
+    search: (query) => {
+      const tokens = tokenize(query);
+      if (tokens.length === 0) return items;
+
+      // Item -> score, for each word of the query. Query words lose their article like indexed ones,
+      // so "بالمدرسة" finds "مدرسة" as well as "المدرسة".
+      const tokenScores = tokens.map(token => {
+        const scores = new Map<number, number>();
+        getTerms(token).forEach(form => {
+          matchToken(form).forEach((matchScore, term) => {
+            postings.get(term)!.forEach((weight, itemIndex) => {
+              scores.set(itemIndex, Math.max(scores.get(itemIndex) || 0, matchScore * weight));
+            });
+          });
+        });
+        return scores;
+      });
+
+      // Every word of the query has to match
+      const [firstScores, ...otherScores] = tokenScores;
+      const matched = Array.from(firstScores.keys()).filter(itemIndex =>
+        otherScores.every(scores => scores.has(itemIndex))
+      );
+
+      const phrase = tokens.join(' ');
+      return matched
+        .map(itemIndex => {
+          const score = tokenScores.reduce((sum, scores) => sum + scores.get(itemIndex)!, 0);
+          const phraseBonus = tokens.length > 1
+            ? fields.reduce((sum, field, fieldIndex) => sum + (fieldTexts[itemIndex][fieldIndex].includes(phrase) ? field.weight : 0), 0)
+            : 0;
+          return { itemIndex, score: score + phraseBonus };
+        })
+        // Equal scores keep the items' own order
+        .sort((a, b) => b.score - a.score || a.itemIndex - b.itemIndex)
+        .map(({ itemIndex }) => items[itemIndex]);
+    },
+  };
+};
+
+export const EVENT_SEARCH_FIELDS: SearchField<Event>[] = [
+  { value: event => event.title, weight: 3 },
+  { value: event => event.titleAr, weight: 3 },
+  { value: event => event.location, weight: 2 },
+  { value: event => event.locationAr, weight: 2 },
+  { value: event => event.organizer, weight: 1.5 },
+  { value: event => event.organizerAr, weight: 1.5 },
+  { value: event => event.description, weight: 1 },
+  { value: event => event.descriptionAr, weight: 1 },
+];
+
+export const SCHOOL_SEARCH_FIELDS: SearchField<School>[] = [
+  { value: school => school.name, weight: 3 },
+  { value: school => school.nameAr, weight: 3 },
+  { value: school => school.location, weight: 2 },
+  { value: school => school.locationAr, weight: 2 },
+  { value: school => school.description, weight: 1 },
+  { value: school => school.descriptionAr, weight: 1 },
+];
+
+export const createEventSearchIndex = (events: Event[]): SearchIndex<Event> =>
+  createSearchIndex(events, EVENT_SEARCH_FIELDS);
+
+export const createSchoolSearchIndex = (schools: School[]): SearchIndex<School> =>
+  createSearchIndex(schools, SCHOOL_SEARCH_FIELDS);
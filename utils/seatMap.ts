@@ -0,0 +1,119 @@
+import type { Event, Booking } from '@/context/EventContext';
+
+export interface Seat {
+  id: string;
+  number: number;
+  accessible?: boolean; // wheelchair space
+  companion?: boolean; // seat next to a wheelchair space, for a companion
+}
+
+export interface SeatRow {
+  label: string;
+  seats: Seat[];
+}
+
+/**
+ * A block of numbered seats in a venue, such as the stalls or the balcony
+ */
+export interface SeatSection {
+  id: string;
+  name: string;
+  nameAr: string;
+  tierIds?: string[]; // ticket tiers that may be seated here, any tier when unset
+  rows: SeatRow[];
+}
+
+/**
+ * Layout of a venue with reserved seating
+ */
+export interface SeatMap {
+  venue: string;
+  venueAr: string;
+  sections: SeatSection[];
+}
+
+export interface SeatLocation {
+  section: SeatSection;
+  row: SeatRow;
+  seat: Seat;
+}
+
+/**
+ * Lay out a section of equal rows. Seat ids take the form `section-row-number`,
+ * and `accessibleSeats` lists the wheelchair spaces as `row-number`.
+ */
+export const buildSeatSection = ({
+  id,
+  name,
+  nameAr,
+  tierIds,
+  rows,
+  seatsPerRow,
+  accessibleSeats = [],
+}: Omit<SeatSection, 'rows'> & { rows: string[]; seatsPerRow: number; accessibleSeats?: string[] }): SeatSection => {
+  const accessible = new Set(accessibleSeats);
+  const isAccessible = (row: string, number: number) => accessible.has(`${row}-${number}`);
+
+  return {
+    id,
+    name,
+    nameAr,
+    tierIds,
+    rows: rows.map(label => ({
+      label,
+      seats: Array.from({ length: seatsPerRow }, (_, index) => {
+        const number = index + 1;
+        const seat: Seat = { id: `${id}-${label}-${number}`, number };
+        if (isAccessible(label, number)) {
+          seat.accessible = true;
+        } else if (isAccessible(label, number - 1) || isAccessible(label, number + 1)) {
+          seat.companion = true;
+        }
+        return seat;
+      }),
+    })),
+  };
+};
+
+/**
+ * Every seat id in a section
+ */
+export const getSectionSeatIds = (section: SeatSection): string[] => {
+  return section.rows.flatMap(row => row.seats.map(seat => seat.id));
+};
+
+/**
+ * Find a seat and the section and row it belongs to
+ */
+export const findSeat = (seatMap: SeatMap, seatId: string): SeatLocation | undefined => {
+  for (const section of seatMap.sections) {
+    for (const row of section.rows) {
+      const seat = row.seats.find(s => s.id === seatId);
+      if (seat) return { section, row, seat };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Check whether tickets of a tier may be seated in a section
+ */
+export const isTierAllowedInSection = (section: SeatSection, tierId: string): boolean => {
+  return !section.tierIds || section.tierIds.includes(tierId);
+};
+
+/**
+ * Seats of a booking, in the order they were chosen
+ */
+export const getBookingSeatIds = (booking: Pick<Booking, 'lineItems'>): string[] => {
+  return booking.lineItems.flatMap(item => item.seatIds || []);
+};
+
+/**
+ * Arabic label of a seat as printed on tickets, e.g. "الصالة - صف C - مقعد 12"
+ */
+export const formatSeatLabel = (event: Pick<Event, 'seatMap'>, seatId: string): string => {
+  const location = event.seatMap ? findSeat(event.seatMap, seatId) : undefined;
+  if (!location) return seatId;
+  return `${location.section.nameAr} - صف ${location.row.label} - مقعد ${location.seat.number}`;
+};
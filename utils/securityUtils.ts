@@ -1,5 +1,6 @@
 import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
 
 // Platform-specific crypto import
 let Crypto: any = null;
@@ -115,6 +116,46 @@ export const deleteSecureData = async (key: string): Promise<void> => {
   }
 };
 
+/**
+ * Keep a small secret, such as a session token, in the Keychain on iOS and the Keystore on Android.
+ * Values over 2 KB may not be stored. The web has no keystore, so it falls back to storeSecureData.
+ */
+export const storeSecret = async (key: string, value: string): Promise<void> => {
+  if (Platform.OS === 'web') return storeSecureData(key, value);
+  try {
+    await SecureStore.setItemAsync(`secure_${key}`, value, { keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK });
+  } catch (error) {
+    console.error('Error storing secret:', error);
+    throw new Error('فشل في حفظ البيانات الآمنة');
+  }
+};
+
+/**
+ * Read a secret kept with storeSecret
+ */
+export const getSecret = async (key: string): Promise<string | null> => {
+  if (Platform.OS === 'web') return getSecureData(key);
+  try {
+    return await SecureStore.getItemAsync(`secure_${key}`);
+  } catch (error) {
+    console.error('Error retrieving secret:', error);
+    return null;
+  }
+};
+
+/**
+ * Delete a secret kept with storeSecret
+ */
+export const deleteSecret = async (key: string): Promise<void> => {
+  if (Platform.OS === 'web') return deleteSecureData(key);
+  try {
+    await SecureStore.deleteItemAsync(`secure_${key}`);
+  } catch (error) {
+    console.error('Error deleting secret:', error);
+    throw new Error('فشل في حذف البيانات الآمنة');
+  }
+};
+
 /**
  * Simple encryption for web platform (not production-ready)
  */
@@ -0,0 +1,150 @@
+import * as FileSystem from 'expo-file-system';
+import { Asset } from 'expo-asset';
+import QRCode from 'qrcode';
+import { Cairo_400Regular, Cairo_700Bold } from '@expo-google-fonts/cairo';
+import { Inter_400Regular, Inter_700Bold } from '@expo-google-fonts/inter';
+import type { PassData } from '@/utils/walletUtils';
+
+export interface TicketPdfOptions {
+  // Print one page per ticket instead of a single page for the whole booking
+  onePerTicket?: boolean;
+}
+
+// Fonts embedded into the PDF so Arabic renders the same on every device
+const PDF_FONTS = [
+  { family: 'Cairo', weight: 400, module: Cairo_400Regular },
+  { family: 'Cairo', weight: 700, module: Cairo_700Bold },
+  { family: 'Inter', weight: 400, module: Inter_400Regular },
+  { family: 'Inter', weight: 700, module: Inter_700Bold },
+];
+
+/**
+ * Render a ticket code as an inline SVG QR code
+ */
+export const generateQRCodeSvg = (value: string): Promise<string> => {
+  return QRCode.toString(value, { type: 'svg', errorCorrectionLevel: 'M', margin: 1 });
+};
+
+/**
+ * Build @font-face rules with the bundled fonts inlined as base64
+ */
+export const loadPdfFontFaces = async (): Promise<string> => {
+  const rules = await Promise.all(
+    PDF_FONTS.map(async font => {
+      const [asset] = await Asset.loadAsync(font.module);
+      const base64 = await FileSystem.readAsStringAsync(asset.localUri || asset.uri, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      return `@font-face { font-family: '${font.family}'; font-weight: ${font.weight}; src: url(data:font/ttf;base64,${base64}) format('truetype'); }`;
+    })
+  );
+  return rules.join('\n');
+};
+
+/**
+ * Escape user-entered text before it is placed in ticket HTML
+ */
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const renderTicketPage = (
+  passData: PassData,
+  qrSvg: string,
+  ticketLabel: string,
+  holderName: string,
+  seats: string[],
+  totalPrice?: number // left off a single attendee's ticket, which is only part of the booking
+): string => `
+  <section class="page">
+    <div class="ticket">
+      <header class="header">
+        <div class="brand">Mi3AD</div>
+        <div class="subtitle">تذكرة دخول إلكترونية · ${ticketLabel}</div>
+      </header>
+      <h1 class="title">${escapeHtml(passData.eventTitle)}</h1>
+      <table class="details">
+        <tr><th>حامل التذكرة</th><td>${escapeHtml(holderName)}</td></tr>
+        <tr><th>التاريخ</th><td>${escapeHtml(passData.eventDate)}</td></tr>
+        <tr><th>الوقت</th><td class="latin">${escapeHtml(passData.eventTime)}</td></tr>
+        <tr><th>الموقع</th><td>${escapeHtml(passData.location)}</td></tr>
+        ${seats.length > 0 ? `<tr><th>${seats.length > 1 ? 'المقاعد' : 'المقعد'}</th><td>${seats.map(escapeHtml).join('<br>')}</td></tr>` : ''}
+        <tr><th>المنظم</th><td>${escapeHtml(passData.organizerName)}</td></tr>
+        ${totalPrice !== undefined ? `<tr><th>السعر الإجمالي</th><td>${totalPrice === 0 ? 'مجاني' : `${totalPrice} د.ل`}</td></tr>` : ''}
+      </table>
+      <div class="qr">${qrSvg}</div>
+      <p class="instruction">امسح هذا الرمز عند نقطة الدخول للتحقق من صحة التذكرة</p>
+      <footer class="footer">
+        رقم الحجز: <span class="latin">${escapeHtml(passData.bookingId)}</span>
+      </footer>
+    </div>
+  </section>`;
+
+/**
+ * Generate the printable HTML the PDF is rendered from
+ */
+export const generateTicketPdfHTML = async (
+  passData: PassData,
+  fontFaces: string,
+  options: TicketPdfOptions = {}
+): Promise<string> => {
+  const tickets = passData.tickets || [];
+  // Each page of a per-ticket PDF carries that attendee's own code and seat
+  const pages = options.onePerTicket && tickets.length > 1
+    ? await Promise.all(
+        tickets.map(async (ticket, index) =>
+          renderTicketPage(
+            passData,
+            await generateQRCodeSvg(ticket.qrCode),
+            `تذكرة ${index + 1} من ${tickets.length}`,
+            ticket.holderName,
+            ticket.seat ? [ticket.seat] : []
+          )
+        )
+      )
+    : [
+        renderTicketPage(
+          passData,
+          await generateQRCodeSvg(passData.qrCode),
+          `${passData.ticketCount} تذاكر`,
+          passData.holderName,
+          passData.seats || [],
+          passData.attendeeId ? undefined : passData.totalPrice
+        ),
+      ];
+
+  return `<!DOCTYPE html>
+<html dir="rtl" lang="ar">
+<head>
+  <meta charset="UTF-8">
+  <title>تذكرة Mi3AD - ${escapeHtml(passData.eventTitle)}</title>
+  <style>
+    ${fontFaces}
+    @page { size: A5; margin: 0; }
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body { font-family: 'Cairo', 'Inter', sans-serif; direction: rtl; color: #1E293B; }
+    .latin { font-family: 'Inter', sans-serif; direction: ltr; unicode-bidi: embed; }
+    .page { width: 148mm; height: 210mm; padding: 12mm; page-break-after: always; }
+    .page:last-child { page-break-after: auto; }
+    .ticket { height: 100%; border: 2px solid #A855F7; border-radius: 16px; overflow: hidden; }
+    .header { background: #A855F7; color: white; text-align: center; padding: 16px; }
+    .brand { font-family: 'Inter', sans-serif; font-weight: 700; font-size: 26px; }
+    .subtitle { font-size: 14px; }
+    .title { font-size: 22px; font-weight: 700; text-align: center; margin: 16px 12px; }
+    .details { width: calc(100% - 32px); margin: 0 16px; border-collapse: collapse; font-size: 13px; }
+    .details th { text-align: right; color: #64748B; font-weight: 400; padding: 6px 0; width: 35%; }
+    .details td { text-align: left; font-weight: 700; padding: 6px 0; border-bottom: 1px solid #F1F5F9; }
+    .qr { width: 55mm; height: 55mm; margin: 16px auto 8px; }
+    .qr svg { width: 100%; height: 100%; }
+    .instruction { text-align: center; font-size: 12px; color: #64748B; }
+    .footer { text-align: center; font-size: 11px; color: #64748B; margin-top: 12px; }
+  </style>
+</head>
+<body>${pages.join('')}
+</body>
+</html>`;
+};
@@ -0,0 +1,131 @@
+import forge from 'node-forge';
+import { getCalendarInstant } from '@/utils/icalendar';
+
+const TICKET_PREFIX = 'MI3AD2';
+
+// Tickets stay valid for a day after the event starts
+const TICKET_VALIDITY_AFTER_START = 24 * 60 * 60 * 1000;
+
+export interface TicketPayload {
+  v: 1;
+  bid: string; // booking id
+  eid: string; // event id
+  n: number; // seat count
+  s?: string[]; // reserved seat ids
+  a?: string; // attendee ticket id, set on the QR code of a single attendee
+  ses?: string; // session id, set on tickets of events with sessions
+  iat: number; // issued at (epoch seconds)
+  exp: number; // expires at (epoch seconds)
+}
+
+export type TicketVerificationResult =
+  | { status: 'valid'; payload: TicketPayload }
+  | { status: 'malformed' }
+  | { status: 'unverifiable'; payload: TicketPayload } // no public key for the ticket's event
+  | { status: 'forged' }
+  | { status: 'expired'; payload: TicketPayload }
+  | { status: 'wrong_event'; payload: TicketPayload }
+  | { status: 'wrong_session'; payload: TicketPayload };
+
+/**
+ * Signs tickets with the organizer keys. Only the events API holds one;
+ * apps and scanners get the public keys with the events.
+ */
+export interface TicketIssuer {
+  getPublicKey: (keyId: string) => string; // hex
+  sign: (keyId: string, payload: Omit<TicketPayload, 'v'>) => string;
+}
+
+const fromHex = (hex: string): Uint8Array =>
+  new Uint8Array((hex.match(/.{2}/g) || []).map(byte => parseInt(byte, 16)));
+
+const encodeBase64Url = (binary: string): string =>
+  forge.util.encode64(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const decodeBase64Url = (encoded: string): string => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  return forge.util.decode64(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+};
+
+/**
+ * Work out when a ticket for the given event date and time stops being valid.
+ * Events are entered in Libyan local time, as in their calendar entries.
+ */
+export const getTicketExpiry = (eventDate: string, eventTime: string): Date => {
+  const start = getCalendarInstant(eventDate, eventTime);
+  return new Date(start.getTime() + TICKET_VALIDITY_AFTER_START);
+};
+
+/**
+ * Sign a ticket payload and encode it as the QR code content
+ */
+export const signTicket = (payload: Omit<TicketPayload, 'v'>, privateKey: Uint8Array): string => {
+  const encodedPayload = encodeBase64Url(forge.util.encodeUtf8(JSON.stringify({ v: 1, ...payload })));
+  const signature = forge.pki.ed25519.sign({
+    message: `${TICKET_PREFIX}.${encodedPayload}`,
+    encoding: 'utf8',
+    privateKey,
+  });
+  return `${TICKET_PREFIX}.${encodedPayload}.${encodeBase64Url(forge.util.binary.raw.encode(signature))}`;
+};
+
+/**
+ * Check whether a QR code has the signed ticket layout (without verifying it)
+ */
+export const isSignedTicketCode = (code: string): boolean =>
+  /^MI3AD2\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/.test(code);
+
+/**
+ * Verify a ticket QR code offline against the public key of its event's organizer.
+ * Tickets whose event has no known key are never accepted.
+ * When an event id is given, tickets for other events are rejected,
+ * and with a session id too, tickets for the event's other sessions.
+ */
+export const verifyTicketCode = (
+  code: string,
+  options: {
+    getPublicKey: (payload: TicketPayload) => string | undefined; // hex, usually the event's ticketKey
+    eventId?: string;
+    sessionId?: string;
+    now?: Date;
+  }
+): TicketVerificationResult => {
+  if (!isSignedTicketCode(code)) return { status: 'malformed' };
+
+  const [prefix, encodedPayload, encodedSignature] = code.split('.');
+
+  let payload: TicketPayload;
+  try {
+    payload = JSON.parse(forge.util.decodeUtf8(decodeBase64Url(encodedPayload)));
+  } catch (error) {
+    return { status: 'malformed' };
+  }
+  if (payload?.v !== 1 || !payload.bid || !payload.eid || !payload.n || !payload.exp) {
+    return { status: 'malformed' };
+  }
+
+  const publicKey = options.getPublicKey(payload);
+  if (!publicKey) return { status: 'unverifiable', payload };
+
+  let isAuthentic = false;
+  try {
+    const signature = forge.util.binary.raw.decode(decodeBase64Url(encodedSignature));
+    isAuthentic = signature.length === 64 && forge.pki.ed25519.verify({
+      message: `${prefix}.${encodedPayload}`,
+      encoding: 'utf8',
+      signature,
+      publicKey: fromHex(publicKey),
+    });
+  } catch (error) {
+    isAuthentic = false;
+  }
+  if (!isAuthentic) return { status: 'forged' };
+
+  const now = options.now || new Date();
+  if (payload.exp * 1000 <= now.getTime()) return { status: 'expired', payload };
+
+  if (options.eventId && payload.eid !== options.eventId) return { status: 'wrong_event', payload };
+  if (options.sessionId && payload.ses !== options.sessionId) return { status: 'wrong_session', payload };
+
+  return { status: 'valid', payload };
+};
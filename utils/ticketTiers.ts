@@ -0,0 +1,94 @@
+import type { Event } from '@/context/EventContext';
+
+/**
+ * A price category of an event, such as VIP, student or early-bird
+ */
+export interface TicketTier {
+  id: string;
+  name: string;
+  nameAr: string;
+  price: number;
+  capacity: number;
+  sold: number;
+  salesStart?: string; // ISO date-time, on sale immediately when unset
+  salesEnd?: string; // ISO date-time, on sale until the event when unset
+  eligibility?: string; // who may buy this tier, e.g. "Valid student ID required"
+  eligibilityAr?: string;
+}
+
+export interface TicketSelection {
+  tierId: string;
+  quantity: number;
+  seatIds?: string[]; // one chosen seat per ticket, required when the event has a seat map
+}
+
+/**
+ * One tier's share of a booking, priced when the booking was made
+ */
+export interface BookingLineItem {
+  tierId: string;
+  name: string;
+  nameAr: string;
+  unitPrice: number;
+  quantity: number;
+  subtotal: number;
+  seatIds?: string[]; // reserved seats of these tickets
+}
+
+// Events without tiers sell a single general admission tier
+export const GENERAL_TIER_ID = 'general';
+
+/**
+ * The tiers on offer for an event
+ */
+export const getEventTiers = (event: Event): TicketTier[] => {
+  if (event.tiers && event.tiers.length > 0) return event.tiers;
+  return [
+    {
+      id: GENERAL_TIER_ID,
+      name: 'General admission',
+      nameAr: 'تذكرة عامة',
+      price: event.price,
+      capacity: event.maxAttendees,
+      sold: event.currentAttendees,
+    },
+  ];
+};
+
+/**
+ * Check whether a tier's sale window is open
+ */
+export const isTierOnSale = (tier: TicketTier, now: Date = new Date()): boolean => {
+  if (tier.salesStart && now < new Date(tier.salesStart)) return false;
+  if (tier.salesEnd && now > new Date(tier.salesEnd)) return false;
+  return true;
+};
+
+/**
+ * Price a selection of tiers. Selections for unknown tiers or with no tickets are skipped.
+ */
+export const buildLineItems = (event: Event, selections: TicketSelection[]): BookingLineItem[] => {
+  const tiers = getEventTiers(event);
+  return selections
+    .filter(selection => selection.quantity > 0)
+    .flatMap(selection => {
+      const tier = tiers.find(t => t.id === selection.tierId);
+      if (!tier) return [];
+      return [{
+        tierId: tier.id,
+        name: tier.name,
+        nameAr: tier.nameAr,
+        unitPrice: tier.price,
+        quantity: selection.quantity,
+        subtotal: tier.price * selection.quantity,
+        ...(selection.seatIds ? { seatIds: selection.seatIds } : {}),
+      }];
+    });
+};
+
+/**
+ * Total tickets in a selection
+ */
+export const countTickets = (selections: TicketSelection[]): number => {
+  return selections.reduce((sum, selection) => sum + selection.quantity, 0);
+};
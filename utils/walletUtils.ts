@@ -1,6 +1,11 @@
-import { Platform, Alert } from 'react-native';
+import { Platform, Alert, Linking } from 'react-native';
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
+import * as Print from 'expo-print';
+import { verifyTicketCode } from '@/utils/ticketSigning';
+import type { Event } from '@/context/EventContext';
+import { RepositoryError } from '@/services/eventRepository';
+import { escapeHtml, generateQRCodeSvg, generateTicketPdfHTML, loadPdfFontFaces, TicketPdfOptions } from '@/utils/ticketPdf';
 
 export interface PassData {
   eventTitle: string;
@@ -8,11 +13,22 @@ export interface PassData {
   eventTime: string;
   location: string;
   ticketCount: number;
-  totalPrice: number;
+  totalPrice: number; // of the whole booking, so it is not shown on one attendee's ticket
   qrCode: string;
   holderName: string;
   organizerName: string;
   bookingId: string;
+  attendeeId?: string; // set on one attendee's own ticket
+  eventId: string;
+  eventStart: string; // ISO date-time, eventDate/eventTime are display strings
+  seats?: string[]; // printable labels of reserved seats
+  tickets?: PassTicket[]; // the holder's own tickets of a group booking, one PDF page each
+}
+
+export interface PassTicket {
+  holderName: string;
+  qrCode: string;
+  seat?: string;
 }
 
 /**
@@ -23,10 +39,16 @@ export const isWalletAvailable = (): boolean => {
   return Platform.OS === 'ios' || Platform.OS === 'android';
 };
 
+// Passes are signed by the events API, which holds the wallet keys
+export interface WalletPassSource {
+  getApplePass: () => Promise<string>; // base64 .pkpass
+  getGoogleWalletLink: () => Promise<string>; // "save to Google Wallet" URL
+}
+
 /**
  * Add ticket to mobile wallet (Apple Wallet or Google Pay)
  */
-export const addToMobileWallet = async (passData: PassData): Promise<boolean> => {
+export const addToMobileWallet = async (passData: PassData, source: WalletPassSource): Promise<boolean> => {
   try {
     if (!isWalletAvailable()) {
       Alert.alert(
@@ -38,36 +60,42 @@ export const addToMobileWallet = async (passData: PassData): Promise<boolean> =>
 
     if (Platform.OS === 'ios') {
       // For iOS - Apple Wallet integration
-      const passContent = generateAppleWalletPass(passData);
+      let pkpass: string;
+      try {
+        pkpass = await source.getApplePass();
+      } catch (error) {
+        if (error instanceof RepositoryError && error.code === 'server') {
+          Alert.alert('Apple Wallet', 'إضافة التذاكر إلى Apple Wallet غير مفعلة حالياً');
+          return false;
+        }
+        throw error;
+      }
+
       const passUri = `${FileSystem.documentDirectory}ticket-${passData.bookingId}.pkpass`;
-      
-      await FileSystem.writeAsStringAsync(passUri, passContent);
-      
-      // In a real implementation, you would:
-      // 1. Generate a proper .pkpass file with certificates
-      // 2. Use expo-linking to open the pass
-      // 3. Handle the wallet integration properly
-      
-      Alert.alert(
-        'Apple Wallet',
-        'تم إعداد التذكرة لإضافتها إلى Apple Wallet. في التطبيق الحقيقي، ستتم إضافتها تلقائياً.',
-        [{ text: 'رائع!' }]
-      );
+      await FileSystem.writeAsStringAsync(passUri, pkpass, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+
+      // Wallet picks up .pkpass files from the share sheet
+      await Sharing.shareAsync(passUri, {
+        mimeType: 'application/vnd.apple.pkpass',
+        UTI: 'com.apple.pkpass',
+      });
       return true;
     } else if (Platform.OS === 'android') {
-      // For Android - Google Pay integration
-      const passContent = generateGooglePayPass(passData);
-      
-      // In a real implementation, you would:
-      // 1. Use Google Pay API
-      // 2. Generate proper JWT tokens
-      // 3. Handle the Google Pay integration
-      
-      Alert.alert(
-        'Google Pay',
-        'تم إعداد التذكرة لإضافتها إلى Google Pay. في التطبيق الحقيقي، ستتم إضافتها تلقائياً.',
-        [{ text: 'رائع!' }]
-      );
+      // For Android - Google Wallet save link
+      let saveUrl: string;
+      try {
+        saveUrl = await source.getGoogleWalletLink();
+      } catch (error) {
+        if (error instanceof RepositoryError && error.code === 'server') {
+          Alert.alert('Google Wallet', 'إضافة التذاكر إلى Google Wallet غير مفعلة حالياً');
+          return false;
+        }
+        throw error;
+      }
+
+      await Linking.openURL(saveUrl);
       return true;
     }
 
@@ -84,9 +112,10 @@ export const addToMobileWallet = async (passData: PassData): Promise<boolean> =>
  */
 export const downloadTicket = async (passData: PassData): Promise<boolean> => {
   try {
+    const qrSvg = await generateQRCodeSvg(passData.qrCode);
     if (Platform.OS === 'web') {
       // For web platform - trigger download
-      const ticketContent = generateTicketHTML(passData);
+      const ticketContent = generateTicketHTML(passData, qrSvg);
       const blob = new Blob([ticketContent], { type: 'text/html' });
       const url = URL.createObjectURL(blob);
       
@@ -102,7 +131,7 @@ export const downloadTicket = async (passData: PassData): Promise<boolean> => {
       return true;
     } else {
       // For mobile platforms - save to device storage
-      const ticketContent = generateTicketHTML(passData);
+      const ticketContent = generateTicketHTML(passData, qrSvg);
       const fileUri = `${FileSystem.documentDirectory}mi3ad-ticket-${passData.bookingId}.html`;
       
       await FileSystem.writeAsStringAsync(fileUri, ticketContent);
@@ -126,146 +155,50 @@ export const downloadTicket = async (passData: PassData): Promise<boolean> => {
 };
 
 /**
- * Generate Apple Wallet pass content (simplified)
+ * Export ticket as a PDF with embedded fonts and a scannable QR code
  */
-const generateAppleWalletPass = (passData: PassData): string => {
-  // This is a simplified version. In production, you would need:
-  // 1. Apple Developer certificates
-  // 2. Proper pass.json structure
-  // 3. Digital signatures
-  // 4. Images and assets
-  
-  const passJson = {
-    formatVersion: 1,
-    passTypeIdentifier: "pass.com.mi3ad.eventticket",
-    serialNumber: passData.bookingId,
-    teamIdentifier: "YOUR_TEAM_ID",
-    organizationName: "Mi3AD",
-    description: `تذكرة ${passData.eventTitle}`,
-    logoText: "Mi3AD",
-    foregroundColor: "rgb(255, 255, 255)",
-    backgroundColor: "rgb(168, 85, 247)",
-    eventTicket: {
-      primaryFields: [
-        {
-          key: "event",
-          label: "الفعالية",
-          value: passData.eventTitle
-        }
-      ],
-      secondaryFields: [
-        {
-          key: "date",
-          label: "التاريخ",
-          value: passData.eventDate
-        },
-        {
-          key: "time",
-          label: "الوقت",
-          value: passData.eventTime
-        }
-      ],
-      auxiliaryFields: [
-        {
-          key: "location",
-          label: "الموقع",
-          value: passData.location
-        },
-        {
-          key: "tickets",
-          label: "عدد التذاكر",
-          value: passData.ticketCount.toString()
-        }
-      ],
-      backFields: [
-        {
-          key: "holder",
-          label: "حامل التذكرة",
-          value: passData.holderName
-        },
-        {
-          key: "organizer",
-          label: "المنظم",
-          value: passData.organizerName
-        },
-        {
-          key: "qr",
-          label: "رمز التذكرة",
-          value: passData.qrCode
-        }
-      ]
-    },
-    barcode: {
-      message: passData.qrCode,
-      format: "PKBarcodeFormatQR",
-      messageEncoding: "iso-8859-1"
+export const downloadTicketPdf = async (passData: PassData, options: TicketPdfOptions = {}): Promise<boolean> => {
+  try {
+    const html = await generateTicketPdfHTML(passData, await loadPdfFontFaces(), options);
+
+    if (Platform.OS === 'web') {
+      // Browsers save PDFs from the print dialog
+      await Print.printAsync({ html });
+      return true;
     }
-  };
-  
-  return JSON.stringify(passJson, null, 2);
-};
 
-/**
- * Generate Google Pay pass content (simplified)
- */
-const generateGooglePayPass = (passData: PassData): string => {
-  // This is a simplified version. In production, you would need:
-  // 1. Google Pay API credentials
-  // 2. Proper JWT structure
-  // 3. Digital signatures
-  
-  const googlePayObject = {
-    iss: "your-service-account@your-project.iam.gserviceaccount.com",
-    aud: "google",
-    typ: "savetowallet",
-    iat: Math.floor(Date.now() / 1000),
-    payload: {
-      eventTicketObjects: [
-        {
-          id: `${passData.bookingId}`,
-          classId: "mi3ad_event_ticket_class",
-          state: "ACTIVE",
-          ticketHolderName: passData.holderName,
-          eventName: {
-            defaultValue: {
-              language: "ar",
-              value: passData.eventTitle
-            }
-          },
-          venue: {
-            name: {
-              defaultValue: {
-                language: "ar",
-                value: passData.location
-              }
-            }
-          },
-          dateTime: {
-            start: `${passData.eventDate}T${passData.eventTime}:00`,
-          },
-          barcode: {
-            type: "QR_CODE",
-            value: passData.qrCode
-          }
-        }
-      ]
+    const { uri } = await Print.printToFileAsync({ html });
+    const fileUri = `${FileSystem.documentDirectory}mi3ad-ticket-${passData.bookingId}.pdf`;
+    await FileSystem.moveAsync({ from: uri, to: fileUri });
+
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(fileUri, {
+        mimeType: 'application/pdf',
+        UTI: 'com.adobe.pdf',
+        dialogTitle: 'حفظ التذكرة',
+      });
     }
-  };
-  
-  return JSON.stringify(googlePayObject, null, 2);
+
+    Alert.alert('تم التحميل', 'تم حفظ التذكرة بصيغة PDF على جهازك');
+    return true;
+  } catch (error) {
+    console.error('Error exporting ticket PDF:', error);
+    Alert.alert('خطأ', 'فشل في تصدير التذكرة بصيغة PDF');
+    return false;
+  }
 };
 
 /**
  * Generate HTML content for the ticket
  */
-const generateTicketHTML = (passData: PassData): string => {
+const generateTicketHTML = (passData: PassData, qrSvg: string): string => {
   return `
 <!DOCTYPE html>
 <html dir="rtl" lang="ar">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>تذكرة Mi3AD - ${passData.eventTitle}</title>
+    <title>تذكرة Mi3AD - ${escapeHtml(passData.eventTitle)}</title>
     <style>
         * {
             margin: 0;
@@ -418,18 +351,20 @@ const generateTicketHTML = (passData: PassData): string => {
         }
         
         .qr-code {
-            font-family: 'Courier New', monospace;
-            font-size: 18px;
-            font-weight: bold;
-            color: #A855F7;
-            letter-spacing: 2px;
-            margin: 16px 0;
+            width: 200px;
+            height: 200px;
+            margin: 16px auto;
             padding: 12px;
             background: white;
             border-radius: 8px;
             border: 1px solid #E2E8F0;
         }
         
+        .qr-code svg {
+            width: 100%;
+            height: 100%;
+        }
+        
         .qr-instruction {
             font-size: 12px;
             color: #64748B;
@@ -497,45 +432,51 @@ const generateTicketHTML = (passData: PassData): string => {
         </div>
         
         <div class="ticket-body">
-            <div class="event-title">${passData.eventTitle}</div>
+            <div class="event-title">${escapeHtml(passData.eventTitle)}</div>
             
             <div class="holder-section">
                 <div class="holder-label">حامل التذكرة</div>
                 <div class="holder-name">
-                    👤 ${passData.holderName}
+                    👤 ${escapeHtml(passData.holderName)}
                 </div>
             </div>
             
             <div class="event-details">
                 <div class="detail-row">
                     <span class="detail-label">📅 التاريخ:</span>
-                    <span class="detail-value">${passData.eventDate}</span>
+                    <span class="detail-value">${escapeHtml(passData.eventDate)}</span>
                 </div>
                 <div class="detail-row">
                     <span class="detail-label">🕐 الوقت:</span>
-                    <span class="detail-value">${passData.eventTime}</span>
+                    <span class="detail-value">${escapeHtml(passData.eventTime)}</span>
                 </div>
                 <div class="detail-row">
                     <span class="detail-label">📍 الموقع:</span>
-                    <span class="detail-value">${passData.location}</span>
+                    <span class="detail-value">${escapeHtml(passData.location)}</span>
                 </div>
                 <div class="detail-row">
                     <span class="detail-label">🎫 عدد التذاكر:</span>
                     <span class="detail-value">${passData.ticketCount}</span>
                 </div>
+                ${passData.seats && passData.seats.length > 0 ? `
+                <div class="detail-row">
+                    <span class="detail-label">💺 المقاعد:</span>
+                    <span class="detail-value">${passData.seats.map(escapeHtml).join('، ')}</span>
+                </div>` : ''}
+                ${!passData.attendeeId ? `
                 <div class="detail-row">
                     <span class="detail-label">💰 السعر الإجمالي:</span>
                     <span class="detail-value">${passData.totalPrice === 0 ? 'مجاني' : `${passData.totalPrice} د.ل`}</span>
-                </div>
+                </div>` : ''}
                 <div class="detail-row">
                     <span class="detail-label">🏢 المنظم:</span>
-                    <span class="detail-value">${passData.organizerName}</span>
+                    <span class="detail-value">${escapeHtml(passData.organizerName)}</span>
                 </div>
             </div>
             
             <div class="qr-section">
                 <div class="qr-title">رمز التذكرة الإلكتروني</div>
-                <div class="qr-code">${passData.qrCode}</div>
+                <div class="qr-code">${qrSvg}</div>
                 <div class="qr-instruction">
                     امسح هذا الرمز عند نقطة الدخول للتحقق من صحة التذكرة
                 </div>
@@ -544,7 +485,7 @@ const generateTicketHTML = (passData: PassData): string => {
             <div class="footer">
                 <div class="footer-line">تطبيق Mi3AD - إدارة الفعاليات والمناسبات</div>
                 <div class="footer-line">تم إنشاء التذكرة في: ${new Date().toLocaleDateString('ar-LY')} - ${new Date().toLocaleTimeString('ar-LY')}</div>
-                <div class="footer-line">رقم التذكرة: ${passData.bookingId}</div>
+                <div class="footer-line">رقم التذكرة: ${escapeHtml(passData.bookingId)}</div>
             </div>
             
             <div class="warning">
@@ -569,12 +510,10 @@ export const generateShareableLink = (ticketId: string): string => {
 };
 
 /**
- * Validate ticket QR code format
+ * Validate a ticket QR code: checks the signature against the event's organizer key, and the expiry
  */
-export const validateQRCode = (qrCode: string): boolean => {
-  // Basic validation for Mi3AD ticket format
-  const qrPattern = /^MI3AD-\d+-\w+$/;
-  return qrPattern.test(qrCode);
+export const validateQRCode = (qrCode: string, event: Pick<Event, 'id' | 'ticketKey'>): boolean => {
+  return verifyTicketCode(qrCode, { eventId: event.id, getPublicKey: () => event.ticketKey }).status === 'valid';
 };
 
 /**
@@ -584,12 +523,3 @@ export const generateAppleWalletURL = (passData: PassData): string => {
   // In production, this would generate a proper .pkpass file URL
   return `https://api.mi3ad.app/wallet/apple/${passData.bookingId}.pkpass`;
 };
-
-/**
- * Generate Google Pay save URL (for real implementation)
- */
-export const generateGooglePayURL = (passData: PassData): string => {
-  // In production, this would generate a proper Google Pay save URL
-  const jwt = generateGooglePayPass(passData);
-  return `https://pay.google.com/gp/v/save/${encodeURIComponent(jwt)}`;
-};
@@ -0,0 +1,62 @@
+import forge from 'node-forge';
+
+export interface ZipEntry {
+  name: string;
+  data: string; // binary string, one byte per character
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * CRC-32 checksum of a binary string, as stored in zip headers
+ */
+export const crc32 = (data: string): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data.charCodeAt(i)) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const uint16 = (value: number): string => String.fromCharCode(value & 0xff, (value >>> 8) & 0xff);
+
+const uint32 = (value: number): string => uint16(value & 0xffff) + uint16(value >>> 16);
+
+/**
+ * Pack files into an uncompressed (stored) zip archive.
+ * Returns the archive as a binary string.
+ */
+export const createZipArchive = (entries: ZipEntry[]): string => {
+  let body = '';
+  let centralDirectory = '';
+
+  entries.forEach(entry => {
+    const name = forge.util.encodeUtf8(entry.name);
+    const checksum = crc32(entry.data);
+    const offset = body.length;
+
+    // Version 2.0, UTF-8 names, stored, dated 1980-01-01 so builds are reproducible
+    const common =
+      uint16(20) + uint16(0x0800) + uint16(0) + uint16(0) + uint16(0x21) +
+      uint32(checksum) + uint32(entry.data.length) + uint32(entry.data.length) +
+      uint16(name.length) + uint16(0);
+
+    body += uint32(0x04034b50) + common + name + entry.data;
+    centralDirectory +=
+      uint32(0x02014b50) + uint16(20) + common +
+      uint16(0) + uint16(0) + uint16(0) + uint32(0) + uint32(offset) + name;
+  });
+
+  const end =
+    uint32(0x06054b50) + uint16(0) + uint16(0) +
+    uint16(entries.length) + uint16(entries.length) +
+    uint32(centralDirectory.length) + uint32(body.length) + uint16(0);
+
+  return body + centralDirectory + end;
+};